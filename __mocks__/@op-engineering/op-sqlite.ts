@@ -0,0 +1,189 @@
+/* Test double for op-sqlite: the same async API on top of better-sqlite3, with sqlite-vec loaded like the app's build (see the op-sqlite config in package.json).
+ * Databases are files in a temporary directory, removed after every test. SQLCipher is emulated: the key a file was created
+ * with is recorded in its header (as the application_id, which copies such as VACUUM INTO carry along), and a connection
+ * opened with another key fails on every statement, like SQLCipher's "file is not a database" */
+
+import Database from 'better-sqlite3'
+import * as sqliteVec from 'sqlite-vec'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+type Row = Record<string, unknown>
+
+interface QueryResult {
+  rows: Row[]
+  rowsAffected: number
+  insertId?: number
+}
+
+interface Transaction {
+  execute(sql: string, params?: unknown[]): Promise<QueryResult>
+}
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'memoriq-db-'))
+// Each test starts without databases; every test file gets its own copy of this module
+afterEach(() => {
+  for (const name of fs.readdirSync(root)) {
+    fs.rmSync(path.join(root, name), { force: true })
+  }
+})
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }))
+
+const ATTACH_WITH_KEY = /^\s*ATTACH DATABASE \? AS (\w+) KEY \?\s*$/i
+const ATTACH = /^\s*ATTACH DATABASE \? AS (\w+)\s*$/i
+const EXPORT = /^\s*SELECT sqlcipher_export\('(\w+)'\)\s*$/i
+const REKEY = /^\s*PRAGMA rekey = '((?:[^']|'')*)'\s*$/i
+
+/* Stand-in for the key a file is encrypted with: a non-zero 32-bit hash of it, 0 for plaintext */
+function keyId(key: string | undefined): number {
+  if (!key) return 0
+  let hash = 0
+  for (let i = 0; i < key.length; i++) {
+    hash = (Math.imul(hash, 31) + key.charCodeAt(i)) | 0
+  }
+  return hash || 1
+}
+
+/* op-sqlite binds whole numbers as integers and blobs from any buffer; better-sqlite3 binds numbers as REAL */
+function toSqlite(value: unknown): unknown {
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return BigInt(value)
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1n : 0n
+  }
+  if (value instanceof ArrayBuffer) {
+    return Buffer.from(value)
+  }
+  if (ArrayBuffer.isView(value)) {
+    return Buffer.from(value.buffer, value.byteOffset, value.byteLength)
+  }
+  return value === undefined ? null : value
+}
+
+/* op-sqlite returns blobs as ArrayBuffers */
+function fromSqlite(row: Row): Row {
+  for (const [key, value] of Object.entries(row)) {
+    if (Buffer.isBuffer(value)) {
+      row[key] = value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength)
+    }
+  }
+  return row
+}
+
+function executeSync(db: Database.Database, sql: string, params: unknown[] = []): QueryResult {
+  let statement: Database.Statement
+  try {
+    statement = db.prepare(sql)
+  } catch (error) {
+    // op-sqlite runs every statement of a script; better-sqlite3 only does that without parameters
+    if (params.length === 0 && (error as Error).name === 'RangeError') {
+      db.exec(sql)
+      return { rows: [], rowsAffected: 0 }
+    }
+    throw error
+  }
+  const values = params.map(toSqlite)
+  if (statement.reader) {
+    return { rows: (statement.all(...values) as Row[]).map(fromSqlite), rowsAffected: 0 }
+  }
+  const info = statement.run(...values)
+  return { rows: [], rowsAffected: info.changes, insertId: Number(info.lastInsertRowid) }
+}
+
+/* Key a database file (main or attached) was created with; a file without pages yet takes the given one */
+function claimKey(db: Database.Database, schema: string, id: number): void {
+  if (db.pragma(`${schema}.page_count`, { simple: true }) === 0) {
+    if (id !== 0) db.pragma(`${schema}.application_id = ${id}`)
+    return
+  }
+  if (db.pragma(`${schema}.application_id`, { simple: true }) !== id) {
+    throw new Error('file is not a database')
+  }
+}
+
+export function open({ name, encryptionKey }: { name: string; encryptionKey?: string; location?: string }) {
+  const file = path.join(root, name)
+  const db = new Database(file)
+  sqliteVec.load(db)
+  // Attached databases opened with their own key, for sqlcipher_export()
+  const attached = new Map<string, { file: string; id: number }>()
+  let keyError: Error | null = null
+  try {
+    claimKey(db, 'main', keyId(encryptionKey))
+  } catch (error) {
+    keyError = error as Error
+  }
+
+  /* Run a statement, handling the SQLCipher-only ones */
+  function run(sql: string, params: unknown[] = []): QueryResult {
+    if (keyError) {
+      throw keyError
+    }
+    const withKey = ATTACH_WITH_KEY.exec(sql)
+    if (withKey) {
+      const [target, key] = params as [string, string]
+      executeSync(db, `ATTACH DATABASE ? AS ${withKey[1]}`, [target])
+      claimKey(db, withKey[1], keyId(key))
+      attached.set(withKey[1], { file: target, id: keyId(key) })
+      return { rows: [], rowsAffected: 0 }
+    }
+    const attach = ATTACH.exec(sql)
+    if (attach) {
+      // Without KEY, SQLCipher opens the attached file with the main database's key
+      executeSync(db, sql, params)
+      claimKey(db, attach[1], db.pragma('application_id', { simple: true }) as number)
+      return { rows: [], rowsAffected: 0 }
+    }
+    const exported = EXPORT.exec(sql)
+    if (exported) {
+      const target = attached.get(exported[1])!
+      db.exec(`DETACH DATABASE ${exported[1]}`)
+      fs.rmSync(target.file, { force: true })
+      executeSync(db, 'VACUUM INTO ?', [target.file])
+      executeSync(db, `ATTACH DATABASE ? AS ${exported[1]}`, [target.file])
+      db.pragma(`${exported[1]}.application_id = ${target.id}`)
+      return { rows: [{ sqlcipher_export: null }], rowsAffected: 0 }
+    }
+    const rekey = REKEY.exec(sql)
+    if (rekey) {
+      db.pragma(`application_id = ${keyId(rekey[1].replace(/''/g, "'"))}`)
+      return { rows: [], rowsAffected: 0 }
+    }
+    return executeSync(db, sql, params)
+  }
+
+  // Transactions run one after another, like op-sqlite's transaction queue
+  let queue: Promise<unknown> = Promise.resolve()
+
+  return {
+    execute: async (sql: string, params?: unknown[]) => run(sql, params),
+    executeSync: (sql: string, params?: unknown[]) => run(sql, params),
+    transaction(fn: (tx: Transaction) => Promise<void>): Promise<void> {
+      const result = queue.then(async () => {
+        run('BEGIN')
+        try {
+          await fn({ execute: async (sql, params) => run(sql, params) })
+          db.exec('COMMIT')
+        } catch (error) {
+          db.exec('ROLLBACK')
+          throw error
+        }
+      })
+      queue = result.catch(() => {})
+      return result
+    },
+    getDbPath: () => file,
+    close: () => db.close(),
+    delete: () => {
+      db.close()
+      for (const suffix of ['', '-wal', '-shm', '-journal']) {
+        fs.rmSync(file + suffix, { force: true })
+      }
+    },
+  }
+}
+
+export type DB = ReturnType<typeof open>
+export type { QueryResult, Transaction }
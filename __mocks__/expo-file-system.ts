@@ -0,0 +1,131 @@
+/* Test double for expo-file-system's File, Directory and Paths, backed by a temporary directory on the host */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as nodePath from 'path'
+
+const root = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'memoriq-test-'))
+// Each test file gets its own copy of this module, loaded while the file's tests are collected
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }))
+
+type PathPart = string | File | Directory
+
+/* Join URIs, paths and entries the way expo-file-system's constructors do */
+function resolvePath(parts: PathPart[]): string {
+  const segments = parts.map((part) =>
+    typeof part === 'string' ? decodeURI(part.replace(/^file:\/\//, '')) : part.path
+  )
+  return nodePath.join(...segments)
+}
+
+class Entry {
+  path: string
+
+  constructor(...parts: PathPart[]) {
+    this.path = resolvePath(parts)
+  }
+
+  get uri(): string {
+    return `file://${encodeURI(this.path)}`
+  }
+
+  get name(): string {
+    return nodePath.basename(this.path)
+  }
+
+  get exists(): boolean {
+    return fs.existsSync(this.path)
+  }
+
+  get modificationTime(): number | null {
+    return this.exists ? fs.statSync(this.path).mtimeMs : null
+  }
+
+  get parentDirectory(): Directory {
+    return new Directory(nodePath.dirname(this.path))
+  }
+
+  delete(): void {
+    fs.rmSync(this.path, { recursive: true })
+  }
+}
+
+export class File extends Entry {
+  get size(): number {
+    return this.exists ? fs.statSync(this.path).size : 0
+  }
+
+  get extension(): string {
+    return nodePath.extname(this.path)
+  }
+
+  create(): void {
+    fs.mkdirSync(nodePath.dirname(this.path), { recursive: true })
+    fs.writeFileSync(this.path, '')
+  }
+
+  write(content: string | Uint8Array, options: { encoding?: 'utf8' | 'base64' } = {}): void {
+    fs.writeFileSync(this.path, typeof content === 'string' ? Buffer.from(content, options.encoding ?? 'utf8') : content)
+  }
+
+  text(): Promise<string> {
+    return Promise.resolve(this.textSync())
+  }
+
+  textSync(): string {
+    return fs.readFileSync(this.path, 'utf8')
+  }
+
+  bytes(): Promise<Uint8Array> {
+    return Promise.resolve(this.bytesSync())
+  }
+
+  bytesSync(): Uint8Array {
+    return new Uint8Array(fs.readFileSync(this.path))
+  }
+
+  base64Sync(): string {
+    return fs.readFileSync(this.path).toString('base64')
+  }
+
+  copy(destination: File | Directory): void {
+    fs.copyFileSync(this.path, destination instanceof Directory ? nodePath.join(destination.path, this.name) : destination.path)
+  }
+
+  move(destination: File | Directory): void {
+    const target = destination instanceof Directory ? nodePath.join(destination.path, this.name) : destination.path
+    fs.renameSync(this.path, target)
+    this.path = target
+  }
+}
+
+export class Directory extends Entry {
+  create(options: { intermediates?: boolean; idempotent?: boolean } = {}): void {
+    fs.mkdirSync(this.path, { recursive: options.intermediates || options.idempotent })
+  }
+
+  createFile(name: string, _mimeType: string | null): File {
+    const file = new File(this.path, name)
+    file.create()
+    return file
+  }
+
+  createDirectory(name: string): Directory {
+    const directory = new Directory(this.path, name)
+    directory.create()
+    return directory
+  }
+
+  list(): Array<File | Directory> {
+    return fs.readdirSync(this.path, { withFileTypes: true }).map((entry) =>
+      entry.isDirectory() ? new Directory(this.path, entry.name) : new File(this.path, entry.name)
+    )
+  }
+}
+
+export const Paths = {
+  document: new Directory(root, 'document'),
+  cache: new Directory(root, 'cache'),
+}
+Paths.document.create({ idempotent: true })
+Paths.cache.create({ idempotent: true })
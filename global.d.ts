@@ -1 +1,20 @@
 /// <reference types="nativewind/types" />
+
+// The package's own typings are declared under its original name (react-native-live-audio-stream)
+declare module '@fugood/react-native-audio-pcm-stream' {
+  interface LiveAudioStreamOptions {
+    sampleRate: number
+    channels: number // 1 or 2
+    bitsPerSample: number // 8 or 16
+    audioSource?: number // Android MediaRecorder.AudioSource
+    bufferSize?: number
+  }
+
+  const LiveAudioStream: {
+    init(options: LiveAudioStreamOptions): void
+    start(): void
+    stop(): Promise<void>
+    on(event: 'data', callback: (data: string) => void): void // Base64-encoded PCM chunks
+  }
+  export default LiveAudioStream
+}
@@ -0,0 +1,179 @@
+/* Benchmark the in-memory vector index (src/lib/vectorIndex.ts) against the per-query approach it replaced:
+ * decoding every embedding blob and computing a cosine for each row. Runs in Node over synthetic data:
+ *
+ *   npm run benchmark:vectors [-- --notes 10000 --queries 50]
+ */
+
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { performance } from 'node:perf_hooks'
+import ts from 'typescript'
+
+const args = process.argv.slice(2)
+const option = (name, fallback) => {
+  const at = args.indexOf(`--${name}`)
+  return at >= 0 ? Number(args[at + 1]) : fallback
+}
+
+const CONFIG = {
+  NOTES: option('notes', 10000),
+  CHUNKS_PER_NOTE: 2,            // Long and short notes average out to about two passages
+  IMAGES_PER_NOTE: 1,
+  DIMENSIONS: 768,               // embeddinggemma-300m
+  QUERIES: option('queries', 50),
+  BASELINE_QUERIES: 5,           // The old path is slow; a few runs give a stable average
+  THRESHOLD: 0.5,
+  TOP_K: 10,
+}
+
+/* The app is TypeScript built by Metro; transpile the module on the fly so this script needs no build step */
+async function loadVectorIndexModule() {
+  const path = fileURLToPath(new URL('../src/lib/vectorIndex.ts', import.meta.url))
+  const { outputText } = ts.transpileModule(readFileSync(path, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+  })
+  return import(`data:text/javascript;base64,${Buffer.from(outputText).toString('base64')}`)
+}
+
+/* Deterministic PRNG (mulberry32), so runs are comparable */
+function createRandom(seed) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const random = createRandom(42)
+const randomVector = () => Float32Array.from({ length: CONFIG.DIMENSIONS }, () => random() * 2 - 1)
+
+/* A vector near another one, like a query about a stored memory */
+function nearVector(base, noise) {
+  return Float32Array.from(base, (value) => value + (random() * 2 - 1) * noise)
+}
+
+/* Synthetic embedding rows shaped like the database returns them: a blob per row */
+function createRows() {
+  const rows = []
+  for (let noteId = 1; noteId <= CONFIG.NOTES; noteId++) {
+    const noteVector = randomVector()
+    const kinds = [
+      ['note', 1],
+      ['chunk', CONFIG.CHUNKS_PER_NOTE],
+      ['image', CONFIG.IMAGES_PER_NOTE],
+    ]
+    for (const [kind, count] of kinds) {
+      for (let i = 0; i < count; i++) {
+        // Passages and photos of a note are related to it, not identical
+        const embedding = kind === 'note' ? noteVector : nearVector(noteVector, 0.8)
+        rows.push({ noteId, kind, rowId: rows.length + 1, embedding: new Uint8Array(embedding.buffer) })
+      }
+    }
+  }
+  return rows
+}
+
+/* The replaced per-query path: decode each blob, cosine against the query, keep the best score per note */
+function baselineSearch(rows, query, blobToEmbedding) {
+  const best = new Map()
+  for (const row of rows) {
+    const vector = blobToEmbedding(row.embedding)
+    let dot = 0
+    let normA = 0
+    let normB = 0
+    for (let i = 0; i < query.length; i++) {
+      dot += query[i] * vector[i]
+      normA += query[i] * query[i]
+      normB += vector[i] * vector[i]
+    }
+    const score = dot / (Math.sqrt(normA) * Math.sqrt(normB))
+    if (score >= CONFIG.THRESHOLD && score > (best.get(row.noteId) ?? -Infinity)) {
+      best.set(row.noteId, score)
+    }
+  }
+  return Array.from(best.entries()).sort((a, b) => b[1] - a[1])
+}
+
+/* Best score per note from index hits (they come sorted, so the first hit per note is its best) */
+function bestPerNote(hits) {
+  const best = new Map()
+  for (const { entry, score } of hits) {
+    if (!best.has(entry.noteId)) {
+      best.set(entry.noteId, score)
+    }
+  }
+  return Array.from(best.entries())
+}
+
+function summarize(label, timings) {
+  const sorted = [...timings].sort((a, b) => a - b)
+  const mean = sorted.reduce((sum, t) => sum + t, 0) / sorted.length
+  const p95 = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))]
+  console.log(`${label.padEnd(32)} mean ${mean.toFixed(2).padStart(8)} ms   p95 ${p95.toFixed(2).padStart(8)} ms   (${sorted.length} runs)`)
+  return mean
+}
+
+async function main() {
+  const { VectorIndex, blobToEmbedding } = await loadVectorIndexModule()
+
+  const rows = createRows()
+  console.log(`${CONFIG.NOTES} notes, ${rows.length} vectors of ${CONFIG.DIMENSIONS} dimensions\n`)
+
+  // Queries close to random stored vectors, so searches have real matches above the threshold
+  const queries = Array.from({ length: CONFIG.QUERIES }, () => {
+    const row = rows[Math.floor(random() * rows.length)]
+    return nearVector(blobToEmbedding(row.embedding), 0.6)
+  })
+
+  let start = performance.now()
+  const index = new VectorIndex(CONFIG.DIMENSIONS, rows.length)
+  for (const row of rows) {
+    index.upsert(`${row.kind}:${row.rowId}`, blobToEmbedding(row.embedding), { noteId: row.noteId, kind: row.kind, rowId: row.rowId })
+  }
+  console.log(`${'Index build (once per session)'.padEnd(32)} ${(performance.now() - start).toFixed(2).padStart(13)} ms\n`)
+
+  const baselineTimings = []
+  const baselineResults = []
+  for (const query of queries.slice(0, CONFIG.BASELINE_QUERIES)) {
+    start = performance.now()
+    baselineResults.push(baselineSearch(rows, query, blobToEmbedding))
+    baselineTimings.push(performance.now() - start)
+  }
+
+  const indexTimings = []
+  const indexResults = []
+  for (const query of queries) {
+    start = performance.now()
+    indexResults.push(bestPerNote(index.search(query, { threshold: CONFIG.THRESHOLD })))
+    indexTimings.push(performance.now() - start)
+  }
+
+  const topKTimings = []
+  for (const query of queries) {
+    start = performance.now()
+    index.search(query, { topK: CONFIG.TOP_K })
+    topKTimings.push(performance.now() - start)
+  }
+
+  const baselineMean = summarize('Decode + cosine per query', baselineTimings)
+  const indexMean = summarize('Index, threshold search', indexTimings)
+  summarize(`Index, top-${CONFIG.TOP_K} search`, topKTimings)
+  console.log(`\nSpeed-up: ${(baselineMean / indexMean).toFixed(1)}x`)
+
+  // Both paths must rank the same notes (scores differ only by float32 rounding)
+  const mismatches = baselineResults.filter((expected, i) => {
+    const actual = indexResults[i]
+    return expected.length !== actual.length
+      || expected.some(([noteId, score], rank) => actual[rank][0] !== noteId && Math.abs(actual[rank][1] - score) > 1e-5)
+  })
+  console.log(mismatches.length === 0
+    ? `Results match the baseline on ${baselineResults.length} queries`
+    : `Results differ from the baseline on ${mismatches.length} of ${baselineResults.length} queries`)
+  process.exitCode = mismatches.length === 0 ? 0 : 1
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exitCode = 1
+})
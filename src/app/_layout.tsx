@@ -5,9 +5,18 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { cn } from "../lib/utils";
 import { AppProvider, useApp } from "../lib/appContext";
+import LockScreen from "../components/LockScreen";
 
 function AppGate() {
-  const { dbReady, modelsReady, downloadProgress, error } = useApp()
+  const { lockState, dbReady, modelsReady, downloadProgress, error } = useApp()
+
+  // Nothing below this point can read user data until the PIN opens the keyring
+  if (lockState === "checking") {
+    return <View className={cn("flex-1 bg-emerald-700")} />
+  }
+  if (lockState !== "unlocked") {
+    return <LockScreen />
+  }
 
   if (!dbReady || !modelsReady) {
     const progressPercentage = Math.round(downloadProgress)
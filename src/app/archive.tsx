@@ -0,0 +1,190 @@
+import { useState } from "react"
+import { View, Text, ScrollView, TouchableOpacity, Switch, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { Directory } from "expo-file-system"
+import { Feather } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { exportArchive, readArchive, importArchive, type ImportReport, type ArchiveIdMapping } from "../lib/memoryArchive"
+
+const KIND_LABELS: Record<ArchiveIdMapping["kind"], string> = {
+  note: "Note",
+  tag: "Tag",
+  person: "Person",
+  place: "Place",
+  collection: "Collection",
+}
+
+const STATUS_LABELS: Record<ArchiveIdMapping["status"], string> = {
+  created: "added",
+  matched: "merged with existing",
+  duplicate: "already here, skipped",
+}
+
+export default function ArchivePage() {
+  const [includeEmbeddings, setIncludeEmbeddings] = useState(true)
+  const [busy, setBusy] = useState<"export" | "import" | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [showMappings, setShowMappings] = useState(false)
+
+  const handleExport = async () => {
+    let destination: Directory
+    try {
+      destination = new Directory((await Directory.pickDirectoryAsync()).uri)
+    } catch (error) {
+      return // Picker cancelled
+    }
+
+    setBusy("export")
+    try {
+      const result = await exportArchive(destination, { includeEmbeddings })
+      const missing = result.missingMediaCount > 0
+        ? `\n\n${result.missingMediaCount} attachments could not be found on this device and were left out.`
+        : ""
+      Alert.alert(
+        "Export Complete",
+        `Saved ${result.noteCount} notes and ${result.mediaCount} photos and recordings to the folder ${result.folder.name}.${missing}`
+      )
+    } catch (error) {
+      Alert.alert("Error", "Failed to export your memories")
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleImport = async () => {
+    let folder: Directory
+    try {
+      folder = new Directory((await Directory.pickDirectoryAsync()).uri)
+    } catch (error) {
+      return // Picker cancelled
+    }
+
+    setBusy("import")
+    try {
+      const archive = await readArchive(folder)
+      setReport(await importArchive(archive, folder))
+      setShowMappings(false)
+    } catch (error) {
+      Alert.alert("Import Failed", error instanceof Error ? error.message : "Failed to import this archive")
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const countByStatus = (status: ArchiveIdMapping["status"], kind?: ArchiveIdMapping["kind"]) =>
+    report ? report.mappings.filter((mapping) => mapping.status === status && (!kind || mapping.kind === kind)).length : 0
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title="Export & Import" backPath="/settings" />
+
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          {/* Export Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium mb-2")}> Export </Text>
+            <Text className={cn("text-gray-500 text-sm mb-4")}>
+              Save all notes, tags, people, places, collections, photos, recordings and transcripts into a folder you can keep somewhere safe.
+            </Text>
+            <View className={cn("flex-row items-center justify-between mb-4")}>
+              <View className={cn("flex-1 mr-3")}>
+                <Text className={cn("text-gray-800 text-base")}> Include search data </Text>
+                <Text className={cn("text-gray-500 text-sm")}> Larger file, but no re-processing after import </Text>
+              </View>
+              <Switch
+                value={includeEmbeddings}
+                onValueChange={setIncludeEmbeddings}
+                trackColor={{ true: "#10B981" }}
+                accessibilityLabel="Include search data"
+              />
+            </View>
+            <TouchableOpacity
+              onPress={handleExport}
+              disabled={busy !== null}
+              className={cn("flex-row items-center justify-center bg-emerald-600 rounded-xl py-3")}
+              style={{ opacity: busy === null ? 1 : 0.5 }}
+              accessibilityLabel="Export memories"
+              accessibilityRole="button"
+            >
+              {busy === "export" ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <>
+                  <Feather name="upload" size={18} color="white" />
+                  <Text className={cn("text-white text-base font-semibold ml-2")}> Export Memories </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {/* Import Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium mb-2")}> Import </Text>
+            <Text className={cn("text-gray-500 text-sm mb-4")}>
+              Add memories from an exported archive folder. Notes that are already here are skipped, and matching tags, people, places and collections are merged.
+            </Text>
+            <TouchableOpacity
+              onPress={handleImport}
+              disabled={busy !== null}
+              className={cn("flex-row items-center justify-center bg-gray-200 rounded-xl py-3")}
+              style={{ opacity: busy === null ? 1 : 0.5 }}
+              accessibilityLabel="Import memories"
+              accessibilityRole="button"
+            >
+              {busy === "import" ? (
+                <ActivityIndicator color="#374151" />
+              ) : (
+                <>
+                  <Feather name="download" size={18} color="#374151" />
+                  <Text className={cn("text-gray-700 text-base font-semibold ml-2")}> Import Memories </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {/* Import Report */}
+          {report && (
+            <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+              <Text className={cn("text-gray-700 text-lg font-medium mb-3")}> Import Report </Text>
+              <Text className={cn("text-gray-800 text-base mb-1")}> {report.notesImported} notes added </Text>
+              <Text className={cn("text-gray-800 text-base mb-1")}> {report.notesSkipped} notes already here, skipped </Text>
+              <Text className={cn("text-gray-800 text-base mb-1")}>
+                {countByStatus("created", "tag")} new tags, {countByStatus("matched", "tag")} merged
+              </Text>
+              <Text className={cn("text-gray-800 text-base mb-1")}>
+                {countByStatus("created", "person")} new people, {countByStatus("matched", "person")} merged
+              </Text>
+              <Text className={cn("text-gray-800 text-base mb-1")}>
+                {countByStatus("created", "place")} new places, {countByStatus("matched", "place")} merged
+              </Text>
+              <Text className={cn("text-gray-800 text-base mb-3")}>
+                {countByStatus("created", "collection")} new collections, {countByStatus("matched", "collection")} merged
+              </Text>
+
+              <TouchableOpacity
+                onPress={() => setShowMappings(!showMappings)}
+                className={cn("flex-row items-center")}
+                accessibilityRole="button"
+                accessibilityState={{ expanded: showMappings }}
+              >
+                <Feather name={showMappings ? "chevron-up" : "chevron-down"} size={18} color="#10B981" />
+                <Text className={cn("text-emerald-700 font-medium ml-1")}> {showMappings ? "Hide" : "Show"} ID details </Text>
+              </TouchableOpacity>
+
+              {showMappings && (
+                <View className={cn("mt-3")}>
+                  {report.mappings.map((mapping) => (
+                    <Text key={`${mapping.kind}-${mapping.archiveId}`} className={cn("text-gray-600 text-sm mb-1")}>
+                      {KIND_LABELS[mapping.kind]} “{mapping.label}”: #{mapping.archiveId} → #{mapping.localId} ({STATUS_LABELS[mapping.status]})
+                    </Text>
+                  ))}
+                </View>
+              )}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
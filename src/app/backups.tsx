@@ -0,0 +1,228 @@
+import { useState, useCallback } from "react"
+import { View, Text, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useRouter, useFocusEffect } from "expo-router"
+import { Feather } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { listBackups, createBackup, verifyBackup, restoreBackup, pruneBackups, type BackupSummary } from "../lib/backups"
+import { getSettings, updateSettings } from "../database/settingsOperations"
+import { type AppSettings, type BackupFrequency } from "../database/types"
+
+const FREQUENCY_OPTIONS: Array<{ value: BackupFrequency; label: string }> = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "off", label: "Off" },
+]
+const RETENTION_OPTIONS = [3, 7, 14, 30]
+
+const REASON_LABELS: Record<BackupSummary["reason"], string> = {
+  scheduled: "Automatic",
+  manual: "Manual",
+  "before-restore": "Before restore",
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("en-US", { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" })
+
+export default function BackupsPage() {
+  const router = useRouter()
+  const [backups, setBackups] = useState<BackupSummary[]>([])
+  const [settings, setSettings] = useState<AppSettings | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const load = async () => {
+    try {
+      setSettings(await getSettings())
+      setBackups(listBackups())
+    } catch (error) {
+      Alert.alert("Error", "Failed to load backups")
+    }
+  }
+
+  useFocusEffect(
+    useCallback(() => {
+      load()
+    }, [])
+  )
+
+  const changeSettings = async (changes: Partial<AppSettings>) => {
+    try {
+      await updateSettings(changes)
+      const next = await getSettings()
+      setSettings(next)
+      if (changes.backupRetention !== undefined) {
+        pruneBackups(next.backupRetention)
+        setBackups(listBackups())
+      }
+    } catch (error) {
+      Alert.alert("Error", "Failed to save backup settings")
+    }
+  }
+
+  const handleBackUpNow = async () => {
+    setBusyId("new")
+    try {
+      await createBackup("manual")
+      if (settings) {
+        pruneBackups(settings.backupRetention)
+      }
+      setBackups(listBackups())
+    } catch (error) {
+      Alert.alert("Error", "Failed to create a backup")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleVerify = async (backup: BackupSummary) => {
+    setBusyId(backup.id)
+    try {
+      const result = await verifyBackup(backup.id)
+      Alert.alert(
+        result.ok ? "Backup OK" : "Backup Has Problems",
+        result.ok ? "This backup is complete and can be restored." : result.problems.join("\n")
+      )
+    } catch (error) {
+      Alert.alert("Error", "Failed to check this backup")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRestore = (backup: BackupSummary) => {
+    Alert.alert(
+      "Restore Backup",
+      `Replace all current notes, people and places with the backup from ${formatDate(backup.createdAt)}? Your current data is backed up first, so you can undo this.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Restore",
+          style: "destructive",
+          onPress: async () => {
+            setBusyId(backup.id)
+            try {
+              await restoreBackup(backup.id)
+              Alert.alert("Backup Restored", "Your memories have been restored.")
+              router.replace("/")
+            } catch (error) {
+              Alert.alert("Restore Failed", error instanceof Error ? error.message : "Failed to restore this backup")
+              setBackups(listBackups())
+            } finally {
+              setBusyId(null)
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const chip = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      className={cn("px-3 py-2 rounded-full border", selected ? "bg-emerald-50 border-emerald-600" : "bg-white border-gray-300")}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text className={cn("text-sm font-medium", selected ? "text-emerald-700" : "text-gray-600")}> {label} </Text>
+    </TouchableOpacity>
+  )
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title="Backups" backPath="/settings" />
+
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          {/* Schedule Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium mb-2")}> Automatic Backups </Text>
+            <Text className={cn("text-gray-500 text-sm mb-3")}> Backups stay on this device and are encrypted like the rest of your memories. </Text>
+            {settings && (
+              <>
+                <Text className={cn("text-gray-700 text-sm font-medium mb-2")}> How often </Text>
+                <View className={cn("flex-row flex-wrap gap-2 mb-4")}>
+                  {FREQUENCY_OPTIONS.map((option) =>
+                    chip(option.label, settings.backupFrequency === option.value, () => changeSettings({ backupFrequency: option.value }))
+                  )}
+                </View>
+                <Text className={cn("text-gray-700 text-sm font-medium mb-2")}> Keep the last </Text>
+                <View className={cn("flex-row flex-wrap gap-2 mb-4")}>
+                  {RETENTION_OPTIONS.map((count) =>
+                    chip(`${count}`, settings.backupRetention === count, () => changeSettings({ backupRetention: count }))
+                  )}
+                </View>
+              </>
+            )}
+            <TouchableOpacity
+              onPress={handleBackUpNow}
+              disabled={busyId !== null}
+              className={cn("flex-row items-center justify-center bg-emerald-600 rounded-xl py-3")}
+              style={{ opacity: busyId === null ? 1 : 0.5 }}
+              accessibilityLabel="Back up now"
+              accessibilityRole="button"
+            >
+              {busyId === "new" ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <>
+                  <Feather name="save" size={18} color="white" />
+                  <Text className={cn("text-white text-base font-semibold ml-2")}> Back Up Now </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {backups.length === 0 ? (
+            <View className={cn("items-center justify-center py-16")}>
+              <Feather name="hard-drive" size={48} color="#d1d5db" />
+              <Text className={cn("text-gray-500 text-lg text-center mt-4")}> No backups yet </Text>
+            </View>
+          ) : (
+            backups.map((backup) => (
+              <View key={backup.id} className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-3")}>
+                <View className={cn("flex-row items-center justify-between mb-1")}>
+                  <Text className={cn("text-gray-900 font-semibold text-base")}> {formatDate(backup.createdAt)} </Text>
+                  <Text className={cn("text-gray-500 text-xs")}> {REASON_LABELS[backup.reason]} </Text>
+                </View>
+                <Text className={cn("text-gray-600 text-sm mb-3")}>
+                  {backup.noteCount} {backup.noteCount === 1 ? "note" : "notes"} • {backup.mediaCount} photos and recordings • {formatSize(backup.size)}
+                </Text>
+                {busyId === backup.id ? (
+                  <ActivityIndicator color="#10B981" />
+                ) : (
+                  <View className={cn("flex-row gap-3")}>
+                    <TouchableOpacity
+                      onPress={() => handleVerify(backup)}
+                      disabled={busyId !== null}
+                      className={cn("flex-1 flex-row items-center justify-center bg-gray-200 rounded-xl py-2")}
+                      accessibilityLabel={`Verify backup from ${formatDate(backup.createdAt)}`}
+                      accessibilityRole="button"
+                    >
+                      <Feather name="check-circle" size={16} color="#374151" />
+                      <Text className={cn("text-gray-700 font-semibold ml-2")}> Verify </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => handleRestore(backup)}
+                      disabled={busyId !== null}
+                      className={cn("flex-1 flex-row items-center justify-center bg-emerald-600 rounded-xl py-2")}
+                      accessibilityLabel={`Restore backup from ${formatDate(backup.createdAt)}`}
+                      accessibilityRole="button"
+                    >
+                      <Feather name="rotate-ccw" size={16} color="white" />
+                      <Text className={cn("text-white font-semibold ml-2")}> Restore </Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
@@ -213,7 +213,7 @@ export default function ChatPage() {
   }
 
   // Check if models are ready from AppContext
-  const { modelsReady } = useApp()
+  const { modelsReady, reindexProgress } = useApp()
 
   if (!modelsReady) {
     return (
@@ -235,6 +235,16 @@ export default function ChatPage() {
     <SafeAreaView className={cn("flex-1 bg-gray-50")}>
       <Header title="Chat with Memories" backPath="/" />
 
+      {/* Memories not yet re-indexed for the current embedding model are missing from answers */}
+      {reindexProgress && (
+        <View className={cn("flex-row items-center bg-emerald-50 border-b border-emerald-100 px-4 py-2")}>
+          <ActivityIndicator size="small" color="#10B981" />
+          <Text className={cn("text-emerald-700 text-sm ml-2 flex-1")}>
+            Updating memory search: {reindexProgress.done} of {reindexProgress.total} memories
+          </Text>
+        </View>
+      )}
+
       <View className={cn("flex-1")}>
         {/* Messages */}
         <ScrollView
@@ -0,0 +1,267 @@
+import { useState, useCallback } from "react"
+import { View, Text, ScrollView, TouchableOpacity, Image, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useRouter, useLocalSearchParams, useFocusEffect } from "expo-router"
+import { Feather, Ionicons } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { displayUri } from "../lib/mediaStore"
+import {
+  getCollectionById,
+  deleteCollection,
+  addNotesToCollection,
+  removeNoteFromCollection,
+  reorderCollection,
+} from "../database/collectionsOperations"
+import { getAllNotes, getNotesInCollection } from "../database/notesOperations"
+import { type Collection, type NoteWithDetails } from "../database/types"
+
+export default function CollectionPage() {
+  const [collection, setCollection] = useState<Collection | null>(null)
+  const [notes, setNotes] = useState<NoteWithDetails[]>([])
+  const [otherNotes, setOtherNotes] = useState<NoteWithDetails[]>([])
+  const [adding, setAdding] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const router = useRouter()
+  const params = useLocalSearchParams()
+  const collectionId = parseInt(params.id as string)
+
+  const loadCollection = async () => {
+    const loadedCollection = await getCollectionById(collectionId)
+    if (!loadedCollection) {
+      Alert.alert("Error", "Collection not found")
+      router.back()
+      return
+    }
+    const [collectionNotes, allNotes] = await Promise.all([getNotesInCollection(collectionId), getAllNotes()])
+    const inCollection = new Set(collectionNotes.map((note) => note.id))
+    setCollection(loadedCollection)
+    setNotes(collectionNotes)
+    setOtherNotes(allNotes.filter((note) => !inCollection.has(note.id)))
+  }
+
+  // Reload on focus so edits made in editCollection or to the notes show up
+  useFocusEffect(
+    useCallback(() => {
+      loadCollection()
+        .catch(() => Alert.alert("Error", "Failed to load collection"))
+        .finally(() => setLoading(false))
+    }, [collectionId])
+  )
+
+  // Run a change, then reload so order and membership stay accurate
+  const runChange = async (change: () => Promise<void>, fallbackMessage: string) => {
+    try {
+      await change()
+      await loadCollection()
+    } catch (error) {
+      Alert.alert("Error", fallbackMessage)
+    }
+  }
+
+  const moveNote = (index: number, offset: -1 | 1) => {
+    const target = index + offset
+    if (target < 0 || target >= notes.length) return
+    const ids = notes.map((note) => note.id)
+    ;[ids[index], ids[target]] = [ids[target], ids[index]]
+    runChange(() => reorderCollection(collectionId, ids), "Failed to reorder collection")
+  }
+
+  const handleRemove = (note: NoteWithDetails) => {
+    runChange(() => removeNoteFromCollection(collectionId, note.id), "Failed to remove note from collection")
+  }
+
+  const handleAdd = (note: NoteWithDetails) => {
+    runChange(() => addNotesToCollection(collectionId, [note.id]), "Failed to add note to collection")
+  }
+
+  const handleDelete = () => {
+    if (!collection) return
+    Alert.alert(
+      "Delete Collection",
+      `Delete "${collection.name}"? The memories in it are kept.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteCollection(collection.id)
+              router.push("/collections")
+            } catch (error) {
+              Alert.alert("Error", "Failed to delete collection")
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  if (loading || !collection) {
+    return (
+      <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+        <Header title="Collection" backPath="/collections" />
+        <View className={cn("flex-1 items-center justify-center")}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  const cover = collection.coverUri ?? notes.find((note) => note.images.length > 0)?.images[0].uri ?? null
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title={collection.name} backPath="/collections" />
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          {/* Cover Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            {cover ? (
+              <Image source={{ uri: displayUri(cover) }} className={cn("w-full h-44 rounded-xl mb-3")} resizeMode="cover" />
+            ) : (
+              <View className={cn("w-full h-44 rounded-xl bg-emerald-50 items-center justify-center mb-3")}>
+                <Ionicons name="albums-outline" size={48} color="#10B981" />
+              </View>
+            )}
+            <Text className={cn("text-gray-900 font-bold text-2xl")}> {collection.name} </Text>
+            {collection.description && (
+              <Text className={cn("text-gray-600 text-base mt-1 leading-6")}> {collection.description} </Text>
+            )}
+
+            <View className={cn("flex-row gap-3 mt-4")}>
+              <TouchableOpacity
+                onPress={() => router.push(`/reminisce?collectionId=${collection.id}`)}
+                disabled={notes.length === 0}
+                className={cn("flex-1 flex-row items-center justify-center bg-emerald-600 rounded-2xl py-3")}
+                style={{ opacity: notes.length > 0 ? 1 : 0.5 }}
+                accessibilityLabel="Reminisce through this collection"
+                accessibilityRole="button"
+              >
+                <Ionicons name="play-circle-outline" size={20} color="white" />
+                <Text className={cn("text-white font-semibold ml-2")}> Reminisce </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => router.push(`/quiz?collectionId=${collection.id}`)}
+                disabled={notes.length === 0}
+                className={cn("flex-1 flex-row items-center justify-center bg-emerald-600 rounded-2xl py-3")}
+                style={{ opacity: notes.length > 0 ? 1 : 0.5 }}
+                accessibilityLabel="Take a quiz on this collection"
+                accessibilityRole="button"
+              >
+                <Ionicons name="help-circle-outline" size={20} color="white" />
+                <Text className={cn("text-white font-semibold ml-2")}> Quiz </Text>
+              </TouchableOpacity>
+            </View>
+
+            <View className={cn("flex-row gap-3 mt-3")}>
+              <TouchableOpacity
+                onPress={() => router.push(`/editCollection?id=${collection.id}`)}
+                className={cn("flex-1 flex-row items-center justify-center bg-gray-200 rounded-2xl py-3")}
+                accessibilityLabel="Edit collection"
+                accessibilityRole="button"
+              >
+                <Feather name="edit-2" size={18} color="#374151" />
+                <Text className={cn("text-gray-700 font-semibold ml-2")}> Edit </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleDelete}
+                className={cn("flex-1 flex-row items-center justify-center bg-gray-200 rounded-2xl py-3")}
+                accessibilityLabel="Delete collection"
+                accessibilityRole="button"
+              >
+                <Feather name="trash-2" size={18} color="#b91c1c" />
+                <Text className={cn("text-red-700 font-semibold ml-2")}> Delete </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Memories in order */}
+          <View className={cn("flex-row items-center justify-between mb-3")}>
+            <Text className={cn("text-gray-700 text-lg font-medium")}> Memories </Text>
+            <TouchableOpacity
+              onPress={() => setAdding(!adding)}
+              className={cn("flex-row items-center")}
+              accessibilityRole="button"
+              accessibilityState={{ expanded: adding }}
+            >
+              <Feather name={adding ? "x" : "plus"} size={18} color="#10B981" />
+              <Text className={cn("text-emerald-700 font-medium ml-1")}> {adding ? "Done" : "Add memories"} </Text>
+            </TouchableOpacity>
+          </View>
+
+          {adding && (
+            <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+              {otherNotes.length === 0 ? (
+                <Text className={cn("text-gray-500 text-base")}> Every memory is already in this collection </Text>
+              ) : (
+                otherNotes.map((note, index) => (
+                  <TouchableOpacity
+                    key={note.id}
+                    onPress={() => handleAdd(note)}
+                    className={cn("flex-row items-center py-2", index > 0 && "border-t border-gray-100")}
+                    accessibilityLabel={`Add ${note.title} to the collection`}
+                    accessibilityRole="button"
+                  >
+                    <Feather name="plus-circle" size={20} color="#10B981" />
+                    <View className={cn("flex-1 ml-3")}>
+                      <Text className={cn("text-gray-900 text-base")} numberOfLines={1}> {note.title} </Text>
+                      {note.eventDateLabel && <Text className={cn("text-gray-500 text-sm")}> {note.eventDateLabel} </Text>}
+                    </View>
+                  </TouchableOpacity>
+                ))
+              )}
+            </View>
+          )}
+
+          {notes.length === 0 ? (
+            <Text className={cn("text-gray-500 text-base")}> No memories in this collection yet </Text>
+          ) : (
+            notes.map((note, index) => (
+              <View key={note.id} className={cn("flex-row items-center bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-3")}>
+                <TouchableOpacity
+                  onPress={() => router.push(`/viewNote?id=${note.id}`)}
+                  activeOpacity={0.7}
+                  className={cn("flex-1")}
+                  accessibilityRole="button"
+                >
+                  <Text className={cn("text-gray-500 text-sm mb-1")}> {index + 1}. {note.eventDateLabel ?? ""} </Text>
+                  <Text className={cn("text-gray-900 font-semibold text-lg")} numberOfLines={1}> {note.title} </Text>
+                  <Text className={cn("text-gray-600 text-md leading-6")} numberOfLines={2}> {note.content} </Text>
+                </TouchableOpacity>
+                <View className={cn("ml-3 items-center gap-2")}>
+                  <TouchableOpacity
+                    onPress={() => moveNote(index, -1)}
+                    disabled={index === 0}
+                    style={{ opacity: index === 0 ? 0.3 : 1 }}
+                    accessibilityLabel={`Move ${note.title} up`}
+                    accessibilityRole="button"
+                  >
+                    <Feather name="chevron-up" size={22} color="#374151" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleRemove(note)}
+                    accessibilityLabel={`Remove ${note.title} from the collection`}
+                    accessibilityRole="button"
+                  >
+                    <Feather name="x-circle" size={20} color="#b91c1c" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => moveNote(index, 1)}
+                    disabled={index === notes.length - 1}
+                    style={{ opacity: index === notes.length - 1 ? 0.3 : 1 }}
+                    accessibilityLabel={`Move ${note.title} down`}
+                    accessibilityRole="button"
+                  >
+                    <Feather name="chevron-down" size={22} color="#374151" />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
@@ -0,0 +1,107 @@
+import { useState, useCallback } from "react"
+import { View, Text, FlatList, TouchableOpacity, Image, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useRouter, useFocusEffect } from "expo-router"
+import { Feather, Ionicons } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { displayUri } from "../lib/mediaStore"
+import { getAllCollections } from "../database/collectionsOperations"
+import { type CollectionWithNoteCount } from "../database/types"
+
+export default function CollectionsPage() {
+  const [collections, setCollections] = useState<CollectionWithNoteCount[]>([])
+  const [loading, setLoading] = useState(true)
+  const router = useRouter()
+
+  // Reload whenever the screen regains focus (after creating or editing a collection)
+  useFocusEffect(
+    useCallback(() => {
+      let active = true
+      getAllCollections()
+        .then((result) => {
+          if (active) setCollections(result)
+        })
+        .catch(() => Alert.alert("Error", "Failed to load collections"))
+        .finally(() => {
+          if (active) setLoading(false)
+        })
+      return () => {
+        active = false
+      }
+    }, [])
+  )
+
+  const renderItem = useCallback(({ item }: { item: CollectionWithNoteCount }) => {
+    const cover = item.coverUri ?? item.fallbackCoverUri
+    return (
+      <TouchableOpacity
+        onPress={() => router.push(`/collection?id=${item.id}`)}
+        activeOpacity={0.7}
+        className={cn("flex-row items-center bg-white rounded-2xl shadow-sm border border-gray-100 p-4")}
+        accessibilityLabel={`View collection ${item.name}`}
+        accessibilityRole="button"
+      >
+        {cover ? (
+          <Image source={{ uri: displayUri(cover) }} className={cn("w-16 h-16 rounded-xl")} resizeMode="cover" />
+        ) : (
+          <View className={cn("w-16 h-16 rounded-xl bg-emerald-50 items-center justify-center")}>
+            <Ionicons name="albums-outline" size={28} color="#10B981" />
+          </View>
+        )}
+        <View className={cn("flex-1 ml-4")}>
+          <Text className={cn("text-gray-900 font-semibold text-lg")} numberOfLines={1}> {item.name} </Text>
+          {item.description && (
+            <Text className={cn("text-gray-500 text-sm")} numberOfLines={2}> {item.description} </Text>
+          )}
+        </View>
+        <Text className={cn("text-gray-500 text-sm ml-2")}>
+          {item.noteCount} {item.noteCount === 1 ? "memory" : "memories"}
+        </Text>
+      </TouchableOpacity>
+    )
+  }, [])
+
+  if (loading) {
+    return (
+      <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+        <Header title="Collections" backPath="/notes" />
+        <View className={cn("flex-1 items-center justify-center")}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title="Collections" backPath="/notes" />
+      <FlatList
+        data={collections}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={renderItem}
+        contentContainerStyle={{ paddingHorizontal: 16, paddingTop: 16, paddingBottom: 100, gap: 12 }}
+        showsVerticalScrollIndicator={false}
+        accessibilityLabel="Collections list"
+        ListEmptyComponent={
+          <View className={cn("items-center justify-center py-20")}>
+            <Text className={cn("text-gray-500 text-lg text-center")}>
+              {"No collections yet\nTap + to gather memories into a set"}
+            </Text>
+          </View>
+        }
+      />
+
+      {/* Floating Action Button */}
+      <TouchableOpacity
+        onPress={() => router.push("/editCollection")}
+        accessibilityLabel="Create a collection"
+        accessibilityRole="button"
+        className={cn("absolute bottom-24 right-6 bg-emerald-600 rounded-full w-16 h-16 items-center justify-center shadow-xl")}
+        activeOpacity={0.8}
+      >
+        <Feather name="plus" size={30} color="white" />
+      </TouchableOpacity>
+    </SafeAreaView>
+  )
+}
@@ -0,0 +1,190 @@
+import { useState, useEffect } from "react"
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Image, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useRouter, useLocalSearchParams } from "expo-router"
+import * as ImagePicker from "expo-image-picker"
+import { Ionicons } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { displayUri } from "../lib/mediaStore"
+import { createCollection, updateCollection, getCollectionById } from "../database/collectionsOperations"
+
+export default function EditCollection() {
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [coverUri, setCoverUri] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [initialLoading, setInitialLoading] = useState(false)
+  const router = useRouter()
+  const params = useLocalSearchParams()
+  const collectionId = params.id ? parseInt(params.id as string) : null
+
+  // Load existing collection if editing
+  useEffect(() => {
+    async function loadCollection() {
+      if (!collectionId) return
+      setInitialLoading(true)
+      try {
+        const collection = await getCollectionById(collectionId)
+        if (collection) {
+          setName(collection.name)
+          setDescription(collection.description ?? "")
+          setCoverUri(collection.coverUri)
+        } else {
+          Alert.alert("Error", "Collection not found")
+          router.back()
+        }
+      } catch (error) {
+        Alert.alert("Error", "Failed to load collection")
+        router.back()
+      } finally {
+        setInitialLoading(false)
+      }
+    }
+    loadCollection()
+  }, [collectionId])
+
+  const pickCover = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync()
+    if (status !== "granted") {
+      Alert.alert("Permission Denied", "Media library permission is required to select photos")
+      return
+    }
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ["images"],
+        allowsEditing: true,
+        aspect: [4, 3],
+        quality: 0.8,
+      })
+      if (!result.canceled && result.assets[0]) {
+        setCoverUri(result.assets[0].uri)
+      }
+    } catch (error) {
+      Alert.alert("Error", "Failed to pick photo")
+    }
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Error", "Please enter a name")
+      return
+    }
+
+    setLoading(true)
+    try {
+      const input = { name, description, coverUri }
+      if (collectionId) {
+        await updateCollection(collectionId, input)
+        router.back()
+      } else {
+        const id = await createCollection(input)
+        router.replace(`/collection?id=${id}`)
+      }
+    } catch (error) {
+      Alert.alert("Error", "Failed to save collection")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (initialLoading) {
+    return (
+      <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+        <Header title="Edit Collection" backPath="/collections" />
+        <View className={cn("flex-1 items-center justify-center")}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title={collectionId ? "Edit Collection" : "New Collection"} backPath="/collections" />
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          {/* Cover Photo */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4 items-center")}>
+            <TouchableOpacity onPress={pickCover} className={cn("w-full")} accessibilityLabel="Choose a cover photo" accessibilityRole="button">
+              {coverUri ? (
+                <Image source={{ uri: displayUri(coverUri) }} className={cn("w-full h-44 rounded-xl")} resizeMode="cover" />
+              ) : (
+                <View className={cn("w-full h-44 rounded-xl bg-emerald-50 items-center justify-center")}>
+                  <Ionicons name="image-outline" size={40} color="#10B981" />
+                </View>
+              )}
+            </TouchableOpacity>
+            <View className={cn("flex-row gap-4 mt-3")}>
+              <TouchableOpacity onPress={pickCover} accessibilityRole="button">
+                <Text className={cn("text-emerald-700 font-medium")}> {coverUri ? "Change cover" : "Add cover photo (Optional)"} </Text>
+              </TouchableOpacity>
+              {coverUri && (
+                <TouchableOpacity onPress={() => setCoverUri(null)} accessibilityRole="button">
+                  <Text className={cn("text-red-700 font-medium")}> Remove </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+
+          {/* Name */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium")}> Name </Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Grandchildren, Navy years"
+              placeholderTextColor="#8a919cff"
+              className={cn("text-gray-900 text-lg", "border-b border-gray-200", "pb-2")}
+              accessibilityLabel="Collection name input"
+              maxLength={60}
+            />
+          </View>
+
+          {/* Description */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-6")}>
+            <Text className={cn("text-gray-700 text-lg font-medium")}> Description (Optional) </Text>
+            <TextInput
+              value={description}
+              onChangeText={setDescription}
+              placeholder="What ties these memories together?"
+              placeholderTextColor="#9ca3af"
+              multiline
+              textAlignVertical="top"
+              className={cn("text-gray-900 text-lg min-h-[80px]", "border-b border-gray-200", "pb-2")}
+              accessibilityLabel="Collection description input"
+              maxLength={500}
+            />
+          </View>
+
+          {/* Action Buttons */}
+          <View className={cn("flex-row gap-3")}>
+            <TouchableOpacity
+              onPress={() => router.back()}
+              className={cn("flex-1 bg-gray-200 rounded-2xl py-4 items-center")}
+              accessibilityLabel="Cancel"
+              accessibilityRole="button"
+              disabled={loading}
+            >
+              <Text className={cn("text-gray-700 text-base font-semibold")}> Cancel </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleSave}
+              className={cn("flex-1 bg-emerald-600 rounded-2xl py-4 items-center shadow-sm")}
+              accessibilityLabel="Save collection"
+              accessibilityRole="button"
+              disabled={!name.trim() || loading}
+              style={{ opacity: name.trim() && !loading ? 1 : 0.5 }}
+            >
+              {loading ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text className={cn("text-white text-base font-semibold")}> Save Collection </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
@@ -0,0 +1,206 @@
+import { useState, useEffect } from "react"
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Image, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useRouter, useLocalSearchParams } from "expo-router"
+import * as ImagePicker from "expo-image-picker"
+import { Ionicons } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { displayUri } from "../lib/mediaStore"
+import { createPerson, updatePerson, getPersonById } from "../database/peopleOperations"
+
+// Common relationships offered as one-tap suggestions
+const RELATIONSHIP_SUGGESTIONS = ["Spouse", "Daughter", "Son", "Grandchild", "Sibling", "Friend", "Neighbour", "Doctor", "Carer"]
+
+export default function EditPerson() {
+  const [name, setName] = useState("")
+  const [relationship, setRelationship] = useState("")
+  const [portraitUri, setPortraitUri] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [initialLoading, setInitialLoading] = useState(false)
+  const router = useRouter()
+  const params = useLocalSearchParams()
+  const personId = params.id ? parseInt(params.id as string) : null
+
+  // Load existing person if editing
+  useEffect(() => {
+    async function loadPerson() {
+      if (!personId) return
+      setInitialLoading(true)
+      try {
+        const person = await getPersonById(personId)
+        if (person) {
+          setName(person.name)
+          setRelationship(person.relationship ?? "")
+          setPortraitUri(person.portraitUri)
+        } else {
+          Alert.alert("Error", "Person not found")
+          router.back()
+        }
+      } catch (error) {
+        Alert.alert("Error", "Failed to load person")
+        router.back()
+      } finally {
+        setInitialLoading(false)
+      }
+    }
+    loadPerson()
+  }, [personId])
+
+  const pickPortrait = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync()
+    if (status !== "granted") {
+      Alert.alert("Permission Denied", "Media library permission is required to select photos")
+      return
+    }
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ["images"],
+        allowsEditing: true,
+        aspect: [1, 1],
+        quality: 0.8,
+      })
+      if (!result.canceled && result.assets[0]) {
+        setPortraitUri(result.assets[0].uri)
+      }
+    } catch (error) {
+      Alert.alert("Error", "Failed to pick photo")
+    }
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Error", "Please enter a name")
+      return
+    }
+
+    setLoading(true)
+    try {
+      const input = { name, relationship, portraitUri }
+      if (personId) {
+        await updatePerson(personId, input)
+      } else {
+        await createPerson(input)
+      }
+      router.back()
+    } catch (error) {
+      Alert.alert("Error", "Failed to save person")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (initialLoading) {
+    return (
+      <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+        <Header title="Edit Person" backPath="/people" />
+        <View className={cn("flex-1 items-center justify-center")}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title={personId ? "Edit Person" : "New Person"} backPath="/people" />
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          {/* Portrait */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4 items-center")}>
+            <TouchableOpacity onPress={pickPortrait} accessibilityLabel="Choose a portrait photo" accessibilityRole="button">
+              {portraitUri ? (
+                <Image source={{ uri: displayUri(portraitUri) }} className={cn("w-28 h-28 rounded-full")} />
+              ) : (
+                <View className={cn("w-28 h-28 rounded-full bg-emerald-50 items-center justify-center")}>
+                  <Ionicons name="camera-outline" size={40} color="#10B981" />
+                </View>
+              )}
+            </TouchableOpacity>
+            <View className={cn("flex-row gap-4 mt-3")}>
+              <TouchableOpacity onPress={pickPortrait} accessibilityRole="button">
+                <Text className={cn("text-emerald-700 font-medium")}> {portraitUri ? "Change photo" : "Add photo (Optional)"} </Text>
+              </TouchableOpacity>
+              {portraitUri && (
+                <TouchableOpacity onPress={() => setPortraitUri(null)} accessibilityRole="button">
+                  <Text className={cn("text-red-700 font-medium")}> Remove </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+
+          {/* Name */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium")}> Name </Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="Their name..."
+              placeholderTextColor="#8a919cff"
+              className={cn("text-gray-900 text-lg", "border-b border-gray-200", "pb-2")}
+              accessibilityLabel="Person name input"
+              maxLength={50}
+            />
+          </View>
+
+          {/* Relationship */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-6")}>
+            <Text className={cn("text-gray-700 text-lg font-medium")}> Relationship to you (Optional) </Text>
+            <TextInput
+              value={relationship}
+              onChangeText={setRelationship}
+              placeholder="e.g. daughter, neighbour, doctor"
+              placeholderTextColor="#9ca3af"
+              className={cn("text-gray-900 text-lg", "border-b border-gray-200", "pb-2 mb-3")}
+              accessibilityLabel="Relationship input"
+              maxLength={50}
+            />
+            <View className={cn("flex-row flex-wrap gap-2")}>
+              {RELATIONSHIP_SUGGESTIONS.map((suggestion) => {
+                const isSelected = relationship.trim().toLowerCase() === suggestion.toLowerCase()
+                return (
+                  <TouchableOpacity
+                    key={suggestion}
+                    onPress={() => setRelationship(suggestion.toLowerCase())}
+                    className={cn("px-3 py-2 rounded-full border", isSelected ? "bg-emerald-50 border-emerald-600" : "bg-white border-gray-300")}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: isSelected }}
+                  >
+                    <Text className={cn("text-sm font-medium", isSelected ? "text-emerald-700" : "text-gray-600")}> {suggestion} </Text>
+                  </TouchableOpacity>
+                )
+              })}
+            </View>
+          </View>
+
+          {/* Action Buttons */}
+          <View className={cn("flex-row gap-3")}>
+            <TouchableOpacity
+              onPress={() => router.back()}
+              className={cn("flex-1 bg-gray-200 rounded-2xl py-4 items-center")}
+              accessibilityLabel="Cancel"
+              accessibilityRole="button"
+              disabled={loading}
+            >
+              <Text className={cn("text-gray-700 text-base font-semibold")}> Cancel </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleSave}
+              className={cn("flex-1 bg-emerald-600 rounded-2xl py-4 items-center shadow-sm")}
+              accessibilityLabel="Save person"
+              accessibilityRole="button"
+              disabled={!name.trim() || loading}
+              style={{ opacity: name.trim() && !loading ? 1 : 0.5 }}
+            >
+              {loading ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text className={cn("text-white text-base font-semibold")}> Save Person </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
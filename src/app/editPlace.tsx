@@ -0,0 +1,210 @@
+import { useState, useEffect } from "react"
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useRouter, useLocalSearchParams } from "expo-router"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { createPlace, updatePlace, getPlaceById } from "../database/placesOperations"
+
+// Common kinds of places offered as one-tap suggestions
+const PLACE_TYPE_SUGGESTIONS = ["Home", "Church", "Holiday spot", "School", "Workplace", "Park", "Restaurant", "Hospital"]
+
+/* Parse an optional coordinate field; empty means "not set", anything unparsable is NaN */
+function parseCoordinate(text: string): number | null {
+  const trimmed = text.trim().replace(",", ".")
+  return trimmed ? Number(trimmed) : null
+}
+
+export default function EditPlace() {
+  const [name, setName] = useState("")
+  const [type, setType] = useState("")
+  const [address, setAddress] = useState("")
+  const [latitude, setLatitude] = useState("")
+  const [longitude, setLongitude] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [initialLoading, setInitialLoading] = useState(false)
+  const router = useRouter()
+  const params = useLocalSearchParams()
+  const placeId = params.id ? parseInt(params.id as string) : null
+
+  // Load existing place if editing
+  useEffect(() => {
+    async function loadPlace() {
+      if (!placeId) return
+      setInitialLoading(true)
+      try {
+        const place = await getPlaceById(placeId)
+        if (place) {
+          setName(place.name)
+          setType(place.type ?? "")
+          setAddress(place.address ?? "")
+          setLatitude(place.latitude !== null ? place.latitude.toString() : "")
+          setLongitude(place.longitude !== null ? place.longitude.toString() : "")
+        } else {
+          Alert.alert("Error", "Place not found")
+          router.back()
+        }
+      } catch (error) {
+        Alert.alert("Error", "Failed to load place")
+        router.back()
+      } finally {
+        setInitialLoading(false)
+      }
+    }
+    loadPlace()
+  }, [placeId])
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Error", "Please enter a name")
+      return
+    }
+    const lat = parseCoordinate(latitude)
+    const lng = parseCoordinate(longitude)
+    if (Number.isNaN(lat) || Number.isNaN(lng)) {
+      Alert.alert("Error", "Coordinates must be numbers, e.g. 51.5072 and -0.1276")
+      return
+    }
+
+    setLoading(true)
+    try {
+      const input = { name, type, address, latitude: lat, longitude: lng }
+      if (placeId) {
+        await updatePlace(placeId, input)
+      } else {
+        await createPlace(input)
+      }
+      router.back()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to save place")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (initialLoading) {
+    return (
+      <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+        <Header title="Edit Place" backPath="/places" />
+        <View className={cn("flex-1 items-center justify-center")}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title={placeId ? "Edit Place" : "New Place"} backPath="/places" />
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          {/* Name */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium")}> Name </Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. The lake house"
+              placeholderTextColor="#8a919cff"
+              className={cn("text-gray-900 text-lg", "border-b border-gray-200", "pb-2")}
+              accessibilityLabel="Place name input"
+              maxLength={60}
+            />
+          </View>
+
+          {/* Type */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium")}> Type (Optional) </Text>
+            <TextInput
+              value={type}
+              onChangeText={setType}
+              placeholder="e.g. home, church, holiday spot"
+              placeholderTextColor="#9ca3af"
+              className={cn("text-gray-900 text-lg", "border-b border-gray-200", "pb-2 mb-3")}
+              accessibilityLabel="Place type input"
+              maxLength={40}
+            />
+            <View className={cn("flex-row flex-wrap gap-2")}>
+              {PLACE_TYPE_SUGGESTIONS.map((suggestion) => {
+                const isSelected = type.trim().toLowerCase() === suggestion.toLowerCase()
+                return (
+                  <TouchableOpacity
+                    key={suggestion}
+                    onPress={() => setType(suggestion.toLowerCase())}
+                    className={cn("px-3 py-2 rounded-full border", isSelected ? "bg-emerald-50 border-emerald-600" : "bg-white border-gray-300")}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: isSelected }}
+                  >
+                    <Text className={cn("text-sm font-medium", isSelected ? "text-emerald-700" : "text-gray-600")}> {suggestion} </Text>
+                  </TouchableOpacity>
+                )
+              })}
+            </View>
+          </View>
+
+          {/* Address and coordinates */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-6")}>
+            <Text className={cn("text-gray-700 text-lg font-medium")}> Address (Optional) </Text>
+            <TextInput
+              value={address}
+              onChangeText={setAddress}
+              placeholder="Street, town..."
+              placeholderTextColor="#9ca3af"
+              className={cn("text-gray-900 text-lg", "border-b border-gray-200", "pb-2 mb-4")}
+              accessibilityLabel="Address input"
+              maxLength={120}
+            />
+            <Text className={cn("text-gray-700 text-lg font-medium")}> Coordinates (Optional) </Text>
+            <View className={cn("flex-row gap-3")}>
+              <TextInput
+                value={latitude}
+                onChangeText={setLatitude}
+                placeholder="Latitude"
+                placeholderTextColor="#9ca3af"
+                keyboardType="numbers-and-punctuation"
+                className={cn("flex-1 text-gray-900 text-lg", "border-b border-gray-200", "pb-2")}
+                accessibilityLabel="Latitude input"
+              />
+              <TextInput
+                value={longitude}
+                onChangeText={setLongitude}
+                placeholder="Longitude"
+                placeholderTextColor="#9ca3af"
+                keyboardType="numbers-and-punctuation"
+                className={cn("flex-1 text-gray-900 text-lg", "border-b border-gray-200", "pb-2")}
+                accessibilityLabel="Longitude input"
+              />
+            </View>
+          </View>
+
+          {/* Action Buttons */}
+          <View className={cn("flex-row gap-3")}>
+            <TouchableOpacity
+              onPress={() => router.back()}
+              className={cn("flex-1 bg-gray-200 rounded-2xl py-4 items-center")}
+              accessibilityLabel="Cancel"
+              accessibilityRole="button"
+              disabled={loading}
+            >
+              <Text className={cn("text-gray-700 text-base font-semibold")}> Cancel </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleSave}
+              className={cn("flex-1 bg-emerald-600 rounded-2xl py-4 items-center shadow-sm")}
+              accessibilityLabel="Save place"
+              accessibilityRole="button"
+              disabled={!name.trim() || loading}
+              style={{ opacity: name.trim() && !loading ? 1 : 0.5 }}
+            >
+              {loading ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text className={cn("text-white text-base font-semibold")}> Save Place </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
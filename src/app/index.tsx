@@ -3,7 +3,7 @@ import { SafeAreaView } from "react-native-safe-area-context"
 import { useRouter } from "expo-router"
 import { LinearGradient } from "expo-linear-gradient"
 import { Ionicons, MaterialCommunityIcons } from "@expo/vector-icons"
-import { getAllNotes } from "../database/notesOperations"
+import { listNotes } from "../database/notesOperations"
 import { cn } from "../lib/utils"
 
 export default function MainPage() {
@@ -11,7 +11,7 @@ export default function MainPage() {
 
   const handleNavigateToNotes = () => {
     try {
-      void getAllNotes()
+      void listNotes()
     } catch {}
     router.push("/notes")
   }
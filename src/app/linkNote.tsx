@@ -0,0 +1,124 @@
+import { useState, useEffect, useMemo } from "react"
+import { View, Text, TextInput, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useRouter, useLocalSearchParams } from "expo-router"
+import { Feather } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { getAllNotes } from "../database/notesOperations"
+import { linkNotes, getLinkedNotes } from "../database/noteLinksOperations"
+import { type NoteWithDetails } from "../database/types"
+
+// Common ways memories relate to each other, offered as one-tap labels
+const RELATION_SUGGESTIONS = ["Before this", "After this", "Same trip", "Same event", "Mentions"]
+
+export default function LinkNote() {
+  const [notes, setNotes] = useState<NoteWithDetails[]>([])
+  const [relation, setRelation] = useState("")
+  const [query, setQuery] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const router = useRouter()
+  const params = useLocalSearchParams()
+  const noteId = parseInt(params.id as string)
+
+  // Offer every other note that isn't already linked either way
+  useEffect(() => {
+    Promise.all([getAllNotes(), getLinkedNotes(noteId)])
+      .then(([allNotes, links]) => {
+        const linked = new Set(links.map((link) => link.noteId))
+        setNotes(allNotes.filter((note) => note.id !== noteId && !linked.has(note.id)))
+      })
+      .catch(() => Alert.alert("Error", "Failed to load notes"))
+      .finally(() => setLoading(false))
+  }, [noteId])
+
+  const visibleNotes = useMemo(() => {
+    const needle = query.trim().toLowerCase()
+    return needle ? notes.filter((note) => note.title.toLowerCase().includes(needle)) : notes
+  }, [notes, query])
+
+  const handleLink = async (target: NoteWithDetails) => {
+    setSaving(true)
+    try {
+      await linkNotes(noteId, target.id, relation)
+      router.back()
+    } catch (error) {
+      Alert.alert("Error", "Failed to link notes")
+      setSaving(false)
+    }
+  }
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title="Link a Memory" backPath={`/viewNote?id=${noteId}`} />
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          {/* Relation Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium")}> How are they related? (Optional) </Text>
+            <TextInput
+              value={relation}
+              onChangeText={setRelation}
+              placeholder="e.g. The day after the wedding"
+              placeholderTextColor="#9ca3af"
+              className={cn("text-gray-900 text-lg", "border-b border-gray-200", "pb-2 mb-3")}
+              accessibilityLabel="Relation label input"
+              maxLength={60}
+            />
+            <View className={cn("flex-row flex-wrap gap-2")}>
+              {RELATION_SUGGESTIONS.map((suggestion) => {
+                const selected = relation === suggestion
+                return (
+                  <TouchableOpacity
+                    key={suggestion}
+                    onPress={() => setRelation(selected ? "" : suggestion)}
+                    className={cn("px-3 py-2 rounded-full border", selected ? "bg-emerald-50 border-emerald-600" : "bg-white border-gray-300")}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                  >
+                    <Text className={cn("text-sm font-medium", selected ? "text-emerald-700" : "text-gray-600")}> {suggestion} </Text>
+                  </TouchableOpacity>
+                )
+              })}
+            </View>
+          </View>
+
+          {/* Note Picker Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium mb-2")}> Link to </Text>
+            <TextInput
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Search by title"
+              placeholderTextColor="#9ca3af"
+              className={cn("text-gray-900 text-base border-b border-gray-200 pb-2 mb-2")}
+              accessibilityLabel="Search notes to link"
+            />
+            {loading || saving ? (
+              <ActivityIndicator color="#10B981" />
+            ) : visibleNotes.length === 0 ? (
+              <Text className={cn("text-gray-500 text-base text-center py-4")}> No other memories to link </Text>
+            ) : (
+              visibleNotes.map((note) => (
+                <TouchableOpacity
+                  key={note.id}
+                  onPress={() => handleLink(note)}
+                  className={cn("flex-row items-center py-2 border-t border-gray-100")}
+                  accessibilityLabel={`Link to ${note.title}`}
+                  accessibilityRole="button"
+                >
+                  <Feather name="link" size={18} color="#10B981" />
+                  <View className={cn("flex-1 ml-3")}>
+                    <Text className={cn("text-gray-900 text-base")} numberOfLines={1}> {note.title} </Text>
+                    {note.eventDateLabel && <Text className={cn("text-gray-500 text-sm")}> {note.eventDateLabel} </Text>}
+                  </View>
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
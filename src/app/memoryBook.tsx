@@ -0,0 +1,246 @@
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { View, Text, TextInput, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useFocusEffect } from "expo-router"
+import { Directory } from "expo-file-system"
+import { Feather } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { parseEventDate, describeEventDateRange } from "../lib/eventDate"
+import { selectMemoryBookNotes, exportMemoryBook, type MemoryBookLayout, type MemoryBookGrouping } from "../lib/memoryBook"
+import { getAllTags } from "../database/tagsOperations"
+import { getAllPeople } from "../database/peopleOperations"
+import { type NoteWithDetails, type TagWithNoteCount, type PersonWithNoteCount } from "../database/types"
+
+const LAYOUT_OPTIONS: Array<{ value: MemoryBookLayout; label: string }> = [
+  { value: "standard", label: "Standard" },
+  { value: "large-print", label: "Large print" },
+]
+const GROUPING_OPTIONS: Array<{ value: MemoryBookGrouping; label: string }> = [
+  { value: "year", label: "By year" },
+  { value: "tag", label: "By tag" },
+]
+
+const toggleId = (ids: number[], id: number) => (ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id])
+
+export default function MemoryBookPage() {
+  const [title, setTitle] = useState("Our Memories")
+  const [layout, setLayout] = useState<MemoryBookLayout>("standard")
+  const [groupBy, setGroupBy] = useState<MemoryBookGrouping>("year")
+  const [tags, setTags] = useState<TagWithNoteCount[]>([])
+  const [people, setPeople] = useState<PersonWithNoteCount[]>([])
+  const [tagIds, setTagIds] = useState<number[]>([])
+  const [personIds, setPersonIds] = useState<number[]>([])
+  const [fromText, setFromText] = useState("")
+  const [toText, setToText] = useState("")
+  const [notes, setNotes] = useState<NoteWithDetails[]>([])
+  const [excludedIds, setExcludedIds] = useState<number[]>([])
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+
+  useFocusEffect(
+    useCallback(() => {
+      Promise.all([getAllTags(), getAllPeople()])
+        .then(([allTags, allPeople]) => {
+          setTags(allTags.filter((tag) => tag.noteCount > 0))
+          setPeople(allPeople.filter((person) => person.noteCount > 0))
+        })
+        .catch(() => Alert.alert("Error", "Failed to load tags and people"))
+    }, [])
+  )
+
+  const from = useMemo(() => parseEventDate(fromText), [fromText])
+  const to = useMemo(() => parseEventDate(toText), [toText])
+
+  // Refresh the preview whenever the filters change
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    selectMemoryBookNotes({ tagIds, personIds, from: from?.start ?? undefined, to: to?.end ?? undefined })
+      .then((selected) => {
+        if (!cancelled) setNotes(selected)
+      })
+      .catch(() => {
+        if (!cancelled) Alert.alert("Error", "Failed to load notes")
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [tagIds, personIds, from, to])
+
+  const includedIds = notes.map((note) => note.id).filter((id) => !excludedIds.includes(id))
+
+  const handleExport = async () => {
+    let destination: Directory
+    try {
+      destination = new Directory((await Directory.pickDirectoryAsync()).uri)
+    } catch (error) {
+      return // Picker cancelled
+    }
+
+    setExporting(true)
+    try {
+      const result = await exportMemoryBook(destination, { title: title.trim() || "Our Memories", layout, groupBy, noteIds: includedIds })
+      const missing = result.missingPhotoCount > 0 ? `\n\n${result.missingPhotoCount} photos could not be found and were left out.` : ""
+      Alert.alert(
+        "Memory Book Saved",
+        `${result.noteCount} memories in ${result.chapterCount} chapters (${result.pageCount} pages) were saved to ${result.file.name}, ready to print.${missing}`
+      )
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to create the memory book")
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const chip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      className={cn("px-3 py-2 rounded-full border", selected ? "bg-emerald-50 border-emerald-600" : "bg-white border-gray-300")}
+      accessibilityLabel={label}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text className={cn("text-sm font-medium", selected ? "text-emerald-700" : "text-gray-600")}> {label} </Text>
+    </TouchableOpacity>
+  )
+
+  const dateHint = (parsed: ReturnType<typeof parseEventDate>) =>
+    parsed ? describeEventDateRange(parsed) ?? "Not a date the book can use" : null
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title="Memory Book" backPath="/settings" />
+
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          {/* Book Options Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium mb-2")}> Book </Text>
+            <TextInput
+              value={title}
+              onChangeText={setTitle}
+              placeholder="Book title"
+              placeholderTextColor="#9ca3af"
+              className={cn("text-gray-900 text-base border-b border-gray-200 pb-2 mb-4")}
+              accessibilityLabel="Book title"
+              maxLength={80}
+            />
+            <Text className={cn("text-gray-700 text-sm font-medium mb-2")}> Layout </Text>
+            <View className={cn("flex-row flex-wrap gap-2 mb-4")}>
+              {LAYOUT_OPTIONS.map((option) => chip(option.value, option.label, layout === option.value, () => setLayout(option.value)))}
+            </View>
+            <Text className={cn("text-gray-700 text-sm font-medium mb-2")}> Chapters </Text>
+            <View className={cn("flex-row flex-wrap gap-2")}>
+              {GROUPING_OPTIONS.map((option) => chip(option.value, option.label, groupBy === option.value, () => setGroupBy(option.value)))}
+            </View>
+          </View>
+
+          {/* Filters Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium mb-2")}> Which memories </Text>
+            <Text className={cn("text-gray-500 text-sm mb-3")}> Leave everything unselected to include all memories. </Text>
+
+            <Text className={cn("text-gray-700 text-sm font-medium mb-2")}> When </Text>
+            <View className={cn("flex-row gap-3 mb-1")}>
+              <TextInput
+                value={fromText}
+                onChangeText={setFromText}
+                placeholder="From, e.g. 1970s"
+                placeholderTextColor="#9ca3af"
+                className={cn("flex-1 text-gray-900 text-base border-b border-gray-200 pb-2")}
+                accessibilityLabel="From date"
+              />
+              <TextInput
+                value={toText}
+                onChangeText={setToText}
+                placeholder="To, e.g. 1995"
+                placeholderTextColor="#9ca3af"
+                className={cn("flex-1 text-gray-900 text-base border-b border-gray-200 pb-2")}
+                accessibilityLabel="To date"
+              />
+            </View>
+            {(from || to) && (
+              <Text className={cn("text-gray-500 text-sm mb-1")}>
+                {[dateHint(from), dateHint(to)].filter(Boolean).join("  →  ")}
+              </Text>
+            )}
+
+            {tags.length > 0 && (
+              <>
+                <Text className={cn("text-gray-700 text-sm font-medium mt-3 mb-2")}> Tags </Text>
+                <View className={cn("flex-row flex-wrap gap-2")}>
+                  {tags.map((tag) => chip(`tag-${tag.id}`, tag.name, tagIds.includes(tag.id), () => setTagIds(toggleId(tagIds, tag.id))))}
+                </View>
+              </>
+            )}
+
+            {people.length > 0 && (
+              <>
+                <Text className={cn("text-gray-700 text-sm font-medium mt-4 mb-2")}> People </Text>
+                <View className={cn("flex-row flex-wrap gap-2")}>
+                  {people.map((person) =>
+                    chip(`person-${person.id}`, person.name, personIds.includes(person.id), () => setPersonIds(toggleId(personIds, person.id)))
+                  )}
+                </View>
+              </>
+            )}
+          </View>
+
+          {/* Notes Preview Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium mb-1")}> Memories in the book </Text>
+            <Text className={cn("text-gray-500 text-sm mb-3")}> {includedIds.length} of {notes.length} selected. Tap a memory to leave it out. </Text>
+            {loading ? (
+              <ActivityIndicator color="#10B981" />
+            ) : notes.length === 0 ? (
+              <Text className={cn("text-gray-500 text-base text-center py-4")}> No memories match these filters </Text>
+            ) : (
+              notes.map((note) => {
+                const included = !excludedIds.includes(note.id)
+                return (
+                  <TouchableOpacity
+                    key={note.id}
+                    onPress={() => setExcludedIds(toggleId(excludedIds, note.id))}
+                    className={cn("flex-row items-center py-2 border-t border-gray-100")}
+                    accessibilityLabel={`${included ? "Leave out" : "Include"} ${note.title}`}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: included }}
+                  >
+                    <Feather name={included ? "check-square" : "square"} size={20} color={included ? "#10B981" : "#9ca3af"} />
+                    <View className={cn("flex-1 ml-3")}>
+                      <Text className={cn("text-gray-900 text-base", !included && "text-gray-400")} numberOfLines={1}> {note.title} </Text>
+                      {note.eventDateLabel && <Text className={cn("text-gray-500 text-sm")}> {note.eventDateLabel} </Text>}
+                    </View>
+                  </TouchableOpacity>
+                )
+              })
+            )}
+          </View>
+
+          <TouchableOpacity
+            onPress={handleExport}
+            disabled={exporting || includedIds.length === 0}
+            className={cn("flex-row items-center justify-center bg-emerald-600 rounded-xl py-3")}
+            style={{ opacity: exporting || includedIds.length === 0 ? 0.5 : 1 }}
+            accessibilityLabel="Create memory book"
+            accessibilityRole="button"
+          >
+            {exporting ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <>
+                <Feather name="book-open" size={18} color="white" />
+                <Text className={cn("text-white text-base font-semibold ml-2")}> Create Memory Book </Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
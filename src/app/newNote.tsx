@@ -1,21 +1,36 @@
-import { useReducer, useEffect } from "react"
+import { useReducer, useEffect, useMemo } from "react"
 import { View, Text, TextInput, TouchableOpacity, ScrollView, KeyboardAvoidingView, Alert, ActivityIndicator, Image } from "react-native"
 import { SafeAreaView } from "react-native-safe-area-context"
 import { useRouter, useLocalSearchParams } from "expo-router"
 import Header from "../components/Header"
 import Camera from "../components/Camera"
 import Audio from "../components/Audio"
+import PeoplePicker from "../components/PeoplePicker"
+import PlacePicker from "../components/PlacePicker"
+import TagPicker from "../components/TagPicker"
 import { cn } from "../lib/utils"
+import { displayUri } from "../lib/mediaStore"
 import { createNote, updateNote, getNoteById } from "../database/notesOperations"
+import { parseEventDate, describeEventDateRange } from "../lib/eventDate"
+import { Ionicons } from "@expo/vector-icons"
 
-// Predefined tags hoisted outside component to avoid re-creation
-const AVAILABLE_TAGS = ["Family", "Friends", "Places", "Events", "People", "Childhood", "Travel", "Moments"]
+const IMAGE_DESCRIPTION_MAX_LENGTH = 200
+
+// aiDescription is the vision model's suggestion, shown until the user writes or accepts a description
+interface FormImage {
+  uri: string
+  description: string
+  aiDescription: string | null
+}
 
 interface FormState {
   title: string
   content: string
+  eventDateText: string
   selectedTags: string[]
-  images: Array<{ uri: string; description: string }>
+  personIds: number[]
+  placeId: number | null
+  images: FormImage[]
   audioUri: string | null
   loading: boolean
   initialLoading: boolean
@@ -26,8 +41,11 @@ interface FormState {
 type FormAction =
   | { type: 'SET_TITLE'; value: string }
   | { type: 'SET_CONTENT'; value: string }
+  | { type: 'SET_EVENT_DATE_TEXT'; value: string }
   | { type: 'TOGGLE_TAG'; tag: string }
-  | { type: 'SET_IMAGES'; images: Array<{ uri: string; description: string }> }
+  | { type: 'TOGGLE_PERSON'; personId: number }
+  | { type: 'SET_PLACE'; placeId: number | null }
+  | { type: 'SET_IMAGES'; images: FormImage[] }
   | { type: 'UPDATE_IMAGE_DESCRIPTION'; index: number; description: string }
   | { type: 'SET_AUDIO_URI'; uri: string | null }
   | { type: 'SET_LOADING'; value: boolean }
@@ -35,8 +53,11 @@ type FormAction =
   | { type: 'LOAD_NOTE_SUCCESS'; payload: {
       title: string
       content: string
+      eventDateText: string
       tags: string[]
-      images: Array<{ uri: string; description: string }>
+      personIds: number[]
+      placeId: number | null
+      images: FormImage[]
       audioUri: string | null
       noteId: number
     }}
@@ -44,7 +65,10 @@ type FormAction =
 const initialFormState: FormState = {
   title: '',
   content: '',
+  eventDateText: '',
   selectedTags: [],
+  personIds: [],
+  placeId: null,
   images: [],
   audioUri: null,
   loading: false,
@@ -53,12 +77,17 @@ const initialFormState: FormState = {
   noteId: null,
 }
 
+/* An accepted suggestion may be longer than a typed description, so the limit grows to fit it */
+const descriptionLimit = (image: FormImage) => Math.max(IMAGE_DESCRIPTION_MAX_LENGTH, image.aiDescription?.length ?? 0)
+
 function formReducer(state: FormState, action: FormAction): FormState {
   switch (action.type) {
     case 'SET_TITLE':
       return { ...state, title: action.value }
     case 'SET_CONTENT':
       return { ...state, content: action.value }
+    case 'SET_EVENT_DATE_TEXT':
+      return { ...state, eventDateText: action.value }
     case 'TOGGLE_TAG':
       return {
         ...state,
@@ -66,6 +95,15 @@ function formReducer(state: FormState, action: FormAction): FormState {
           ? state.selectedTags.filter(t => t !== action.tag)
           : [...state.selectedTags, action.tag]
       }
+    case 'TOGGLE_PERSON':
+      return {
+        ...state,
+        personIds: state.personIds.includes(action.personId)
+          ? state.personIds.filter(id => id !== action.personId)
+          : [...state.personIds, action.personId]
+      }
+    case 'SET_PLACE':
+      return { ...state, placeId: action.placeId }
     case 'SET_IMAGES':
       return { ...state, images: action.images }
     case 'UPDATE_IMAGE_DESCRIPTION':
@@ -86,7 +124,10 @@ function formReducer(state: FormState, action: FormAction): FormState {
         ...state,
         title: action.payload.title,
         content: action.payload.content,
+        eventDateText: action.payload.eventDateText,
         selectedTags: action.payload.tags,
+        personIds: action.payload.personIds,
+        placeId: action.payload.placeId,
         images: action.payload.images,
         audioUri: action.payload.audioUri,
         isEditMode: true,
@@ -100,10 +141,14 @@ function formReducer(state: FormState, action: FormAction): FormState {
 
 export default function NewNote() {
   const [state, dispatch] = useReducer(formReducer, initialFormState)
-  const { title, content, selectedTags, images, audioUri, loading, initialLoading, isEditMode, noteId } = state
+  const { title, content, eventDateText, selectedTags, personIds, placeId, images, audioUri, loading, initialLoading, isEditMode, noteId } = state
   const router = useRouter()
   const params = useLocalSearchParams()
 
+  // Live interpretation of the "when" text so the user can see how it will be understood
+  const eventDate = useMemo(() => parseEventDate(eventDateText), [eventDateText])
+  const eventDateRange = useMemo(() => (eventDate ? describeEventDateRange(eventDate) : null), [eventDate])
+
   // Load existing note if editing
   useEffect(() => {
     async function loadNote() {
@@ -119,8 +164,11 @@ export default function NewNote() {
               payload: {
                 title: note.title,
                 content: note.content,
+                eventDateText: note.eventDateLabel ?? '',
                 tags: note.tags.map(tag => tag.name),
-                images: note.images.map(img => ({ uri: img.uri, description: img.description || '' })),
+                personIds: note.people.map(person => person.id),
+                placeId: note.placeId,
+                images: note.images.map(img => ({ uri: img.uri, description: img.description || '', aiDescription: img.aiDescription })),
                 audioUri: note.audioUri,
                 noteId: parseInt(id),
               }
@@ -146,7 +194,7 @@ export default function NewNote() {
   const handleImagesChange = (newUris: string[]) => {
     const updatedImages = newUris.map(uri => {
       const existing = images.find(img => img.uri === uri)
-      return existing || { uri, description: '' }
+      return existing || { uri, description: '', aiDescription: null }
     })
     dispatch({ type: 'SET_IMAGES', images: updatedImages })
   }
@@ -162,6 +210,8 @@ export default function NewNote() {
     }
 
     dispatch({ type: 'SET_LOADING', value: true })
+    // AI descriptions belong to the stored images and are kept by the database; only user edits are saved
+    const noteImages = images.map(({ uri, description }) => ({ uri, description }))
 
     try {
       if (isEditMode && noteId) {
@@ -171,8 +221,11 @@ export default function NewNote() {
           title: title.trim(),
           content: content.trim(),
           tags: selectedTags,
-          images,
+          images: noteImages,
           audioUri,
+          eventDate,
+          personIds,
+          placeId,
         })
       } else {
         // Create new note
@@ -180,8 +233,11 @@ export default function NewNote() {
           title: title.trim(),
           content: content.trim(),
           tags: selectedTags,
-          images,
+          images: noteImages,
           audioUri,
+          eventDate,
+          personIds,
+          placeId,
         })
       }
 
@@ -249,6 +305,33 @@ export default function NewNote() {
               />
             </View>
 
+            {/* Event Date Card */}
+            <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+              <Text className={cn("text-gray-700 text-lg font-medium")}> When did it happen? (Optional) </Text>
+              <Text className={cn("text-gray-500 text-sm mb-3")}> An exact date or a rough time like "summer 1985", "early 1970s" or "childhood" </Text>
+              <TextInput
+                value={eventDateText}
+                onChangeText={(value) => dispatch({ type: 'SET_EVENT_DATE_TEXT', value })}
+                placeholder="e.g. 12 June 1985"
+                placeholderTextColor="#9ca3af"
+                className={cn("text-gray-900 text-lg", "border-b border-gray-200", "pb-2")}
+                accessibilityLabel="When it happened input"
+                multiline={false}
+                maxLength={60}
+              />
+              {eventDate && (
+                <Text className={cn("text-gray-500 text-sm mt-2")}>
+                  {eventDateRange ? ` Understood as ${eventDateRange}` : " Saved as a description without a date range"}
+                </Text>
+              )}
+            </View>
+
+            {/* People Picker */}
+            <PeoplePicker selectedIds={personIds} onToggle={(personId) => dispatch({ type: 'TOGGLE_PERSON', personId })} />
+
+            {/* Place Picker */}
+            <PlacePicker selectedId={placeId} onChange={(value) => dispatch({ type: 'SET_PLACE', placeId: value })} />
+
             {/* Camera Component */}
             <Camera images={images.map(img => img.uri)} onImagesChange={handleImagesChange} maxImages={5} />
 
@@ -256,19 +339,38 @@ export default function NewNote() {
             {images.length > 0 && (
               <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
                 <Text className={cn("text-gray-700 text-lg font-medium mb-2")}> Describe Your Photos (Optional) </Text>
-                <Text className={cn("text-gray-500 text-sm mb-3")}> Adding descriptions helps you find these photos later </Text>
+                <Text className={cn("text-gray-500 text-sm mb-3")}> Adding descriptions helps you find these photos later. Photos you leave blank may get a suggested description after saving. </Text>
 
                 {images.map((image, index) => (
                   <View key={index} className={cn("mb-4")}>
                     <View className={cn("flex-row items-center mb-2")}>
                       <Image
-                        source={{ uri: image.uri }}
+                        source={{ uri: displayUri(image.uri) }}
                         className={cn("w-16 h-16 rounded-lg")}
                         resizeMode="cover"
                       />
                       <Text className={cn("text-gray-600 text-sm ml-3 font-medium")}> Photo {index + 1} </Text>
                     </View>
 
+                    {/* Suggested description from the vision model, until the user writes their own */}
+                    {image.aiDescription && !image.description.trim() && (
+                      <View className={cn("bg-emerald-50 border border-emerald-200 rounded-lg p-3 mb-2")}>
+                        <View className={cn("flex-row items-center mb-1")}>
+                          <Ionicons name="sparkles-outline" size={14} color="#047857" />
+                          <Text className={cn("text-emerald-800 text-xs font-medium ml-1")}> Suggested description </Text>
+                        </View>
+                        <Text className={cn("text-gray-800 text-sm leading-5")}>{image.aiDescription}</Text>
+                        <TouchableOpacity
+                          onPress={() => updateImageDescription(index, image.aiDescription!)}
+                          className={cn("mt-2 self-start")}
+                          accessibilityLabel={`Use the suggested description for photo ${index + 1}`}
+                          accessibilityRole="button"
+                        >
+                          <Text className={cn("text-emerald-700 text-sm font-semibold")}> Use and edit </Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+
                     <TextInput
                       value={image.description}
                       onChangeText={(text) => updateImageDescription(index, text)}
@@ -276,9 +378,9 @@ export default function NewNote() {
                       placeholderTextColor="#9ca3af"
                       className={cn("bg-gray-50 rounded-lg px-3 py-2 text-gray-900 text-sm border border-gray-200")}
                       multiline
-                      maxLength={200}
+                      maxLength={descriptionLimit(image)}
                     />
-                    <Text className={cn("text-gray-400 text-xs mt-1 text-right")}> {image.description.length}/200 </Text>
+                    <Text className={cn("text-gray-400 text-xs mt-1 text-right")}> {image.description.length}/{descriptionLimit(image)} </Text>
                   </View>
                 ))}
               </View>
@@ -287,28 +389,8 @@ export default function NewNote() {
             {/* Audio Component */}
             <Audio audioUri={audioUri} onAudioUriChange={(uri) => dispatch({ type: 'SET_AUDIO_URI', uri })} />
 
-            {/* Tags Selection Card */}
-            <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-6")}>
-              <Text className={cn("text-gray-700 text-md font-medium mb-3")}> Add Tags (Optional) </Text>
-              <Text className={cn("text-gray-500 text-sm mb-3")}> Tags help you organize and find your notes easily </Text>
-              <View className={cn("flex-row flex-wrap gap-2")}>
-                {AVAILABLE_TAGS.map((tag) => {const isSelected = selectedTags.includes(tag)
-                  return (
-                    <TouchableOpacity
-                      key={tag}
-                      onPress={() => toggleTag(tag)}
-                      className={cn("px-3 py-2 rounded-full border", isSelected ? "bg-emerald-50 border-emerald-600" : "bg-white border-gray-300")}
-                      accessibilityLabel={`Tag: ${tag}`}
-                      accessibilityHint={`Tap to ${isSelected ? 'remove' : 'add'} this tag`}
-                      accessibilityRole="button"
-                      accessibilityState={{ selected: isSelected }}
-                    >
-                      <Text className={cn("text-sm font-medium", isSelected ? "text-emerald-700" : "text-gray-600")}> {tag} </Text>
-                    </TouchableOpacity>
-                  )
-                })}
-              </View>
-            </View>
+            {/* Tags Picker */}
+            <TagPicker selectedTags={selectedTags} onToggle={toggleTag} />
 
             {/* Action Buttons */}
             <View className={cn("flex-row gap-3")}>
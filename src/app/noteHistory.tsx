@@ -0,0 +1,255 @@
+import { useState, useCallback, useMemo } from "react"
+import { View, Text, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useRouter, useLocalSearchParams, useFocusEffect } from "expo-router"
+import { Feather } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { getNoteById, restoreNoteRevision } from "../database/notesOperations"
+import { getRevisionsForNote } from "../database/noteHistoryOperations"
+import { type NoteRevision, type NoteWithDetails } from "../database/types"
+import { diffWords, type DiffPart } from "../lib/textDiff"
+
+const formatTimestamp = (timestamp: number): string => {
+  const date = new Date(timestamp)
+  const month = date.toLocaleString("en-US", { month: "short" })
+  const day = date.getDate()
+  const year = date.getFullYear()
+  const time = date.toLocaleString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  })
+  return `${month} ${day}, ${year} • ${time}`
+}
+
+/* One side of a side-by-side diff: the shared words plus the words only this side has */
+function DiffColumn({ parts, side }: { parts: DiffPart[]; side: "removed" | "added" }) {
+  const visible = parts.filter((part) => part.type === "same" || part.type === side)
+  if (visible.length === 0) {
+    return <Text className={cn("text-gray-400 text-base italic")}>(empty)</Text>
+  }
+  return (
+    <Text className={cn("text-gray-800 text-base leading-6")}>
+      {visible.map((part, index) =>
+        part.type === "same" ? (
+          part.text
+        ) : (
+          <Text
+            key={index}
+            className={cn(side === "removed" ? "bg-red-100 text-red-800 line-through" : "bg-emerald-100 text-emerald-800")}
+          >
+            {part.text}
+          </Text>
+        )
+      )}
+    </Text>
+  )
+}
+
+/* Human-readable list of what differs outside the title and text */
+function describeOtherChanges(revision: NoteRevision, note: NoteWithDetails): string[] {
+  const changes: string[] = []
+  const currentTags = note.tags.map((tag) => tag.name)
+  const removedTags = revision.tags.filter((tag) => !currentTags.includes(tag))
+  const addedTags = currentTags.filter((tag) => !revision.tags.includes(tag))
+  if (removedTags.length > 0) changes.push(`Tags since removed: ${removedTags.join(", ")}`)
+  if (addedTags.length > 0) changes.push(`Tags since added: ${addedTags.join(", ")}`)
+  if (revision.eventDateLabel !== note.eventDateLabel) {
+    changes.push(`When: ${revision.eventDateLabel ?? "not set"} → ${note.eventDateLabel ?? "not set"}`)
+  }
+  if (revision.placeId !== note.placeId) changes.push("Place changed")
+  const currentPeople = note.people.map((person) => person.id).sort().join(",")
+  if ([...revision.personIds].sort().join(",") !== currentPeople) changes.push("People changed")
+  const currentImages = note.images.map((image) => `${image.uri}|${image.description}`).join(",")
+  if (revision.images.map((image) => `${image.uri}|${image.description}`).join(",") !== currentImages) {
+    changes.push(`Photos: ${revision.images.length} → ${note.images.length}`)
+  }
+  if (revision.audioUri !== note.audioUri) {
+    changes.push(revision.audioUri ? (note.audioUri ? "Voice recording replaced" : "Voice recording since removed") : "Voice recording since added")
+  }
+  return changes
+}
+
+export default function NoteHistory() {
+  const [note, setNote] = useState<NoteWithDetails | null>(null)
+  const [revisions, setRevisions] = useState<NoteRevision[]>([])
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [restoring, setRestoring] = useState(false)
+  const router = useRouter()
+  const params = useLocalSearchParams()
+  const noteId = params.id as string
+
+  useFocusEffect(
+    useCallback(() => {
+      let active = true
+      async function loadHistory() {
+        try {
+          const loadedNote = await getNoteById(parseInt(noteId))
+          if (!loadedNote) {
+            Alert.alert("Error", "Note not found")
+            router.back()
+            return
+          }
+          const loadedRevisions = await getRevisionsForNote(loadedNote.id)
+          if (!active) return
+          setNote(loadedNote)
+          setRevisions(loadedRevisions)
+          setSelectedId((current) => current ?? loadedRevisions[0]?.id ?? null)
+        } catch (error) {
+          Alert.alert("Error", "Failed to load history")
+        } finally {
+          if (active) setLoading(false)
+        }
+      }
+      loadHistory()
+      return () => {
+        active = false
+      }
+    }, [noteId])
+  )
+
+  const selected = revisions.find((revision) => revision.id === selectedId) ?? null
+
+  const comparison = useMemo(() => {
+    if (!selected || !note) return null
+    return {
+      title: diffWords(selected.title, note.title),
+      content: diffWords(selected.content, note.content),
+      otherChanges: describeOtherChanges(selected, note),
+    }
+  }, [selected, note])
+
+  const handleRestore = () => {
+    if (!selected) return
+    Alert.alert(
+      "Restore Version",
+      `Replace the current note with the version saved ${formatTimestamp(selected.savedAt)}? The current version will be kept in the history.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Restore",
+          onPress: async () => {
+            setRestoring(true)
+            try {
+              await restoreNoteRevision(selected.id)
+              router.back()
+            } catch (error) {
+              Alert.alert("Error", "Failed to restore this version")
+            } finally {
+              setRestoring(false)
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  if (loading || !note) {
+    return (
+      <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+        <Header title="History" backPath={`/viewNote?id=${noteId}`} />
+        <View className={cn("flex-1 items-center justify-center")}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title="History" backPath={`/viewNote?id=${noteId}`} />
+
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          {revisions.length === 0 ? (
+            <View className={cn("items-center justify-center py-20")}>
+              <Feather name="clock" size={40} color="#9ca3af" />
+              <Text className={cn("text-gray-500 text-lg text-center mt-3")}> No earlier versions yet </Text>
+              <Text className={cn("text-gray-400 text-base text-center mt-1")}> A version is saved each time this note is edited </Text>
+            </View>
+          ) : (
+            <>
+              {/* Version picker */}
+              <Text className={cn("text-gray-700 text-lg font-medium mb-3")}> Earlier versions </Text>
+              <View className={cn("gap-2 mb-4")}>
+                {revisions.map((revision) => {
+                  const isSelected = revision.id === selectedId
+                  return (
+                    <TouchableOpacity
+                      key={revision.id}
+                      onPress={() => setSelectedId(revision.id)}
+                      className={cn(
+                        "px-4 py-3 rounded-xl border",
+                        isSelected ? "bg-emerald-50 border-emerald-600" : "bg-white border-gray-200"
+                      )}
+                      accessibilityLabel={`Version saved ${formatTimestamp(revision.savedAt)}`}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isSelected }}
+                    >
+                      <Text className={cn("text-sm", isSelected ? "text-emerald-700" : "text-gray-500")}> {formatTimestamp(revision.savedAt)} </Text>
+                      <Text className={cn("text-gray-900 text-base font-medium")} numberOfLines={1}> {revision.title} </Text>
+                    </TouchableOpacity>
+                  )
+                })}
+              </View>
+
+              {/* Side-by-side comparison with the current note */}
+              {selected && comparison && (
+                <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+                  <View className={cn("flex-row gap-3 mb-2")}>
+                    <Text className={cn("flex-1 text-gray-500 text-sm font-semibold")}> This version </Text>
+                    <Text className={cn("flex-1 text-gray-500 text-sm font-semibold")}> Current </Text>
+                  </View>
+                  <View className={cn("flex-row gap-3 mb-3")}>
+                    <View className={cn("flex-1")}>
+                      <DiffColumn parts={comparison.title} side="removed" />
+                    </View>
+                    <View className={cn("flex-1")}>
+                      <DiffColumn parts={comparison.title} side="added" />
+                    </View>
+                  </View>
+                  <View className={cn("h-px bg-gray-100 mb-3")} />
+                  <View className={cn("flex-row gap-3")}>
+                    <View className={cn("flex-1")}>
+                      <DiffColumn parts={comparison.content} side="removed" />
+                    </View>
+                    <View className={cn("flex-1")}>
+                      <DiffColumn parts={comparison.content} side="added" />
+                    </View>
+                  </View>
+
+                  {comparison.otherChanges.length > 0 && (
+                    <View className={cn("mt-4 pt-3 border-t border-gray-100")}>
+                      {comparison.otherChanges.map((change) => (
+                        <Text key={change} className={cn("text-gray-600 text-sm mb-1")}> • {change} </Text>
+                      ))}
+                    </View>
+                  )}
+
+                  <TouchableOpacity
+                    onPress={handleRestore}
+                    disabled={restoring}
+                    className={cn("flex-row items-center justify-center bg-emerald-600 rounded-xl py-3 mt-4", restoring && "opacity-60")}
+                    accessibilityLabel="Restore this version"
+                    accessibilityRole="button"
+                  >
+                    {restoring ? (
+                      <ActivityIndicator color="white" />
+                    ) : (
+                      <>
+                        <Feather name="rotate-ccw" size={18} color="white" />
+                        <Text className={cn("text-white text-base font-semibold ml-2")}> Restore This Version </Text>
+                      </>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              )}
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
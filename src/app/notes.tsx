@@ -1,4 +1,4 @@
-import { memo, useMemo, useCallback, useEffect, useState } from "react"
+import { memo, useMemo, useCallback, useEffect, useRef, useState } from "react"
 import { View, Text, TextInput, FlatList, TouchableOpacity, Alert, ActivityIndicator } from "react-native"
 import { SafeAreaView } from "react-native-safe-area-context"
 import { useRouter, useFocusEffect } from "expo-router"
@@ -6,43 +6,69 @@ import Header from "../components/Header"
 import { Feather } from "@expo/vector-icons"
 import Entypo from "@expo/vector-icons/Entypo"
 import { cn } from "../lib/utils"
-import { getAllNotes, searchNotes, formatNoteForUI } from "../database/notesOperations"
+import { listNotes, searchNotes, formatNoteForUI } from "../database/notesOperations"
+import { getNotesRevision } from "../database/notesRevision"
+import { type NoteCursor } from "../database/types"
 import NoteActionsMenu from "../components/NoteActionsMenu"
+import HighlightedText from "../components/HighlightedText"
+import { hybridSearchNotes, type SearchMatchSource } from "../lib/hybridSearch"
+
+type SearchMode = "hybrid" | "keyword"
+
+const PAGE_SIZE = 30
+
+// Debounce before searching; hybrid search embeds the query, which is too slow to run on every keystroke
+const SEARCH_DEBOUNCE_MS = 300
+
+const MATCH_BADGES: Record<SearchMatchSource, { label: string; icon: "type" | "zap" | "image" }> = {
+  text: { label: "Words", icon: "type" },
+  meaning: { label: "Meaning", icon: "zap" },
+  image: { label: "Photo", icon: "image" },
+}
 
 type Note = {
   id: string
   title: string
   content: string
   tags: string[]
+  eventDate: string | null // "when it happened" label, e.g. "Summer 1985"
   createdAt: string // formatted string, e.g., "Nov 20 • 12:27 PM"
+  titleHighlight?: string // Search results only: title and best matching excerpt with highlight markers
+  snippet?: string
+  matchedBy?: SearchMatchSource[]
 }
 
 export default function NotesPage() {
   const [query, setQuery] = useState("")
+  const [searchMode, setSearchMode] = useState<SearchMode>("hybrid")
   const [openMenuId, setOpenMenuId] = useState<string | null>(null)
   const [notes, setNotes] = useState<Note[]>([])
+  const [nextCursor, setNextCursor] = useState<NoteCursor | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [searchResults, setSearchResults] = useState<Note[] | null>(null)
   const [loading, setLoading] = useState(true)
+  const loadedRevision = useRef<number | null>(null)
   const router = useRouter()
   const listContentStyle = useMemo(() => ({ paddingHorizontal: 14, paddingTop: 8, paddingBottom: 100, gap: 16 }), [])
 
-  // Load notes on component mount
-  useEffect(() => {
-    loadNotes()
-  }, [])
+  // Reload the first page on focus, but only when notes changed since the last load
   useFocusEffect(
     useCallback(() => {
-      loadNotes()
+      if (loadedRevision.current !== getNotesRevision()) {
+        loadNotes()
+      }
     }, [])
   )
 
-  // Load all notes from database
+  // Load the first page of notes from database
   const loadNotes = async () => {
     try {
-      setLoading(true)
-      const dbNotes = await getAllNotes()
-      const formattedNotes = dbNotes.map(formatNoteForUI)
-      setNotes(formattedNotes)
+      if (loadedRevision.current === null) setLoading(true)
+      const revision = getNotesRevision()
+      const page = await listNotes({ limit: PAGE_SIZE })
+      setNotes(page.notes.map(formatNoteForUI))
+      setNextCursor(page.nextCursor)
+      loadedRevision.current = revision
     } catch (error) {
       Alert.alert('Error', 'Failed to load notes')
     } finally {
@@ -50,29 +76,61 @@ export default function NotesPage() {
     }
   }
 
-  // Search notes when query changes (DB-backed). When empty, show full list.
+  // Append the next page when the list is scrolled near its end
+  const loadMoreNotes = async () => {
+    if (!nextCursor || loadingMore || searchResults) return
+    setLoadingMore(true)
+    try {
+      const page = await listNotes({ after: nextCursor, limit: PAGE_SIZE })
+      setNotes((current) => [...current, ...page.notes.map(formatNoteForUI)])
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      // Keep what is already shown; scrolling again retries
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  // Search notes when query or mode changes (DB-backed). When empty, show full list.
   useEffect(() => {
     let active = true
     async function performSearch() {
-      if (!query.trim()) {
-        setSearchResults(null)
-        return
-      }
       try {
-        const results = await searchNotes(query)
-        if (!active) return
-        const formattedResults = results.map(formatNoteForUI)
-        setSearchResults(formattedResults)
+        if (searchMode === "keyword") {
+          const results = await searchNotes(query)
+          if (!active) return
+          setSearchResults(results.map((result) => ({
+            ...formatNoteForUI(result),
+            titleHighlight: result.titleHighlight,
+            snippet: result.snippet,
+            matchedBy: ["text"],
+          })))
+        } else {
+          const results = await hybridSearchNotes(query)
+          if (!active) return
+          setSearchResults(results.map((result) => ({
+            ...formatNoteForUI(result),
+            titleHighlight: result.titleHighlight,
+            snippet: result.snippet,
+            matchedBy: result.matchedBy,
+          })))
+        }
       } catch {
         if (!active) return
         setSearchResults([])
       }
     }
-    performSearch()
+
+    if (!query.trim()) {
+      setSearchResults(null)
+      return
+    }
+    const timer = setTimeout(performSearch, SEARCH_DEBOUNCE_MS)
     return () => {
       active = false
+      clearTimeout(timer)
     }
-  }, [query])
+  }, [query, searchMode])
 
   const filteredNotes = useMemo(() => searchResults ?? notes, [searchResults, notes])
   const handleCreateNote = () => {
@@ -118,8 +176,32 @@ export default function NotesPage() {
         <View className={cn("flex-row items-start")}>
           <View className={cn("flex-1 pr-8")}> 
             <Text className={cn("text-gray-500 text-sm mb-2")}> {item.createdAt} </Text>
-            <Text className={cn("text-gray-900 font-semibold text-lg mb-2")} numberOfLines={1}> {item.title} </Text>
-            <Text className={cn("text-gray-600 text-md leading-6 mb-3")} numberOfLines={2}> {item.content} </Text>
+            {item.eventDate && (
+              <View className={cn("flex-row items-center mb-2")}>
+                <Feather name="calendar" size={14} color="#10B981" />
+                <Text className={cn("text-emerald-700 text-sm font-medium ml-1")} numberOfLines={1}> {item.eventDate} </Text>
+              </View>
+            )}
+            {item.titleHighlight ? (
+              <HighlightedText text={item.titleHighlight} className={cn("text-gray-900 font-semibold text-lg mb-2")} numberOfLines={1} />
+            ) : (
+              <Text className={cn("text-gray-900 font-semibold text-lg mb-2")} numberOfLines={1}> {item.title} </Text>
+            )}
+            {item.snippet ? (
+              <HighlightedText text={item.snippet} className={cn("text-gray-600 text-md leading-6 mb-3")} numberOfLines={3} />
+            ) : (
+              <Text className={cn("text-gray-600 text-md leading-6 mb-3")} numberOfLines={2}> {item.content} </Text>
+            )}
+            {item.matchedBy && (
+              <View className={cn("flex-row flex-wrap gap-2 mb-2")}>
+                {item.matchedBy.map((source) => (
+                  <View key={source} className={cn("flex-row items-center px-2 py-1 rounded-full bg-amber-50 border border-amber-300")}>
+                    <Feather name={MATCH_BADGES[source].icon} size={12} color="#b45309" />
+                    <Text className={cn("text-amber-800 text-xs font-medium ml-1")}>{MATCH_BADGES[source].label}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
             <View className={cn("flex-row flex-wrap gap-2")}>
               {item.tags.map((tag) => (
                 <View key={tag} className={cn("px-3 py-1.5 rounded-full bg-emerald-50 border border-emerald-600")}>
@@ -153,10 +235,13 @@ export default function NotesPage() {
     </View>
   ))
 
+  // Memory book, export, trash and the settings screens live behind one menu
+  const menuAction = { icon: "menu" as const, label: "More options and settings", onPress: () => router.push("/settings") }
+
   if (loading) {
     return (
       <SafeAreaView className={cn("flex-1 bg-gray-50")}>
-        <Header title="Notes" backPath="/" />
+        <Header title="Notes" backPath="/" action={menuAction} />
         <View className={cn("flex-1 items-center justify-center")}>
           <ActivityIndicator size="large" color="#10B981" />
         </View>
@@ -166,7 +251,7 @@ export default function NotesPage() {
 
   return (
     <SafeAreaView className={cn("flex-1 bg-gray-50")}>
-      <Header title="Notes" backPath="/" />
+      <Header title="Notes" backPath="/" action={menuAction} />
       {/* Search bar */}
       <View className={cn("px-4 pt-3 pb-2")}>
         <View className={cn("flex-row items-center gap-3 bg-white border border-gray-400 rounded-2xl px-2 mb-4 ")}>
@@ -174,12 +259,75 @@ export default function NotesPage() {
           <TextInput
             value={query}
             onChangeText={setQuery}
-            placeholder="Search notes..."
+            placeholder='Search notes... (use "quotes" for phrases)'
             placeholderTextColor="#787e88ff"
             className={cn("flex-1 text-gray-900 text-base")}
             accessibilityLabel="Search notes"
           />
         </View>
+
+        {/* Search mode */}
+        {query.trim().length > 0 && (
+          <View className={cn("flex-row gap-2 mb-3")}>
+            {(["hybrid", "keyword"] as const).map((mode) => {
+              const isSelected = searchMode === mode
+              return (
+                <TouchableOpacity
+                  key={mode}
+                  onPress={() => setSearchMode(mode)}
+                  className={cn("px-3 py-1.5 rounded-full border", isSelected ? "bg-emerald-50 border-emerald-600" : "bg-white border-gray-300")}
+                  accessibilityLabel={mode === "hybrid" ? "Search by words and meaning" : "Search by exact words"}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <Text className={cn("text-sm font-medium", isSelected ? "text-emerald-700" : "text-gray-600")}>
+                    {mode === "hybrid" ? "Words + meaning" : "Exact words"}
+                  </Text>
+                </TouchableOpacity>
+              )
+            })}
+          </View>
+        )}
+
+        {/* Browse shortcuts */}
+        <View className={cn("flex-row flex-wrap gap-2")}>
+          <TouchableOpacity
+            onPress={() => router.push("/people")}
+            className={cn("flex-row items-center px-3 py-2 rounded-full bg-white border border-gray-300")}
+            accessibilityLabel="Browse people"
+            accessibilityRole="button"
+          >
+            <Feather name="users" size={16} color="#10B981" />
+            <Text className={cn("text-gray-700 text-sm font-medium ml-2")}>People</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push("/places")}
+            className={cn("flex-row items-center px-3 py-2 rounded-full bg-white border border-gray-300")}
+            accessibilityLabel="Browse places"
+            accessibilityRole="button"
+          >
+            <Feather name="map-pin" size={16} color="#10B981" />
+            <Text className={cn("text-gray-700 text-sm font-medium ml-2")}>Places</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push("/tags")}
+            className={cn("flex-row items-center px-3 py-2 rounded-full bg-white border border-gray-300")}
+            accessibilityLabel="Manage tags"
+            accessibilityRole="button"
+          >
+            <Feather name="tag" size={16} color="#10B981" />
+            <Text className={cn("text-gray-700 text-sm font-medium ml-2")}>Tags</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push("/collections")}
+            className={cn("flex-row items-center px-3 py-2 rounded-full bg-white border border-gray-300")}
+            accessibilityLabel="Browse collections"
+            accessibilityRole="button"
+          >
+            <Feather name="layers" size={16} color="#10B981" />
+            <Text className={cn("text-gray-700 text-sm font-medium ml-2")}>Collections</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Note cards list with spacing */}
@@ -191,6 +339,9 @@ export default function NotesPage() {
         ItemSeparatorComponent={null}
         showsVerticalScrollIndicator={false}
         accessibilityLabel="Notes list"
+        onEndReached={loadMoreNotes}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={loadingMore ? <ActivityIndicator color="#10B981" /> : null}
         ListEmptyComponent={
           <View className={cn("items-center justify-center py-20")}>
             <Text className={cn("text-gray-500 text-lg text-center")}>
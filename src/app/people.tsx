@@ -0,0 +1,104 @@
+import { useState, useCallback } from "react"
+import { View, Text, FlatList, TouchableOpacity, Image, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useRouter, useFocusEffect } from "expo-router"
+import { Feather, Ionicons } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { displayUri } from "../lib/mediaStore"
+import { getAllPeople } from "../database/peopleOperations"
+import { type PersonWithNoteCount } from "../database/types"
+
+export default function PeoplePage() {
+  const [people, setPeople] = useState<PersonWithNoteCount[]>([])
+  const [loading, setLoading] = useState(true)
+  const router = useRouter()
+
+  // Reload whenever the screen regains focus (after adding or editing someone)
+  useFocusEffect(
+    useCallback(() => {
+      let active = true
+      getAllPeople()
+        .then((result) => {
+          if (active) setPeople(result)
+        })
+        .catch(() => Alert.alert("Error", "Failed to load people"))
+        .finally(() => {
+          if (active) setLoading(false)
+        })
+      return () => {
+        active = false
+      }
+    }, [])
+  )
+
+  const renderItem = useCallback(({ item }: { item: PersonWithNoteCount }) => (
+    <TouchableOpacity
+      onPress={() => router.push(`/person?id=${item.id}`)}
+      activeOpacity={0.7}
+      className={cn("flex-row items-center bg-white rounded-2xl shadow-sm border border-gray-100 p-4")}
+      accessibilityLabel={`View ${item.name}`}
+      accessibilityRole="button"
+    >
+      {item.portraitUri ? (
+        <Image source={{ uri: displayUri(item.portraitUri) }} className={cn("w-14 h-14 rounded-full")} />
+      ) : (
+        <View className={cn("w-14 h-14 rounded-full bg-emerald-50 items-center justify-center")}>
+          <Ionicons name="person-outline" size={28} color="#10B981" />
+        </View>
+      )}
+      <View className={cn("flex-1 ml-4")}>
+        <Text className={cn("text-gray-900 font-semibold text-lg")} numberOfLines={1}> {item.name} </Text>
+        {item.relationship && (
+          <Text className={cn("text-gray-500 text-sm")} numberOfLines={1}> {item.relationship} </Text>
+        )}
+      </View>
+      <Text className={cn("text-gray-500 text-sm")}>
+        {item.noteCount} {item.noteCount === 1 ? "memory" : "memories"}
+      </Text>
+    </TouchableOpacity>
+  ), [])
+
+  if (loading) {
+    return (
+      <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+        <Header title="People" backPath="/notes" />
+        <View className={cn("flex-1 items-center justify-center")}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title="People" backPath="/notes" />
+      <FlatList
+        data={people}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={renderItem}
+        contentContainerStyle={{ paddingHorizontal: 16, paddingTop: 16, paddingBottom: 100, gap: 12 }}
+        showsVerticalScrollIndicator={false}
+        accessibilityLabel="People list"
+        ListEmptyComponent={
+          <View className={cn("items-center justify-center py-20")}>
+            <Text className={cn("text-gray-500 text-lg text-center")}>
+              {"No people yet\nTap + to add someone important"}
+            </Text>
+          </View>
+        }
+      />
+
+      {/* Floating Action Button */}
+      <TouchableOpacity
+        onPress={() => router.push("/editPerson")}
+        accessibilityLabel="Add a person"
+        accessibilityRole="button"
+        className={cn("absolute bottom-24 right-6 bg-emerald-600 rounded-full w-16 h-16 items-center justify-center shadow-xl")}
+        activeOpacity={0.8}
+      >
+        <Feather name="plus" size={30} color="white" />
+      </TouchableOpacity>
+    </SafeAreaView>
+  )
+}
@@ -0,0 +1,150 @@
+import { useState, useCallback } from "react"
+import { View, Text, ScrollView, TouchableOpacity, Image, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useRouter, useLocalSearchParams, useFocusEffect } from "expo-router"
+import { Feather, Ionicons } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { displayUri } from "../lib/mediaStore"
+import { getPersonById, deletePerson } from "../database/peopleOperations"
+import { getNotesForPerson, formatNoteForUI } from "../database/notesOperations"
+import { type Person } from "../database/types"
+
+type PersonNote = ReturnType<typeof formatNoteForUI>
+
+export default function PersonPage() {
+  const [person, setPerson] = useState<Person | null>(null)
+  const [notes, setNotes] = useState<PersonNote[]>([])
+  const [loading, setLoading] = useState(true)
+  const router = useRouter()
+  const params = useLocalSearchParams()
+  const personId = params.id as string
+
+  // Reload on focus so edits made in editPerson or newNote show up
+  useFocusEffect(
+    useCallback(() => {
+      let active = true
+      async function loadPerson() {
+        try {
+          const loadedPerson = await getPersonById(parseInt(personId))
+          if (!loadedPerson) {
+            Alert.alert("Error", "Person not found")
+            router.back()
+            return
+          }
+          const personNotes = await getNotesForPerson(loadedPerson.id)
+          if (!active) return
+          setPerson(loadedPerson)
+          setNotes(personNotes.map(formatNoteForUI))
+        } catch (error) {
+          Alert.alert("Error", "Failed to load person")
+        } finally {
+          if (active) setLoading(false)
+        }
+      }
+      loadPerson()
+      return () => {
+        active = false
+      }
+    }, [personId])
+  )
+
+  const handleDelete = () => {
+    if (!person) return
+    Alert.alert(
+      "Remove Person",
+      `Remove ${person.name}? Their memories are kept, they just won't be linked to ${person.name} anymore.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deletePerson(person.id)
+              router.push("/people")
+            } catch (error) {
+              Alert.alert("Error", "Failed to remove person")
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  if (loading || !person) {
+    return (
+      <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+        <Header title="Person" backPath="/people" />
+        <View className={cn("flex-1 items-center justify-center")}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title={person.name} backPath="/people" />
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          {/* Profile Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4 items-center")}>
+            {person.portraitUri ? (
+              <Image source={{ uri: displayUri(person.portraitUri) }} className={cn("w-28 h-28 rounded-full mb-3")} />
+            ) : (
+              <View className={cn("w-28 h-28 rounded-full bg-emerald-50 items-center justify-center mb-3")}>
+                <Ionicons name="person-outline" size={56} color="#10B981" />
+              </View>
+            )}
+            <Text className={cn("text-gray-900 font-bold text-2xl")}> {person.name} </Text>
+            {person.relationship && (
+              <Text className={cn("text-gray-500 text-lg mt-1")}> {person.relationship} </Text>
+            )}
+
+            <View className={cn("flex-row gap-3 mt-4 w-full")}>
+              <TouchableOpacity
+                onPress={() => router.push(`/editPerson?id=${person.id}`)}
+                className={cn("flex-1 flex-row items-center justify-center bg-emerald-600 rounded-2xl py-3")}
+                accessibilityLabel="Edit person"
+                accessibilityRole="button"
+              >
+                <Feather name="edit-2" size={18} color="white" />
+                <Text className={cn("text-white font-semibold ml-2")}> Edit </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleDelete}
+                className={cn("flex-1 flex-row items-center justify-center bg-gray-200 rounded-2xl py-3")}
+                accessibilityLabel="Remove person"
+                accessibilityRole="button"
+              >
+                <Feather name="trash-2" size={18} color="#b91c1c" />
+                <Text className={cn("text-red-700 font-semibold ml-2")}> Remove </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Memories with this person */}
+          <Text className={cn("text-gray-700 text-lg font-medium mb-3")}> Memories with {person.name} </Text>
+          {notes.length === 0 ? (
+            <Text className={cn("text-gray-500 text-base")}> No memories linked yet </Text>
+          ) : (
+            notes.map((note) => (
+              <TouchableOpacity
+                key={note.id}
+                onPress={() => router.push(`/viewNote?id=${note.id}`)}
+                activeOpacity={0.7}
+                className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-3")}
+                accessibilityRole="button"
+              >
+                <Text className={cn("text-gray-500 text-sm mb-1")}> {note.eventDate ?? note.createdAt} </Text>
+                <Text className={cn("text-gray-900 font-semibold text-lg")} numberOfLines={1}> {note.title} </Text>
+                <Text className={cn("text-gray-600 text-md leading-6")} numberOfLines={2}> {note.content} </Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
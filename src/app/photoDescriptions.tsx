@@ -0,0 +1,141 @@
+import { useState } from "react"
+import { View, Text, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { Feather } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import ModelManager from "../model/ModelManager"
+import { checkVisionModelExists, downloadVisionModel, deleteVisionModel } from "../model/modelStorage"
+import { describeMissingImages } from "../lib/createNoteEmbeddings"
+
+export default function PhotoDescriptionsPage() {
+  const [downloaded, setDownloaded] = useState(checkVisionModelExists())
+  const [ready, setReady] = useState(ModelManager.isVisionReady())
+  const [progress, setProgress] = useState<{ percent: number; status: string } | null>(null)
+  const [describing, setDescribing] = useState(false)
+
+  const handleDescribe = async () => {
+    setDescribing(true)
+    try {
+      const { done, undone } = await describeMissingImages()
+      const memories = (count: number) => `${count} ${count === 1 ? "memory" : "memories"}`
+      Alert.alert(
+        "Photos Described",
+        done + undone === 0
+          ? "Every photo already has a description."
+          : [
+              done > 0 ? `Photos in ${memories(done)} were processed; suggested descriptions appear when you edit them.` : "",
+              undone > 0 ? `Photos in ${memories(undone)} could not be described. Try again later.` : "",
+            ].filter(Boolean).join(" ")
+      )
+    } catch (error) {
+      Alert.alert("Error", "Failed to describe photos")
+    } finally {
+      setDescribing(false)
+    }
+  }
+
+  const handleDownload = async () => {
+    setProgress({ percent: 0, status: "Starting download..." })
+    try {
+      await downloadVisionModel((percent, status) => setProgress({ percent, status }))
+      setDownloaded(true)
+      setProgress({ percent: 100, status: "Loading vision model..." })
+      const loaded = await ModelManager.loadVisionModel()
+      setReady(loaded)
+      if (!loaded) {
+        Alert.alert("Error", "The vision model was downloaded but could not be loaded on this device")
+      }
+    } catch (error) {
+      setDownloaded(checkVisionModelExists())
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to download the vision model")
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const handleRemove = () => {
+    Alert.alert("Remove Vision Model", "New photos will no longer get suggested descriptions. Descriptions already made are kept.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await ModelManager.unloadVisionModel()
+            deleteVisionModel()
+            setReady(false)
+            setDownloaded(false)
+          } catch (error) {
+            Alert.alert("Error", "Failed to remove the vision model")
+          }
+        },
+      },
+    ])
+  }
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title="Photo Descriptions" backPath="/settings" />
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium mb-2")}> Suggested descriptions </Text>
+            <Text className={cn("text-gray-600 text-base leading-6 mb-4")}>
+              An optional vision model (about 280 MB) can describe photos you haven't described yourself, so chat and search can find them.
+              It runs on this device; photos never leave it. Suggestions are shown when you edit a memory, where you can use or change them.
+            </Text>
+
+            <View className={cn("flex-row items-center mb-4")}>
+              <Feather name={ready ? "check-circle" : downloaded ? "alert-circle" : "download-cloud"} size={18} color={ready ? "#10B981" : "#6b7280"} />
+              <Text className={cn("text-gray-700 text-base ml-2")}>
+                {ready ? "Vision model ready" : downloaded ? "Downloaded, loads with the other models" : "Not downloaded"}
+              </Text>
+            </View>
+
+            {progress ? (
+              <View>
+                <View className={cn("h-2 rounded-full bg-gray-200 overflow-hidden mb-2")}>
+                  <View className={cn("h-2 bg-emerald-600")} style={{ width: `${progress.percent}%` }} />
+                </View>
+                <Text className={cn("text-gray-500 text-sm")}> {progress.status} </Text>
+              </View>
+            ) : downloaded ? (
+              <View className={cn("flex-row gap-3")}>
+                <TouchableOpacity
+                  onPress={handleDescribe}
+                  disabled={!ready || describing}
+                  className={cn("flex-1 flex-row items-center justify-center bg-emerald-600 rounded-xl py-3")}
+                  style={{ opacity: ready && !describing ? 1 : 0.5 }}
+                  accessibilityLabel="Describe photos without a description"
+                  accessibilityRole="button"
+                >
+                  {describing ? <ActivityIndicator color="white" /> : <Text className={cn("text-white text-base font-semibold")}> Describe Photos Now </Text>}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleRemove}
+                  disabled={describing}
+                  className={cn("flex-row items-center justify-center bg-gray-200 rounded-xl py-3 px-4")}
+                  accessibilityLabel="Remove vision model"
+                  accessibilityRole="button"
+                >
+                  <Feather name="trash-2" size={18} color="#b91c1c" />
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <TouchableOpacity
+                onPress={handleDownload}
+                className={cn("flex-row items-center justify-center bg-emerald-600 rounded-xl py-3")}
+                accessibilityLabel="Download vision model"
+                accessibilityRole="button"
+              >
+                <Feather name="download" size={18} color="white" />
+                <Text className={cn("text-white text-base font-semibold ml-2")}> Download Vision Model </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
@@ -0,0 +1,151 @@
+import { useState, useCallback } from "react"
+import { View, Text, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useRouter, useLocalSearchParams, useFocusEffect } from "expo-router"
+import { Feather, Ionicons } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { getPlaceById, deletePlace } from "../database/placesOperations"
+import { getNotesForPlace, formatNoteForUI } from "../database/notesOperations"
+import { type Place } from "../database/types"
+
+type PlaceNote = ReturnType<typeof formatNoteForUI>
+
+export default function PlacePage() {
+  const [place, setPlace] = useState<Place | null>(null)
+  const [notes, setNotes] = useState<PlaceNote[]>([])
+  const [loading, setLoading] = useState(true)
+  const router = useRouter()
+  const params = useLocalSearchParams()
+  const placeId = params.id as string
+
+  // Reload on focus so edits made in editPlace or newNote show up
+  useFocusEffect(
+    useCallback(() => {
+      let active = true
+      async function loadPlace() {
+        try {
+          const loadedPlace = await getPlaceById(parseInt(placeId))
+          if (!loadedPlace) {
+            Alert.alert("Error", "Place not found")
+            router.back()
+            return
+          }
+          const placeNotes = await getNotesForPlace(loadedPlace.id)
+          if (!active) return
+          setPlace(loadedPlace)
+          setNotes(placeNotes.map(formatNoteForUI))
+        } catch (error) {
+          Alert.alert("Error", "Failed to load place")
+        } finally {
+          if (active) setLoading(false)
+        }
+      }
+      loadPlace()
+      return () => {
+        active = false
+      }
+    }, [placeId])
+  )
+
+  const handleDelete = () => {
+    if (!place) return
+    Alert.alert(
+      "Remove Place",
+      `Remove ${place.name}? Memories that happened here are kept.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deletePlace(place.id)
+              router.push("/places")
+            } catch (error) {
+              Alert.alert("Error", "Failed to remove place")
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  if (loading || !place) {
+    return (
+      <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+        <Header title="Place" backPath="/places" />
+        <View className={cn("flex-1 items-center justify-center")}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title={place.name} backPath="/places" />
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          {/* Place Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <View className={cn("flex-row items-center mb-2")}>
+              <Ionicons name="location" size={24} color="#10B981" />
+              <Text className={cn("text-gray-900 font-bold text-2xl ml-1")}> {place.name} </Text>
+            </View>
+            {place.type && (
+              <Text className={cn("text-gray-600 text-base mb-1")}> {place.type} </Text>
+            )}
+            {place.address && (
+              <Text className={cn("text-gray-500 text-base mb-1")}> {place.address} </Text>
+            )}
+            {place.latitude !== null && place.longitude !== null && (
+              <Text className={cn("text-gray-400 text-sm")}> {place.latitude.toFixed(5)}, {place.longitude.toFixed(5)} </Text>
+            )}
+
+            <View className={cn("flex-row gap-3 mt-4")}>
+              <TouchableOpacity
+                onPress={() => router.push(`/editPlace?id=${place.id}`)}
+                className={cn("flex-1 flex-row items-center justify-center bg-emerald-600 rounded-2xl py-3")}
+                accessibilityLabel="Edit place"
+                accessibilityRole="button"
+              >
+                <Feather name="edit-2" size={18} color="white" />
+                <Text className={cn("text-white font-semibold ml-2")}> Edit </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleDelete}
+                className={cn("flex-1 flex-row items-center justify-center bg-gray-200 rounded-2xl py-3")}
+                accessibilityLabel="Remove place"
+                accessibilityRole="button"
+              >
+                <Feather name="trash-2" size={18} color="#b91c1c" />
+                <Text className={cn("text-red-700 font-semibold ml-2")}> Remove </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Memories at this place */}
+          <Text className={cn("text-gray-700 text-lg font-medium mb-3")}> Memories here </Text>
+          {notes.length === 0 ? (
+            <Text className={cn("text-gray-500 text-base")}> No memories linked yet </Text>
+          ) : (
+            notes.map((note) => (
+              <TouchableOpacity
+                key={note.id}
+                onPress={() => router.push(`/viewNote?id=${note.id}`)}
+                activeOpacity={0.7}
+                className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-3")}
+                accessibilityRole="button"
+              >
+                <Text className={cn("text-gray-500 text-sm mb-1")}> {note.eventDate ?? note.createdAt} </Text>
+                <Text className={cn("text-gray-900 font-semibold text-lg")} numberOfLines={1}> {note.title} </Text>
+                <Text className={cn("text-gray-600 text-md leading-6")} numberOfLines={2}> {note.content} </Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
@@ -1,13 +1,13 @@
 import { useReducer, useEffect } from "react"
 import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, Image } from "react-native"
 import { SafeAreaView } from "react-native-safe-area-context"
-import { useRouter } from "expo-router"
+import { useRouter, useLocalSearchParams } from "expo-router"
 import { Ionicons } from "@expo/vector-icons"
 import Header from "../components/Header"
 import { cn } from "../lib/utils"
 import { useApp } from "../lib/appContext"
 import ModelManager from "../model/ModelManager"
-import { getAllNotes } from "../database/notesOperations"
+import { getAllNotes, getNotesInCollection } from "../database/notesOperations"
 import { NoteWithDetails } from "../database/types"
 import { buildQuizPrompt } from "../lib/buildPrompts"
 
@@ -131,6 +131,8 @@ export default function QuizPage() {
   } = state
 
   const router = useRouter()
+  const params = useLocalSearchParams()
+  const collectionId = params.collectionId ? parseInt(params.collectionId as string) : undefined
   const { modelsReady } = useApp()
   const currentQuestion = questions[currentQuestionIndex]
   const isCorrect = selectedAnswer === currentQuestion?.correctAnswer
@@ -145,10 +147,15 @@ export default function QuizPage() {
           return
         }
 
-        const allNotes = await getAllNotes()
+        const allNotes = collectionId !== undefined ? await getNotesInCollection(collectionId) : await getAllNotes()
 
         if (allNotes.length === 0) {
-          dispatch({ type: 'INIT_ERROR', message: "No notes available. Please create some notes first." })
+          dispatch({
+            type: 'INIT_ERROR',
+            message: collectionId !== undefined
+              ? "This collection has no notes yet. Please add some notes to it first."
+              : "No notes available. Please create some notes first."
+          })
           return
         }
 
@@ -1,10 +1,11 @@
 import { useReducer, useEffect, useRef } from "react"
 import { View, Text, TouchableOpacity, ScrollView, Image, Animated, ActivityIndicator } from "react-native"
 import { SafeAreaView } from "react-native-safe-area-context"
-import { useRouter } from "expo-router"
+import { useRouter, useLocalSearchParams } from "expo-router"
 import { Ionicons } from "@expo/vector-icons"
 import * as Speech from "expo-speech"
 import { cn } from "../lib/utils"
+import { displayUri } from "../lib/mediaStore"
 import { selectReminisceNotes, markNotesAsShown } from "../lib/selectReminisceNotes"
 import { type NoteWithDetails } from "../database/types"
 
@@ -102,6 +103,8 @@ export default function ReminiscePage() {
   const [state, dispatch] = useReducer(reminisceReducer, initialReminisceState)
   const { notes, currentIndex, isPlaying, isPaused, sessionComplete, isLoading, hasError, errorMessage } = state
   const router = useRouter()
+  const params = useLocalSearchParams()
+  const collectionId = params.collectionId ? parseInt(params.collectionId as string) : undefined
 
   const currentNote = notes[currentIndex]
   const totalNotes = notes.length
@@ -114,12 +117,14 @@ export default function ReminiscePage() {
   useEffect(() => {
     async function loadNotes() {
       try {
-        const selectedNotes = await selectReminisceNotes(5)
+        const selectedNotes = await selectReminisceNotes(5, collectionId)
 
         if (selectedNotes.length === 0) {
           dispatch({
             type: 'INIT_ERROR',
-            message: 'No notes available. Please create some notes first.'
+            message: collectionId !== undefined
+              ? 'This collection has no notes yet. Please add some notes to it first.'
+              : 'No notes available. Please create some notes first.'
           })
           return
         }
@@ -363,7 +368,7 @@ export default function ReminiscePage() {
               // 3D Image with offset border effect
               <View>
                 <Image
-                  source={{ uri: currentNote.images[0].uri }}
+                  source={{ uri: displayUri(currentNote.images[0].uri) }}
                   className={cn("rounded-2xl")}
                   style={{ width: 320, height: 200 }}
                   resizeMode="cover"
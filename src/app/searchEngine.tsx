@@ -0,0 +1,123 @@
+import { useState, useCallback } from "react"
+import { View, Text, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useFocusEffect } from "expo-router"
+import { Feather } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { getSettings } from "../database/settingsOperations"
+import { type RetrievalBackendName } from "../database/types"
+import { chooseRetrievalBackend, checkRetrievalParity } from "../lib/retrievalBackend"
+import { sqliteVecRetrievalBackend } from "../lib/sqliteVecBackend"
+
+const BACKEND_OPTIONS: Array<{ value: RetrievalBackendName; label: string; description: string }> = [
+  { value: "memory", label: "In memory", description: "Memories are compared in app memory. Exact, and the default." },
+  { value: "sqliteVec", label: "sqlite-vec", description: "Memories are compared inside the database, which also applies filters. Uses less app memory." },
+]
+
+export default function SearchEnginePage() {
+  const [selected, setSelected] = useState<RetrievalBackendName | null>(null)
+  const [vecAvailable, setVecAvailable] = useState(false)
+  const [checking, setChecking] = useState(false)
+
+  useFocusEffect(
+    useCallback(() => {
+      const load = async () => {
+        try {
+          setSelected((await getSettings()).retrievalBackend)
+          setVecAvailable(await sqliteVecRetrievalBackend.isAvailable())
+        } catch (error) {
+          Alert.alert("Error", "Failed to load search settings")
+        }
+      }
+      load()
+    }, [])
+  )
+
+  const handleChoose = async (name: RetrievalBackendName) => {
+    try {
+      await chooseRetrievalBackend(name)
+      setSelected(name)
+    } catch (error) {
+      Alert.alert("Error", "Failed to change the search engine")
+    }
+  }
+
+  const handleCheck = async () => {
+    setChecking(true)
+    try {
+      const report = await checkRetrievalParity()
+      if (report.queries === 0) {
+        Alert.alert("Nothing to Compare", "Add a few memories and let them finish processing first.")
+      } else if (report.mismatches.length === 0) {
+        Alert.alert("Results Match", `Both engines found the same memories for ${report.queries} test ${report.queries === 1 ? "search" : "searches"}.`)
+      } else {
+        Alert.alert("Results Differ", `The engines disagreed on ${report.mismatches.length} of ${report.queries} test searches.`)
+      }
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to compare search engines")
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title="Search Engine" backPath="/settings" />
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium mb-2")}> Finding related memories </Text>
+            <Text className={cn("text-gray-600 text-base leading-6 mb-4")}>
+              Chat, search and similar-memory suggestions compare the meaning of your memories. Choose where that comparison runs.
+            </Text>
+
+            {selected &&
+              BACKEND_OPTIONS.map((option) => {
+                const isSelected = selected === option.value
+                const disabled = option.value === "sqliteVec" && !vecAvailable
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    onPress={() => handleChoose(option.value)}
+                    disabled={disabled || isSelected}
+                    className={cn("flex-row items-start p-3 rounded-xl border mb-3", isSelected ? "bg-emerald-50 border-emerald-600" : "bg-white border-gray-300")}
+                    style={{ opacity: disabled ? 0.5 : 1 }}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: isSelected, disabled }}
+                  >
+                    <Feather name={isSelected ? "check-circle" : "circle"} size={18} color={isSelected ? "#10B981" : "#9ca3af"} />
+                    <View className={cn("flex-1 ml-3")}>
+                      <Text className={cn("text-base font-medium", isSelected ? "text-emerald-700" : "text-gray-700")}> {option.label} </Text>
+                      <Text className={cn("text-gray-500 text-sm mt-1")}>
+                        {disabled ? "Not available in this build of the app." : option.description}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                )
+              })}
+
+            {vecAvailable && (
+              <TouchableOpacity
+                onPress={handleCheck}
+                disabled={checking}
+                className={cn("flex-row items-center justify-center bg-gray-200 rounded-xl py-3 mt-1")}
+                accessibilityLabel="Check that both search engines find the same memories"
+                accessibilityRole="button"
+              >
+                {checking ? (
+                  <ActivityIndicator color="#10B981" />
+                ) : (
+                  <>
+                    <Feather name="check-square" size={18} color="#374151" />
+                    <Text className={cn("text-gray-700 text-base font-semibold ml-2")}> Compare Engines </Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
@@ -0,0 +1,147 @@
+import { useState } from "react"
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { MIN_PIN_LENGTH, changePin, regenerateRecoveryPhrase } from "../database/encryption"
+
+// Key derivation blocks the JS thread for a moment; let the spinner render first
+const afterPaint = () => new Promise((resolve) => setTimeout(resolve, 50))
+
+function PinField({ value, onChange, placeholder }: { value: string; onChange: (pin: string) => void; placeholder: string }) {
+  return (
+    <TextInput
+      value={value}
+      onChangeText={(text) => onChange(text.replace(/\D/g, ""))}
+      placeholder={placeholder}
+      placeholderTextColor="#9ca3af"
+      keyboardType="number-pad"
+      secureTextEntry
+      maxLength={12}
+      className={cn("text-gray-900 text-base border-b border-gray-200 pb-2 mb-3")}
+      accessibilityLabel={placeholder}
+    />
+  )
+}
+
+export default function SecurityPage() {
+  const [currentPin, setCurrentPin] = useState("")
+  const [newPin, setNewPin] = useState("")
+  const [confirmPin, setConfirmPin] = useState("")
+  const [phrasePin, setPhrasePin] = useState("")
+  const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null)
+  const [busy, setBusy] = useState<"pin" | "phrase" | null>(null)
+
+  const handleChangePin = async () => {
+    if (newPin !== confirmPin) {
+      Alert.alert("Error", "New PINs don't match")
+      return
+    }
+    setBusy("pin")
+    await afterPaint()
+    try {
+      changePin(currentPin, newPin)
+      setCurrentPin("")
+      setNewPin("")
+      setConfirmPin("")
+      Alert.alert("PIN Changed", "Use your new PIN next time you open MemoriQ.")
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to change PIN")
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleNewPhrase = () => {
+    Alert.alert("New Recovery Phrase", "Your current recovery phrase will stop working. Continue?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Continue",
+        style: "destructive",
+        onPress: async () => {
+          setBusy("phrase")
+          await afterPaint()
+          try {
+            setRecoveryPhrase(regenerateRecoveryPhrase(phrasePin))
+            setPhrasePin("")
+          } catch (error) {
+            Alert.alert("Error", error instanceof Error ? error.message : "Failed to create a recovery phrase")
+          } finally {
+            setBusy(null)
+          }
+        },
+      },
+    ])
+  }
+
+  const canChangePin = currentPin.length > 0 && newPin.length >= MIN_PIN_LENGTH && confirmPin.length > 0
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title="Security" backPath="/settings" />
+
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          {/* Change PIN Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium mb-2")}> Change PIN </Text>
+            <Text className={cn("text-gray-500 text-sm mb-4")}> At least {MIN_PIN_LENGTH} digits. Your notes stay encrypted with the same key. </Text>
+            <PinField value={currentPin} onChange={setCurrentPin} placeholder="Current PIN" />
+            <PinField value={newPin} onChange={setNewPin} placeholder="New PIN" />
+            <PinField value={confirmPin} onChange={setConfirmPin} placeholder="Confirm new PIN" />
+            <TouchableOpacity
+              onPress={handleChangePin}
+              disabled={!canChangePin || busy !== null}
+              className={cn("bg-emerald-600 rounded-xl py-3 items-center mt-1")}
+              style={{ opacity: canChangePin && busy === null ? 1 : 0.5 }}
+              accessibilityRole="button"
+            >
+              {busy === "pin" ? <ActivityIndicator color="white" /> : <Text className={cn("text-white text-base font-semibold")}> Change PIN </Text>}
+            </TouchableOpacity>
+          </View>
+
+          {/* Recovery Phrase Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <Text className={cn("text-gray-700 text-lg font-medium mb-2")}> Recovery Phrase </Text>
+            <Text className={cn("text-gray-500 text-sm mb-4")}>
+              Lost your recovery phrase? Create a new one. The old phrase stops working straight away.
+            </Text>
+            {recoveryPhrase ? (
+              <>
+                <View className={cn("bg-gray-100 rounded-xl p-4 mb-3")}>
+                  <Text selectable className={cn("text-gray-900 text-lg font-mono text-center leading-relaxed")}>
+                    {recoveryPhrase}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => setRecoveryPhrase(null)}
+                  className={cn("bg-gray-200 rounded-xl py-3 items-center")}
+                  accessibilityRole="button"
+                >
+                  <Text className={cn("text-gray-700 text-base font-semibold")}> I've written it down </Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <PinField value={phrasePin} onChange={setPhrasePin} placeholder="Current PIN" />
+                <TouchableOpacity
+                  onPress={handleNewPhrase}
+                  disabled={!phrasePin || busy !== null}
+                  className={cn("bg-gray-200 rounded-xl py-3 items-center mt-1")}
+                  style={{ opacity: phrasePin && busy === null ? 1 : 0.5 }}
+                  accessibilityRole="button"
+                >
+                  {busy === "phrase" ? (
+                    <ActivityIndicator color="#374151" />
+                  ) : (
+                    <Text className={cn("text-gray-700 text-base font-semibold")}> Create New Recovery Phrase </Text>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
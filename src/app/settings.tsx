@@ -0,0 +1,71 @@
+import { View, Text, TouchableOpacity, ScrollView } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { Feather } from "@expo/vector-icons"
+import { useRouter, type Href } from "expo-router"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+
+type MenuEntry = {
+  path: Href
+  icon: keyof typeof Feather.glyphMap
+  label: string
+  description: string
+}
+
+// Screens reached from the Notes screen's menu button, grouped as shown
+const SECTIONS: Array<{ title: string; entries: MenuEntry[] }> = [
+  {
+    title: "Your memories",
+    entries: [
+      { path: "/memoryBook", icon: "book-open", label: "Memory Book", description: "Print memories as a book" },
+      { path: "/archive", icon: "archive", label: "Export & Import", description: "Move memories to or from another device" },
+      { path: "/trash", icon: "trash-2", label: "Trash", description: "Restore or permanently delete memories" },
+    ],
+  },
+  {
+    title: "Settings",
+    entries: [
+      { path: "/backups", icon: "hard-drive", label: "Backups", description: "Automatic backups and restoring them" },
+      { path: "/security", icon: "lock", label: "Security", description: "PIN and recovery phrase" },
+      { path: "/photoDescriptions", icon: "eye", label: "Photo Descriptions", description: "Suggested descriptions for your photos" },
+      { path: "/searchEngine", icon: "cpu", label: "Search Engine", description: "Where memories are compared by meaning" },
+    ],
+  },
+]
+
+export default function SettingsPage() {
+  const router = useRouter()
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title="More" backPath="/notes" />
+      <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+        <View className={cn("px-4 py-4")}>
+          {SECTIONS.map((section) => (
+            <View key={section.title} className={cn("mb-4")}>
+              <Text className={cn("text-gray-500 text-sm font-semibold uppercase mb-2 px-1")}>{section.title}</Text>
+              <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden")}>
+                {section.entries.map((entry, index) => (
+                  <TouchableOpacity
+                    key={entry.label}
+                    onPress={() => router.push(entry.path)}
+                    className={cn("flex-row items-center px-4 py-3", index > 0 && "border-t border-gray-100")}
+                    accessibilityLabel={`Open ${entry.label}`}
+                    accessibilityRole="button"
+                  >
+                    <Feather name={entry.icon} size={20} color="#10B981" />
+                    <View className={cn("flex-1 ml-3")}>
+                      <Text className={cn("text-gray-800 text-base font-medium")}>{entry.label}</Text>
+                      <Text className={cn("text-gray-500 text-sm")}>{entry.description}</Text>
+                    </View>
+                    <Feather name="chevron-right" size={20} color="#9ca3af" />
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
@@ -0,0 +1,278 @@
+import { useState, useCallback } from "react"
+import { View, Text, TextInput, FlatList, TouchableOpacity, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useFocusEffect } from "expo-router"
+import { Feather } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { getAllTags, createTag, renameTag, setTagColor, mergeTags, deleteTag, TAG_COLORS } from "../database/tagsOperations"
+import { type TagWithNoteCount } from "../database/types"
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback)
+
+/* Row of color swatches; the first option clears the color */
+function ColorSwatches({ value, onChange }: { value: string | null; onChange: (color: string | null) => void }) {
+  return (
+    <View className={cn("flex-row flex-wrap gap-2")}>
+      <TouchableOpacity
+        onPress={() => onChange(null)}
+        className={cn("w-8 h-8 rounded-full border-2 items-center justify-center bg-white", value === null ? "border-gray-800" : "border-gray-300")}
+        accessibilityLabel="No color"
+        accessibilityRole="button"
+        accessibilityState={{ selected: value === null }}
+      >
+        <Feather name="slash" size={14} color="#9ca3af" />
+      </TouchableOpacity>
+      {TAG_COLORS.map((color) => (
+        <TouchableOpacity
+          key={color}
+          onPress={() => onChange(color)}
+          className={cn("w-8 h-8 rounded-full border-2", value === color ? "border-gray-800" : "border-transparent")}
+          style={{ backgroundColor: color }}
+          accessibilityLabel={`Color ${color}`}
+          accessibilityRole="button"
+          accessibilityState={{ selected: value === color }}
+        />
+      ))}
+    </View>
+  )
+}
+
+export default function TagsPage() {
+  const [tags, setTags] = useState<TagWithNoteCount[]>([])
+  const [loading, setLoading] = useState(true)
+  const [newName, setNewName] = useState("")
+  const [newColor, setNewColor] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [editName, setEditName] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const loadTags = async () => {
+    try {
+      setTags(await getAllTags())
+    } catch (error) {
+      Alert.alert("Error", "Failed to load tags")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTags()
+    }, [])
+  )
+
+  // Run a tag change, then reload the list so counts and names stay accurate
+  const runChange = async (change: () => Promise<void>, fallbackMessage: string) => {
+    setSaving(true)
+    try {
+      await change()
+      await loadTags()
+      return true
+    } catch (error) {
+      Alert.alert("Error", errorMessage(error, fallbackMessage))
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    const created = await runChange(async () => {
+      await createTag(newName, newColor)
+    }, "Failed to create tag")
+    if (created) {
+      setNewName("")
+      setNewColor(null)
+    }
+  }
+
+  const startEditing = (tag: TagWithNoteCount) => {
+    setEditingId(editingId === tag.id ? null : tag.id)
+    setEditName(tag.name)
+  }
+
+  const handleRename = (tag: TagWithNoteCount) => {
+    runChange(() => renameTag(tag.id, editName), "Failed to rename tag")
+  }
+
+  const handleMerge = (source: TagWithNoteCount, target: TagWithNoteCount) => {
+    Alert.alert(
+      "Merge Tags",
+      `Move ${source.noteCount === 1 ? "the note" : `all ${source.noteCount} notes`} tagged "${source.name}" to "${target.name}" and remove "${source.name}"?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Merge",
+          onPress: async () => {
+            if (await runChange(() => mergeTags(source.id, target.id), "Failed to merge tags")) {
+              setEditingId(null)
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const handleDelete = (tag: TagWithNoteCount) => {
+    Alert.alert(
+      "Delete Tag",
+      tag.noteCount > 0
+        ? `Remove "${tag.name}"? ${tag.noteCount === 1 ? "The note using it is" : `The ${tag.noteCount} notes using it are`} kept, just without this tag.`
+        : `Remove "${tag.name}"?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            if (await runChange(() => deleteTag(tag.id), "Failed to delete tag")) {
+              setEditingId(null)
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const renderItem = ({ item }: { item: TagWithNoteCount }) => {
+    const isEditing = editingId === item.id
+    return (
+      <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4")}>
+        <TouchableOpacity
+          onPress={() => startEditing(item)}
+          className={cn("flex-row items-center")}
+          accessibilityLabel={`Edit tag ${item.name}`}
+          accessibilityRole="button"
+          accessibilityState={{ expanded: isEditing }}
+        >
+          <View className={cn("w-4 h-4 rounded-full border border-gray-300")} style={{ backgroundColor: item.color ?? "white" }} />
+          <Text className={cn("flex-1 text-gray-900 font-semibold text-lg ml-3")} numberOfLines={1}> {item.name} </Text>
+          <Text className={cn("text-gray-500 text-sm mr-2")}>
+            {item.noteCount} {item.noteCount === 1 ? "note" : "notes"}
+          </Text>
+          <Feather name={isEditing ? "chevron-up" : "chevron-down"} size={20} color="#9ca3af" />
+        </TouchableOpacity>
+
+        {isEditing && (
+          <View className={cn("mt-4 pt-4 border-t border-gray-100")}>
+            <Text className={cn("text-gray-700 text-sm font-medium mb-2")}> Name </Text>
+            <View className={cn("flex-row items-center gap-2 mb-4")}>
+              <TextInput
+                value={editName}
+                onChangeText={setEditName}
+                className={cn("flex-1 text-gray-900 text-base border-b border-gray-200 pb-2")}
+                accessibilityLabel="Tag name"
+                maxLength={40}
+              />
+              <TouchableOpacity
+                onPress={() => handleRename(item)}
+                disabled={saving || !editName.trim() || editName.trim() === item.name}
+                className={cn("bg-emerald-600 rounded-xl px-4 py-2")}
+                style={{ opacity: !saving && editName.trim() && editName.trim() !== item.name ? 1 : 0.5 }}
+                accessibilityRole="button"
+              >
+                <Text className={cn("text-white font-semibold")}> Rename </Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text className={cn("text-gray-700 text-sm font-medium mb-2")}> Color </Text>
+            <View className={cn("mb-4")}>
+              <ColorSwatches value={item.color} onChange={(color) => runChange(() => setTagColor(item.id, color), "Failed to change color")} />
+            </View>
+
+            {tags.length > 1 && (
+              <>
+                <Text className={cn("text-gray-700 text-sm font-medium mb-2")}> Merge into </Text>
+                <View className={cn("flex-row flex-wrap gap-2 mb-4")}>
+                  {tags.filter((tag) => tag.id !== item.id).map((tag) => (
+                    <TouchableOpacity
+                      key={tag.id}
+                      onPress={() => handleMerge(item, tag)}
+                      disabled={saving}
+                      className={cn("px-3 py-2 rounded-full border bg-white border-gray-300")}
+                      accessibilityLabel={`Merge ${item.name} into ${tag.name}`}
+                      accessibilityRole="button"
+                    >
+                      <Text className={cn("text-sm font-medium text-gray-600")}> {tag.name} </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <TouchableOpacity
+              onPress={() => handleDelete(item)}
+              disabled={saving}
+              className={cn("flex-row items-center self-start")}
+              accessibilityLabel={`Delete tag ${item.name}`}
+              accessibilityRole="button"
+            >
+              <Feather name="trash-2" size={16} color="#b91c1c" />
+              <Text className={cn("text-red-700 font-semibold ml-2")}> Delete tag </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    )
+  }
+
+  if (loading) {
+    return (
+      <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+        <Header title="Tags" backPath="/notes" />
+        <View className={cn("flex-1 items-center justify-center")}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title="Tags" backPath="/notes" />
+      <FlatList
+        data={tags}
+        extraData={[editingId, editName, saving]}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={renderItem}
+        contentContainerStyle={{ paddingHorizontal: 16, paddingTop: 16, paddingBottom: 100, gap: 12 }}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        accessibilityLabel="Tags list"
+        ListHeaderComponent={
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4")}>
+            <Text className={cn("text-gray-700 text-md font-medium mb-3")}> New Tag </Text>
+            <TextInput
+              value={newName}
+              onChangeText={setNewName}
+              placeholder="Tag name"
+              placeholderTextColor="#9ca3af"
+              className={cn("text-gray-900 text-base border-b border-gray-200 pb-2 mb-3")}
+              accessibilityLabel="New tag name"
+              maxLength={40}
+            />
+            <View className={cn("mb-3")}>
+              <ColorSwatches value={newColor} onChange={setNewColor} />
+            </View>
+            <TouchableOpacity
+              onPress={handleCreate}
+              disabled={!newName.trim() || saving}
+              className={cn("bg-emerald-600 rounded-xl py-2 items-center")}
+              style={{ opacity: newName.trim() && !saving ? 1 : 0.5 }}
+              accessibilityRole="button"
+            >
+              <Text className={cn("text-white font-semibold")}> Add Tag </Text>
+            </TouchableOpacity>
+          </View>
+        }
+        ListEmptyComponent={
+          <View className={cn("items-center justify-center py-20")}>
+            <Text className={cn("text-gray-500 text-lg text-center")}> No tags yet </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  )
+}
@@ -0,0 +1,175 @@
+import { useState, useCallback } from "react"
+import { View, Text, FlatList, TouchableOpacity, Alert, ActivityIndicator } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useFocusEffect } from "expo-router"
+import { Feather } from "@expo/vector-icons"
+import Header from "../components/Header"
+import { cn } from "../lib/utils"
+import { getTrashedNotes, restoreNote, permanentlyDeleteNote, emptyTrash, TRASH_RETENTION_DAYS } from "../database/notesOperations"
+import { type NoteWithDetails } from "../database/types"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/* Whole days left before a trashed note is purged automatically */
+function daysUntilPurge(deletedAt: number): number {
+  const remaining = deletedAt + TRASH_RETENTION_DAYS * DAY_MS - Date.now()
+  return Math.max(0, Math.ceil(remaining / DAY_MS))
+}
+
+export default function TrashPage() {
+  const [notes, setNotes] = useState<NoteWithDetails[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  const loadTrash = async () => {
+    try {
+      setNotes(await getTrashedNotes())
+    } catch (error) {
+      Alert.alert("Error", "Failed to load trash")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash()
+    }, [])
+  )
+
+  const handleRestore = async (noteId: number) => {
+    setBusyId(noteId)
+    try {
+      await restoreNote(noteId)
+      setNotes((current) => current.filter((note) => note.id !== noteId))
+    } catch (error) {
+      Alert.alert("Error", "Failed to restore note")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDeleteForever = (note: NoteWithDetails) => {
+    Alert.alert(
+      "Delete Forever",
+      `"${note.title}" and its photos and recording will be permanently deleted. This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete Forever",
+          style: "destructive",
+          onPress: async () => {
+            setBusyId(note.id)
+            try {
+              await permanentlyDeleteNote(note.id)
+              setNotes((current) => current.filter((item) => item.id !== note.id))
+            } catch (error) {
+              Alert.alert("Error", "Failed to delete note")
+            } finally {
+              setBusyId(null)
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      "Empty Trash",
+      `Permanently delete all ${notes.length} notes in the trash? This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Empty Trash",
+          style: "destructive",
+          onPress: async () => {
+            setLoading(true)
+            try {
+              await emptyTrash()
+            } catch (error) {
+              Alert.alert("Error", "Failed to empty trash")
+            }
+            await loadTrash()
+          },
+        },
+      ]
+    )
+  }
+
+  const renderItem = useCallback(({ item }: { item: NoteWithDetails }) => {
+    const daysLeft = daysUntilPurge(item.deletedAt ?? Date.now())
+    const isBusy = busyId === item.id
+    return (
+      <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4")}>
+        <Text className={cn("text-gray-500 text-sm mb-1")}>
+          {daysLeft === 0 ? " Deleted permanently soon" : ` Deleted permanently in ${daysLeft} ${daysLeft === 1 ? "day" : "days"}`}
+        </Text>
+        <Text className={cn("text-gray-900 font-semibold text-lg")} numberOfLines={1}> {item.title} </Text>
+        <Text className={cn("text-gray-600 text-md leading-6 mb-3")} numberOfLines={2}> {item.content} </Text>
+        <View className={cn("flex-row gap-3")}>
+          <TouchableOpacity
+            onPress={() => handleRestore(item.id)}
+            disabled={isBusy}
+            className={cn("flex-1 flex-row items-center justify-center bg-emerald-600 rounded-xl py-2")}
+            accessibilityLabel={`Restore ${item.title}`}
+            accessibilityRole="button"
+          >
+            <Feather name="rotate-ccw" size={16} color="white" />
+            <Text className={cn("text-white font-semibold ml-2")}> Restore </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleDeleteForever(item)}
+            disabled={isBusy}
+            className={cn("flex-1 flex-row items-center justify-center bg-gray-200 rounded-xl py-2")}
+            accessibilityLabel={`Delete ${item.title} forever`}
+            accessibilityRole="button"
+          >
+            <Feather name="trash-2" size={16} color="#b91c1c" />
+            <Text className={cn("text-red-700 font-semibold ml-2")}> Delete Forever </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    )
+  }, [busyId])
+
+  if (loading) {
+    return (
+      <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+        <Header title="Trash" backPath="/settings" />
+        <View className={cn("flex-1 items-center justify-center")}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-gray-50")}>
+      <Header title="Trash" backPath="/settings" />
+      <View className={cn("px-4 pt-3")}>
+        <Text className={cn("text-gray-500 text-sm")}>
+          Notes in the trash are deleted permanently after {TRASH_RETENTION_DAYS} days.
+        </Text>
+        {notes.length > 0 && (
+          <TouchableOpacity onPress={handleEmptyTrash} className={cn("self-end mt-2")} accessibilityRole="button">
+            <Text className={cn("text-red-700 font-semibold")}> Empty Trash </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <FlatList
+        data={notes}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={renderItem}
+        contentContainerStyle={{ paddingHorizontal: 16, paddingTop: 12, paddingBottom: 100, gap: 12 }}
+        showsVerticalScrollIndicator={false}
+        accessibilityLabel="Trashed notes"
+        ListEmptyComponent={
+          <View className={cn("items-center justify-center py-20")}>
+            <Text className={cn("text-gray-500 text-lg text-center")}> Trash is empty </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  )
+}
@@ -1,14 +1,18 @@
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback, useMemo } from "react"
 import { View, Text, ScrollView, Image, TouchableOpacity, ActivityIndicator, Modal, Dimensions, Alert } from "react-native"
 import { SafeAreaView } from "react-native-safe-area-context"
-import { useRouter, useLocalSearchParams } from "expo-router"
+import { useRouter, useLocalSearchParams, useFocusEffect } from "expo-router"
 import { useAudioPlayer, useAudioPlayerStatus } from "expo-audio"
 import Header from "../components/Header"
 import { Ionicons, Feather } from "@expo/vector-icons"
 import Entypo from "@expo/vector-icons/Entypo"
 import { cn } from "../lib/utils"
 import { getNoteById } from "../database/notesOperations"
-import { NoteWithDetails } from "../database/types"
+import { getLinkedNotes, linkNotes, unlinkNotes } from "../database/noteLinksOperations"
+import { getTranscript } from "../database/transcriptsOperations"
+import { NoteWithDetails, LinkedNote, Transcript } from "../database/types"
+import { findMissingMedia, displayUri } from "../lib/mediaStore"
+import { getSimilarMemories, type SimilarMemory } from "../lib/similarMemories"
 import NoteActionsMenu from "../components/NoteActionsMenu"
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window")
@@ -18,39 +22,90 @@ export default function ViewNote() {
   const [loading, setLoading] = useState(true)
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null)
   const [showActionsMenu, setShowActionsMenu] = useState(false)
+  const [links, setLinks] = useState<LinkedNote[]>([])
+  const [similar, setSimilar] = useState<SimilarMemory[]>([])
+  const [transcript, setTranscript] = useState<Transcript | null>(null)
   
   const router = useRouter()
   const params = useLocalSearchParams()
   const noteId = params.id as string
 
-  // Load note data
-  useEffect(() => {
-    async function loadNote() {
-      if (!noteId) {
-        Alert.alert("Error", "Note ID not provided")
-        router.back()
-        return
-      }
+  // Attachments whose files have disappeared from disk
+  const missingMedia = useMemo(
+    () => (note ? findMissingMedia([note.audioUri, ...note.images.map((image) => image.uri)]) : new Set<string>()),
+    [note]
+  )
 
-      setLoading(true)
-      try {
-        const loadedNote = await getNoteById(parseInt(noteId))
-        if (loadedNote) {
-          setNote(loadedNote)
-        } else {
-          Alert.alert("Error", "Note not found")
+  // Load note data, again on focus so edits and restored versions show up
+  useFocusEffect(
+    useCallback(() => {
+      async function loadNote() {
+        if (!noteId) {
+          Alert.alert("Error", "Note ID not provided")
           router.back()
+          return
+        }
+
+        try {
+          const loadedNote = await getNoteById(parseInt(noteId))
+          if (loadedNote) {
+            setNote(loadedNote)
+            const loadedTranscript = loadedNote.audioUri ? await getTranscript(loadedNote.id) : null
+            setTranscript(loadedTranscript?.audioUri === loadedNote.audioUri ? loadedTranscript : null)
+            await loadLinks()
+          } else {
+            Alert.alert("Error", "Note not found")
+            router.back()
+          }
+        } catch (error) {
+          Alert.alert("Error", "Failed to load note")
+          router.back()
+        } finally {
+          setLoading(false)
         }
-      } catch (error) {
-        Alert.alert("Error", "Failed to load note")
-        router.back()
-      } finally {
-        setLoading(false)
       }
+
+      loadNote()
+    }, [noteId])
+  )
+
+  // Links and backlinks, then similar memories that aren't linked yet
+  const loadLinks = async () => {
+    const id = parseInt(noteId)
+    const loadedLinks = await getLinkedNotes(id)
+    setLinks(loadedLinks)
+    // Suggestions need the note's embedding, so they are best effort
+    getSimilarMemories(id, loadedLinks.map((link) => link.noteId))
+      .then(setSimilar)
+      .catch(() => setSimilar([]))
+  }
+
+  const handleLinkSimilar = async (similarNoteId: number) => {
+    try {
+      await linkNotes(parseInt(noteId), similarNoteId, null)
+      await loadLinks()
+    } catch (error) {
+      Alert.alert("Error", "Failed to link notes")
     }
+  }
 
-    loadNote()
-  }, [noteId])
+  const handleUnlink = (link: LinkedNote) => {
+    Alert.alert("Remove Link", `Stop linking this memory with "${link.title}"? Both memories are kept.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await unlinkNotes(link.linkId)
+            await loadLinks()
+          } catch (error) {
+            Alert.alert("Error", "Failed to remove link")
+          }
+        },
+      },
+    ])
+  }
 
   const formatTimestamp = (timestamp: number): string => {
     const date = new Date(timestamp)
@@ -99,10 +154,37 @@ export default function ViewNote() {
       
       <ScrollView className={cn("flex-1")} contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
         <View className={cn("px-4 py-4")}>
+          {/* Broken Attachments Warning */}
+          {missingMedia.size > 0 && (
+            <View className={cn("flex-row items-start gap-2 bg-amber-50 border border-amber-300 rounded-2xl p-4 mb-4")}>
+              <Ionicons name="warning-outline" size={20} color="#b45309" />
+              <Text className={cn("text-amber-800 text-base flex-1")}>
+                {missingMedia.size === 1 ? "1 attachment" : `${missingMedia.size} attachments`} could not be found on this device.
+              </Text>
+            </View>
+          )}
+
           {/* Note Header Card with Actions Menu */}
           <View className={cn("relative bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
             <Text className={cn("text-gray-500 text-sm mb-2")}> {formatTimestamp(note.createdAt)} </Text>
             <Text className={cn("text-gray-900 font-bold text-2xl mb-3")}> {note.title} </Text>
+            {note.eventDateLabel && (
+              <View className={cn("flex-row items-center mb-3")}>
+                <Feather name="calendar" size={16} color="#10B981" />
+                <Text className={cn("text-emerald-700 text-base font-medium ml-1")}> {note.eventDateLabel} </Text>
+              </View>
+            )}
+            {note.place && (
+              <TouchableOpacity
+                onPress={() => router.push(`/place?id=${note.place!.id}`)}
+                className={cn("flex-row items-center mb-3")}
+                accessibilityLabel={`View memories at ${note.place.name}`}
+                accessibilityRole="button"
+              >
+                <Ionicons name="location-outline" size={16} color="#10B981" />
+                <Text className={cn("text-emerald-700 text-base font-medium ml-1")}> {note.place.name} </Text>
+              </TouchableOpacity>
+            )}
             
             {/* Three dots menu button in top right corner */}
             <TouchableOpacity
@@ -126,7 +208,8 @@ export default function ViewNote() {
             {note.tags.length > 0 && (
               <View className={cn("flex-row flex-wrap gap-2 mt-2")}>
                 {note.tags.map((tag) => (
-                  <View key={tag.id} className={cn("px-3 py-1.5 rounded-full bg-emerald-50 border border-emerald-600")}>
+                  <View key={tag.id} className={cn("flex-row items-center px-3 py-1.5 rounded-full bg-emerald-50 border border-emerald-600")}>
+                    {tag.color && <View className={cn("w-2.5 h-2.5 rounded-full mr-1")} style={{ backgroundColor: tag.color }} />}
                     <Text className={cn("text-emerald-700 text-sm font-medium")}> {tag.name} </Text>
                   </View>
                 ))}
@@ -134,6 +217,33 @@ export default function ViewNote() {
             )}
           </View>
 
+          {/* People Card */}
+          {note.people.length > 0 && (
+            <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+              <Text className={cn("text-gray-700 text-lg font-medium mb-3")}> People </Text>
+              <View className={cn("flex-row flex-wrap gap-2")}>
+                {note.people.map((person) => (
+                  <TouchableOpacity
+                    key={person.id}
+                    onPress={() => router.push(`/person?id=${person.id}`)}
+                    className={cn("flex-row items-center px-2 py-1.5 rounded-full bg-gray-50 border border-gray-300")}
+                    accessibilityLabel={`View memories with ${person.name}`}
+                    accessibilityRole="button"
+                  >
+                    {person.portraitUri ? (
+                      <Image source={{ uri: displayUri(person.portraitUri) }} className={cn("w-7 h-7 rounded-full")} />
+                    ) : (
+                      <Ionicons name="person-circle-outline" size={28} color="#9ca3af" />
+                    )}
+                    <Text className={cn("text-gray-800 text-sm font-medium ml-1")}>
+                      {person.name}{person.relationship ? ` · ${person.relationship}` : ""}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
           {/* Content Card */}
           {note.content && (
             <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
@@ -148,17 +258,108 @@ export default function ViewNote() {
               <Text className={cn("text-gray-700 text-lg font-medium mb-3")}> Photos ({note.images.length})</Text>
               <View className={cn("flex-row flex-wrap gap-2")}>
                 {note.images.map((image, index) => (
-                  <TouchableOpacity key={image.id} onPress={() => setSelectedImageIndex(index)} activeOpacity={0.9}>
-                    <Image source={{ uri: image.uri }} className={cn("w-28 h-28 rounded-lg")} resizeMode="cover" />
-                  </TouchableOpacity>
+                  missingMedia.has(image.uri) ? (
+                    <View key={image.id} className={cn("w-28 h-28 rounded-lg bg-gray-100 border border-dashed border-gray-400 items-center justify-center")} accessibilityLabel={`Photo ${index + 1} is missing`}>
+                      <Ionicons name="image-outline" size={28} color="#9ca3af" />
+                      <Text className={cn("text-gray-500 text-xs mt-1")}> Missing </Text>
+                    </View>
+                  ) : (
+                    <TouchableOpacity key={image.id} onPress={() => setSelectedImageIndex(index)} activeOpacity={0.9}>
+                      <Image source={{ uri: displayUri(image.uri) }} className={cn("w-28 h-28 rounded-lg")} resizeMode="cover" />
+                    </TouchableOpacity>
+                  )
                 ))}
               </View>
             </View>
           )}
 
           {/* Audio Player - Only render if audio exists */}
-          {note.audioUri && (
-            <AudioPlayerComponent audioUri={note.audioUri} />
+          {note.audioUri && !missingMedia.has(note.audioUri) && (
+            <AudioPlayerComponent audioUri={note.audioUri} transcript={transcript} />
+          )}
+          {note.audioUri && missingMedia.has(note.audioUri) && (
+            <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+              <Text className={cn("text-gray-700 text-lg font-medium mb-3")}> Voice Note </Text>
+              <View className={cn("flex-row items-center gap-2 bg-gray-100 rounded-xl p-4")}>
+                <Ionicons name="mic-off-outline" size={20} color="#6b7280" />
+                <Text className={cn("text-gray-600 text-base flex-1")}> The recording file is missing </Text>
+              </View>
+            </View>
+          )}
+
+          {/* Linked Memories Card */}
+          <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+            <View className={cn("flex-row items-center justify-between mb-2")}>
+              <Text className={cn("text-gray-700 text-lg font-medium")}> Linked Memories </Text>
+              <TouchableOpacity
+                onPress={() => router.push(`/linkNote?id=${note.id}`)}
+                className={cn("flex-row items-center")}
+                accessibilityLabel="Link another memory"
+                accessibilityRole="button"
+              >
+                <Feather name="plus" size={18} color="#10B981" />
+                <Text className={cn("text-emerald-700 font-medium ml-1")}> Link </Text>
+              </TouchableOpacity>
+            </View>
+            {links.length === 0 ? (
+              <Text className={cn("text-gray-500 text-base")}> No linked memories yet </Text>
+            ) : (
+              links.map((link) => (
+                <View key={link.linkId} className={cn("flex-row items-center py-2 border-t border-gray-100")}>
+                  <TouchableOpacity
+                    onPress={() => router.push(`/viewNote?id=${link.noteId}`)}
+                    className={cn("flex-1 flex-row items-center")}
+                    accessibilityLabel={`View ${link.title}`}
+                    accessibilityRole="button"
+                  >
+                    <Feather name={link.direction === "outgoing" ? "arrow-right" : "corner-down-left"} size={18} color="#10B981" />
+                    <View className={cn("flex-1 ml-3")}>
+                      <Text className={cn("text-gray-500 text-sm")}>
+                        {[link.direction === "incoming" ? "Links here" : null, link.relation, link.eventDateLabel].filter(Boolean).join(" · ")}
+                      </Text>
+                      <Text className={cn("text-gray-900 text-base font-medium")} numberOfLines={1}> {link.title} </Text>
+                    </View>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleUnlink(link)}
+                    className={cn("p-2")}
+                    accessibilityLabel={`Remove link with ${link.title}`}
+                    accessibilityRole="button"
+                  >
+                    <Feather name="x" size={18} color="#9ca3af" />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </View>
+
+          {/* Similar Memories Card */}
+          {similar.length > 0 && (
+            <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+              <Text className={cn("text-gray-700 text-lg font-medium mb-2")}> Similar Memories </Text>
+              {similar.map(({ note: similarNote }) => (
+                <View key={similarNote.id} className={cn("flex-row items-center py-2 border-t border-gray-100")}>
+                  <TouchableOpacity
+                    onPress={() => router.push(`/viewNote?id=${similarNote.id}`)}
+                    className={cn("flex-1")}
+                    accessibilityLabel={`View ${similarNote.title}`}
+                    accessibilityRole="button"
+                  >
+                    {similarNote.eventDateLabel && <Text className={cn("text-gray-500 text-sm")}> {similarNote.eventDateLabel} </Text>}
+                    <Text className={cn("text-gray-900 text-base font-medium")} numberOfLines={1}> {similarNote.title} </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleLinkSimilar(similarNote.id)}
+                    className={cn("flex-row items-center px-3 py-2 rounded-full bg-white border border-gray-300")}
+                    accessibilityLabel={`Link ${similarNote.title}`}
+                    accessibilityRole="button"
+                  >
+                    <Feather name="link" size={14} color="#10B981" />
+                    <Text className={cn("text-gray-700 text-sm font-medium ml-1")}>Link</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
           )}
         </View>
       </ScrollView>
@@ -185,7 +386,7 @@ export default function ViewNote() {
             {selectedImageIndex !== null && note.images[selectedImageIndex] && (
               <View className={cn("flex-1 justify-center items-center")}>
                 <Image
-                  source={{ uri: note.images[selectedImageIndex].uri }}
+                  source={{ uri: displayUri(note.images[selectedImageIndex].uri) }}
                   style={{ width: screenWidth, height: screenHeight * 0.8 }}
                   resizeMode="contain"
                 />
@@ -231,8 +432,8 @@ export default function ViewNote() {
 }
 
 // Separate component for audio player to isolate hooks
-function AudioPlayerComponent({ audioUri }: { audioUri: string }) {
-  const audioPlayer = useAudioPlayer(audioUri)
+function AudioPlayerComponent({ audioUri, transcript }: { audioUri: string; transcript: Transcript | null }) {
+  const audioPlayer = useAudioPlayer(displayUri(audioUri))
   const audioStatus = useAudioPlayerStatus(audioPlayer)
 
   useEffect(() => {
@@ -287,7 +488,28 @@ function AudioPlayerComponent({ audioUri }: { audioUri: string }) {
     }
   }
 
+  // Jump to where a transcript segment was said and play from there
+  const handleSegmentPress = (startMs: number) => {
+    if (!audioPlayer) return
+    try {
+      audioPlayer.seekTo(startMs / 1000)
+      if (!audioStatus?.playing) {
+        audioPlayer.play()
+      }
+    } catch (error) {
+      // Error seeking to segment
+    }
+  }
+
+  const transcriptMessage = (): string => {
+    if (!transcript) return "The transcript will appear here once it's ready."
+    if (transcript.status === "unsupported") return "This recording's format can't be transcribed on this device."
+    if (transcript.status === "failed") return "This recording couldn't be transcribed."
+    return "No speech was recognised in this recording."
+  }
+
   if (!audioStatus) return null
+  const currentMs = audioStatus.currentTime * 1000
 
   return (
     <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
@@ -336,6 +558,29 @@ function AudioPlayerComponent({ audioUri }: { audioUri: string }) {
           {audioStatus.playing ? "Playing" : audioStatus.currentTime > 0 ? "Paused" : "Ready to play"}
         </Text>
       </View>
+
+      {/* Transcript: the segment being played is highlighted, tapping a segment plays from there */}
+      <Text className={cn("text-gray-700 text-base font-medium mt-4 mb-2")}> Transcript </Text>
+      {transcript?.status === "completed" && transcript.segments.length > 0 ? (
+        <Text className={cn("text-gray-800 text-base leading-7")}>
+          {transcript.segments.map((segment, index) => {
+            const active = currentMs >= segment.start && currentMs < segment.end
+            return (
+              <Text
+                key={index}
+                onPress={() => handleSegmentPress(segment.start)}
+                className={cn(active && "bg-emerald-100 text-emerald-900")}
+                accessibilityRole="button"
+                accessibilityLabel={`Play from ${formatAudioTime(segment.start / 1000)}: ${segment.text}`}
+              >
+                {segment.text}{" "}
+              </Text>
+            )
+          })}
+        </Text>
+      ) : (
+        <Text className={cn("text-gray-500 text-sm")}> {transcriptMessage()} </Text>
+      )}
     </View>
   )
 }
\ No newline at end of file
@@ -1,8 +1,24 @@
 import { useState, useEffect } from "react"
-import { View, Text, TouchableOpacity, Alert } from "react-native"
-import { useAudioRecorder, useAudioRecorderState, useAudioPlayer, useAudioPlayerStatus, RecordingPresets, setAudioModeAsync, requestRecordingPermissionsAsync } from "expo-audio"
+import { View, Text, TouchableOpacity, Alert, Platform } from "react-native"
+import { useAudioRecorder, useAudioRecorderState, useAudioPlayer, useAudioPlayerStatus, RecordingPresets, IOSOutputFormat, setAudioModeAsync, requestRecordingPermissionsAsync, type RecordingOptions } from "expo-audio"
 import { Ionicons } from "@expo/vector-icons"
 import { cn } from "../lib/utils"
+import { displayUri } from "../lib/mediaStore"
+import { startWavRecording, pauseWavRecording, resumeWavRecording, stopWavRecording, discardWavRecording, getWavRecordingMillis } from "../lib/wavRecorder"
+
+// The speech model transcribes 16 kHz WAV, which iOS can record directly. Android's recorder can't write WAV,
+// so there voice notes stream from the microphone into a WAV file of their own (see wavRecorder.ts)
+const RECORDER_WRITES_WAV = Platform.OS !== "android"
+const VOICE_NOTE_RECORDING: RecordingOptions = {
+  ...RecordingPresets.HIGH_QUALITY,
+  numberOfChannels: 1,
+  ios: {
+    ...RecordingPresets.HIGH_QUALITY.ios,
+    extension: ".wav",
+    sampleRate: 16000,
+    outputFormat: IOSOutputFormat.LINEARPCM,
+  },
+}
 
 interface AudioProps {
   audioUri: string | null
@@ -14,8 +30,22 @@ export default function Audio({ audioUri, onAudioUriChange }: AudioProps) {
   const [isPaused, setIsPaused] = useState(false)
   const [hasPermission, setHasPermission] = useState(false)
   
-  const audioRecorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY)
+  const audioRecorder = useAudioRecorder(VOICE_NOTE_RECORDING)
   const recorderState = useAudioRecorderState(audioRecorder)
+  const [wavMillis, setWavMillis] = useState(0)
+  const durationMillis = RECORDER_WRITES_WAV ? recorderState.durationMillis : wavMillis
+
+  // Unlike the expo recorder, the WAV recorder isn't tied to this component; don't leave it listening after the screen closes
+  useEffect(() => () => {
+    if (!RECORDER_WRITES_WAV) discardWavRecording()
+  }, [])
+
+  // The WAV recorder has no state hook; poll its length while it records
+  useEffect(() => {
+    if (RECORDER_WRITES_WAV || !isRecording || isPaused) return
+    const timer = setInterval(() => setWavMillis(getWavRecordingMillis()), 500)
+    return () => clearInterval(timer)
+  }, [isRecording, isPaused])
 
   useEffect(() => {
     const setupAudio = async () => {
@@ -40,6 +70,18 @@ export default function Audio({ audioUri, onAudioUriChange }: AudioProps) {
     setupAudio()
   }, [])
 
+  const beginRecording = async () => {
+    if (RECORDER_WRITES_WAV) {
+      await audioRecorder.prepareToRecordAsync()
+      audioRecorder.record()
+    } else {
+      startWavRecording()
+      setWavMillis(0)
+    }
+    setIsRecording(true)
+    setIsPaused(false)
+  }
+
   const startRecording = async () => {
     if (!hasPermission) {
       const { granted } = await requestRecordingPermissionsAsync()
@@ -63,19 +105,13 @@ export default function Audio({ audioUri, onAudioUriChange }: AudioProps) {
               style: "destructive",
               onPress: async () => {
                 onAudioUriChange(null)
-                await audioRecorder.prepareToRecordAsync()
-                audioRecorder.record()
-                setIsRecording(true)
-                setIsPaused(false)
+                await beginRecording()
               }
             }
           ]
         )
       } else {
-        await audioRecorder.prepareToRecordAsync()
-        audioRecorder.record()
-        setIsRecording(true)
-        setIsPaused(false)
+        await beginRecording()
       }
     } catch (error) {
       Alert.alert("Error", "Failed to start recording")
@@ -83,19 +119,32 @@ export default function Audio({ audioUri, onAudioUriChange }: AudioProps) {
   }
 
   const pauseRecording = () => {
-    audioRecorder.pause()
+    if (RECORDER_WRITES_WAV) {
+      audioRecorder.pause()
+    } else {
+      pauseWavRecording()
+    }
     setIsPaused(true)
   }
 
   const resumeRecording = () => {
-    audioRecorder.record()
+    if (RECORDER_WRITES_WAV) {
+      audioRecorder.record()
+    } else {
+      resumeWavRecording()
+    }
     setIsPaused(false)
   }
 
   const stopRecording = async () => {
     try {
-      await audioRecorder.stop()
-      const uri = audioRecorder.uri
+      let uri: string | null
+      if (RECORDER_WRITES_WAV) {
+        await audioRecorder.stop()
+        uri = audioRecorder.uri
+      } else {
+        uri = await stopWavRecording()
+      }
       if (uri) {
         onAudioUriChange(uri)
       }
@@ -155,7 +204,7 @@ export default function Audio({ audioUri, onAudioUriChange }: AudioProps) {
               )}
               <Text className={cn("text-red-800 font-medium")}>{isPaused ? "Paused" : "Recording"}</Text>
             </View>
-            <Text className={cn("text-red-800 font-mono")}>{formatTime(recorderState.durationMillis)}</Text>
+            <Text className={cn("text-red-800 font-mono")}>{formatTime(durationMillis)}</Text>
           </View>
 
           <View className={cn("flex-row gap-2")}>
@@ -209,7 +258,7 @@ function AudioPlayback({
   onReRecord: () => void
   onDelete: () => void
 }) {
-  const audioPlayer = useAudioPlayer(audioUri)
+  const audioPlayer = useAudioPlayer(displayUri(audioUri))
   const playerStatus = useAudioPlayerStatus(audioPlayer)
   const [isPlaying, setIsPlaying] = useState(false)
   const [currentTime, setCurrentTime] = useState(0)
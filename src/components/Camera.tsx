@@ -3,6 +3,7 @@ import { View, Text, TouchableOpacity, Image, Alert, ActivityIndicator } from "r
 import * as ImagePicker from "expo-image-picker"
 import { Ionicons } from "@expo/vector-icons"
 import { cn } from "../lib/utils"
+import { displayUri } from "../lib/mediaStore"
 
 interface CameraProps {
   images: string[]
@@ -123,7 +124,7 @@ export default function Camera({ images, onImagesChange, maxImages = 5 }: Camera
           <View className={cn("flex-row flex-wrap gap-2")}>
             {images.map((uri, index) => (
               <View key={index} className={cn("relative")}>
-                <Image source={{ uri }} className={cn("w-24 h-24 rounded-lg")} resizeMode="cover" />
+                <Image source={{ uri: displayUri(uri) }} className={cn("w-24 h-24 rounded-lg")} resizeMode="cover" />
                 <TouchableOpacity onPress={() => removeImage(index)} className={cn("absolute top-1 right-1 bg-red-500 rounded-full p-1")} accessibilityLabel={`Remove photo ${index + 1}`} accessibilityRole="button">
                   <Ionicons name="close" size={16} color="white" />
                 </TouchableOpacity>
@@ -7,9 +7,11 @@ import { cn } from "../lib/utils"
 type HeaderProps = {
   title: string
   backPath?: string
+  // Optional icon button on the right, e.g. a screen's menu
+  action?: { icon: keyof typeof Feather.glyphMap; label: string; onPress: () => void }
 }
 
-function Header({ title, backPath }: HeaderProps) {
+function Header({ title, backPath, action }: HeaderProps) {
   const router = useRouter()
 
   // Consistent heading style defined once here
@@ -49,8 +51,14 @@ function Header({ title, backPath }: HeaderProps) {
         </Text>
       </View>
 
-      {/* Right: Spacer to keep title perfectly centered */}
-      <View className={cn("w-10")} />
+      {/* Right: Action, or a spacer to keep title perfectly centered */}
+      <View className={cn("w-10 items-end justify-center")}>
+        {action && (
+          <TouchableOpacity onPress={action.onPress} accessibilityRole="button" accessibilityLabel={action.label}>
+            <Feather name={action.icon} size={22} color="#1F2937" />
+          </TouchableOpacity>
+        )}
+      </View>
     </View>
   )
 }
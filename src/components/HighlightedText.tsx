@@ -0,0 +1,26 @@
+import { memo } from "react"
+import { Text, type TextProps } from "react-native"
+import { cn } from "../lib/utils"
+import { splitHighlights } from "../database/fullTextSearch"
+
+type HighlightedTextProps = TextProps & {
+  text: string // Text containing HIGHLIGHT_START/END markers from full-text search
+  className?: string
+}
+
+/* Render search snippets with the matched words emphasised */
+function HighlightedText({ text, className, ...props }: HighlightedTextProps) {
+  return (
+    <Text className={className} {...props}>
+      {splitHighlights(text).map((part, index) =>
+        part.highlighted ? (
+          <Text key={index} className={cn("bg-amber-100 text-gray-900 font-semibold")}>{part.text}</Text>
+        ) : (
+          part.text
+        )
+      )}
+    </Text>
+  )
+}
+
+export default memo(HighlightedText)
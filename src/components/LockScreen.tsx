@@ -0,0 +1,267 @@
+import { useState, useEffect } from "react"
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, KeyboardAvoidingView, ScrollView } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { Ionicons } from "@expo/vector-icons"
+import { cn } from "../lib/utils"
+import { useApp } from "../lib/appContext"
+import { MIN_PIN_LENGTH, isValidPin, setUpEncryption, unlockWithPin, resetPinWithRecoveryPhrase } from "../database/encryption"
+
+// Wrong PINs beyond this count start a lockout that doubles each time
+const FREE_ATTEMPTS = 5
+const BASE_LOCKOUT_SECONDS = 30
+
+type Mode = "create" | "confirm" | "phrase" | "unlock" | "recover"
+
+// Key derivation blocks the JS thread for a moment; let the spinner render first
+const afterPaint = () => new Promise((resolve) => setTimeout(resolve, 50))
+
+function PinInput({ value, onChange, label, onSubmit }: { value: string; onChange: (pin: string) => void; label: string; onSubmit?: () => void }) {
+  return (
+    <TextInput
+      value={value}
+      onChangeText={(text) => onChange(text.replace(/\D/g, ""))}
+      onSubmitEditing={onSubmit}
+      placeholder="PIN"
+      placeholderTextColor="#9ca3af"
+      keyboardType="number-pad"
+      secureTextEntry
+      maxLength={12}
+      className={cn("text-gray-900 text-2xl text-center tracking-widest border-b border-gray-300 pb-2 mb-4")}
+      accessibilityLabel={label}
+    />
+  )
+}
+
+export default function LockScreen() {
+  const { lockState, unlock } = useApp()
+  const [mode, setMode] = useState<Mode>(lockState === "setup" ? "create" : "unlock")
+  const [pin, setPin] = useState("")
+  const [confirmPin, setConfirmPin] = useState("")
+  const [recoveryPhrase, setRecoveryPhrase] = useState("")
+  const [dataKey, setDataKey] = useState<string | null>(null)
+  const [failedAttempts, setFailedAttempts] = useState(0)
+  const [lockedUntil, setLockedUntil] = useState(0)
+  const [now, setNow] = useState(Date.now())
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Tick once a second while a lockout is running so the countdown updates
+  useEffect(() => {
+    if (lockedUntil <= now) return
+    const timer = setTimeout(() => setNow(Date.now()), 1000)
+    return () => clearTimeout(timer)
+  }, [lockedUntil, now])
+
+  const secondsLocked = Math.max(0, Math.ceil((lockedUntil - now) / 1000))
+
+  const switchMode = (next: Mode) => {
+    setMode(next)
+    setPin("")
+    setConfirmPin("")
+    setError(null)
+  }
+
+  const handleCreate = () => {
+    if (!isValidPin(pin)) {
+      setError(`Use at least ${MIN_PIN_LENGTH} digits`)
+      return
+    }
+    setMode("confirm")
+    setError(null)
+  }
+
+  const handleConfirm = async () => {
+    if (confirmPin !== pin) {
+      setError("PINs don't match, try again")
+      setConfirmPin("")
+      return
+    }
+    setBusy(true)
+    await afterPaint()
+    try {
+      const result = setUpEncryption(pin)
+      setRecoveryPhrase(result.recoveryPhrase)
+      setDataKey(result.dataKey)
+      setMode("phrase")
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to set up the PIN")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  /* Open the app with the data key; stays on this screen with the reason when the database can't be opened */
+  const openApp = async (key: string) => {
+    try {
+      await unlock(key)
+    } catch (err) {
+      setError(err instanceof Error ? `Could not open your memories: ${err.message}` : "Could not open your memories")
+    }
+  }
+
+  const handleUnlock = async () => {
+    if (secondsLocked > 0 || !pin) return
+    setBusy(true)
+    await afterPaint()
+    const key = unlockWithPin(pin)
+    if (key) {
+      setError(null)
+      await openApp(key)
+      setBusy(false)
+      return
+    }
+    setBusy(false)
+
+    const attempts = failedAttempts + 1
+    setFailedAttempts(attempts)
+    setPin("")
+    if (attempts >= FREE_ATTEMPTS) {
+      const seconds = BASE_LOCKOUT_SECONDS * 2 ** (attempts - FREE_ATTEMPTS)
+      setLockedUntil(Date.now() + seconds * 1000)
+      setNow(Date.now())
+      setError(`Too many attempts. Try again in ${seconds} seconds.`)
+    } else {
+      setError(`Incorrect PIN (${FREE_ATTEMPTS - attempts} ${FREE_ATTEMPTS - attempts === 1 ? "try" : "tries"} left before a pause)`)
+    }
+  }
+
+  const handleFinishSetup = async () => {
+    if (!dataKey) return
+    setBusy(true)
+    await openApp(dataKey)
+    setBusy(false)
+  }
+
+  const handleRecover = async () => {
+    if (!isValidPin(pin)) {
+      setError(`New PIN needs at least ${MIN_PIN_LENGTH} digits`)
+      return
+    }
+    setBusy(true)
+    await afterPaint()
+    try {
+      const key = resetPinWithRecoveryPhrase(recoveryPhrase, pin)
+      if (!key) {
+        setError("That recovery phrase doesn't match")
+        return
+      }
+      setFailedAttempts(0)
+      setLockedUntil(0)
+      await openApp(key)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reset the PIN")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const primaryButton = (label: string, onPress: () => void, disabled = false) => (
+    <TouchableOpacity
+      onPress={onPress}
+      disabled={busy || disabled}
+      className={cn("bg-emerald-600 rounded-xl py-3 items-center")}
+      style={{ opacity: busy || disabled ? 0.5 : 1 }}
+      accessibilityRole="button"
+    >
+      {busy ? <ActivityIndicator color="white" /> : <Text className={cn("text-white text-base font-semibold")}> {label} </Text>}
+    </TouchableOpacity>
+  )
+
+  const linkButton = (label: string, onPress: () => void) => (
+    <TouchableOpacity onPress={onPress} disabled={busy} className={cn("items-center mt-4")} accessibilityRole="button">
+      <Text className={cn("text-emerald-700 font-medium")}> {label} </Text>
+    </TouchableOpacity>
+  )
+
+  return (
+    <SafeAreaView className={cn("flex-1 bg-emerald-700")}>
+      <KeyboardAvoidingView behavior="padding" className={cn("flex-1")}>
+        <ScrollView contentContainerStyle={{ flexGrow: 1, justifyContent: "center", padding: 24 }} keyboardShouldPersistTaps="handled">
+          <View className={cn("w-full max-w-md self-center rounded-2xl bg-white/90 p-6")}>
+            <View className={cn("items-center mb-5")}>
+              <View className={cn("h-12 w-12 rounded-full bg-emerald-100 items-center justify-center mb-3")}>
+                <Ionicons name="lock-closed-outline" size={24} color="#059669" />
+              </View>
+              <Text className={cn("text-gray-900 text-xl font-semibold")}> MemoriQ </Text>
+            </View>
+
+            {mode === "create" && (
+              <>
+                <Text className={cn("text-gray-800 text-2xl font-semibold mb-2 text-center")}> Create a PIN </Text>
+                <Text className={cn("text-gray-600 text-base mb-5 text-center")}>
+                  Your notes, photos and recordings are encrypted on this device. You'll enter this PIN each time you open the app.
+                </Text>
+                <PinInput value={pin} onChange={setPin} label="New PIN" onSubmit={handleCreate} />
+                {primaryButton("Continue", handleCreate, pin.length < MIN_PIN_LENGTH)}
+              </>
+            )}
+
+            {mode === "confirm" && (
+              <>
+                <Text className={cn("text-gray-800 text-2xl font-semibold mb-5 text-center")}> Confirm your PIN </Text>
+                <PinInput value={confirmPin} onChange={setConfirmPin} label="Confirm PIN" onSubmit={handleConfirm} />
+                {primaryButton("Confirm", handleConfirm, confirmPin.length < MIN_PIN_LENGTH)}
+                {linkButton("Start over", () => switchMode("create"))}
+              </>
+            )}
+
+            {mode === "phrase" && (
+              <>
+                <Text className={cn("text-gray-800 text-2xl font-semibold mb-2 text-center")}> Your recovery phrase </Text>
+                <Text className={cn("text-gray-600 text-base mb-4 text-center")}>
+                  Write this down and keep it somewhere safe. It is the only way back in if you forget your PIN.
+                </Text>
+                <View className={cn("bg-gray-100 rounded-xl p-4 mb-5")}>
+                  <Text selectable className={cn("text-gray-900 text-lg font-mono text-center leading-relaxed")}>
+                    {recoveryPhrase}
+                  </Text>
+                </View>
+                {primaryButton("I've written it down", handleFinishSetup)}
+              </>
+            )}
+
+            {mode === "unlock" && (
+              <>
+                <Text className={cn("text-gray-800 text-2xl font-semibold mb-5 text-center")}> Enter your PIN </Text>
+                <PinInput value={pin} onChange={setPin} label="PIN" onSubmit={handleUnlock} />
+                {primaryButton(secondsLocked > 0 ? `Try again in ${secondsLocked}s` : "Unlock", handleUnlock, secondsLocked > 0 || !pin)}
+                {linkButton("Forgot PIN?", () => switchMode("recover"))}
+              </>
+            )}
+
+            {mode === "recover" && (
+              <>
+                <Text className={cn("text-gray-800 text-2xl font-semibold mb-2 text-center")}> Reset your PIN </Text>
+                <Text className={cn("text-gray-600 text-base mb-4 text-center")}> Enter your recovery phrase, then choose a new PIN. </Text>
+                <TextInput
+                  value={recoveryPhrase}
+                  onChangeText={setRecoveryPhrase}
+                  placeholder="XXXX-XXXX-..."
+                  placeholderTextColor="#9ca3af"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  multiline
+                  className={cn("text-gray-900 text-base font-mono border border-gray-300 rounded-xl p-3 mb-4")}
+                  accessibilityLabel="Recovery phrase"
+                />
+                <PinInput value={pin} onChange={setPin} label="New PIN" onSubmit={handleRecover} />
+                {primaryButton("Reset PIN", handleRecover, !recoveryPhrase.trim() || pin.length < MIN_PIN_LENGTH)}
+                {linkButton("Back", () => switchMode("unlock"))}
+              </>
+            )}
+
+            {error && (
+              <View className={cn("mt-5 px-4 py-3 bg-red-50 border border-red-200 rounded-lg")}>
+                <View className={cn("flex-row items-center justify-center gap-2")}>
+                  <Ionicons name="alert-circle-outline" size={20} color="#b91c1c" />
+                  <Text className={cn("text-red-700 text-base text-center flex-1")}>{error}</Text>
+                </View>
+              </View>
+            )}
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  )
+}
@@ -2,7 +2,7 @@ import { memo } from "react"
 import { View, Text, TouchableOpacity, Alert } from "react-native"
 import { useRouter } from "expo-router"
 import { cn } from "../lib/utils"
-import { deleteNote } from "../database/notesOperations"
+import { deleteNote, TRASH_RETENTION_DAYS } from "../database/notesOperations"
 
 interface NoteActionsMenuProps {
   noteId: string
@@ -19,19 +19,24 @@ function NoteActionsMenu({ noteId, isVisible, onClose, onDeleteSuccess }: NoteAc
     router.push(`/newNote?id=${noteId}`)
   }
 
+  const handleHistory = () => {
+    onClose()
+    router.push(`/noteHistory?id=${noteId}`)
+  }
+
   const handleDelete = () => {
     onClose()
 
     Alert.alert(
-      "Delete Note",
-      "Are you sure you want to delete this note?",
+      "Move to Trash",
+      `This note will be moved to the trash. You can restore it from there for ${TRASH_RETENTION_DAYS} days.`,
       [
         {
           text: "Cancel",
           style: "cancel"
         },
         {
-          text: "Delete",
+          text: "Move to Trash",
           style: "destructive",
           onPress: async () => {
             try {
@@ -62,6 +67,14 @@ function NoteActionsMenu({ noteId, isVisible, onClose, onDeleteSuccess }: NoteAc
         <Text className={cn("text-gray-700 text-base font-medium")}> Edit </Text>
       </TouchableOpacity>
       <View className={cn("h-px bg-gray-100")} />
+      <TouchableOpacity
+        onPress={handleHistory}
+        className={cn("px-6 py-3")}
+        accessibilityLabel="View note history"
+      >
+        <Text className={cn("text-gray-700 text-base font-medium")}> History </Text>
+      </TouchableOpacity>
+      <View className={cn("h-px bg-gray-100")} />
       <TouchableOpacity
         onPress={handleDelete}
         className={cn("px-6 py-3")}
@@ -0,0 +1,131 @@
+import { useState, useEffect } from "react"
+import { View, Text, TextInput, TouchableOpacity, Image, Alert } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import { cn } from "../lib/utils"
+import { displayUri } from "../lib/mediaStore"
+import { getAllPeople, createPerson } from "../database/peopleOperations"
+import { type Person } from "../database/types"
+
+interface PeoplePickerProps {
+  selectedIds: number[]
+  onToggle: (personId: number) => void
+}
+
+export default function PeoplePicker({ selectedIds, onToggle }: PeoplePickerProps) {
+  const [people, setPeople] = useState<Person[]>([])
+  const [showAddForm, setShowAddForm] = useState(false)
+  const [name, setName] = useState("")
+  const [relationship, setRelationship] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    getAllPeople()
+      .then(setPeople)
+      .catch(() => setPeople([]))
+  }, [])
+
+  // Quick-add a person without leaving the note editor; they are selected straight away
+  const handleAddPerson = async () => {
+    if (!name.trim()) {
+      return
+    }
+    setSaving(true)
+    try {
+      const personId = await createPerson({ name, relationship, portraitUri: null })
+      setPeople(await getAllPeople())
+      onToggle(personId)
+      setName("")
+      setRelationship("")
+      setShowAddForm(false)
+    } catch (error) {
+      Alert.alert("Error", "Failed to add person")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+      <Text className={cn("text-gray-700 text-md font-medium mb-3")}> Who was there? (Optional) </Text>
+
+      {people.length > 0 && (
+        <View className={cn("flex-row flex-wrap gap-2 mb-3")}>
+          {people.map((person) => {
+            const isSelected = selectedIds.includes(person.id)
+            return (
+              <TouchableOpacity
+                key={person.id}
+                onPress={() => onToggle(person.id)}
+                className={cn("flex-row items-center px-2 py-1.5 rounded-full border", isSelected ? "bg-emerald-50 border-emerald-600" : "bg-white border-gray-300")}
+                accessibilityLabel={`Person: ${person.name}`}
+                accessibilityHint={`Tap to ${isSelected ? 'remove' : 'add'} this person`}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}
+              >
+                {person.portraitUri ? (
+                  <Image source={{ uri: displayUri(person.portraitUri) }} className={cn("w-6 h-6 rounded-full")} />
+                ) : (
+                  <Ionicons name="person-circle-outline" size={24} color={isSelected ? "#047857" : "#9ca3af"} />
+                )}
+                <Text className={cn("text-sm font-medium ml-1", isSelected ? "text-emerald-700" : "text-gray-600")}>
+                  {person.name}{person.relationship ? ` · ${person.relationship}` : ""}
+                </Text>
+              </TouchableOpacity>
+            )
+          })}
+        </View>
+      )}
+
+      {showAddForm ? (
+        <View className={cn("bg-gray-50 rounded-xl border border-gray-200 p-3")}>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            placeholder="Name"
+            placeholderTextColor="#9ca3af"
+            className={cn("text-gray-900 text-base border-b border-gray-200 pb-2 mb-3")}
+            accessibilityLabel="New person name"
+            maxLength={50}
+          />
+          <TextInput
+            value={relationship}
+            onChangeText={setRelationship}
+            placeholder="Relationship, e.g. daughter, neighbour"
+            placeholderTextColor="#9ca3af"
+            className={cn("text-gray-900 text-base border-b border-gray-200 pb-2 mb-3")}
+            accessibilityLabel="New person relationship"
+            maxLength={50}
+          />
+          <View className={cn("flex-row gap-2")}>
+            <TouchableOpacity
+              onPress={() => setShowAddForm(false)}
+              className={cn("flex-1 bg-gray-200 rounded-xl py-2 items-center")}
+              accessibilityRole="button"
+            >
+              <Text className={cn("text-gray-700 font-semibold")}> Cancel </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleAddPerson}
+              disabled={!name.trim() || saving}
+              className={cn("flex-1 bg-emerald-600 rounded-xl py-2 items-center")}
+              style={{ opacity: name.trim() && !saving ? 1 : 0.5 }}
+              accessibilityRole="button"
+            >
+              <Text className={cn("text-white font-semibold")}> Add </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity
+          onPress={() => setShowAddForm(true)}
+          className={cn("flex-row items-center")}
+          accessibilityLabel="Add a new person"
+          accessibilityRole="button"
+        >
+          <Ionicons name="person-add-outline" size={18} color="#10B981" />
+          <Text className={cn("text-emerald-700 font-medium ml-2")}> Add a new person </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  )
+}
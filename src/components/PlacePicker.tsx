@@ -0,0 +1,126 @@
+import { useState, useEffect } from "react"
+import { View, Text, TextInput, TouchableOpacity, Alert } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import { cn } from "../lib/utils"
+import { getAllPlaces, createPlace } from "../database/placesOperations"
+import { type Place } from "../database/types"
+
+interface PlacePickerProps {
+  selectedId: number | null
+  onChange: (placeId: number | null) => void
+}
+
+export default function PlacePicker({ selectedId, onChange }: PlacePickerProps) {
+  const [places, setPlaces] = useState<Place[]>([])
+  const [showAddForm, setShowAddForm] = useState(false)
+  const [name, setName] = useState("")
+  const [type, setType] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    getAllPlaces()
+      .then(setPlaces)
+      .catch(() => setPlaces([]))
+  }, [])
+
+  // Quick-add a place without leaving the note editor; it is selected straight away
+  const handleAddPlace = async () => {
+    if (!name.trim()) {
+      return
+    }
+    setSaving(true)
+    try {
+      const placeId = await createPlace({ name, type, address: null, latitude: null, longitude: null })
+      setPlaces(await getAllPlaces())
+      onChange(placeId)
+      setName("")
+      setType("")
+      setShowAddForm(false)
+    } catch (error) {
+      Alert.alert("Error", "Failed to add place")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4")}>
+      <Text className={cn("text-gray-700 text-md font-medium mb-3")}> Where did it happen? (Optional) </Text>
+
+      {places.length > 0 && (
+        <View className={cn("flex-row flex-wrap gap-2 mb-3")}>
+          {places.map((place) => {
+            const isSelected = selectedId === place.id
+            return (
+              <TouchableOpacity
+                key={place.id}
+                onPress={() => onChange(isSelected ? null : place.id)}
+                className={cn("flex-row items-center px-3 py-2 rounded-full border", isSelected ? "bg-emerald-50 border-emerald-600" : "bg-white border-gray-300")}
+                accessibilityLabel={`Place: ${place.name}`}
+                accessibilityHint={isSelected ? "Tap to clear the place" : "Tap to choose this place"}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Ionicons name="location-outline" size={16} color={isSelected ? "#047857" : "#9ca3af"} />
+                <Text className={cn("text-sm font-medium ml-1", isSelected ? "text-emerald-700" : "text-gray-600")}>
+                  {place.name}{place.type ? ` · ${place.type}` : ""}
+                </Text>
+              </TouchableOpacity>
+            )
+          })}
+        </View>
+      )}
+
+      {showAddForm ? (
+        <View className={cn("bg-gray-50 rounded-xl border border-gray-200 p-3")}>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            placeholder="Place name, e.g. The lake house"
+            placeholderTextColor="#9ca3af"
+            className={cn("text-gray-900 text-base border-b border-gray-200 pb-2 mb-3")}
+            accessibilityLabel="New place name"
+            maxLength={60}
+          />
+          <TextInput
+            value={type}
+            onChangeText={setType}
+            placeholder="Type, e.g. home, church, holiday spot"
+            placeholderTextColor="#9ca3af"
+            className={cn("text-gray-900 text-base border-b border-gray-200 pb-2 mb-3")}
+            accessibilityLabel="New place type"
+            maxLength={40}
+          />
+          <View className={cn("flex-row gap-2")}>
+            <TouchableOpacity
+              onPress={() => setShowAddForm(false)}
+              className={cn("flex-1 bg-gray-200 rounded-xl py-2 items-center")}
+              accessibilityRole="button"
+            >
+              <Text className={cn("text-gray-700 font-semibold")}> Cancel </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleAddPlace}
+              disabled={!name.trim() || saving}
+              className={cn("flex-1 bg-emerald-600 rounded-xl py-2 items-center")}
+              style={{ opacity: name.trim() && !saving ? 1 : 0.5 }}
+              accessibilityRole="button"
+            >
+              <Text className={cn("text-white font-semibold")}> Add </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity
+          onPress={() => setShowAddForm(true)}
+          className={cn("flex-row items-center")}
+          accessibilityLabel="Add a new place"
+          accessibilityRole="button"
+        >
+          <Ionicons name="add-circle-outline" size={18} color="#10B981" />
+          <Text className={cn("text-emerald-700 font-medium ml-2")}> Add a new place </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  )
+}
@@ -0,0 +1,137 @@
+import { useState, useEffect, useMemo } from "react"
+import { View, Text, TextInput, TouchableOpacity } from "react-native"
+import { Feather } from "@expo/vector-icons"
+import { cn } from "../lib/utils"
+import { getAllTags, normalizeTagName } from "../database/tagsOperations"
+import { type TagWithNoteCount } from "../database/types"
+
+// Chips shown before the user starts typing; the rest are reachable through autocomplete
+const MAX_SUGGESTED_TAGS = 12
+const MAX_AUTOCOMPLETE_RESULTS = 6
+
+interface TagPickerProps {
+  selectedTags: string[]
+  onToggle: (tag: string) => void
+}
+
+export default function TagPicker({ selectedTags, onToggle }: TagPickerProps) {
+  const [tags, setTags] = useState<TagWithNoteCount[]>([])
+  const [query, setQuery] = useState("")
+
+  useEffect(() => {
+    getAllTags()
+      .then(setTags)
+      .catch(() => setTags([]))
+  }, [])
+
+  const isSelected = (name: string) => selectedTags.some((tag) => tag.toLowerCase() === name.toLowerCase())
+  const colorOf = (name: string) => tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase())?.color ?? null
+
+  // Selected tags first (including new ones not saved yet), then the most used ones
+  const chips = useMemo(() => {
+    const popular = [...tags]
+      .sort((a, b) => b.noteCount - a.noteCount)
+      .map((tag) => tag.name)
+      .filter((name) => !selectedTags.some((tag) => tag.toLowerCase() === name.toLowerCase()))
+      .slice(0, MAX_SUGGESTED_TAGS)
+    return [...selectedTags, ...popular]
+  }, [tags, selectedTags])
+
+  const normalizedQuery = normalizeTagName(query)
+  const matches = useMemo(() => {
+    if (!normalizedQuery) return []
+    const needle = normalizedQuery.toLowerCase()
+    return tags
+      .filter((tag) => tag.name.toLowerCase().includes(needle) && !isSelected(tag.name))
+      .sort((a, b) => Number(b.name.toLowerCase().startsWith(needle)) - Number(a.name.toLowerCase().startsWith(needle)) || b.noteCount - a.noteCount)
+      .slice(0, MAX_AUTOCOMPLETE_RESULTS)
+  }, [tags, normalizedQuery, selectedTags])
+  const exactMatch = tags.find((tag) => tag.name.toLowerCase() === normalizedQuery.toLowerCase())
+
+  // Add the typed tag, reusing an existing tag's spelling when the names only differ in case
+  const handleAddTyped = () => {
+    if (!normalizedQuery) return
+    const name = exactMatch ? exactMatch.name : normalizedQuery
+    if (!isSelected(name)) {
+      onToggle(name)
+    }
+    setQuery("")
+  }
+
+  const handlePickMatch = (name: string) => {
+    onToggle(name)
+    setQuery("")
+  }
+
+  return (
+    <View className={cn("bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-6")}>
+      <Text className={cn("text-gray-700 text-md font-medium mb-3")}> Add Tags (Optional) </Text>
+      <Text className={cn("text-gray-500 text-sm mb-3")}> Tags help you organize and find your notes easily </Text>
+
+      {chips.length > 0 && (
+        <View className={cn("flex-row flex-wrap gap-2 mb-3")}>
+          {chips.map((tag) => {
+            const selected = isSelected(tag)
+            const color = colorOf(tag)
+            return (
+              <TouchableOpacity
+                key={tag}
+                onPress={() => onToggle(tag)}
+                className={cn("flex-row items-center px-3 py-2 rounded-full border", selected ? "bg-emerald-50 border-emerald-600" : "bg-white border-gray-300")}
+                accessibilityLabel={`Tag: ${tag}`}
+                accessibilityHint={`Tap to ${selected ? 'remove' : 'add'} this tag`}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+              >
+                {color && <View className={cn("w-2.5 h-2.5 rounded-full mr-1.5")} style={{ backgroundColor: color }} />}
+                <Text className={cn("text-sm font-medium", selected ? "text-emerald-700" : "text-gray-600")}> {tag} </Text>
+              </TouchableOpacity>
+            )
+          })}
+        </View>
+      )}
+
+      {/* Free-form tag entry with autocomplete */}
+      <View className={cn("flex-row items-center bg-gray-50 rounded-xl border border-gray-200 px-3")}>
+        <Feather name="tag" size={16} color="#9ca3af" />
+        <TextInput
+          value={query}
+          onChangeText={setQuery}
+          onSubmitEditing={handleAddTyped}
+          placeholder="Type a tag..."
+          placeholderTextColor="#9ca3af"
+          className={cn("flex-1 text-gray-900 text-base py-2 ml-2")}
+          accessibilityLabel="New tag"
+          returnKeyType="done"
+          autoCapitalize="words"
+          maxLength={40}
+        />
+        {normalizedQuery.length > 0 && (
+          <TouchableOpacity onPress={handleAddTyped} accessibilityLabel={`Add tag ${normalizedQuery}`} accessibilityRole="button">
+            <Feather name="plus-circle" size={20} color="#10B981" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {matches.length > 0 && (
+        <View className={cn("mt-2 rounded-xl border border-gray-200 overflow-hidden")}>
+          {matches.map((tag, index) => (
+            <TouchableOpacity
+              key={tag.id}
+              onPress={() => handlePickMatch(tag.name)}
+              className={cn("flex-row items-center justify-between px-3 py-2 bg-white", index > 0 && "border-t border-gray-100")}
+              accessibilityLabel={`Add tag ${tag.name}`}
+              accessibilityRole="button"
+            >
+              <Text className={cn("text-gray-800 text-base")}> {tag.name} </Text>
+              <Text className={cn("text-gray-400 text-sm")}> {tag.noteCount} {tag.noteCount === 1 ? "note" : "notes"} </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      {normalizedQuery.length > 0 && !exactMatch && (
+        <Text className={cn("text-gray-500 text-sm mt-2")}> Press done to create "{normalizedQuery}" </Text>
+      )}
+    </View>
+  )
+}
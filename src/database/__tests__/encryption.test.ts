@@ -0,0 +1,68 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { open } from '@op-engineering/op-sqlite'
+import { initializeDatabase, closeDatabase, getDatabaseInstance } from '../index'
+import { setUpEncryption, unlockWithPin, changePin, resetPinWithRecoveryPhrase } from '../encryption'
+
+jest.mock('expo-crypto', () => ({ getRandomBytes: (count: number) => new Uint8Array(require('crypto').randomBytes(count)) }))
+
+const V1_FIXTURE = fs.readFileSync(path.join(__dirname, 'fixtures', 'v1.sql'), 'utf8')
+
+describe('database encryption', () => {
+  afterEach(async () => {
+    await closeDatabase()
+  })
+
+  it('only opens the database with the key it was created with', async () => {
+    await initializeDatabase('right-key')
+    await getDatabaseInstance().execute("INSERT INTO tags (name) VALUES ('Secret')")
+    await closeDatabase()
+
+    await expect(initializeDatabase('wrong-key')).rejects.toThrow('Unable to unlock the database')
+    await expect(open({ name: 'memoriq.db' }).execute('SELECT * FROM tags')).rejects.toThrow('file is not a database')
+
+    await initializeDatabase('right-key')
+    const tags = await getDatabaseInstance().execute("SELECT name FROM tags WHERE name = 'Secret'")
+    expect(tags.rows).toEqual([{ name: 'Secret' }])
+  })
+
+  it('encrypts a database from before encryption existed, keeping its data', async () => {
+    const plaintext = open({ name: 'memoriq.db' })
+    await plaintext.execute(V1_FIXTURE)
+    plaintext.close()
+
+    await initializeDatabase('data-key')
+    const notes = await getDatabaseInstance().execute('SELECT COUNT(*) AS count FROM notes')
+    expect(notes.rows[0].count).toBeGreaterThan(0)
+    await closeDatabase()
+
+    // The plaintext copy is gone: the file now needs the key
+    await expect(open({ name: 'memoriq.db' }).execute('SELECT * FROM notes')).rejects.toThrow('file is not a database')
+    await initializeDatabase('data-key')
+    expect((await getDatabaseInstance().execute('SELECT COUNT(*) AS count FROM notes')).rows).toEqual(notes.rows)
+  })
+})
+
+describe('keyrings', () => {
+  it('give the data key only for the right PIN or recovery phrase', () => {
+    const { recoveryPhrase, dataKey } = setUpEncryption('123456')
+
+    expect(unlockWithPin('123456')).toBe(dataKey)
+    expect(unlockWithPin('654321')).toBeNull()
+    expect(resetPinWithRecoveryPhrase('AAAA-BBBB-CCCC-DDDD-EEEE-FFFF-GGGG-HHHH', '111111')).toBeNull()
+    // Typed in lower case without dashes
+    expect(resetPinWithRecoveryPhrase(recoveryPhrase.toLowerCase().replace(/-/g, ''), '222222')).toBe(dataKey)
+    expect(unlockWithPin('123456')).toBeNull()
+    expect(unlockWithPin('222222')).toBe(dataKey)
+  })
+
+  it('rekey the PIN keyring when the PIN changes', () => {
+    const { dataKey } = setUpEncryption('123456')
+
+    expect(() => changePin('000000', '987654')).toThrow('Current PIN is incorrect')
+    changePin('123456', '987654')
+
+    expect(unlockWithPin('123456')).toBeNull()
+    expect(unlockWithPin('987654')).toBe(dataKey)
+  })
+})
@@ -0,0 +1,84 @@
+-- A database as created by the first release (schema version 1), with a little data in every table
+
+-- Notes Feature Tables
+CREATE TABLE IF NOT EXISTS notes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  audioUri TEXT,
+  recallScript TEXT,
+  lastShownInReminisce INTEGER,
+  createdAt INTEGER NOT NULL,
+  updatedAt INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS tags (
+  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+  name TEXT NOT NULL UNIQUE
+);
+
+CREATE TABLE IF NOT EXISTS note_tags (
+  noteId INTEGER NOT NULL,
+  tagId INTEGER NOT NULL,
+  PRIMARY KEY (noteId, tagId),
+  FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE,
+  FOREIGN KEY (tagId) REFERENCES tags(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS images (
+  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+  noteId INTEGER NOT NULL,
+  uri TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE
+);
+
+-- Embedding Tables for RAG
+CREATE TABLE IF NOT EXISTS note_embeddings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+  noteId INTEGER NOT NULL UNIQUE,
+  embedding BLOB NOT NULL,
+  embeddingDimensions INTEGER NOT NULL,
+  textHash TEXT NOT NULL,
+  status TEXT DEFAULT 'completed',
+  createdAt INTEGER NOT NULL,
+  FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS image_embeddings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+  imageId INTEGER NOT NULL UNIQUE,
+  description TEXT NOT NULL,
+  embedding BLOB NOT NULL,
+  embeddingDimensions INTEGER NOT NULL,
+  descriptionHash TEXT NOT NULL,
+  status TEXT DEFAULT 'completed',
+  createdAt INTEGER NOT NULL,
+  FOREIGN KEY (imageId) REFERENCES images(id) ON DELETE CASCADE
+);
+
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_notes_createdAt ON notes(createdAt DESC);
+CREATE INDEX IF NOT EXISTS idx_note_tags_noteId ON note_tags(noteId);
+CREATE INDEX IF NOT EXISTS idx_images_noteId ON images(noteId);
+CREATE INDEX IF NOT EXISTS idx_note_embeddings_noteId ON note_embeddings(noteId);
+CREATE INDEX IF NOT EXISTS idx_image_embeddings_imageId ON image_embeddings(imageId);
+
+INSERT INTO notes (id, title, content, audioUri, recallScript, lastShownInReminisce, createdAt, updatedAt) VALUES
+  (1, 'Lighthouse picnic', 'We had sandwiches by the lighthouse and watched the boats come in.', NULL, 'You had a picnic by the lighthouse.', NULL, 1600000000000, 1600000000000),
+  (2, 'First bicycle', 'Dad taught me to ride a red bicycle in the park.', 'file:///data/audio/bicycle.m4a', NULL, 1600000500000, 1600000100000, 1600000200000);
+
+INSERT INTO tags (id, name) VALUES (1, 'Family'), (2, 'Summer');
+INSERT INTO note_tags (noteId, tagId) VALUES (1, 1), (1, 2), (2, 1);
+
+INSERT INTO images (id, noteId, uri, description) VALUES
+  (1, 1, 'file:///data/images/lighthouse.jpg', 'The white lighthouse at sunset');
+
+INSERT INTO note_embeddings (noteId, embedding, embeddingDimensions, textHash, status, createdAt) VALUES
+  (1, zeroblob(3072), 768, 'hash-note-1', 'completed', 1600000000000),
+  (2, zeroblob(16), 4, 'hash-note-2', 'completed', 1600000100000);
+INSERT INTO image_embeddings (imageId, description, embedding, embeddingDimensions, descriptionHash, status, createdAt) VALUES
+  (1, 'The white lighthouse at sunset', zeroblob(3072), 768, 'hash-image-1', 'completed', 1600000000000);
+
+PRAGMA user_version = 1;
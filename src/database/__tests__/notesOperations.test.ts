@@ -0,0 +1,146 @@
+import { initializeDatabase, closeDatabase, getDatabaseInstance } from '../index'
+import { createNote, updateNote, getNoteById } from '../notesOperations'
+import { type UpdateNoteInput } from '../types'
+import { releaseMedia } from '../../lib/mediaStore'
+
+// Background jobs and media files are out of scope here
+jest.mock('../../lib/jobQueue', () => ({ queueNoteJobs: jest.fn() }))
+jest.mock('../../lib/mediaStore', () => ({
+  importMedia: (uri: string) => uri,
+  releaseMedia: jest.fn(),
+}))
+
+const BEACH = 'file:///media/images/beach.jpg'
+const PIER = 'file:///media/images/pier.jpg'
+const DUNES = 'file:///media/images/dunes.jpg'
+
+/* A note with two photos, each with a stored embedding */
+async function createNoteWithEmbeddedImages(): Promise<number> {
+  const noteId = await createNote({
+    title: 'Day at the seaside',
+    content: 'Ice cream on the pier.',
+    tags: ['Summer', 'Family'],
+    images: [
+      { uri: BEACH, description: 'The beach at low tide' },
+      { uri: PIER, description: 'The old pier' },
+    ],
+    audioUri: null,
+    eventDate: null,
+    personIds: [],
+    placeId: null,
+  })
+  const db = getDatabaseInstance()
+  const images = await db.execute('SELECT id, description FROM images WHERE noteId = ?', [noteId])
+  for (const image of images.rows) {
+    await db.execute(
+      "INSERT INTO image_embeddings (imageId, description, embedding, embeddingDimensions, descriptionHash, status, createdAt) VALUES (?, ?, zeroblob(16), 4, ?, 'completed', 0)",
+      [image.id, image.description, `hash-${image.id}`]
+    )
+  }
+  return noteId
+}
+
+/* The update input that leaves a note as it is */
+async function unchangedInput(noteId: number): Promise<UpdateNoteInput> {
+  const note = (await getNoteById(noteId))!
+  return {
+    id: note.id,
+    title: note.title,
+    content: note.content,
+    tags: note.tags.map((tag) => tag.name),
+    images: note.images.map((image) => ({ uri: image.uri, description: image.description })),
+    audioUri: note.audioUri,
+    eventDate: null,
+    personIds: [],
+    placeId: null,
+  }
+}
+
+async function imageRows(noteId: number) {
+  const result = await getDatabaseInstance().execute('SELECT id, uri, description FROM images WHERE noteId = ? ORDER BY id', [noteId])
+  return result.rows
+}
+
+async function embeddedImageIds(): Promise<number[]> {
+  const result = await getDatabaseInstance().execute('SELECT imageId FROM image_embeddings ORDER BY imageId')
+  return result.rows.map((row) => row.imageId as number)
+}
+
+describe('updateNote', () => {
+  beforeEach(async () => {
+    await initializeDatabase('test-key')
+    jest.clearAllMocks()
+  })
+
+  afterEach(async () => {
+    await closeDatabase()
+  })
+
+  it('keeps image IDs and embeddings when only the text changes', async () => {
+    const noteId = await createNoteWithEmbeddedImages()
+    const imagesBefore = await imageRows(noteId)
+
+    await updateNote({ ...(await unchangedInput(noteId)), title: 'A day at the seaside', content: 'Ice cream on the old pier.' })
+
+    expect(await imageRows(noteId)).toEqual(imagesBefore)
+    expect(await embeddedImageIds()).toEqual(imagesBefore.map((image) => image.id))
+  })
+
+  it('only touches the images that changed', async () => {
+    const noteId = await createNoteWithEmbeddedImages()
+    const [beach, pier] = await imageRows(noteId)
+    const input = await unchangedInput(noteId)
+
+    // Pier removed, beach kept but reordered after a new photo
+    await updateNote({
+      ...input,
+      images: [{ uri: DUNES, description: 'Sand dunes' }, { uri: BEACH, description: 'The beach at low tide' }],
+    })
+
+    const images = await imageRows(noteId)
+    expect(images).toHaveLength(2)
+    expect(images).toContainEqual(beach)
+    expect(images.find((image) => image.uri === DUNES)!.id).toBeGreaterThan(pier.id as number)
+    expect(await embeddedImageIds()).toEqual([beach.id])
+    expect(releaseMedia).toHaveBeenCalledWith(expect.arrayContaining([PIER]))
+  })
+
+  it('keeps the ID of an image whose description changed', async () => {
+    const noteId = await createNoteWithEmbeddedImages()
+    const [beach, pier] = await imageRows(noteId)
+    const input = await unchangedInput(noteId)
+
+    await updateNote({
+      ...input,
+      images: [{ uri: BEACH, description: 'The beach at high tide' }, { uri: PIER, description: 'The old pier' }],
+    })
+
+    expect(await imageRows(noteId)).toEqual([{ ...beach, description: 'The beach at high tide' }, pier])
+    // The embedding stays until the pipeline re-embeds the new description (by hash)
+    expect(await embeddedImageIds()).toEqual([beach.id, pier.id])
+  })
+
+  it('records no revision when nothing the user edits changed', async () => {
+    const noteId = await createNoteWithEmbeddedImages()
+    await getDatabaseInstance().execute("UPDATE images SET aiDescription = 'Sand and sea'")
+    const note = (await getNoteById(noteId))!
+
+    // The edit screen passes the images as loaded, AI descriptions included
+    await updateNote({ ...(await unchangedInput(noteId)), images: note.images })
+
+    const revisions = await getDatabaseInstance().execute('SELECT id FROM note_revisions WHERE noteId = ?', [noteId])
+    expect(revisions.rows).toEqual([])
+  })
+
+  it('keeps tag links that did not change and drops tags left unused', async () => {
+    const noteId = await createNoteWithEmbeddedImages()
+    const input = await unchangedInput(noteId)
+
+    await updateNote({ ...input, tags: ['Family', 'Beach'] })
+
+    const note = (await getNoteById(noteId))!
+    expect(note.tags.map((tag) => tag.name).sort()).toEqual(['Beach', 'Family'])
+    const summer = await getDatabaseInstance().execute("SELECT id FROM tags WHERE name = 'Summer'")
+    expect(summer.rows).toEqual([])
+  })
+})
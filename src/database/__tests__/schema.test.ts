@@ -0,0 +1,114 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { open, type DB } from '@op-engineering/op-sqlite'
+import { Directory, Paths } from 'expo-file-system'
+import { migrateDbIfNeeded, getDatabaseVersion, LATEST_DATABASE_VERSION } from '../schema'
+
+const V1_FIXTURE = fs.readFileSync(path.join(__dirname, 'fixtures', 'v1.sql'), 'utf8')
+
+/* A fresh database holding the v1 fixture, optionally with extra statements applied on top */
+async function openV1Database(extraSql = ''): Promise<DB> {
+  const db = open({ name: 'fixture.db' })
+  await db.execute('PRAGMA foreign_keys = ON')
+  await db.execute(V1_FIXTURE + extraSql)
+  return db
+}
+
+async function tableNames(db: DB): Promise<string[]> {
+  const result = await db.execute("SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'")
+  return result.rows.map((row) => row.name as string)
+}
+
+async function columnNames(db: DB, table: string): Promise<string[]> {
+  const result = await db.execute(`PRAGMA table_info(${table})`)
+  return result.rows.map((row) => row.name as string)
+}
+
+describe('migrateDbIfNeeded', () => {
+  let db: DB
+
+  afterEach(() => {
+    db.close()
+  })
+
+  it('migrates a v1 database to the latest schema', async () => {
+    db = await openV1Database()
+    expect(await getDatabaseVersion(db)).toBe(1)
+
+    await migrateDbIfNeeded(db)
+
+    expect(await getDatabaseVersion(db)).toBe(LATEST_DATABASE_VERSION)
+    expect(await tableNames(db)).toEqual(expect.arrayContaining([
+      'notes', 'tags', 'note_tags', 'images', 'note_embeddings', 'image_embeddings',
+      'people', 'note_people', 'places', 'notes_fts', 'note_revisions', 'settings',
+      'collections', 'collection_notes', 'note_links', 'transcripts', 'note_chunks', 'jobs',
+    ]))
+    expect(await columnNames(db, 'notes')).toEqual(expect.arrayContaining([
+      'eventDateLabel', 'eventDatePrecision', 'eventDateStart', 'eventDateEnd', 'placeId', 'deletedAt',
+    ]))
+    expect(await columnNames(db, 'tags')).toContain('color')
+    expect(await columnNames(db, 'images')).toContain('aiDescription')
+    for (const table of ['note_embeddings', 'note_chunks', 'image_embeddings']) {
+      expect(await columnNames(db, table)).toEqual(expect.arrayContaining(['embeddingModelId', 'embeddingModelVersion']))
+    }
+  })
+
+  it('keeps the data of a v1 database', async () => {
+    db = await openV1Database()
+    await migrateDbIfNeeded(db)
+
+    const notes = await db.execute('SELECT id, title, audioUri, recallScript, deletedAt FROM notes ORDER BY id')
+    expect(notes.rows).toEqual([
+      { id: 1, title: 'Lighthouse picnic', audioUri: null, recallScript: 'You had a picnic by the lighthouse.', deletedAt: null },
+      { id: 2, title: 'First bicycle', audioUri: 'file:///data/audio/bicycle.m4a', recallScript: null, deletedAt: null },
+    ])
+    const tags = await db.execute('SELECT noteId, tagId FROM note_tags ORDER BY noteId, tagId')
+    expect(tags.rows).toEqual([{ noteId: 1, tagId: 1 }, { noteId: 1, tagId: 2 }, { noteId: 2, tagId: 1 }])
+    const images = await db.execute('SELECT id, noteId, description, aiDescription FROM images')
+    expect(images.rows).toEqual([{ id: 1, noteId: 1, description: 'The white lighthouse at sunset', aiDescription: null }])
+
+    // Existing notes are indexed for full-text search, tags and image descriptions included
+    const search = await db.execute("SELECT rowid FROM notes_fts WHERE notes_fts MATCH 'sunset AND summer'")
+    expect(search.rows).toEqual([{ rowid: 1 }])
+
+    // Only embeddings of the shipped model's size are attributed to it; the rest get re-indexed
+    const embeddings = await db.execute('SELECT noteId, embeddingModelId, embeddingModelVersion FROM note_embeddings ORDER BY noteId')
+    expect(embeddings.rows).toEqual([
+      { noteId: 1, embeddingModelId: 'embeddinggemma-300m-Q4_0.gguf', embeddingModelVersion: 1 },
+      { noteId: 2, embeddingModelId: null, embeddingModelVersion: null },
+    ])
+  })
+
+  it('backs up the database before migrating it', async () => {
+    const backupDir = new Directory(Paths.document, 'backups', 'pre-migration')
+    if (backupDir.exists) {
+      backupDir.delete()
+    }
+    db = await openV1Database()
+    await migrateDbIfNeeded(db)
+
+    const backups = backupDir.list().filter((entry) => entry.name.startsWith('memoriq-v1-'))
+    expect(backups).toHaveLength(1)
+  })
+
+  it('rolls back a failing step and keeps the previous version', async () => {
+    // The last column v2 adds already exists, so the step fails after adding the others
+    db = await openV1Database('ALTER TABLE notes ADD COLUMN eventDateEnd INTEGER;')
+
+    await expect(migrateDbIfNeeded(db)).rejects.toThrow(/Migration to version 2/)
+
+    expect(await getDatabaseVersion(db)).toBe(1)
+    expect(await columnNames(db, 'notes')).not.toContain('eventDateLabel')
+  })
+
+  it('leaves an up-to-date database alone', async () => {
+    db = open({ name: 'fresh.db' })
+    await migrateDbIfNeeded(db)
+    const tables = await tableNames(db)
+
+    await migrateDbIfNeeded(db)
+
+    expect(await getDatabaseVersion(db)).toBe(LATEST_DATABASE_VERSION)
+    expect(await tableNames(db)).toEqual(tables)
+  })
+})
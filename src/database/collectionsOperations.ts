@@ -0,0 +1,163 @@
+/* Helper database related functions for Collections (curated, ordered sets of notes) */
+
+import { getDatabaseInstance } from './index'
+import { Collection, CollectionInput, CollectionWithNoteCount } from './types'
+import { importMedia, releaseMedia } from '../lib/mediaStore'
+
+const COLLECTION_COLUMNS = 'id, name, description, coverUri, createdAt, updatedAt'
+
+/* Trim optional text fields, storing empty strings as null */
+function optionalText(value: string | null): string | null {
+  const trimmed = value?.trim()
+  return trimmed ? trimmed : null
+}
+
+/* Create a collection. Returns the collection ID */
+export async function createCollection(input: CollectionInput): Promise<number> {
+  const db = getDatabaseInstance()
+  try {
+    const coverUri = input.coverUri ? importMedia(input.coverUri, 'image') : null
+    const now = Date.now()
+    const result = await db.execute(
+      'INSERT INTO collections (name, description, coverUri, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+      [input.name.trim(), optionalText(input.description), coverUri, now, now]
+    )
+    return result.insertId!
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Update a collection's name, description and cover photo */
+export async function updateCollection(id: number, input: CollectionInput): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    const previous = await getCollectionById(id)
+    const coverUri = input.coverUri ? importMedia(input.coverUri, 'image') : null
+    await db.execute(
+      'UPDATE collections SET name = ?, description = ?, coverUri = ?, updatedAt = ? WHERE id = ?',
+      [input.name.trim(), optionalText(input.description), coverUri, Date.now(), id]
+    )
+    if (previous && previous.coverUri !== coverUri) {
+      await releaseMedia([previous.coverUri])
+    }
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Delete a collection. Its notes are kept */
+export async function deleteCollection(id: number): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    const collection = await getCollectionById(id)
+    await db.execute('DELETE FROM collections WHERE id = ?', [id])
+    if (collection) {
+      await releaseMedia([collection.coverUri])
+    }
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get a single collection by ID */
+export async function getCollectionById(id: number): Promise<Collection | null> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(`SELECT ${COLLECTION_COLUMNS} FROM collections WHERE id = ?`, [id])
+    return (result.rows?.[0] as unknown as Collection | undefined) ?? null
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get every collection, alphabetically, with how many notes it holds (notes in the trash don't count) */
+export async function getAllCollections(): Promise<CollectionWithNoteCount[]> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      `SELECT c.id, c.name, c.description, c.coverUri, c.createdAt, c.updatedAt,
+         (SELECT COUNT(*) FROM collection_notes cn
+          INNER JOIN notes n ON n.id = cn.noteId AND n.deletedAt IS NULL
+          WHERE cn.collectionId = c.id) AS noteCount,
+         (SELECT i.uri FROM collection_notes cn
+          INNER JOIN notes n ON n.id = cn.noteId AND n.deletedAt IS NULL
+          INNER JOIN images i ON i.noteId = n.id
+          WHERE cn.collectionId = c.id
+          ORDER BY cn.position, i.id
+          LIMIT 1) AS fallbackCoverUri
+       FROM collections c
+       ORDER BY c.name COLLATE NOCASE`
+    )
+    return (result.rows || []) as unknown as CollectionWithNoteCount[]
+  } catch (error) {
+    throw error
+  }
+}
+
+/* IDs of the collections a note belongs to */
+export async function getCollectionIdsForNote(noteId: number): Promise<number[]> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute('SELECT collectionId FROM collection_notes WHERE noteId = ?', [noteId])
+    return ((result.rows || []) as unknown as Array<{ collectionId: number }>).map((row) => row.collectionId)
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Append notes to the end of a collection; notes already in it keep their place */
+export async function addNotesToCollection(collectionId: number, noteIds: number[]): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    await db.transaction(async (tx) => {
+      const result = await tx.execute('SELECT COALESCE(MAX(position), -1) AS last FROM collection_notes WHERE collectionId = ?', [collectionId])
+      let position = (result.rows?.[0]?.last as number) ?? -1
+      const now = Date.now()
+      for (const noteId of noteIds) {
+        const inserted = await tx.execute(
+          'INSERT OR IGNORE INTO collection_notes (collectionId, noteId, position, addedAt) VALUES (?, ?, ?, ?)',
+          [collectionId, noteId, position + 1, now]
+        )
+        if (inserted.rowsAffected > 0) position++
+      }
+      await tx.execute('UPDATE collections SET updatedAt = ? WHERE id = ?', [now, collectionId])
+    })
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Take a note out of a collection (the note itself is kept) */
+export async function removeNoteFromCollection(collectionId: number, noteId: number): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    await db.execute('DELETE FROM collection_notes WHERE collectionId = ? AND noteId = ?', [collectionId, noteId])
+    await db.execute('UPDATE collections SET updatedAt = ? WHERE id = ?', [Date.now(), collectionId])
+  } catch (error) {
+    throw error
+  }
+}
+
+/**
+ * Save a new order for a collection.
+ * Notes left out of the list (e.g. ones in the trash, which the screen doesn't show) move to the end in their current order.
+ * @param collectionId - Collection to reorder
+ * @param noteIds - Note IDs in their new order
+ */
+export async function reorderCollection(collectionId: number, noteIds: number[]): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    await db.transaction(async (tx) => {
+      const result = await tx.execute('SELECT noteId FROM collection_notes WHERE collectionId = ? ORDER BY position', [collectionId])
+      const current = ((result.rows || []) as unknown as Array<{ noteId: number }>).map((row) => row.noteId)
+      const ordered = [...noteIds.filter((id) => current.includes(id)), ...current.filter((id) => !noteIds.includes(id))]
+      for (const [position, noteId] of ordered.entries()) {
+        await tx.execute('UPDATE collection_notes SET position = ? WHERE collectionId = ? AND noteId = ?', [position, collectionId, noteId])
+      }
+      await tx.execute('UPDATE collections SET updatedAt = ? WHERE id = ?', [Date.now(), collectionId])
+    })
+  } catch (error) {
+    throw error
+  }
+}
@@ -0,0 +1,152 @@
+/* This module manages the key that encrypts the database and media vault at rest.
+ * A random data key encrypts everything. It is never stored in the clear: two tiny SQLCipher "keyring" databases hold it,
+ * one opened with the user's PIN and one with a recovery phrase. SQLCipher derives the page key from that secret (PBKDF2)
+ * and authenticates every page, so a wrong PIN simply fails to open the keyring. Changing the PIN only rekeys its keyring */
+
+import { open, type DB } from '@op-engineering/op-sqlite'
+import { File, Paths } from 'expo-file-system'
+import { getRandomBytes } from 'expo-crypto'
+
+export const MIN_PIN_LENGTH = 6
+
+const PIN_KEYRING = 'memoriq-keyring-pin.db'
+const RECOVERY_KEYRING = 'memoriq-keyring-recovery.db'
+// Written once both keyrings exist, so an interrupted setup starts over instead of locking the user out
+const securityMarker = new File(Paths.document, 'security.json')
+
+// Crockford base32: no I, L, O or U, so the phrase survives being written down and read back
+const RECOVERY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
+const RECOVERY_PHRASE_BYTES = 20
+const RECOVERY_GROUP_SIZE = 4
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+
+// Keys are interpolated into PRAGMA statements, which cannot take bound parameters
+const quoteKey = (key: string) => `'${key.replace(/'/g, "''")}'`
+
+export function isEncryptionSetUp(): boolean {
+  return securityMarker.exists
+}
+
+export function isValidPin(pin: string): boolean {
+  return pin.length >= MIN_PIN_LENGTH && /^\d+$/.test(pin)
+}
+
+/* Generate a recovery phrase such as "7K2M-QX9D-..." (160 random bits) */
+export function generateRecoveryPhrase(): string {
+  const bytes = getRandomBytes(RECOVERY_PHRASE_BYTES)
+  let bits = 0
+  let value = 0
+  let phrase = ''
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      phrase += RECOVERY_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  return phrase.match(new RegExp(`.{1,${RECOVERY_GROUP_SIZE}}`, 'g'))!.join('-')
+}
+
+/* Canonical form of a typed recovery phrase: case, spacing, dashes and look-alike letters don't matter */
+export function normalizeRecoveryPhrase(phrase: string): string {
+  return phrase.toUpperCase().replace(/[\s-]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1')
+}
+
+/* Open a keyring with a secret and read the data key, or return null if the secret is wrong */
+function readKeyring(name: string, secret: string): string | null {
+  let keyring: DB | null = null
+  try {
+    keyring = open({ name, encryptionKey: secret })
+    const result = keyring.executeSync('SELECT key FROM keyring LIMIT 1')
+    const row = (result.rows || [])[0] as unknown as { key: string } | undefined
+    return row ? row.key : null
+  } catch (error) {
+    // SQLCipher reports a wrong key as "file is not a database"
+    return null
+  } finally {
+    keyring?.close()
+  }
+}
+
+/* Replace a keyring with a fresh one holding the data key */
+function writeKeyring(name: string, secret: string, dataKey: string): void {
+  const existing = open({ name })
+  existing.delete()
+
+  const keyring = open({ name, encryptionKey: secret })
+  try {
+    keyring.executeSync('CREATE TABLE keyring (key TEXT NOT NULL)')
+    keyring.executeSync('INSERT INTO keyring (key) VALUES (?)', [dataKey])
+  } finally {
+    keyring.close()
+  }
+}
+
+/**
+ * First-time setup: create the data key and protect it with the PIN and a new recovery phrase.
+ * Existing unencrypted data is converted on the first unlock (see initializeDatabase).
+ * @param pin - The user's new PIN
+ * @returns The recovery phrase to show the user, and the data key to unlock with
+ */
+export function setUpEncryption(pin: string): { recoveryPhrase: string; dataKey: string } {
+  if (!isValidPin(pin)) {
+    throw new Error(`PIN must be at least ${MIN_PIN_LENGTH} digits`)
+  }
+
+  const dataKey = toHex(getRandomBytes(32))
+  const recoveryPhrase = generateRecoveryPhrase()
+  writeKeyring(PIN_KEYRING, pin, dataKey)
+  writeKeyring(RECOVERY_KEYRING, normalizeRecoveryPhrase(recoveryPhrase), dataKey)
+  securityMarker.write(JSON.stringify({ version: 1, createdAt: Date.now() }), {})
+  return { recoveryPhrase, dataKey }
+}
+
+/* Return the data key if the PIN is correct, otherwise null */
+export function unlockWithPin(pin: string): string | null {
+  return readKeyring(PIN_KEYRING, pin)
+}
+
+/* Set a new PIN using the recovery phrase; returns the data key, or null if the phrase is wrong */
+export function resetPinWithRecoveryPhrase(recoveryPhrase: string, newPin: string): string | null {
+  if (!isValidPin(newPin)) {
+    throw new Error(`PIN must be at least ${MIN_PIN_LENGTH} digits`)
+  }
+
+  const dataKey = readKeyring(RECOVERY_KEYRING, normalizeRecoveryPhrase(recoveryPhrase))
+  if (!dataKey) {
+    return null
+  }
+  writeKeyring(PIN_KEYRING, newPin, dataKey)
+  return dataKey
+}
+
+/* Rekey the PIN keyring. Throws if the current PIN is wrong */
+export function changePin(currentPin: string, newPin: string): void {
+  if (!isValidPin(newPin)) {
+    throw new Error(`PIN must be at least ${MIN_PIN_LENGTH} digits`)
+  }
+  if (!unlockWithPin(currentPin)) {
+    throw new Error('Current PIN is incorrect')
+  }
+
+  const keyring = open({ name: PIN_KEYRING, encryptionKey: currentPin })
+  try {
+    keyring.executeSync(`PRAGMA rekey = ${quoteKey(newPin)}`)
+  } finally {
+    keyring.close()
+  }
+}
+
+/* Replace the recovery phrase; the old one stops working. Requires the current PIN */
+export function regenerateRecoveryPhrase(pin: string): string {
+  const dataKey = unlockWithPin(pin)
+  if (!dataKey) {
+    throw new Error('PIN is incorrect')
+  }
+
+  const recoveryPhrase = generateRecoveryPhrase()
+  writeKeyring(RECOVERY_KEYRING, normalizeRecoveryPhrase(recoveryPhrase), dataKey)
+  return recoveryPhrase
+}
@@ -0,0 +1,59 @@
+/* Helpers for querying the notes_fts full-text index */
+
+// Control characters cannot be typed into notes, so they are safe highlight markers in snippets
+export const HIGHLIGHT_START = '\u0002'
+export const HIGHLIGHT_END = '\u0003'
+
+// bm25 column weights for title, content, tags, images, transcript: a hit in the title counts most
+export const FTS_RANK = 'bm25(notes_fts, 10.0, 5.0, 3.0, 2.0, 2.0)'
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+function words(text: string): string[] {
+  return text.match(WORD_PATTERN) ?? []
+}
+
+/**
+ * Turn what the user typed into a safe FTS5 MATCH expression.
+ * Quoted text becomes an exact phrase; every other word is matched as a prefix, so "brigh"
+ * finds "Brighton". All terms must match. FTS5 operators typed by the user are treated as words.
+ * @param input - Raw search box text
+ * @returns MATCH expression, or null when the input contains no searchable words
+ */
+export function buildFtsQuery(input: string): string | null {
+  const terms: string[] = []
+
+  const unquoted = input.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const phraseWords = words(phrase)
+    if (phraseWords.length > 0) {
+      terms.push(`"${phraseWords.join(' ')}"`)
+    }
+    return ' '
+  })
+  for (const word of words(unquoted)) {
+    terms.push(`"${word}"*`)
+  }
+
+  return terms.length > 0 ? terms.join(' ') : null
+}
+
+/* Split highlighted text into plain and matched parts for rendering */
+export function splitHighlights(text: string): Array<{ text: string; highlighted: boolean }> {
+  const parts: Array<{ text: string; highlighted: boolean }> = []
+  let rest = text
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START)
+    if (start === -1) {
+      parts.push({ text: rest, highlighted: false })
+      break
+    }
+    if (start > 0) {
+      parts.push({ text: rest.slice(0, start), highlighted: false })
+    }
+    const end = rest.indexOf(HIGHLIGHT_END, start)
+    const stop = end === -1 ? rest.length : end
+    parts.push({ text: rest.slice(start + 1, stop), highlighted: true })
+    rest = rest.slice(stop + 1)
+  }
+  return parts
+}
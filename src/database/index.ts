@@ -1,17 +1,96 @@
 import { open, type DB } from '@op-engineering/op-sqlite'
-import { migrateDbIfNeeded } from './schema'
+import { File } from 'expo-file-system'
+import { migrateDbIfNeeded, discardPreMigrationBackups } from './schema'
+
+const DB_NAME = 'memoriq.db'
+// Target of the one-time conversion of an unencrypted database, swapped into place once complete
+const ENCRYPTED_TEMP_NAME = 'memoriq-encrypting.db'
+// Copy of a backup being restored, moved over the live file once fully written
+const RESTORE_TEMP_NAME = 'memoriq-restoring.db'
 
 let dbInstance: DB | null = null
+// Kept for reopening after a restore; lives only as long as the unlocked session
+let activeEncryptionKey: string | null = null
+
+/* A database opened with the wrong key (or a plaintext one opened with a key) fails on its first read */
+async function canRead(db: DB): Promise<boolean> {
+  try {
+    await db.execute('SELECT count(*) FROM sqlite_master')
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
+const fileAt = (path: string) => new File(`file://${path}`)
+
+/* Copy an unencrypted database into an encrypted one and swap it into place */
+async function encryptPlaintextDatabase(plaintext: DB, encryptionKey: string): Promise<void> {
+  const path = plaintext.getDbPath()
+  const targetPath = path.replace(/[^/]+$/, ENCRYPTED_TEMP_NAME)
+  const target = fileAt(targetPath)
+  if (target.exists) {
+    target.delete() // Left behind by an earlier attempt that did not finish
+  }
+
+  const version = await plaintext.execute('PRAGMA user_version')
+  await plaintext.execute('ATTACH DATABASE ? AS encrypted KEY ?', [targetPath, encryptionKey])
+  await plaintext.execute("SELECT sqlcipher_export('encrypted')")
+  await plaintext.execute(`PRAGMA encrypted.user_version = ${Number(version.rows?.[0]?.user_version ?? 0)}`)
+  await plaintext.execute('DETACH DATABASE encrypted')
+  plaintext.close()
+
+  for (const suffix of ['', '-wal', '-shm']) {
+    const file = fileAt(path + suffix)
+    if (file.exists) {
+      file.delete()
+    }
+  }
+  target.move(fileAt(path))
+  discardPreMigrationBackups()
+}
 
-/* Initialize the database and run migrations. This should be called once when the app starts */
-export async function initializeDatabase(): Promise<DB> {
+/**
+ * Open the encrypted database and run migrations. Called once the user has unlocked the app.
+ * Databases created before encryption existed are converted in place on first use.
+ * @param encryptionKey - Data key from the keyring (see encryption.ts)
+ */
+export async function initializeDatabase(encryptionKey: string): Promise<DB> {
   if (dbInstance) {
     return dbInstance
   }
 
   try {
-    dbInstance = open({ name: 'memoriq.db' })
-    await migrateDbIfNeeded(dbInstance)
+    let db = open({ name: DB_NAME, encryptionKey })
+    const path = db.getDbPath()
+
+    // A conversion or restore interrupted between deleting the old file and moving the new one leaves only the new copy
+    const current = fileAt(path)
+    const pending = [ENCRYPTED_TEMP_NAME, RESTORE_TEMP_NAME]
+      .map((name) => fileAt(path.replace(/[^/]+$/, name)))
+      .find((file) => file.exists)
+    if (pending && (!current.exists || !current.size)) {
+      db.delete()
+      pending.move(fileAt(path))
+      db = open({ name: DB_NAME, encryptionKey })
+    }
+
+    if (!(await canRead(db))) {
+      db.close()
+      const plaintext = open({ name: DB_NAME })
+      if (!(await canRead(plaintext))) {
+        plaintext.close()
+        throw new Error('Unable to unlock the database')
+      }
+      await encryptPlaintextDatabase(plaintext, encryptionKey)
+      db = open({ name: DB_NAME, encryptionKey })
+    }
+
+    // Cascading deletes (images, embeddings, tag links) rely on this per-connection pragma
+    await db.execute('PRAGMA foreign_keys = ON')
+    await migrateDbIfNeeded(db)
+    dbInstance = db
+    activeEncryptionKey = encryptionKey
     return dbInstance
   } catch (error) {
     throw error
@@ -30,4 +109,36 @@ export async function closeDatabase(): Promise<void> {
     dbInstance.close()
     dbInstance = null
   }
+  activeEncryptionKey = null
+}
+
+/**
+ * Replace the live database with a copy encrypted with the same key (e.g. a backup snapshot), then reopen and migrate it.
+ * The copy is written next to the live file first, so a failure part-way leaves the current database untouched.
+ * The connection is closed along the way, so background writers must be paused first (see restoreBackup).
+ * @param source - Database file to restore
+ */
+export async function replaceDatabase(source: File): Promise<void> {
+  const db = getDatabaseInstance()
+  const encryptionKey = activeEncryptionKey
+  if (!encryptionKey) {
+    throw new Error('Database not initialized. Call initializeDatabase() first.')
+  }
+
+  const path = db.getDbPath()
+  const staged = fileAt(path.replace(/[^/]+$/, RESTORE_TEMP_NAME))
+  if (staged.exists) {
+    staged.delete()
+  }
+  source.copy(staged)
+
+  await closeDatabase()
+  for (const suffix of ['', '-wal', '-shm']) {
+    const file = fileAt(path + suffix)
+    if (file.exists) {
+      file.delete()
+    }
+  }
+  staged.move(fileAt(path))
+  await initializeDatabase(encryptionKey)
 }
@@ -0,0 +1,148 @@
+/* Helper database related functions for the background Jobs queue (see lib/jobQueue.ts) */
+
+import { getDatabaseInstance } from './index'
+import { Job, JobStatus, JobType } from './types'
+
+const JOB_COLUMNS = 'id, type, noteId, priority, status, attempts, runAfter, lastError, createdAt, updatedAt'
+
+const placeholders = (values: unknown[]) => values.map(() => '?').join(', ')
+
+// Queues a job, merging it into work already queued for the note
+const ENQUEUE_SQL = `INSERT INTO jobs (type, noteId, priority, status, attempts, runAfter, lastError, createdAt, updatedAt) VALUES (?, ?, ?, 'pending', 0, ?, NULL, ?, ?)
+  ON CONFLICT (type, noteId) DO UPDATE SET
+    priority = MAX(jobs.priority, excluded.priority), status = 'pending', attempts = 0,
+    runAfter = excluded.runAfter, updatedAt = excluded.updatedAt`
+
+// SQLite caps bound parameters per statement; lists of note IDs are chunked below this
+const MAX_IN_PARAMS = 500
+
+/**
+ * Queue work on a note. Work already queued for the note is merged into one job,
+ * keeping the higher priority and starting over with a fresh set of attempts.
+ * A job queued again while it runs is run once more afterwards, since the note changed meanwhile.
+ * @param type - Kind of work
+ * @param noteId - Note to work on
+ * @param priority - Higher runs first
+ * @param runAfter - Earliest start (ms since epoch)
+ */
+export async function enqueueJob(type: JobType, noteId: number, priority: number, runAfter: number): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    const now = Date.now()
+    await db.execute(ENQUEUE_SQL, [type, noteId, priority, runAfter, now, now])
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Queue the same work on many notes in one transaction, merging like enqueueJob() */
+export async function enqueueJobs(type: JobType, noteIds: number[], priority: number, runAfter: number): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    const now = Date.now()
+    await db.transaction(async (tx) => {
+      for (const noteId of noteIds) {
+        await tx.execute(ENQUEUE_SQL, [type, noteId, priority, runAfter, now, now])
+      }
+    })
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Take the highest-priority pending job of the given types that is due, marking it running and counting the attempt */
+export async function claimNextJob(types: JobType[], now: number): Promise<Job | null> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      `SELECT ${JOB_COLUMNS} FROM jobs
+       WHERE status = 'pending' AND runAfter <= ? AND type IN (${placeholders(types)})
+       ORDER BY priority DESC, runAfter, id
+       LIMIT 1`,
+      [now, ...types]
+    )
+    const job = result.rows?.[0] as unknown as Job | undefined
+    if (!job) {
+      return null
+    }
+    await db.execute(
+      "UPDATE jobs SET status = 'running', attempts = attempts + 1, updatedAt = ? WHERE id = ?",
+      [now, job.id]
+    )
+    return { ...job, status: 'running', attempts: job.attempts + 1, updatedAt: now }
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Remove a finished job, unless it was queued again while running */
+export async function completeJob(id: number): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    await db.execute("DELETE FROM jobs WHERE id = ? AND status = 'running'", [id])
+  } catch (error) {
+    throw error
+  }
+}
+
+/**
+ * Record a failed attempt.
+ * @param id - The running job
+ * @param lastError - What went wrong
+ * @param retryAt - When to try again, or null when the job is out of attempts
+ */
+export async function failJob(id: number, lastError: string, retryAt: number | null): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    await db.execute(
+      "UPDATE jobs SET status = ?, runAfter = COALESCE(?, runAfter), lastError = ?, updatedAt = ? WHERE id = ? AND status = 'running'",
+      [retryAt === null ? 'failed' : 'pending', retryAt, lastError, Date.now(), id]
+    )
+  } catch (error) {
+    throw error
+  }
+}
+
+/* When the next pending job of the given types becomes due, or null if there is none */
+export async function getNextJobRunAfter(types: JobType[]): Promise<number | null> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      `SELECT MIN(runAfter) AS runAfter FROM jobs WHERE status = 'pending' AND type IN (${placeholders(types)})`,
+      types
+    )
+    const runAfter = result.rows?.[0]?.runAfter
+    return typeof runAfter === 'number' ? runAfter : null
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Put jobs that were running when the app was killed back in the queue; the interrupted attempt still counts */
+export async function requeueInterruptedJobs(): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    await db.execute("UPDATE jobs SET status = 'pending', updatedAt = ? WHERE status = 'running'", [Date.now()])
+  } catch (error) {
+    throw error
+  }
+}
+
+/* How many of the given notes have a job of this type in one of the given states */
+export async function countJobs(type: JobType, noteIds: number[], statuses: JobStatus[]): Promise<number> {
+  const db = getDatabaseInstance()
+  try {
+    let count = 0
+    for (let i = 0; i < noteIds.length; i += MAX_IN_PARAMS) {
+      const chunk = noteIds.slice(i, i + MAX_IN_PARAMS)
+      const result = await db.execute(
+        `SELECT COUNT(*) AS count FROM jobs WHERE type = ? AND status IN (${placeholders(statuses)}) AND noteId IN (${placeholders(chunk)})`,
+        [type, ...statuses, ...chunk]
+      )
+      count += Number(result.rows?.[0]?.count ?? 0)
+    }
+    return count
+  } catch (error) {
+    throw error
+  }
+}
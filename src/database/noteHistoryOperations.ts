@@ -0,0 +1,144 @@
+/* Helper database related functions for note revision history */
+
+import { type Transaction } from '@op-engineering/op-sqlite'
+import { getDatabaseInstance } from './index'
+import { NoteRevision, NoteWithDetails, UpdateNoteInput } from './types'
+import { type EventDate } from '../lib/eventDate'
+
+// Only the most recent revisions of each note are kept
+const MAX_REVISIONS_PER_NOTE = 50
+
+const REVISION_COLUMNS = 'id, noteId, title, content, audioUri, eventDateLabel, eventDatePrecision, eventDateStart, eventDateEnd, placeId, tags, images, personIds, savedAt, replacedAt'
+
+// Row as stored: relations are JSON text
+type RevisionRow = Omit<NoteRevision, 'tags' | 'images' | 'personIds'> & {
+  tags: string
+  images: string
+  personIds: string
+}
+
+function parseRevision(row: RevisionRow): NoteRevision {
+  return {
+    ...row,
+    tags: JSON.parse(row.tags) as string[],
+    images: JSON.parse(row.images) as NoteRevision['images'],
+    personIds: JSON.parse(row.personIds) as number[],
+  }
+}
+
+/* Media files a revision points at */
+function revisionMediaUris(revision: NoteRevision): string[] {
+  const uris = revision.images.map((image) => image.uri)
+  return revision.audioUri ? [revision.audioUri, ...uris] : uris
+}
+
+/* Compare two event dates by their stored columns */
+function sameEventDate(note: NoteWithDetails, eventDate: EventDate | null): boolean {
+  return (
+    note.eventDateLabel === (eventDate?.label ?? null) &&
+    note.eventDatePrecision === (eventDate?.precision ?? null) &&
+    note.eventDateStart === (eventDate?.start ?? null) &&
+    note.eventDateEnd === (eventDate?.end ?? null)
+  )
+}
+
+/* Compare image lists by what a revision keeps (URI and description, in order); other fields such as the AI description don't count */
+function sameImages(previous: NoteWithDetails['images'], next: UpdateNoteInput['images']): boolean {
+  return (
+    previous.length === next.length &&
+    previous.every((image, index) => image.uri === next[index].uri && image.description === next[index].description)
+  )
+}
+
+/* Whether saving `next` over `previous` would change anything worth a revision */
+export function hasNoteChanged(previous: NoteWithDetails, next: UpdateNoteInput): boolean {
+  const sortedIds = (ids: number[]) => [...ids].sort((a, b) => a - b).join(',')
+  return (
+    previous.title !== next.title ||
+    previous.content !== next.content ||
+    previous.audioUri !== next.audioUri ||
+    previous.placeId !== next.placeId ||
+    !sameEventDate(previous, next.eventDate) ||
+    JSON.stringify(previous.tags.map((tag) => tag.name).sort()) !== JSON.stringify([...next.tags].sort()) ||
+    !sameImages(previous.images, next.images) ||
+    sortedIds(previous.people.map((person) => person.id)) !== sortedIds(next.personIds)
+  )
+}
+
+/* Store a note's current state as a revision. Call inside the transaction that overwrites it */
+export async function recordRevision(tx: Transaction, note: NoteWithDetails, replacedAt: number): Promise<void> {
+  await tx.execute(
+    `INSERT INTO note_revisions (noteId, title, content, audioUri, eventDateLabel, eventDatePrecision, eventDateStart, eventDateEnd, placeId, tags, images, personIds, savedAt, replacedAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      note.id,
+      note.title,
+      note.content,
+      note.audioUri,
+      note.eventDateLabel,
+      note.eventDatePrecision,
+      note.eventDateStart,
+      note.eventDateEnd,
+      note.placeId,
+      JSON.stringify(note.tags.map((tag) => tag.name)),
+      JSON.stringify(note.images.map(({ uri, description }) => ({ uri, description }))),
+      JSON.stringify(note.people.map((person) => person.id)),
+      note.updatedAt,
+      replacedAt,
+    ]
+  )
+}
+
+/* Drop revisions beyond MAX_REVISIONS_PER_NOTE. Returns the media they referenced, to be released */
+export async function pruneRevisions(noteId: number): Promise<string[]> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      `SELECT ${REVISION_COLUMNS} FROM note_revisions WHERE noteId = ? ORDER BY replacedAt DESC, id DESC LIMIT -1 OFFSET ?`,
+      [noteId, MAX_REVISIONS_PER_NOTE]
+    )
+    const stale = ((result.rows || []) as unknown as RevisionRow[]).map(parseRevision)
+    if (stale.length === 0) {
+      return []
+    }
+    await db.execute(
+      `DELETE FROM note_revisions WHERE id IN (${stale.map(() => '?').join(', ')})`,
+      stale.map((revision) => revision.id)
+    )
+    return stale.flatMap(revisionMediaUris)
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get a note's revisions, most recently replaced first */
+export async function getRevisionsForNote(noteId: number): Promise<NoteRevision[]> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      `SELECT ${REVISION_COLUMNS} FROM note_revisions WHERE noteId = ? ORDER BY replacedAt DESC, id DESC`,
+      [noteId]
+    )
+    return ((result.rows || []) as unknown as RevisionRow[]).map(parseRevision)
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get a single revision by ID */
+export async function getRevisionById(id: number): Promise<NoteRevision | null> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(`SELECT ${REVISION_COLUMNS} FROM note_revisions WHERE id = ?`, [id])
+    const row = result.rows?.[0] as unknown as RevisionRow | undefined
+    return row ? parseRevision(row) : null
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Media referenced by any revision of a note, so it can be released when the note is deleted for good */
+export async function getRevisionMediaUris(noteId: number): Promise<string[]> {
+  const revisions = await getRevisionsForNote(noteId)
+  return revisions.flatMap(revisionMediaUris)
+}
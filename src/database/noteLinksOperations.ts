@@ -0,0 +1,65 @@
+/* Helper database related functions for Note links (explicit links between related notes, and their backlinks) */
+
+import { getDatabaseInstance } from './index'
+import { LinkedNote } from './types'
+
+/* Trim optional text fields, storing empty strings as null */
+function optionalText(value: string | null): string | null {
+  const trimmed = value?.trim()
+  return trimmed ? trimmed : null
+}
+
+/**
+ * Link one note to another. Linking the same pair again replaces the relation label.
+ * @param sourceNoteId - Note the link is made from
+ * @param targetNoteId - Note it points at (shown as a backlink on that note)
+ * @param relation - Optional label, e.g. "the day after"
+ */
+export async function linkNotes(sourceNoteId: number, targetNoteId: number, relation: string | null): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    if (sourceNoteId === targetNoteId) {
+      throw new Error('A note cannot be linked to itself')
+    }
+    await db.execute(
+      `INSERT INTO note_links (sourceNoteId, targetNoteId, relation, createdAt) VALUES (?, ?, ?, ?)
+       ON CONFLICT (sourceNoteId, targetNoteId) DO UPDATE SET relation = excluded.relation`,
+      [sourceNoteId, targetNoteId, optionalText(relation), Date.now()]
+    )
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Remove a link (both notes are kept) */
+export async function unlinkNotes(linkId: number): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    await db.execute('DELETE FROM note_links WHERE id = ?', [linkId])
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Notes linked from a note and notes linking to it, oldest link first. Notes in the trash are left out */
+export async function getLinkedNotes(noteId: number): Promise<LinkedNote[]> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      `SELECT l.id AS linkId, n.id AS noteId, n.title, n.eventDateLabel, l.relation, 'outgoing' AS direction, l.createdAt
+       FROM note_links l
+       INNER JOIN notes n ON n.id = l.targetNoteId AND n.deletedAt IS NULL
+       WHERE l.sourceNoteId = ?
+       UNION ALL
+       SELECT l.id AS linkId, n.id AS noteId, n.title, n.eventDateLabel, l.relation, 'incoming' AS direction, l.createdAt
+       FROM note_links l
+       INNER JOIN notes n ON n.id = l.sourceNoteId AND n.deletedAt IS NULL
+       WHERE l.targetNoteId = ?
+       ORDER BY createdAt`,
+      [noteId, noteId]
+    )
+    return ((result.rows || []) as unknown as Array<LinkedNote & { createdAt: number }>).map(({ createdAt: _createdAt, ...link }) => link)
+  } catch (error) {
+    throw error
+  }
+}
@@ -1,10 +1,32 @@
 /* Helper database related functions for Notes */
 
-import { type DB, type QueryResult } from '@op-engineering/op-sqlite'
+import { type DB, type QueryResult, type Transaction } from '@op-engineering/op-sqlite'
 import { getDatabaseInstance } from './index'
-import { Note, Tag, Image, NoteWithDetails, CreateNoteInput, UpdateNoteInput } from './types'
-import { processNoteEmbeddings, updateNoteEmbeddings } from '../lib/createNoteEmbeddings'
-import { processRecallScript, updateRecallScript } from '../lib/recallScriptGenerator'
+import { Note, Tag, Image, Person, Place, NoteWithDetails, NoteSearchResult, NoteCursor, ListNotesOptions, NotesPage, CreateNoteInput, UpdateNoteInput } from './types'
+import { markNotesChanged } from './notesRevision'
+import { getOrCreateTag, pruneOrphanedTags } from './tagsOperations'
+import { buildFtsQuery, FTS_RANK, HIGHLIGHT_START, HIGHLIGHT_END } from './fullTextSearch'
+import { hasNoteChanged, recordRevision, pruneRevisions, getRevisionById, getRevisionMediaUris } from './noteHistoryOperations'
+import { queueNoteJobs } from '../lib/jobQueue'
+import { importMedia, releaseMedia } from '../lib/mediaStore'
+import { type EventDate, eventDateFromColumns } from '../lib/eventDate'
+
+const NOTE_COLUMN_NAMES = ['id', 'title', 'content', 'audioUri', 'recallScript', 'lastShownInReminisce', 'eventDateLabel', 'eventDatePrecision', 'eventDateStart', 'eventDateEnd', 'placeId', 'deletedAt', 'createdAt', 'updatedAt']
+const NOTE_COLUMNS = NOTE_COLUMN_NAMES.join(', ')
+// Same columns qualified with the notes alias "n", for queries joining tables with clashing names
+const N_NOTE_COLUMNS = NOTE_COLUMN_NAMES.map((column) => `n.${column}`).join(', ')
+
+const SEARCH_RESULT_LIMIT = 100
+
+// Notes are ordered by when the memory happened, falling back to when it was written
+const TIMELINE_POSITION = 'COALESCE(eventDateStart, createdAt)'
+const TIMELINE_ORDER = `${TIMELINE_POSITION} DESC, id DESC`
+
+const DEFAULT_PAGE_SIZE = 30
+
+// Trashed notes can be restored for this long before they are purged for good
+export const TRASH_RETENTION_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
 
 function formatTimestamp(timestamp: number): string {
   const date = new Date(timestamp)
@@ -18,76 +40,155 @@ function formatTimestamp(timestamp: number): string {
   return `${month} ${day} • ${time}`
 }
 
-/* Get or create a tag by name. Returns the tag ID */
-async function getOrCreateTag(db: DB, name: string): Promise<number> {
-  const result = await db.execute('SELECT id FROM tags WHERE name = ?', [name])
-  const existingTag = result.rows?.[0] as { id: number } | undefined
-  if (existingTag) {
-    return existingTag.id
+/* Flatten an event date into its note columns (label, precision, start, end) */
+function eventDateParams(eventDate: EventDate | null): Array<string | number | null> {
+  if (!eventDate) {
+    return [null, null, null, null]
+  }
+  return [eventDate.label, eventDate.precision, eventDate.start, eventDate.end]
+}
+
+// SQLite caps bound parameters per statement; detail queries are chunked below this
+const MAX_IN_PARAMS = 500
+
+/* Run `query` for the IDs in chunks and concatenate the rows. `query` receives the placeholder list */
+async function selectByIds<T>(db: DB, ids: number[], query: (placeholders: string) => string): Promise<T[]> {
+  const rows: T[] = []
+  for (let i = 0; i < ids.length; i += MAX_IN_PARAMS) {
+    const chunk = ids.slice(i, i + MAX_IN_PARAMS)
+    const result = await db.execute(query(chunk.map(() => '?').join(', ')), chunk)
+    rows.push(...((result.rows || []) as unknown as T[]))
+  }
+  return rows
+}
+
+/* Group rows into lists keyed by note ID */
+function groupByNoteId<T extends { noteId: number }>(rows: T[]): Map<number, T[]> {
+  const groups = new Map<number, T[]>()
+  for (const row of rows) {
+    const group = groups.get(row.noteId)
+    if (group) {
+      group.push(row)
+    } else {
+      groups.set(row.noteId, [row])
+    }
   }
-  const insertResult = await db.execute('INSERT INTO tags (name) VALUES (?)', [name])
-  return insertResult.insertId!
+  return groups
 }
 
-/* Get all tags for a specific note */
-async function getTagsForNote(db: DB, noteId: number): Promise<Tag[]> {
-  const result = await db.execute(
-    `SELECT t.id, t.name
+/* Get the tags of many notes with one query per chunk */
+async function getTagsForNotes(db: DB, noteIds: number[]): Promise<Map<number, Tag[]>> {
+  const rows = await selectByIds<Tag & { noteId: number }>(db, noteIds, (placeholders) =>
+    `SELECT nt.noteId, t.id, t.name, t.color
      FROM tags t
      INNER JOIN note_tags nt ON t.id = nt.tagId
-     WHERE nt.noteId = ?`,
-    [noteId]
+     WHERE nt.noteId IN (${placeholders})`
   )
-  return (result.rows || []) as unknown as Tag[]
+  const grouped = groupByNoteId(rows)
+  return new Map(Array.from(grouped, ([noteId, tags]) => [noteId, tags.map(({ noteId: _, ...tag }) => tag)]))
 }
 
-/* Get all images for a note */
-async function getImagesForNote(db: DB, noteId: number): Promise<Image[]> {
-  const result = await db.execute(
-    'SELECT id, noteId, uri, description FROM images WHERE noteId = ?',
-    [noteId]
+/* Get the images of many notes */
+async function getImagesForNotes(db: DB, noteIds: number[]): Promise<Map<number, Image[]>> {
+  const rows = await selectByIds<Image>(db, noteIds, (placeholders) =>
+    `SELECT id, noteId, uri, description, aiDescription FROM images WHERE noteId IN (${placeholders}) ORDER BY id`
   )
-  return (result.rows || []) as unknown as Image[]
+  return groupByNoteId(rows)
 }
 
+/* Get the completed voice note transcripts of many notes */
+async function getTranscriptsForNotes(db: DB, noteIds: number[]): Promise<Map<number, string>> {
+  const rows = await selectByIds<{ noteId: number; text: string }>(db, noteIds, (placeholders) =>
+    `SELECT noteId, text FROM transcripts WHERE status = 'completed' AND noteId IN (${placeholders})`
+  )
+  return new Map(rows.map((row) => [row.noteId, row.text]))
+}
 
-/* Link tags, images, audio to a note (creates tags if they don't exist) */
-async function linkTagsToNote(
-  db: DB,
-  noteId: number,
-  tagNames: string[]
-): Promise<void> {
-  for (const tagName of tagNames) {
-    const tagId = await getOrCreateTag(db, tagName)
-    await db.execute('INSERT INTO note_tags (noteId, tagId) VALUES (?, ?)', [noteId, tagId])
-  }
+/* Get the people linked to many notes */
+async function getPeopleForNotes(db: DB, noteIds: number[]): Promise<Map<number, Person[]>> {
+  const rows = await selectByIds<Person & { noteId: number }>(db, noteIds, (placeholders) =>
+    `SELECT np.noteId, p.id, p.name, p.relationship, p.portraitUri, p.createdAt, p.updatedAt
+     FROM people p
+     INNER JOIN note_people np ON p.id = np.personId
+     WHERE np.noteId IN (${placeholders})
+     ORDER BY p.name COLLATE NOCASE`
+  )
+  const grouped = groupByNoteId(rows)
+  return new Map(Array.from(grouped, ([noteId, people]) => [noteId, people.map(({ noteId: _, ...person }) => person)]))
 }
 
-async function linkImagesToNote(
-  db: DB,
-  noteId: number,
-  images: Array<{ uri: string; description: string }>
-): Promise<void> {
-  for (const image of images) {
-    await db.execute('INSERT INTO images (noteId, uri, description) VALUES (?, ?, ?)', [noteId, image.uri, image.description])
-  }
+/* Get places by ID */
+async function getPlacesByIds(db: DB, placeIds: number[]): Promise<Map<number, Place>> {
+  const rows = await selectByIds<Place>(db, placeIds, (placeholders) =>
+    `SELECT id, name, type, address, latitude, longitude, createdAt, updatedAt FROM places WHERE id IN (${placeholders})`
+  )
+  return new Map(rows.map((place) => [place.id, place]))
+}
+
+// Image edits to apply to a note, see diffImages
+interface ImageChanges {
+  added: Array<{ uri: string; description: string }>
+  updated: Array<{ id: number; description: string }> // Kept images whose description changed
+  removed: Image[]
 }
 
+/* Match incoming images to a note's current ones by URI, so unchanged images keep their IDs and embeddings */
+function diffImages(current: Image[], incoming: Array<{ uri: string; description: string }>): ImageChanges {
+  const unmatched = new Map<string, Image[]>()
+  for (const image of current) {
+    unmatched.set(image.uri, [...(unmatched.get(image.uri) ?? []), image])
+  }
 
-/* Remove all tags, images and audio from a note */
-async function removeAllTagsFromNote(db: DB, noteId: number): Promise<void> {
-  await db.execute('DELETE FROM note_tags WHERE noteId = ?', [noteId])
+  const changes: ImageChanges = { added: [], updated: [], removed: [] }
+  for (const image of incoming) {
+    const match = unmatched.get(image.uri)?.shift()
+    if (!match) {
+      changes.added.push(image)
+    } else if (match.description !== image.description) {
+      changes.updated.push({ id: match.id, description: image.description })
+    }
+  }
+  changes.removed = Array.from(unmatched.values()).flat()
+  return changes
 }
-async function removeAllImagesFromNote(db: DB, noteId: number): Promise<void> {
-  await db.execute('DELETE FROM images WHERE noteId = ?', [noteId])
+
+/* Make a note link to exactly the given IDs in a link table, touching only rows that change */
+async function syncLinks(tx: Transaction, table: 'note_tags' | 'note_people', column: 'tagId' | 'personId', noteId: number, ids: number[]): Promise<void> {
+  const wanted = Array.from(new Set(ids))
+  const placeholders = wanted.map(() => '?').join(', ')
+  await tx.execute(
+    wanted.length > 0
+      ? `DELETE FROM ${table} WHERE noteId = ? AND ${column} NOT IN (${placeholders})`
+      : `DELETE FROM ${table} WHERE noteId = ?`,
+    [noteId, ...wanted]
+  )
+  for (const id of wanted) {
+    await tx.execute(`INSERT OR IGNORE INTO ${table} (noteId, ${column}) VALUES (?, ?)`, [noteId, id])
+  }
 }
 
+/* Attach tags, images, people, place and transcript to notes, with one query per relation instead of per note */
+async function buildNotesWithDetails(db: DB, notes: Note[]): Promise<NoteWithDetails[]> {
+  if (notes.length === 0) {
+    return []
+  }
+  const noteIds = notes.map((note) => note.id)
+  const placeIds = Array.from(new Set(notes.map((note) => note.placeId).filter((id): id is number => id !== null)))
 
-/* Build a complete NoteWithDetails object from a Note */
-async function buildNoteWithDetails(db: DB, note: Note): Promise<NoteWithDetails> {
-  const tags = await getTagsForNote(db, note.id)
-  const images = await getImagesForNote(db, note.id)
-  return {...note, tags, images }
+  const tags = await getTagsForNotes(db, noteIds)
+  const images = await getImagesForNotes(db, noteIds)
+  const people = await getPeopleForNotes(db, noteIds)
+  const places = await getPlacesByIds(db, placeIds)
+  const transcripts = await getTranscriptsForNotes(db, noteIds)
+
+  return notes.map((note) => ({
+    ...note,
+    tags: tags.get(note.id) ?? [],
+    images: images.get(note.id) ?? [],
+    people: people.get(note.id) ?? [],
+    place: note.placeId !== null ? places.get(note.placeId) ?? null : null,
+    transcript: transcripts.get(note.id) ?? null,
+  }))
 }
 
 /* Create a new note with tags, images, and audio */
@@ -95,42 +196,41 @@ export async function createNote(input: CreateNoteInput): Promise<number> {
   const db = getDatabaseInstance()
   let noteId: number = 0
   try {
+    // Copy media out of OS cache locations before referencing it
+    const audioUri = input.audioUri ? importMedia(input.audioUri, 'audio') : null
+    const images = input.images.map((image) => ({ ...image, uri: importMedia(image.uri, 'image') }))
+
     await db.transaction(async (tx) => {
       const now = Date.now()
       const result = await tx.execute(
-        'INSERT INTO notes (title, content, audioUri, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
-        [input.title, input.content, input.audioUri, now, now]
+        'INSERT INTO notes (title, content, audioUri, eventDateLabel, eventDatePrecision, eventDateStart, eventDateEnd, placeId, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [input.title, input.content, audioUri, ...eventDateParams(input.eventDate), input.placeId, now, now]
       )
       noteId = result.insertId!
 
       // Process tags
-      if (input.tags.length > 0) {
-        for (const tagName of input.tags) {
-          const tagResult = await tx.execute('SELECT id FROM tags WHERE name = ?', [tagName])
-          let tagId: number
-
-          if (tagResult.rows?.[0]) {
-            tagId = (tagResult.rows[0] as unknown as { id: number }).id
-          } else {
-            const insertTagResult = await tx.execute('INSERT INTO tags (name) VALUES (?)', [tagName])
-            tagId = insertTagResult.insertId!
-          }
-          await tx.execute('INSERT INTO note_tags (noteId, tagId) VALUES (?, ?)', [noteId, tagId])
-        }
+      for (const tagName of input.tags) {
+        const tagId = await getOrCreateTag(tx, tagName)
+        await tx.execute('INSERT OR IGNORE INTO note_tags (noteId, tagId) VALUES (?, ?)', [noteId, tagId])
       }
 
       // Process images
-      if (input.images.length > 0) {
-        for (const image of input.images) {
+      if (images.length > 0) {
+        for (const image of images) {
           await tx.execute('INSERT INTO images (noteId, uri, description) VALUES (?, ?, ?)', [noteId, image.uri, image.description])
         }
       }
-    })
 
-    // Trigger embedding pipeline first, then recall script (sequential to avoid context conflicts)
-    processNoteEmbeddings(noteId).then(() => {
-      processRecallScript(noteId)
+      // Link people
+      for (const personId of input.personIds) {
+        await tx.execute('INSERT OR IGNORE INTO note_people (noteId, personId) VALUES (?, ?)', [noteId, personId])
+      }
     })
+
+    markNotesChanged()
+
+    // Embeddings, then the recall script, are computed in the background by the job queue
+    await queueNoteJobs(noteId, ['embedNote', 'recallScript'])
     return noteId
   } catch (error) {
     throw error
@@ -142,16 +242,69 @@ export async function getAllNotes(): Promise<NoteWithDetails[]> {
   const db = getDatabaseInstance()
   try {
     const result = await db.execute(
-      'SELECT id, title, content, audioUri, recallScript, lastShownInReminisce, createdAt, updatedAt FROM notes ORDER BY createdAt DESC'
+      `SELECT ${NOTE_COLUMNS} FROM notes WHERE deletedAt IS NULL ORDER BY ${TIMELINE_ORDER}`
     )
     const notes = (result.rows || []) as unknown as Note[]
+    return await buildNotesWithDetails(db, notes)
+  } catch (error) {
+    throw error
+  }
+}
 
-    const notesWithDetails: NoteWithDetails[] = []
-    for (const note of notes) {
-      const noteWithDetails = await buildNoteWithDetails(db, note)
-      notesWithDetails.push(noteWithDetails)
-    }
-    return notesWithDetails
+/**
+ * Get one page of notes in timeline order, optionally filtered.
+ * Pass the returned nextCursor as `after` to fetch the following page; the cursor stays valid
+ * when notes are added or removed in between, unlike an offset.
+ * @param options - Cursor, page size and filters
+ */
+export async function listNotes(options: ListNotesOptions = {}): Promise<NotesPage> {
+  const db = getDatabaseInstance()
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE
+  const filters = options.filters ?? {}
+
+  const conditions: string[] = ['deletedAt IS NULL']
+  const params: Array<string | number> = []
+  if (options.after) {
+    conditions.push(`(${TIMELINE_POSITION} < ? OR (${TIMELINE_POSITION} = ? AND id < ?))`)
+    params.push(options.after.timelineAt, options.after.timelineAt, options.after.id)
+  }
+  if (filters.tag) {
+    conditions.push('id IN (SELECT nt.noteId FROM note_tags nt INNER JOIN tags t ON t.id = nt.tagId WHERE t.name = ?)')
+    params.push(filters.tag)
+  }
+  if (filters.personId !== undefined) {
+    conditions.push('id IN (SELECT noteId FROM note_people WHERE personId = ?)')
+    params.push(filters.personId)
+  }
+  if (filters.placeId !== undefined) {
+    conditions.push('placeId = ?')
+    params.push(filters.placeId)
+  }
+  if (filters.from !== undefined) {
+    conditions.push(`${TIMELINE_POSITION} >= ?`)
+    params.push(filters.from)
+  }
+  if (filters.to !== undefined) {
+    conditions.push(`${TIMELINE_POSITION} <= ?`)
+    params.push(filters.to)
+  }
+
+  try {
+    // Fetch one extra row to learn whether another page exists
+    const result = await db.execute(
+      `SELECT ${NOTE_COLUMNS}, ${TIMELINE_POSITION} AS timelineAt FROM notes
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${TIMELINE_ORDER}
+       LIMIT ?`,
+      [...params, limit + 1]
+    )
+    const rows = (result.rows || []) as unknown as Array<Note & { timelineAt: number }>
+    const pageRows = rows.slice(0, limit)
+    const last = pageRows[pageRows.length - 1]
+    const nextCursor: NoteCursor | null = rows.length > limit && last ? { timelineAt: last.timelineAt, id: last.id } : null
+
+    const notes = await buildNotesWithDetails(db, pageRows.map(({ timelineAt, ...note }) => note))
+    return { notes, nextCursor }
   } catch (error) {
     throw error
   }
@@ -162,14 +315,78 @@ export async function getNoteById(id: number): Promise<NoteWithDetails | null> {
   const db = getDatabaseInstance()
   try {
     const result = await db.execute(
-      'SELECT id, title, content, audioUri, recallScript, lastShownInReminisce, createdAt, updatedAt FROM notes WHERE id = ?',
+      `SELECT ${NOTE_COLUMNS} FROM notes WHERE id = ?`,
       [id]
     )
     const note = result.rows?.[0] as unknown as Note | undefined
     if (!note) {
       return null
     }
-    return await buildNoteWithDetails(db, note)
+    const [noteWithDetails] = await buildNotesWithDetails(db, [note])
+    return noteWithDetails
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get several notes by ID with all details, in one batch. Missing IDs are skipped; the result is in no particular order */
+export async function getNotesByIds(ids: number[]): Promise<NoteWithDetails[]> {
+  const db = getDatabaseInstance()
+  try {
+    const notes = await selectByIds<Note>(db, ids, (placeholders) =>
+      `SELECT ${NOTE_COLUMNS} FROM notes WHERE id IN (${placeholders})`
+    )
+    return await buildNotesWithDetails(db, notes)
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get every note a person appears in, in timeline order */
+export async function getNotesForPerson(personId: number): Promise<NoteWithDetails[]> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      `SELECT ${NOTE_COLUMNS} FROM notes
+       WHERE id IN (SELECT noteId FROM note_people WHERE personId = ?) AND deletedAt IS NULL
+       ORDER BY ${TIMELINE_ORDER}`,
+      [personId]
+    )
+    const notes = (result.rows || []) as unknown as Note[]
+    return await buildNotesWithDetails(db, notes)
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get every note that happened at a place, in timeline order */
+export async function getNotesForPlace(placeId: number): Promise<NoteWithDetails[]> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      `SELECT ${NOTE_COLUMNS} FROM notes WHERE placeId = ? AND deletedAt IS NULL ORDER BY ${TIMELINE_ORDER}`,
+      [placeId]
+    )
+    const notes = (result.rows || []) as unknown as Note[]
+    return await buildNotesWithDetails(db, notes)
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get the notes in a collection, in the collection's own order */
+export async function getNotesInCollection(collectionId: number): Promise<NoteWithDetails[]> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      `SELECT ${N_NOTE_COLUMNS} FROM notes n
+       INNER JOIN collection_notes cn ON cn.noteId = n.id
+       WHERE cn.collectionId = ? AND n.deletedAt IS NULL
+       ORDER BY cn.position`,
+      [collectionId]
+    )
+    const notes = (result.rows || []) as unknown as Note[]
+    return await buildNotesWithDetails(db, notes)
   } catch (error) {
     throw error
   }
@@ -179,75 +396,221 @@ export async function getNoteById(id: number): Promise<NoteWithDetails | null> {
 export async function updateNote(input: UpdateNoteInput): Promise<void> {
   const db = getDatabaseInstance()
   try {
+    const previous = await getNoteById(input.id)
+    const audioUri = input.audioUri ? importMedia(input.audioUri, 'audio') : null
+    const images = input.images.map((image) => ({ ...image, uri: importMedia(image.uri, 'image') }))
+
+    // Keep the version being overwritten so it can be compared and restored later
+    const changed = previous !== null && hasNoteChanged(previous, { ...input, audioUri, images })
+    const imageChanges = diffImages(previous?.images ?? [], images)
+
     await db.transaction(async (tx) => {
       const now = Date.now()
-      await tx.execute('UPDATE notes SET title = ?, content = ?, audioUri = ?, updatedAt = ? WHERE id = ?', [input.title, input.content, input.audioUri, now, input.id])
-      await tx.execute('DELETE FROM note_tags WHERE noteId = ?', [input.id])
-      await tx.execute('DELETE FROM images WHERE noteId = ?', [input.id])
-
-      // Add new tags
-      if (input.tags.length > 0) {
-        for (const tagName of input.tags) {
-          const tagResult = await tx.execute('SELECT id FROM tags WHERE name = ?', [tagName])
-          let tagId: number
-          if (tagResult.rows?.[0]) {
-            tagId = (tagResult.rows[0] as unknown as { id: number }).id
-          } else {
-            const insertTagResult = await tx.execute('INSERT INTO tags (name) VALUES (?)', [tagName])
-            tagId = insertTagResult.insertId!
-          }
-          await tx.execute('INSERT INTO note_tags (noteId, tagId) VALUES (?, ?)', [input.id, tagId])
-        }
+      if (previous && changed) {
+        await recordRevision(tx, previous, now)
       }
-      if (input.images.length > 0) {
-        for (const image of input.images) {
-          await tx.execute('INSERT INTO images (noteId, uri, description) VALUES (?, ?, ?)', [input.id, image.uri, image.description])
+      await tx.execute(
+        'UPDATE notes SET title = ?, content = ?, audioUri = ?, eventDateLabel = ?, eventDatePrecision = ?, eventDateStart = ?, eventDateEnd = ?, placeId = ?, updatedAt = ? WHERE id = ?',
+        [input.title, input.content, audioUri, ...eventDateParams(input.eventDate), input.placeId, now, input.id]
+      )
+
+      // Tags and people: only add and remove the links that changed, then drop tags this edit left unused
+      const tagIds: number[] = []
+      for (const tagName of input.tags) {
+        tagIds.push(await getOrCreateTag(tx, tagName))
+      }
+      await syncLinks(tx, 'note_tags', 'tagId', input.id, tagIds)
+      await syncLinks(tx, 'note_people', 'personId', input.id, input.personIds)
+      if (previous) {
+        await pruneOrphanedTags(tx, previous.tags.map((tag) => tag.id))
+      }
+
+      // Images: unchanged rows are left alone so their embeddings survive the edit
+      for (const image of imageChanges.removed) {
+        await tx.execute('DELETE FROM images WHERE id = ?', [image.id])
+      }
+      for (const image of imageChanges.updated) {
+        await tx.execute('UPDATE images SET description = ? WHERE id = ?', [image.description, image.id])
+        if (!image.description.trim()) {
+          // Drop the stale vector; the pipeline re-embeds the AI description if there is one
+          await tx.execute('DELETE FROM image_embeddings WHERE imageId = ?', [image.id])
         }
       }
+      for (const image of imageChanges.added) {
+        await tx.execute('INSERT INTO images (noteId, uri, description) VALUES (?, ?, ?)', [input.id, image.uri, image.description])
+      }
+
+      // A transcript belongs to one recording; the pipeline transcribes the new one
+      await tx.execute('DELETE FROM transcripts WHERE noteId = ? AND audioUri IS NOT ?', [input.id, audioUri])
     })
 
-    // Trigger embedding update first, then recall script (sequential to avoid context conflicts)
-    updateNoteEmbeddings(input.id).then(() => {
-      updateRecallScript(input.id)
+    markNotesChanged()
+
+    // Drop files that were replaced or removed by this edit, unless a kept revision still uses them
+    const prunedMedia = changed ? await pruneRevisions(input.id) : []
+    const replacedAudio = previous && previous.audioUri !== audioUri ? previous.audioUri : null
+    await releaseMedia([replacedAudio, ...imageChanges.removed.map((image) => image.uri), ...prunedMedia])
+
+    // Recompute embeddings (only if the text changed, detected via hash) and the recall script in the background
+    await queueNoteJobs(input.id, ['embedNote', 'recallScript'], { edited: true })
+  } catch (error) {
+    throw error
+  }
+}
+
+/**
+ * Roll a note back to an earlier revision.
+ * Goes through updateNote, so the replaced version becomes a revision itself and the
+ * embeddings and recall script are regenerated. People and places deleted since are left out.
+ * @param revisionId - Revision to restore
+ */
+export async function restoreNoteRevision(revisionId: number): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    const revision = await getRevisionById(revisionId)
+    if (!revision) {
+      throw new Error('Revision not found')
+    }
+
+    const personIds = await selectByIds<{ id: number }>(db, revision.personIds, (placeholders) =>
+      `SELECT id FROM people WHERE id IN (${placeholders})`
+    )
+    const place = revision.placeId !== null
+      ? (await getPlacesByIds(db, [revision.placeId])).get(revision.placeId) ?? null
+      : null
+
+    await updateNote({
+      id: revision.noteId,
+      title: revision.title,
+      content: revision.content,
+      tags: revision.tags,
+      images: revision.images,
+      audioUri: revision.audioUri,
+      eventDate: eventDateFromColumns(revision),
+      personIds: personIds.map((row) => row.id),
+      placeId: place ? place.id : null,
     })
   } catch (error) {
     throw error
   }
 }
 
-/* Delete a note */
+/* Move a note to the trash. It disappears from lists, search, chat, quiz and reminisce but can be restored */
 export async function deleteNote(id: number): Promise<void> {
   const db = getDatabaseInstance()
   try {
-    await db.execute('DELETE FROM notes WHERE id = ?', [id])
+    await db.execute('UPDATE notes SET deletedAt = ? WHERE id = ? AND deletedAt IS NULL', [Date.now(), id])
+    markNotesChanged()
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Take a note back out of the trash */
+export async function restoreNote(id: number): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    await db.execute('UPDATE notes SET deletedAt = NULL WHERE id = ?', [id])
+    markNotesChanged()
   } catch (error) {
     throw error
   }
 }
 
-/* Search notes by query string (title, content, and tag names). Returns notes sorted by creation date (newest first) */
-export async function searchNotes(query: string): Promise<NoteWithDetails[]> {
+/* Delete a note for good, including its embeddings, tags links and media files */
+export async function permanentlyDeleteNote(id: number): Promise<void> {
   const db = getDatabaseInstance()
+  try {
+    const note = await getNoteById(id)
+    const revisionMedia = await getRevisionMediaUris(id)
+    await db.execute('DELETE FROM notes WHERE id = ?', [id])
+    markNotesChanged()
+    if (note) {
+      await pruneOrphanedTags(db, note.tags.map((tag) => tag.id))
+      await releaseMedia([note.audioUri, ...note.images.map((image) => image.uri), ...revisionMedia])
+    }
+  } catch (error) {
+    throw error
+  }
+}
 
+/* Get notes in the trash, most recently deleted first */
+export async function getTrashedNotes(): Promise<NoteWithDetails[]> {
+  const db = getDatabaseInstance()
   try {
-    const searchPattern = `%${query}%`
     const result = await db.execute(
-      `SELECT DISTINCT n.id, n.title, n.content, n.audioUri, n.recallScript, n.lastShownInReminisce, n.createdAt, n.updatedAt
-       FROM notes n
-       LEFT JOIN note_tags nt ON n.id = nt.noteId
-       LEFT JOIN tags t ON nt.tagId = t.id
-       WHERE n.title LIKE ? OR n.content LIKE ? OR t.name LIKE ?
-       ORDER BY n.createdAt DESC`,
-      [searchPattern, searchPattern, searchPattern]
+      `SELECT ${NOTE_COLUMNS} FROM notes WHERE deletedAt IS NOT NULL ORDER BY deletedAt DESC`
     )
     const notes = (result.rows || []) as unknown as Note[]
+    return await buildNotesWithDetails(db, notes)
+  } catch (error) {
+    throw error
+  }
+}
 
-    const notesWithDetails: NoteWithDetails[] = []
-    for (const note of notes) {
-      const noteWithDetails = await buildNoteWithDetails(db, note)
-      notesWithDetails.push(noteWithDetails)
+/* Permanently delete every note in the trash */
+export async function emptyTrash(): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute('SELECT id FROM notes WHERE deletedAt IS NOT NULL')
+    for (const row of (result.rows || []) as unknown as Array<{ id: number }>) {
+      await permanentlyDeleteNote(row.id)
     }
-    return notesWithDetails
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Permanently delete notes that have been in the trash longer than TRASH_RETENTION_DAYS */
+export async function purgeExpiredTrash(): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    const cutoff = Date.now() - TRASH_RETENTION_DAYS * DAY_MS
+    const result = await db.execute('SELECT id FROM notes WHERE deletedAt IS NOT NULL AND deletedAt < ?', [cutoff])
+    for (const row of (result.rows || []) as unknown as Array<{ id: number }>) {
+      await permanentlyDeleteNote(row.id)
+    }
+  } catch (error) {
+    // Background task - fail silently, retried on next launch
+  }
+}
+
+/**
+ * Full-text search over title, content, tag names, image descriptions and voice note transcripts.
+ * Words match as prefixes and "quoted text" as exact phrases; results are ranked by relevance (BM25)
+ * and carry a highlighted title and snippet.
+ * @param query - Raw search box text
+ */
+export async function searchNotes(query: string): Promise<NoteSearchResult[]> {
+  const db = getDatabaseInstance()
+
+  try {
+    const ftsQuery = buildFtsQuery(query)
+    if (!ftsQuery) {
+      return []
+    }
+
+    const result = await db.execute(
+      `SELECT ${N_NOTE_COLUMNS},
+              highlight(notes_fts, 0, ?, ?) AS titleHighlight,
+              snippet(notes_fts, -1, ?, ?, '…', 16) AS snippet,
+              ${FTS_RANK} AS rank
+       FROM notes_fts
+       INNER JOIN notes n ON n.id = notes_fts.rowid
+       WHERE notes_fts MATCH ? AND n.deletedAt IS NULL
+       ORDER BY rank
+       LIMIT ?`,
+      [HIGHLIGHT_START, HIGHLIGHT_END, HIGHLIGHT_START, HIGHLIGHT_END, ftsQuery, SEARCH_RESULT_LIMIT]
+    )
+    const rows = (result.rows || []) as unknown as Array<Note & { titleHighlight: string; snippet: string; rank: number }>
+
+    const notes = await buildNotesWithDetails(db, rows.map(({ titleHighlight, snippet, rank, ...note }) => note))
+    return notes.map((note, index) => ({
+      ...note,
+      titleHighlight: rows[index].titleHighlight,
+      snippet: rows[index].snippet,
+      rank: rows[index].rank,
+    }))
   } catch (error) {
     throw error
   }
@@ -259,6 +622,7 @@ export function formatNoteForUI(note: NoteWithDetails): {
   title: string
   content: string
   tags: string[]
+  eventDate: string | null
   createdAt: string
 } {
   return {
@@ -266,6 +630,7 @@ export function formatNoteForUI(note: NoteWithDetails): {
     title: note.title,
     content: note.content,
     tags: note.tags.map((tag) => tag.name),
+    eventDate: note.eventDateLabel,
     createdAt: formatTimestamp(note.createdAt),
   }
 }
\ No newline at end of file
@@ -0,0 +1,13 @@
+/* In-memory revision counter for the notes collection. Screens remember the revision they loaded and skip reloading on focus when nothing has changed since */
+
+let revision = 0
+
+/* Current revision of the notes collection */
+export function getNotesRevision(): number {
+  return revision
+}
+
+/* Record that notes (or data shown alongside them, such as tag names) changed */
+export function markNotesChanged(): void {
+  revision += 1
+}
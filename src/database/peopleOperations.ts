@@ -0,0 +1,95 @@
+/* Helper database related functions for People */
+
+import { getDatabaseInstance } from './index'
+import { Person, PersonInput, PersonWithNoteCount } from './types'
+import { importMedia, releaseMedia } from '../lib/mediaStore'
+
+const PERSON_COLUMNS = 'id, name, relationship, portraitUri, createdAt, updatedAt'
+
+/* Trim optional text fields, storing empty strings as null */
+function optionalText(value: string | null): string | null {
+  const trimmed = value?.trim()
+  return trimmed ? trimmed : null
+}
+
+/* Create a person. Returns the person ID */
+export async function createPerson(input: PersonInput): Promise<number> {
+  const db = getDatabaseInstance()
+  try {
+    const portraitUri = input.portraitUri ? importMedia(input.portraitUri, 'image') : null
+    const now = Date.now()
+    const result = await db.execute(
+      'INSERT INTO people (name, relationship, portraitUri, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+      [input.name.trim(), optionalText(input.relationship), portraitUri, now, now]
+    )
+    return result.insertId!
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Update a person's name, relationship and portrait */
+export async function updatePerson(id: number, input: PersonInput): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    const previous = await getPersonById(id)
+    const portraitUri = input.portraitUri ? importMedia(input.portraitUri, 'image') : null
+    await db.execute(
+      'UPDATE people SET name = ?, relationship = ?, portraitUri = ?, updatedAt = ? WHERE id = ?',
+      [input.name.trim(), optionalText(input.relationship), portraitUri, Date.now(), id]
+    )
+    if (previous && previous.portraitUri !== portraitUri) {
+      await releaseMedia([previous.portraitUri])
+    }
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Delete a person. Notes stay, only their links to this person are removed */
+export async function deletePerson(id: number): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    const person = await getPersonById(id)
+    await db.execute('DELETE FROM people WHERE id = ?', [id])
+    if (person) {
+      await releaseMedia([person.portraitUri])
+    }
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get a single person by ID */
+export async function getPersonById(id: number): Promise<Person | null> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(`SELECT ${PERSON_COLUMNS} FROM people WHERE id = ?`, [id])
+    return (result.rows?.[0] as unknown as Person | undefined) ?? null
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get everyone, alphabetically, with how many notes they appear in */
+export async function getAllPeople(): Promise<PersonWithNoteCount[]> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      `SELECT p.id, p.name, p.relationship, p.portraitUri, p.createdAt, p.updatedAt, COUNT(n.id) AS noteCount
+       FROM people p
+       LEFT JOIN note_people np ON np.personId = p.id
+       LEFT JOIN notes n ON n.id = np.noteId AND n.deletedAt IS NULL
+       GROUP BY p.id
+       ORDER BY p.name COLLATE NOCASE`
+    )
+    return (result.rows || []) as unknown as PersonWithNoteCount[]
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Short description used in prompts and lists, e.g. "Anna (daughter)" */
+export function describePerson(person: Pick<Person, 'name' | 'relationship'>): string {
+  return person.relationship ? `${person.name} (${person.relationship})` : person.name
+}
@@ -0,0 +1,108 @@
+/* Helper database related functions for Places */
+
+import { getDatabaseInstance } from './index'
+import { Place, PlaceInput, PlaceWithNoteCount } from './types'
+import { queueNoteJobs } from '../lib/jobQueue'
+
+const PLACE_COLUMNS = 'id, name, type, address, latitude, longitude, createdAt, updatedAt'
+
+/* Trim optional text fields, storing empty strings as null */
+function optionalText(value: string | null): string | null {
+  const trimmed = value?.trim()
+  return trimmed ? trimmed : null
+}
+
+/* Reject coordinates outside the valid latitude/longitude ranges */
+function validateCoordinates(input: PlaceInput): void {
+  if ((input.latitude === null) !== (input.longitude === null)) {
+    throw new Error('Latitude and longitude must be entered together')
+  }
+  if (input.latitude !== null && (input.latitude < -90 || input.latitude > 90)) {
+    throw new Error('Latitude must be between -90 and 90')
+  }
+  if (input.longitude !== null && (input.longitude < -180 || input.longitude > 180)) {
+    throw new Error('Longitude must be between -180 and 180')
+  }
+}
+
+/* Create a place. Returns the place ID */
+export async function createPlace(input: PlaceInput): Promise<number> {
+  const db = getDatabaseInstance()
+  try {
+    validateCoordinates(input)
+    const now = Date.now()
+    const result = await db.execute(
+      'INSERT INTO places (name, type, address, latitude, longitude, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [input.name.trim(), optionalText(input.type), optionalText(input.address), input.latitude, input.longitude, now, now]
+    )
+    return result.insertId!
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Update a place. Notes there are re-embedded because the place name is part of their embedded text */
+export async function updatePlace(id: number, input: PlaceInput): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    validateCoordinates(input)
+    await db.execute(
+      'UPDATE places SET name = ?, type = ?, address = ?, latitude = ?, longitude = ?, updatedAt = ? WHERE id = ?',
+      [input.name.trim(), optionalText(input.type), optionalText(input.address), input.latitude, input.longitude, Date.now(), id]
+    )
+
+    const affected = await db.execute('SELECT id FROM notes WHERE placeId = ?', [id])
+    for (const row of (affected.rows || []) as unknown as Array<{ id: number }>) {
+      await queueNoteJobs(row.id, ['embedNote'], { edited: true })
+    }
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Delete a place. Notes stay, their placeId is cleared by the foreign key */
+export async function deletePlace(id: number): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    const affected = await db.execute('SELECT id FROM notes WHERE placeId = ?', [id])
+    await db.execute('DELETE FROM places WHERE id = ?', [id])
+    for (const row of (affected.rows || []) as unknown as Array<{ id: number }>) {
+      await queueNoteJobs(row.id, ['embedNote'], { edited: true })
+    }
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get a single place by ID */
+export async function getPlaceById(id: number): Promise<Place | null> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(`SELECT ${PLACE_COLUMNS} FROM places WHERE id = ?`, [id])
+    return (result.rows?.[0] as unknown as Place | undefined) ?? null
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get every place, alphabetically, with how many notes happened there */
+export async function getAllPlaces(): Promise<PlaceWithNoteCount[]> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      `SELECT p.id, p.name, p.type, p.address, p.latitude, p.longitude, p.createdAt, p.updatedAt, COUNT(n.id) AS noteCount
+       FROM places p
+       LEFT JOIN notes n ON n.placeId = p.id AND n.deletedAt IS NULL
+       GROUP BY p.id
+       ORDER BY p.name COLLATE NOCASE`
+    )
+    return (result.rows || []) as unknown as PlaceWithNoteCount[]
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Short description used in prompts and embeddings, e.g. "Lake house (holiday spot)" */
+export function describePlace(place: Pick<Place, 'name' | 'type'>): string {
+  return place.type ? `${place.name} (${place.type})` : place.name
+}
@@ -0,0 +1,72 @@
+/* Helper database related functions shared by the embedding retrieval backends: filtering matched notes and loading matched passages */
+
+import { getDatabaseInstance } from './index'
+import { RetrievalFilter } from './types'
+
+// Same timeline position as the notes list: when the memory happened, falling back to when it was written
+const TIMELINE_POSITION = 'COALESCE(n.eventDateStart, n.createdAt)'
+
+const placeholders = (values: unknown[]) => values.map(() => '?').join(', ')
+
+/**
+ * Build the SQL conditions a note (aliased `n`) must meet to be retrieved.
+ * @param filter - Exclusions, tags and timeline range; trashed notes are always excluded
+ */
+export function retrievalFilterSql(filter: RetrievalFilter = {}): { sql: string; params: number[] } {
+  const conditions: string[] = ['n.deletedAt IS NULL']
+  const params: number[] = []
+  if (filter.excludeNoteIds && filter.excludeNoteIds.length > 0) {
+    conditions.push(`n.id NOT IN (${placeholders(filter.excludeNoteIds)})`)
+    params.push(...filter.excludeNoteIds)
+  }
+  if (filter.tagIds && filter.tagIds.length > 0) {
+    conditions.push(`n.id IN (SELECT noteId FROM note_tags WHERE tagId IN (${placeholders(filter.tagIds)}))`)
+    params.push(...filter.tagIds)
+  }
+  if (filter.from !== undefined) {
+    conditions.push(`${TIMELINE_POSITION} >= ?`)
+    params.push(filter.from)
+  }
+  if (filter.to !== undefined) {
+    conditions.push(`${TIMELINE_POSITION} <= ?`)
+    params.push(filter.to)
+  }
+  return { sql: conditions.join(' AND '), params }
+}
+
+/* Keep only the notes that pass the filter */
+export async function filterRetrievableNotes(noteIds: number[], filter: RetrievalFilter = {}): Promise<Set<number>> {
+  if (noteIds.length === 0) {
+    return new Set()
+  }
+
+  const db = getDatabaseInstance()
+  try {
+    const { sql, params } = retrievalFilterSql(filter)
+    const result = await db.execute(
+      `SELECT n.id FROM notes n WHERE n.id IN (${placeholders(noteIds)}) AND ${sql}`,
+      [...noteIds, ...params]
+    )
+    return new Set(((result.rows || []) as unknown as Array<{ id: number }>).map(row => row.id))
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get the text of note chunks by id, keyed by the note they belong to */
+export async function getChunkTexts(chunkIds: number[]): Promise<Map<number, string>> {
+  if (chunkIds.length === 0) {
+    return new Map()
+  }
+
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      `SELECT noteId, text FROM note_chunks WHERE id IN (${placeholders(chunkIds)})`,
+      chunkIds
+    )
+    return new Map(((result.rows || []) as unknown as Array<{ noteId: number; text: string }>).map(row => [row.noteId, row.text]))
+  } catch (error) {
+    throw error
+  }
+}
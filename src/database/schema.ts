@@ -1,97 +1,513 @@
-import { type DB } from '@op-engineering/op-sqlite'
+import { type DB, type Transaction } from '@op-engineering/op-sqlite'
+import { File, Directory, Paths } from 'expo-file-system'
+import { snapshotDatabase } from './snapshot'
+
+interface Migration {
+  version: number
+  description: string
+  up: (tx: Transaction) => Promise<void>
+}
+
+const MAX_PRE_MIGRATION_BACKUPS = 3
+
+/* Statements that rebuild the notes_fts rows of the notes matching `condition` (SQL on notes alias n), as created in v5 */
+function refreshNotesFtsV5(condition: string): string {
+  return `
+    DELETE FROM notes_fts WHERE rowid IN (SELECT n.id FROM notes n WHERE ${condition});
+    INSERT INTO notes_fts (rowid, title, content, tags, images)
+      SELECT n.id, n.title, n.content,
+        (SELECT group_concat(t.name, ' ') FROM note_tags nt JOIN tags t ON t.id = nt.tagId WHERE nt.noteId = n.id),
+        (SELECT group_concat(i.description, ' ') FROM images i WHERE i.noteId = n.id)
+      FROM notes n WHERE ${condition};`
+}
+/* Same as refreshNotesFtsV5, plus the voice note transcript column added in v14 */
+function refreshNotesFtsV14(condition: string): string {
+  return `
+    DELETE FROM notes_fts WHERE rowid IN (SELECT n.id FROM notes n WHERE ${condition});
+    INSERT INTO notes_fts (rowid, title, content, tags, images, transcript)
+      SELECT n.id, n.title, n.content,
+        (SELECT group_concat(t.name, ' ') FROM note_tags nt JOIN tags t ON t.id = nt.tagId WHERE nt.noteId = n.id),
+        (SELECT group_concat(i.description, ' ') FROM images i WHERE i.noteId = n.id),
+        (SELECT tr.text FROM transcripts tr WHERE tr.noteId = n.id)
+      FROM notes n WHERE ${condition};`
+}
+const preMigrationBackupDir = new Directory(Paths.document, 'backups', 'pre-migration')
 
 /**
- * DEVELOPMENT MODE: Single Version Migration
+ * Ordered schema migrations keyed by PRAGMA user_version.
+ * Shipped steps must never be edited - append a new step with the next version instead.
  */
-export async function migrateDbIfNeeded(db: DB): Promise<void> {
-  const DATABASE_VERSION = 1 // STAYS AT 1 DURING ENTIRE DEVELOPMENT
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial notes, tags, images and embedding tables',
+    up: async (tx) => {
+      await tx.execute(`
+        -- Notes Feature Tables
+        CREATE TABLE IF NOT EXISTS notes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          audioUri TEXT,
+          recallScript TEXT,
+          lastShownInReminisce INTEGER,
+          createdAt INTEGER NOT NULL,
+          updatedAt INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS tags (
+          id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+          name TEXT NOT NULL UNIQUE
+        );
+
+        CREATE TABLE IF NOT EXISTS note_tags (
+          noteId INTEGER NOT NULL,
+          tagId INTEGER NOT NULL,
+          PRIMARY KEY (noteId, tagId),
+          FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE,
+          FOREIGN KEY (tagId) REFERENCES tags(id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE IF NOT EXISTS images (
+          id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+          noteId INTEGER NOT NULL,
+          uri TEXT NOT NULL,
+          description TEXT DEFAULT '',
+          FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE
+        );
+
+        -- Embedding Tables for RAG
+        CREATE TABLE IF NOT EXISTS note_embeddings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+          noteId INTEGER NOT NULL UNIQUE,
+          embedding BLOB NOT NULL,
+          embeddingDimensions INTEGER NOT NULL,
+          textHash TEXT NOT NULL,
+          status TEXT DEFAULT 'completed',
+          createdAt INTEGER NOT NULL,
+          FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE IF NOT EXISTS image_embeddings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+          imageId INTEGER NOT NULL UNIQUE,
+          description TEXT NOT NULL,
+          embedding BLOB NOT NULL,
+          embeddingDimensions INTEGER NOT NULL,
+          descriptionHash TEXT NOT NULL,
+          status TEXT DEFAULT 'completed',
+          createdAt INTEGER NOT NULL,
+          FOREIGN KEY (imageId) REFERENCES images(id) ON DELETE CASCADE
+        );
+
+        -- Indexes for performance
+        CREATE INDEX IF NOT EXISTS idx_notes_createdAt ON notes(createdAt DESC);
+        CREATE INDEX IF NOT EXISTS idx_note_tags_noteId ON note_tags(noteId);
+        CREATE INDEX IF NOT EXISTS idx_images_noteId ON images(noteId);
+        CREATE INDEX IF NOT EXISTS idx_note_embeddings_noteId ON note_embeddings(noteId);
+        CREATE INDEX IF NOT EXISTS idx_image_embeddings_imageId ON image_embeddings(imageId);
+      `)
+    },
+  },
+  {
+    version: 2,
+    description: 'Event date ("when it happened") columns on notes',
+    up: async (tx) => {
+      await tx.execute('ALTER TABLE notes ADD COLUMN eventDateLabel TEXT')
+      await tx.execute('ALTER TABLE notes ADD COLUMN eventDatePrecision TEXT')
+      await tx.execute('ALTER TABLE notes ADD COLUMN eventDateStart INTEGER')
+      await tx.execute('ALTER TABLE notes ADD COLUMN eventDateEnd INTEGER')
+      await tx.execute('CREATE INDEX IF NOT EXISTS idx_notes_timeline ON notes(COALESCE(eventDateStart, createdAt) DESC)')
+    },
+  },
+  {
+    version: 3,
+    description: 'People and note-to-people links',
+    up: async (tx) => {
+      await tx.execute(`
+        CREATE TABLE IF NOT EXISTS people (
+          id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+          name TEXT NOT NULL,
+          relationship TEXT,
+          portraitUri TEXT,
+          createdAt INTEGER NOT NULL,
+          updatedAt INTEGER NOT NULL
+        )
+      `)
+      await tx.execute(`
+        CREATE TABLE IF NOT EXISTS note_people (
+          noteId INTEGER NOT NULL,
+          personId INTEGER NOT NULL,
+          PRIMARY KEY (noteId, personId),
+          FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE,
+          FOREIGN KEY (personId) REFERENCES people(id) ON DELETE CASCADE
+        )
+      `)
+      await tx.execute('CREATE INDEX IF NOT EXISTS idx_note_people_personId ON note_people(personId)')
+    },
+  },
+  {
+    version: 4,
+    description: 'Places registry and notes.placeId',
+    up: async (tx) => {
+      await tx.execute(`
+        CREATE TABLE IF NOT EXISTS places (
+          id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+          name TEXT NOT NULL,
+          type TEXT,
+          address TEXT,
+          latitude REAL,
+          longitude REAL,
+          createdAt INTEGER NOT NULL,
+          updatedAt INTEGER NOT NULL
+        )
+      `)
+      await tx.execute('ALTER TABLE notes ADD COLUMN placeId INTEGER REFERENCES places(id) ON DELETE SET NULL')
+      await tx.execute('CREATE INDEX IF NOT EXISTS idx_notes_placeId ON notes(placeId)')
+    },
+  },
+  {
+    version: 5,
+    description: 'FTS5 full-text index over notes, tags and image descriptions',
+    up: async (tx) => {
+      // rowid is the note id; porter stemming so "walking" also matches "walk"
+      await tx.execute(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+          title, content, tags, images,
+          tokenize = 'porter unicode61 remove_diacritics 2'
+        )
+      `)
+
+      // Keep the index in sync with notes, their tags (including renames) and image descriptions
+      const triggers: Array<[name: string, event: string, body: string]> = [
+        ['notes_fts_notes_ai', 'AFTER INSERT ON notes', refreshNotesFtsV5('n.id = NEW.id')],
+        ['notes_fts_notes_au', 'AFTER UPDATE OF title, content ON notes', refreshNotesFtsV5('n.id = NEW.id')],
+        ['notes_fts_notes_ad', 'AFTER DELETE ON notes', 'DELETE FROM notes_fts WHERE rowid = OLD.id;'],
+        ['notes_fts_note_tags_ai', 'AFTER INSERT ON note_tags', refreshNotesFtsV5('n.id = NEW.noteId')],
+        ['notes_fts_note_tags_ad', 'AFTER DELETE ON note_tags', refreshNotesFtsV5('n.id = OLD.noteId')],
+        ['notes_fts_tags_au', 'AFTER UPDATE OF name ON tags', refreshNotesFtsV5('n.id IN (SELECT noteId FROM note_tags WHERE tagId = NEW.id)')],
+        ['notes_fts_images_ai', 'AFTER INSERT ON images', refreshNotesFtsV5('n.id = NEW.noteId')],
+        ['notes_fts_images_au', 'AFTER UPDATE OF description ON images', refreshNotesFtsV5('n.id = NEW.noteId')],
+        ['notes_fts_images_ad', 'AFTER DELETE ON images', refreshNotesFtsV5('n.id = OLD.noteId')],
+      ]
+      for (const [name, event, body] of triggers) {
+        await tx.execute(`CREATE TRIGGER IF NOT EXISTS ${name} ${event} BEGIN ${body} END`)
+      }
+
+      // Backfill existing notes
+      await tx.execute('DELETE FROM notes_fts')
+      await tx.execute(refreshNotesFtsV5('1 = 1'))
+    },
+  },
+  {
+    version: 6,
+    description: 'Timeline index with id tie-breaker for cursor pagination',
+    up: async (tx) => {
+      await tx.execute('DROP INDEX IF EXISTS idx_notes_timeline')
+      await tx.execute('CREATE INDEX IF NOT EXISTS idx_notes_timeline ON notes(COALESCE(eventDateStart, createdAt) DESC, id DESC)')
+    },
+  },
+  {
+    version: 7,
+    description: 'Soft delete (trash) for notes',
+    up: async (tx) => {
+      await tx.execute('ALTER TABLE notes ADD COLUMN deletedAt INTEGER')
+      await tx.execute('CREATE INDEX IF NOT EXISTS idx_notes_deletedAt ON notes(deletedAt) WHERE deletedAt IS NOT NULL')
+    },
+  },
+  {
+    version: 8,
+    description: 'Note revision history',
+    up: async (tx) => {
+      // Relations are stored as JSON so a revision survives later tag, image and people edits
+      await tx.execute(`
+        CREATE TABLE IF NOT EXISTS note_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+          noteId INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          audioUri TEXT,
+          eventDateLabel TEXT,
+          eventDatePrecision TEXT,
+          eventDateStart INTEGER,
+          eventDateEnd INTEGER,
+          placeId INTEGER,
+          tags TEXT NOT NULL,
+          images TEXT NOT NULL,
+          personIds TEXT NOT NULL,
+          savedAt INTEGER NOT NULL,
+          replacedAt INTEGER NOT NULL,
+          FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE
+        )
+      `)
+      await tx.execute('CREATE INDEX IF NOT EXISTS idx_note_revisions_noteId ON note_revisions(noteId, replacedAt DESC)')
+    },
+  },
+  {
+    version: 9,
+    description: 'Tag colors, removal of orphaned tags and default tags',
+    up: async (tx) => {
+      await tx.execute('ALTER TABLE tags ADD COLUMN color TEXT')
+      await tx.execute('CREATE INDEX IF NOT EXISTS idx_note_tags_tagId ON note_tags(tagId)')
+      // Earlier versions of updateNote left unused tags behind
+      await tx.execute('DELETE FROM tags WHERE id NOT IN (SELECT tagId FROM note_tags)')
+      // The tags the editor used to offer, so they stay available as suggestions
+      for (const name of ['Family', 'Friends', 'Places', 'Events', 'People', 'Childhood', 'Travel', 'Moments']) {
+        await tx.execute('INSERT OR IGNORE INTO tags (name) VALUES (?)', [name])
+      }
+    },
+  },
+  {
+    version: 10,
+    description: 'Key-value app settings',
+    up: async (tx) => {
+      await tx.execute(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY NOT NULL,
+          value TEXT NOT NULL
+        )
+      `)
+    },
+  },
+  {
+    version: 11,
+    description: 'Collections: curated, ordered sets of notes',
+    up: async (tx) => {
+      await tx.execute(`
+        CREATE TABLE IF NOT EXISTS collections (
+          id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          coverUri TEXT,
+          createdAt INTEGER NOT NULL,
+          updatedAt INTEGER NOT NULL
+        )
+      `)
+      await tx.execute(`
+        CREATE TABLE IF NOT EXISTS collection_notes (
+          collectionId INTEGER NOT NULL,
+          noteId INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          addedAt INTEGER NOT NULL,
+          PRIMARY KEY (collectionId, noteId),
+          FOREIGN KEY (collectionId) REFERENCES collections(id) ON DELETE CASCADE,
+          FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE
+        )
+      `)
+      await tx.execute('CREATE INDEX IF NOT EXISTS idx_collection_notes_position ON collection_notes(collectionId, position)')
+      await tx.execute('CREATE INDEX IF NOT EXISTS idx_collection_notes_noteId ON collection_notes(noteId)')
+    },
+  },
+  {
+    version: 12,
+    description: 'Note links: explicit, optionally labelled links between related notes',
+    up: async (tx) => {
+      await tx.execute(`
+        CREATE TABLE IF NOT EXISTS note_links (
+          id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+          sourceNoteId INTEGER NOT NULL,
+          targetNoteId INTEGER NOT NULL,
+          relation TEXT,
+          createdAt INTEGER NOT NULL,
+          UNIQUE (sourceNoteId, targetNoteId),
+          CHECK (sourceNoteId <> targetNoteId),
+          FOREIGN KEY (sourceNoteId) REFERENCES notes(id) ON DELETE CASCADE,
+          FOREIGN KEY (targetNoteId) REFERENCES notes(id) ON DELETE CASCADE
+        )
+      `)
+      await tx.execute('CREATE INDEX IF NOT EXISTS idx_note_links_targetNoteId ON note_links(targetNoteId)')
+    },
+  },
+  {
+    version: 13,
+    description: 'AI image descriptions from the local vision model, stored apart from user descriptions',
+    up: async (tx) => {
+      await tx.execute('ALTER TABLE images ADD COLUMN aiDescription TEXT')
+    },
+  },
+  {
+    version: 14,
+    description: 'Voice note transcripts, indexed for full-text search',
+    up: async (tx) => {
+      // One transcript per note, for the recording in audioUri; segments is JSON [{ start, end, text }] in ms
+      await tx.execute(`
+        CREATE TABLE IF NOT EXISTS transcripts (
+          noteId INTEGER PRIMARY KEY NOT NULL,
+          audioUri TEXT NOT NULL,
+          status TEXT NOT NULL,
+          text TEXT NOT NULL DEFAULT '',
+          segments TEXT NOT NULL DEFAULT '[]',
+          language TEXT,
+          createdAt INTEGER NOT NULL,
+          FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE
+        )
+      `)
+
+      // FTS5 tables can't gain columns, so rebuild the index with a transcript column
+      const v5Triggers = [
+        'notes_fts_notes_ai', 'notes_fts_notes_au', 'notes_fts_notes_ad',
+        'notes_fts_note_tags_ai', 'notes_fts_note_tags_ad', 'notes_fts_tags_au',
+        'notes_fts_images_ai', 'notes_fts_images_au', 'notes_fts_images_ad',
+      ]
+      for (const name of v5Triggers) {
+        await tx.execute(`DROP TRIGGER IF EXISTS ${name}`)
+      }
+      await tx.execute('DROP TABLE IF EXISTS notes_fts')
+      await tx.execute(`
+        CREATE VIRTUAL TABLE notes_fts USING fts5(
+          title, content, tags, images, transcript,
+          tokenize = 'porter unicode61 remove_diacritics 2'
+        )
+      `)
+
+      const triggers: Array<[name: string, event: string, body: string]> = [
+        ['notes_fts_notes_ai', 'AFTER INSERT ON notes', refreshNotesFtsV14('n.id = NEW.id')],
+        ['notes_fts_notes_au', 'AFTER UPDATE OF title, content ON notes', refreshNotesFtsV14('n.id = NEW.id')],
+        ['notes_fts_notes_ad', 'AFTER DELETE ON notes', 'DELETE FROM notes_fts WHERE rowid = OLD.id;'],
+        ['notes_fts_note_tags_ai', 'AFTER INSERT ON note_tags', refreshNotesFtsV14('n.id = NEW.noteId')],
+        ['notes_fts_note_tags_ad', 'AFTER DELETE ON note_tags', refreshNotesFtsV14('n.id = OLD.noteId')],
+        ['notes_fts_tags_au', 'AFTER UPDATE OF name ON tags', refreshNotesFtsV14('n.id IN (SELECT noteId FROM note_tags WHERE tagId = NEW.id)')],
+        ['notes_fts_images_ai', 'AFTER INSERT ON images', refreshNotesFtsV14('n.id = NEW.noteId')],
+        ['notes_fts_images_au', 'AFTER UPDATE OF description ON images', refreshNotesFtsV14('n.id = NEW.noteId')],
+        ['notes_fts_images_ad', 'AFTER DELETE ON images', refreshNotesFtsV14('n.id = OLD.noteId')],
+        ['notes_fts_transcripts_ai', 'AFTER INSERT ON transcripts', refreshNotesFtsV14('n.id = NEW.noteId')],
+        ['notes_fts_transcripts_au', 'AFTER UPDATE OF text ON transcripts', refreshNotesFtsV14('n.id = NEW.noteId')],
+        ['notes_fts_transcripts_ad', 'AFTER DELETE ON transcripts', refreshNotesFtsV14('n.id = OLD.noteId')],
+      ]
+      for (const [name, event, body] of triggers) {
+        await tx.execute(`CREATE TRIGGER IF NOT EXISTS ${name} ${event} BEGIN ${body} END`)
+      }
 
+      await tx.execute(refreshNotesFtsV14('1 = 1'))
+    },
+  },
+  {
+    version: 15,
+    description: 'Note chunks: overlapping passages of long notes, each with its own embedding',
+    up: async (tx) => {
+      // text is the passage itself; textHash covers what was embedded (the passage with the note title)
+      await tx.execute(`
+        CREATE TABLE IF NOT EXISTS note_chunks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+          noteId INTEGER NOT NULL,
+          chunkIndex INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          embedding BLOB NOT NULL,
+          embeddingDimensions INTEGER NOT NULL,
+          textHash TEXT NOT NULL,
+          status TEXT DEFAULT 'completed',
+          createdAt INTEGER NOT NULL,
+          UNIQUE (noteId, chunkIndex),
+          FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE
+        )
+      `)
+    },
+  },
+  {
+    version: 16,
+    description: 'Embedding model ID and version on every stored embedding',
+    up: async (tx) => {
+      for (const table of ['note_embeddings', 'note_chunks', 'image_embeddings']) {
+        await tx.execute(`ALTER TABLE ${table} ADD COLUMN embeddingModelId TEXT`)
+        await tx.execute(`ALTER TABLE ${table} ADD COLUMN embeddingModelVersion INTEGER`)
+        // Every embedding so far came from the only embedding model the app has shipped; other sizes can't have
+        await tx.execute(
+          `UPDATE ${table} SET embeddingModelId = 'embeddinggemma-300m-Q4_0.gguf', embeddingModelVersion = 1 WHERE embeddingDimensions = 768`
+        )
+      }
+    },
+  },
+  {
+    version: 17,
+    description: 'Durable queue of background jobs (embeddings, recall scripts)',
+    up: async (tx) => {
+      // At most one job per kind of work and note; queueing it again merges into the existing row
+      await tx.execute(`
+        CREATE TABLE IF NOT EXISTS jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+          type TEXT NOT NULL,
+          noteId INTEGER NOT NULL,
+          priority INTEGER NOT NULL DEFAULT 0,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          runAfter INTEGER NOT NULL,
+          lastError TEXT,
+          createdAt INTEGER NOT NULL,
+          updatedAt INTEGER NOT NULL,
+          UNIQUE (type, noteId),
+          FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE
+        )
+      `)
+      await tx.execute('CREATE INDEX IF NOT EXISTS idx_jobs_status_priority ON jobs(status, priority DESC, runAfter)')
+    },
+  },
+]
+
+export const LATEST_DATABASE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/* Read the schema version stored in the database header */
+export async function getDatabaseVersion(db: DB): Promise<number> {
   const result = await db.execute('PRAGMA user_version')
-  let currentDbVersion = (result.rows?.[0]?.user_version as number) ?? 0
+  return (result.rows?.[0]?.user_version as number) ?? 0
+}
+
+/* Delete every pre-migration backup, e.g. plaintext copies left over from before the database was encrypted */
+export function discardPreMigrationBackups(): void {
+  if (preMigrationBackupDir.exists) {
+    preMigrationBackupDir.delete()
+  }
+}
+
+/* Copy the database aside before touching its schema, keeping only the most recent copies */
+async function createPreMigrationBackup(db: DB, fromVersion: number): Promise<void> {
+  if (!preMigrationBackupDir.exists) {
+    preMigrationBackupDir.create({ intermediates: true })
+  }
+  const backupFile = new File(preMigrationBackupDir, `memoriq-v${fromVersion}-${Date.now()}.db`)
+  await snapshotDatabase(db, backupFile)
+
+  const backups = preMigrationBackupDir
+    .list()
+    .filter((entry): entry is File => entry instanceof File && entry.name.endsWith('.db'))
+    .sort((a, b) => (b.modificationTime ?? 0) - (a.modificationTime ?? 0))
+  for (const stale of backups.slice(MAX_PRE_MIGRATION_BACKUPS)) {
+    try {
+      stale.delete()
+    } catch (error) {
+      // Leaving an extra backup behind is harmless
+    }
+  }
+}
 
-  if (currentDbVersion >= DATABASE_VERSION) {
-    return // Database already initialized
+/**
+ * Bring the database up to LATEST_DATABASE_VERSION.
+ * Existing databases are backed up first; each step runs in its own transaction together with
+ * the user_version bump, so a failing step rolls back and leaves the previous version intact.
+ */
+export async function migrateDbIfNeeded(db: DB): Promise<void> {
+  const currentDbVersion = await getDatabaseVersion(db)
+
+  if (currentDbVersion >= LATEST_DATABASE_VERSION) {
+    return // Database already up to date
   }
 
-  if (currentDbVersion === 0) {
-    await db.execute('PRAGMA journal_mode = WAL')
-
-    // Create ALL tables for the complete app
-    // Add new feature tables here as development progresses
-    await db.execute(`
-      -- Notes Feature Tables
-      CREATE TABLE IF NOT EXISTS notes (
-        id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
-        title TEXT NOT NULL,
-        content TEXT NOT NULL,
-        audioUri TEXT,
-        recallScript TEXT,
-        lastShownInReminisce INTEGER,
-        createdAt INTEGER NOT NULL,
-        updatedAt INTEGER NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS tags (
-        id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
-        name TEXT NOT NULL UNIQUE
-      );
-
-      CREATE TABLE IF NOT EXISTS note_tags (
-        noteId INTEGER NOT NULL,
-        tagId INTEGER NOT NULL,
-        PRIMARY KEY (noteId, tagId),
-        FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE,
-        FOREIGN KEY (tagId) REFERENCES tags(id) ON DELETE CASCADE
-      );
-
-      CREATE TABLE IF NOT EXISTS images (
-        id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
-        noteId INTEGER NOT NULL,
-        uri TEXT NOT NULL,
-        description TEXT DEFAULT '',
-        FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE
-      );
-
-      -- Embedding Tables for RAG
-      CREATE TABLE IF NOT EXISTS note_embeddings (
-        id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
-        noteId INTEGER NOT NULL UNIQUE,
-        embedding BLOB NOT NULL,
-        embeddingDimensions INTEGER NOT NULL,
-        textHash TEXT NOT NULL,
-        status TEXT DEFAULT 'completed',
-        createdAt INTEGER NOT NULL,
-        FOREIGN KEY (noteId) REFERENCES notes(id) ON DELETE CASCADE
-      );
-
-      CREATE TABLE IF NOT EXISTS image_embeddings (
-        id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
-        imageId INTEGER NOT NULL UNIQUE,
-        description TEXT NOT NULL,
-        embedding BLOB NOT NULL,
-        embeddingDimensions INTEGER NOT NULL,
-        descriptionHash TEXT NOT NULL,
-        status TEXT DEFAULT 'completed',
-        createdAt INTEGER NOT NULL,
-        FOREIGN KEY (imageId) REFERENCES images(id) ON DELETE CASCADE
-      );
-
-      -- Future Feature Tables (Add as development progresses)
-      -- Example: Chat Feature (to be added later)
-      -- CREATE TABLE IF NOT EXISTS chats (...);
-      -- CREATE TABLE IF NOT EXISTS messages (...);
-
-      -- Example: Reminders Feature (to be added later)
-      -- CREATE TABLE IF NOT EXISTS reminders (...);
-
-      -- Indexes for performance
-      CREATE INDEX IF NOT EXISTS idx_notes_createdAt ON notes(createdAt DESC);
-      CREATE INDEX IF NOT EXISTS idx_note_tags_noteId ON note_tags(noteId);
-      CREATE INDEX IF NOT EXISTS idx_images_noteId ON images(noteId);
-      CREATE INDEX IF NOT EXISTS idx_note_embeddings_noteId ON note_embeddings(noteId);
-      CREATE INDEX IF NOT EXISTS idx_image_embeddings_imageId ON image_embeddings(imageId);
-    `)
+  // journal_mode cannot be changed inside a transaction
+  await db.execute('PRAGMA journal_mode = WAL')
+
+  if (currentDbVersion > 0) {
+    await createPreMigrationBackup(db, currentDbVersion)
   }
 
-  await db.execute(`PRAGMA user_version = ${DATABASE_VERSION}`)
-}
\ No newline at end of file
+  const pending = MIGRATIONS.filter((migration) => migration.version > currentDbVersion)
+  for (const migration of pending) {
+    try {
+      await db.transaction(async (tx) => {
+        await migration.up(tx)
+        await tx.execute(`PRAGMA user_version = ${migration.version}`)
+      })
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new Error(`Migration to version ${migration.version} (${migration.description}) failed: ${reason}`)
+    }
+  }
+}
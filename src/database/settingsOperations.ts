@@ -0,0 +1,41 @@
+/* Helper database related functions for app settings, stored as JSON values in a key-value table */
+
+import { getDatabaseInstance } from './index'
+import { AppSettings } from './types'
+
+const DEFAULT_SETTINGS: AppSettings = {
+  backupFrequency: 'daily',
+  backupRetention: 7,
+  retrievalBackend: 'memory',
+}
+
+/* Read all settings, falling back to defaults for anything not saved yet */
+export async function getSettings(): Promise<AppSettings> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute('SELECT key, value FROM settings')
+    const settings: AppSettings = { ...DEFAULT_SETTINGS }
+    for (const row of (result.rows || []) as unknown as Array<{ key: string; value: string }>) {
+      if (row.key in DEFAULT_SETTINGS) {
+        Object.assign(settings, { [row.key]: JSON.parse(row.value) })
+      }
+    }
+    return settings
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Save the given settings, leaving the others unchanged */
+export async function updateSettings(changes: Partial<AppSettings>): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    await db.transaction(async (tx) => {
+      for (const [key, value] of Object.entries(changes)) {
+        await tx.execute('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)', [key, JSON.stringify(value)])
+      }
+    })
+  } catch (error) {
+    throw error
+  }
+}
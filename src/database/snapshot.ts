@@ -0,0 +1,23 @@
+/* Helpers for taking point-in-time copies of the SQLite database file */
+
+import { type DB } from '@op-engineering/op-sqlite'
+import { File } from 'expo-file-system'
+
+/* Convert a file:// URI into a plain filesystem path that SQLite understands */
+export function uriToPath(uri: string): string {
+  return decodeURI(uri.replace(/^file:\/\//, ''))
+}
+
+/**
+ * Write a consistent copy of the open database to the given file.
+ * VACUUM INTO reads inside a single transaction, so pending WAL pages are included and
+ * concurrent writes on the connection cannot tear the copy.
+ * @param db - Open database connection
+ * @param destination - Target file (must not exist yet)
+ */
+export async function snapshotDatabase(db: DB, destination: File): Promise<void> {
+  if (destination.exists) {
+    destination.delete()
+  }
+  await db.execute('VACUUM INTO ?', [uriToPath(destination.uri)])
+}
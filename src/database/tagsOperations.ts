@@ -0,0 +1,153 @@
+/* Helper database related functions for Tags */
+
+import { type DB } from '@op-engineering/op-sqlite'
+import { getDatabaseInstance } from './index'
+import { TagWithNoteCount } from './types'
+import { markNotesChanged } from './notesRevision'
+import { queueNoteJobs } from '../lib/jobQueue'
+
+// Colors a tag can be given in the tag manager
+export const TAG_COLORS = ['#10B981', '#3B82F6', '#8B5CF6', '#EC4899', '#EF4444', '#F59E0B', '#14B8A6', '#6B7280']
+
+/* Trim a tag name and collapse inner whitespace */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ')
+}
+
+/* Get or create a tag by name, matching existing tags case-insensitively. Returns the tag ID */
+export async function getOrCreateTag(db: Pick<DB, 'execute'>, name: string): Promise<number> {
+  const normalized = normalizeTagName(name)
+  const result = await db.execute('SELECT id FROM tags WHERE name = ? COLLATE NOCASE', [normalized])
+  const existingTag = result.rows?.[0] as { id: number } | undefined
+  if (existingTag) {
+    return existingTag.id
+  }
+  const insertResult = await db.execute('INSERT INTO tags (name) VALUES (?)', [normalized])
+  return insertResult.insertId!
+}
+
+/* Delete those of the given tags that no note uses anymore. Tags never used are left for the user to manage */
+export async function pruneOrphanedTags(db: Pick<DB, 'execute'>, tagIds: number[]): Promise<void> {
+  if (tagIds.length === 0) {
+    return
+  }
+  await db.execute(
+    `DELETE FROM tags
+     WHERE id IN (${tagIds.map(() => '?').join(', ')})
+       AND NOT EXISTS (SELECT 1 FROM note_tags WHERE note_tags.tagId = tags.id)`,
+    tagIds
+  )
+}
+
+/* IDs of the notes using a tag */
+async function getNoteIdsForTag(db: DB, tagId: number): Promise<number[]> {
+  const result = await db.execute('SELECT noteId FROM note_tags WHERE tagId = ?', [tagId])
+  return ((result.rows || []) as unknown as Array<{ noteId: number }>).map((row) => row.noteId)
+}
+
+/* Re-embed notes whose tag names changed, since tags are part of the embedded text */
+function reembedNotes(noteIds: number[]): void {
+  markNotesChanged()
+  for (const noteId of noteIds) {
+    void queueNoteJobs(noteId, ['embedNote'], { edited: true })
+  }
+}
+
+/* Reject a name that is empty or already used by another tag */
+async function assertTagNameAvailable(db: DB, name: string, exceptId: number | null): Promise<void> {
+  if (!name) {
+    throw new Error('Tag name cannot be empty')
+  }
+  const result = await db.execute('SELECT id FROM tags WHERE name = ? COLLATE NOCASE AND id IS NOT ?', [name, exceptId])
+  if (result.rows?.[0]) {
+    throw new Error(`A tag named "${name}" already exists`)
+  }
+}
+
+/* Create a tag. Returns the tag ID */
+export async function createTag(name: string, color: string | null): Promise<number> {
+  const db = getDatabaseInstance()
+  try {
+    const normalized = normalizeTagName(name)
+    await assertTagNameAvailable(db, normalized, null)
+    const result = await db.execute('INSERT INTO tags (name, color) VALUES (?, ?)', [normalized, color])
+    return result.insertId!
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Rename a tag. Notes using it are re-embedded; to combine with an existing tag use mergeTags */
+export async function renameTag(id: number, name: string): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    const normalized = normalizeTagName(name)
+    await assertTagNameAvailable(db, normalized, id)
+    await db.execute('UPDATE tags SET name = ? WHERE id = ?', [normalized, id])
+    reembedNotes(await getNoteIdsForTag(db, id))
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Change a tag's color, or reset it with null */
+export async function setTagColor(id: number, color: string | null): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    await db.execute('UPDATE tags SET color = ? WHERE id = ?', [color, id])
+    markNotesChanged()
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Move every note from the source tag to the target tag, then delete the source */
+export async function mergeTags(sourceId: number, targetId: number): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    if (sourceId === targetId) {
+      return
+    }
+    const affected = await getNoteIdsForTag(db, sourceId)
+    await db.transaction(async (tx) => {
+      await tx.execute(
+        'INSERT OR IGNORE INTO note_tags (noteId, tagId) SELECT noteId, ? FROM note_tags WHERE tagId = ?',
+        [targetId, sourceId]
+      )
+      await tx.execute('DELETE FROM tags WHERE id = ?', [sourceId])
+    })
+    reembedNotes(affected)
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Delete a tag. Notes stay, they just lose the tag */
+export async function deleteTag(id: number): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    const affected = await getNoteIdsForTag(db, id)
+    await db.execute('DELETE FROM tags WHERE id = ?', [id])
+    reembedNotes(affected)
+  } catch (error) {
+    throw error
+  }
+}
+
+/* Get every tag, alphabetically, with how many notes use it */
+export async function getAllTags(): Promise<TagWithNoteCount[]> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      `SELECT t.id, t.name, t.color, COUNT(n.id) AS noteCount
+       FROM tags t
+       LEFT JOIN note_tags nt ON nt.tagId = t.id
+       LEFT JOIN notes n ON n.id = nt.noteId AND n.deletedAt IS NULL
+       GROUP BY t.id
+       ORDER BY t.name COLLATE NOCASE`
+    )
+    return (result.rows || []) as unknown as TagWithNoteCount[]
+  } catch (error) {
+    throw error
+  }
+}
@@ -0,0 +1,54 @@
+/* Helper database related functions for voice note Transcripts */
+
+import { getDatabaseInstance } from './index'
+import { Transcript, TranscriptSegment, TranscriptStatus } from './types'
+
+type TranscriptRow = Omit<Transcript, 'segments'> & { segments: string }
+
+/* Get the transcript of a note's voice recording, if one has been made */
+export async function getTranscript(noteId: number): Promise<Transcript | null> {
+  const db = getDatabaseInstance()
+  try {
+    const result = await db.execute(
+      'SELECT noteId, audioUri, status, text, segments, language, createdAt FROM transcripts WHERE noteId = ?',
+      [noteId]
+    )
+    const row = result.rows?.[0] as unknown as TranscriptRow | undefined
+    if (!row) {
+      return null
+    }
+    return { ...row, segments: JSON.parse(row.segments) as TranscriptSegment[] }
+  } catch (error) {
+    throw error
+  }
+}
+
+/**
+ * Store the outcome of transcribing a note's recording, replacing any earlier transcript.
+ * @param noteId - Note the recording belongs to
+ * @param audioUri - The recording that was transcribed
+ * @param status - 'completed', or why there is no text
+ * @param segments - Timestamped speech, empty unless completed
+ * @param language - Detected spoken language, e.g. "en"
+ */
+export async function saveTranscript(
+  noteId: number,
+  audioUri: string,
+  status: TranscriptStatus,
+  segments: TranscriptSegment[] = [],
+  language: string | null = null
+): Promise<void> {
+  const db = getDatabaseInstance()
+  try {
+    const text = segments.map((segment) => segment.text).join(' ')
+    await db.execute(
+      `INSERT INTO transcripts (noteId, audioUri, status, text, segments, language, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (noteId) DO UPDATE SET
+         audioUri = excluded.audioUri, status = excluded.status, text = excluded.text,
+         segments = excluded.segments, language = excluded.language, createdAt = excluded.createdAt`,
+      [noteId, audioUri, status, text, JSON.stringify(segments), language, Date.now()]
+    )
+  } catch (error) {
+    throw error
+  }
+}
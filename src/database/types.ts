@@ -1,5 +1,7 @@
 // Database model interfaces
 
+import { type EventDate } from '../lib/eventDate'
+
 export interface Note {
   id: number
   title: string
@@ -7,6 +9,12 @@ export interface Note {
   audioUri: string | null
   recallScript: string | null
   lastShownInReminisce: number | null
+  eventDateLabel: string | null // "When it happened", in the user's words
+  eventDatePrecision: string | null
+  eventDateStart: number | null
+  eventDateEnd: number | null
+  placeId: number | null
+  deletedAt: number | null // Set while the note is in the trash
   createdAt: number
   updatedAt: number
 }
@@ -14,6 +22,7 @@ export interface Note {
 export interface Tag {
   id: number
   name: string
+  color: string | null // Hex color from TAG_COLORS, null for the default style
 }
 
 export interface Image {
@@ -21,12 +30,134 @@ export interface Image {
   noteId: number
   uri: string
   description: string
+  aiDescription: string | null // Written by the vision model, kept apart from the user's description
+}
+
+export interface Person {
+  id: number
+  name: string
+  relationship: string | null // Relationship to the user, e.g. "daughter", "neighbour"
+  portraitUri: string | null
+  createdAt: number
+  updatedAt: number
+}
+
+export interface Place {
+  id: number
+  name: string
+  type: string | null // Kind of place, e.g. "home", "church", "holiday spot"
+  address: string | null
+  latitude: number | null // Entered manually, no location services involved
+  longitude: number | null
+  createdAt: number
+  updatedAt: number
 }
 
 // Extended note with all related data (for UI display)
 export interface NoteWithDetails extends Note {
   tags: Tag[]
   images: Image[]
+  people: Person[]
+  place: Place | null
+  transcript: string | null // What was said in the voice note, once transcribed
+}
+
+// 'unsupported': the recording's format can't be read by the speech model (only WAV can)
+export type TranscriptStatus = 'completed' | 'failed' | 'unsupported'
+
+// Stretch of speech in a voice note, in ms from the start of the recording
+export interface TranscriptSegment {
+  start: number
+  end: number
+  text: string
+}
+
+export interface Transcript {
+  noteId: number
+  audioUri: string // Recording this transcript belongs to; a new recording needs a new transcript
+  status: TranscriptStatus
+  text: string
+  segments: TranscriptSegment[]
+  language: string | null
+  createdAt: number
+}
+
+// Background work on a note: computing its embeddings, or writing its recall script
+export type JobType = 'embedNote' | 'recallScript'
+
+// Finished jobs are deleted; 'failed' ones used up their attempts and wait for the next launch
+export type JobStatus = 'pending' | 'running' | 'failed'
+
+export interface Job {
+  id: number
+  type: JobType
+  noteId: number
+  priority: number // Higher runs first
+  status: JobStatus
+  attempts: number
+  runAfter: number // Not picked up before this time (ms since epoch); pushed back after each failure
+  lastError: string | null
+  createdAt: number
+  updatedAt: number
+}
+
+// Earlier version of a note, captured each time the note is edited
+export interface NoteRevision {
+  id: number
+  noteId: number
+  title: string
+  content: string
+  audioUri: string | null
+  eventDateLabel: string | null
+  eventDatePrecision: string | null
+  eventDateStart: number | null
+  eventDateEnd: number | null
+  placeId: number | null // May point at a place deleted since
+  tags: string[]
+  images: Array<{ uri: string; description: string }>
+  personIds: number[] // May include people deleted since
+  savedAt: number // When this version was written
+  replacedAt: number // When it was overwritten by the next edit
+}
+
+// Full-text search hit: snippets carry HIGHLIGHT_START/END markers around matched words
+export interface NoteSearchResult extends NoteWithDetails {
+  titleHighlight: string
+  snippet: string
+  rank: number // bm25 score, lower is better
+}
+
+// Paginated listing. Notes are ordered by timeline position (event date, else createdAt), newest first
+export interface NoteCursor {
+  timelineAt: number // COALESCE(eventDateStart, createdAt) of the last note on the previous page
+  id: number // Tie-breaker for notes sharing the same timeline position
+}
+
+export interface NoteFilters {
+  tag?: string
+  personId?: number
+  placeId?: number
+  from?: number // Inclusive timeline range (ms since epoch)
+  to?: number
+}
+
+// Narrows an embedding similarity search; trashed notes are always left out
+export interface RetrievalFilter {
+  excludeNoteIds?: number[]
+  tagIds?: number[] // Notes with any of these tags
+  from?: number // Inclusive timeline range (ms since epoch)
+  to?: number
+}
+
+export interface ListNotesOptions {
+  after?: NoteCursor | null
+  limit?: number
+  filters?: NoteFilters
+}
+
+export interface NotesPage {
+  notes: NoteWithDetails[]
+  nextCursor: NoteCursor | null // null when there are no more notes
 }
 
 // Input types for CRUD operations
@@ -37,6 +168,9 @@ export interface CreateNoteInput {
   tags: string[] // Array of tag names
   images: Array<{ uri: string; description: string }> // Array of images with optional descriptions
   audioUri: string | null
+  eventDate: EventDate | null
+  personIds: number[]
+  placeId: number | null
 }
 
 export interface UpdateNoteInput {
@@ -46,4 +180,80 @@ export interface UpdateNoteInput {
   tags: string[]
   images: Array<{ uri: string; description: string }> // Array of images with optional descriptions
   audioUri: string | null
+  eventDate: EventDate | null
+  personIds: number[]
+  placeId: number | null
+}
+
+export interface PersonInput {
+  name: string
+  relationship: string | null
+  portraitUri: string | null
+}
+
+// Person with the number of notes they appear in (for lists)
+export interface PersonWithNoteCount extends Person {
+  noteCount: number
+}
+
+export interface PlaceInput {
+  name: string
+  type: string | null
+  address: string | null
+  latitude: number | null
+  longitude: number | null
+}
+
+// Place with the number of notes that happened there (for lists)
+export interface PlaceWithNoteCount extends Place {
+  noteCount: number
+}
+
+// Tag with the number of notes using it (for the tag manager and suggestions)
+export interface TagWithNoteCount extends Tag {
+  noteCount: number
+}
+
+// Curated, ordered set of notes, e.g. "Our 50th anniversary"
+export interface Collection {
+  id: number
+  name: string
+  description: string | null
+  coverUri: string | null
+  createdAt: number
+  updatedAt: number
+}
+
+export interface CollectionInput {
+  name: string
+  description: string | null
+  coverUri: string | null
+}
+
+// Collection with its size and a photo to show when it has no cover of its own
+export interface CollectionWithNoteCount extends Collection {
+  noteCount: number
+  fallbackCoverUri: string | null // First photo of the first note that has one
+}
+
+// A note linked to the one being viewed. Outgoing links were made from that note, incoming ones (backlinks) point at it
+export interface LinkedNote {
+  linkId: number
+  noteId: number
+  title: string
+  eventDateLabel: string | null
+  relation: string | null // e.g. "the day after", "second trip"
+  direction: 'outgoing' | 'incoming'
+}
+
+export type BackupFrequency = 'off' | 'daily' | 'weekly'
+
+// Where embedding similarity search runs: the in-memory index, or sqlite-vec tables inside the database
+export type RetrievalBackendName = 'memory' | 'sqliteVec'
+
+// User preferences stored in the settings table
+export interface AppSettings {
+  backupFrequency: BackupFrequency
+  backupRetention: number
+  retrievalBackend: RetrievalBackendName
 }
@@ -0,0 +1,46 @@
+import { Directory } from 'expo-file-system'
+import { initializeDatabase, closeDatabase } from '../../database'
+import { createBackup, listBackups, pruneBackups, runScheduledBackup } from '../backups'
+import { autoBackupDir, listBackupDirs } from '../backupManifest'
+import { snapshotDatabase } from '../../database/snapshot'
+
+// Background jobs and model downloads are out of scope here
+jest.mock('expo-file-system/legacy', () => ({}))
+jest.mock('../jobQueue', () => ({ queueNoteJobs: jest.fn() }))
+jest.mock('../../database/snapshot', () => {
+  const actual = jest.requireActual('../../database/snapshot')
+  return { ...actual, snapshotDatabase: jest.fn(actual.snapshotDatabase) }
+})
+
+describe('backups', () => {
+  beforeEach(async () => {
+    await initializeDatabase('test-key')
+    jest.clearAllMocks()
+  })
+
+  afterEach(async () => {
+    await closeDatabase()
+    if (autoBackupDir.exists) autoBackupDir.delete()
+  })
+
+  it('takes one scheduled backup when runs overlap', async () => {
+    await Promise.all([runScheduledBackup(), runScheduledBackup()])
+    await runScheduledBackup()
+
+    expect(snapshotDatabase).toHaveBeenCalledTimes(1)
+    expect(listBackups().map((backup) => backup.reason)).toEqual(['scheduled'])
+  })
+
+  it('keeps backups that are still being written when pruning', async () => {
+    const running = createBackup('manual')
+    pruneBackups(0)
+    await running
+
+    expect(listBackups()).toHaveLength(1)
+
+    // An interrupted backup from an earlier session has no manifest and is not being written
+    new Directory(autoBackupDir, '1').create()
+    pruneBackups(1)
+    expect(listBackupDirs()).toHaveLength(1)
+  })
+})
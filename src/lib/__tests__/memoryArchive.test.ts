@@ -0,0 +1,204 @@
+import { File, Directory, Paths } from 'expo-file-system'
+import { initializeDatabase, closeDatabase, getDatabaseInstance } from '../../database'
+import { createNote, getAllNotes, getNoteById } from '../../database/notesOperations'
+import { createCollection, addNotesToCollection } from '../../database/collectionsOperations'
+import { linkNotes } from '../../database/noteLinksOperations'
+import { saveTranscript } from '../../database/transcriptsOperations'
+import { exportArchive, readArchive, importArchive } from '../memoryArchive'
+import { ARCHIVE_VERSION } from '../archiveSchema'
+
+// Background jobs and the encrypted vault are out of scope here; imported media is copied into a plain folder
+jest.mock('../jobQueue', () => ({ queueNoteJobs: jest.fn() }))
+jest.mock('../mediaStore', () => ({
+  importMedia: (uri: string) => {
+    const { File, Directory, Paths } = require('expo-file-system')
+    const media = new Directory(Paths.document, 'media')
+    media.create({ idempotent: true })
+    const source = new File(uri)
+    if (source.parentDirectory.uri === media.uri) return uri
+    source.copy(media)
+    return new File(media, source.name).uri
+  },
+  releaseMedia: jest.fn(),
+  displayUri: (uri: string) => uri,
+}))
+jest.mock('../createNoteEmbeddings', () => ({
+  embeddingToBlob: (embedding: number[]) => new Uint8Array(new Float32Array(embedding).buffer),
+}))
+
+/* A media file with the given content */
+function mediaFile(name: string, content: string): string {
+  const file = new File(Paths.document, name)
+  file.write(content, {})
+  return file.uri
+}
+
+/* Two linked notes in a collection, with a photo described by the vision model and a transcribed recording */
+async function createMemories(): Promise<void> {
+  const wedding = await createNote({
+    title: 'Our wedding',
+    content: 'Rain all morning, sunshine for the photos.',
+    tags: ['Family'],
+    images: [{ uri: mediaFile('church.jpg', 'jpeg-church'), description: 'Outside the church' }],
+    audioUri: mediaFile('wedding.wav', 'RIFF-wedding'),
+    eventDate: null,
+    personIds: [],
+    placeId: null,
+  })
+  const honeymoon = await createNote({
+    title: 'Honeymoon in Lisbon',
+    content: 'Custard tarts every day.',
+    tags: [],
+    images: [],
+    audioUri: null,
+    eventDate: null,
+    personIds: [],
+    placeId: null,
+  })
+
+  const db = getDatabaseInstance()
+  await db.execute("UPDATE images SET aiDescription = 'A stone church with a bride and groom on the steps'")
+  await saveTranscript(wedding, (await getNoteById(wedding))!.audioUri!, 'completed', [
+    { start: 0, end: 1500, text: 'We said yes' },
+    { start: 1500, end: 3000, text: 'in the rain.' },
+  ], 'en')
+  await linkNotes(wedding, honeymoon, 'the week after')
+  const collection = await createCollection({ name: '1985', description: 'Our year', coverUri: mediaFile('cover.jpg', 'jpeg-cover') })
+  await addNotesToCollection(collection, [honeymoon, wedding])
+}
+
+const exports = new Directory(Paths.cache, 'exports')
+
+/* Export everything, then start over with an empty database; returns the archive folder */
+async function exportAndReset(): Promise<Directory> {
+  exports.create({ idempotent: true })
+  const { folder } = await exportArchive(exports, { includeEmbeddings: false })
+  const db = getDatabaseInstance()
+  await closeDatabase()
+  db.delete()
+  await initializeDatabase('test-key')
+  return folder
+}
+
+/* Rewrite an archive folder as a single-file archive from before version 3, with media embedded as base64 */
+function singleFileArchive(folder: Directory, change: (archive: any) => void): Directory {
+  const archive = JSON.parse(new File(folder, 'archive.json').textSync())
+  for (const media of archive.media) {
+    media.data = new File(folder, 'media', media.id).base64Sync()
+  }
+  change(archive)
+  const old = new Directory(exports, 'old')
+  old.create()
+  new File(old, 'memoriq-archive-1985-01-01-1.json').write(JSON.stringify(archive), {})
+  return old
+}
+
+async function rows(query: string) {
+  return (await getDatabaseInstance().execute(query)).rows
+}
+
+describe('memory archive', () => {
+  beforeEach(async () => {
+    await initializeDatabase('test-key')
+  })
+
+  afterEach(async () => {
+    await closeDatabase()
+    if (exports.exists) exports.delete()
+  })
+
+  it('round-trips collections, note links, AI image descriptions and transcripts', async () => {
+    await createMemories()
+    const folder = await exportAndReset()
+
+    const archive = await readArchive(folder)
+    expect(archive.version).toBe(ARCHIVE_VERSION)
+    const report = await importArchive(archive, folder)
+
+    expect(report.notesImported).toBe(2)
+    const notes = await getAllNotes()
+    const wedding = notes.find((note) => note.title === 'Our wedding')!
+    const honeymoon = notes.find((note) => note.title === 'Honeymoon in Lisbon')!
+
+    expect(wedding.images.map((image) => image.aiDescription)).toEqual(['A stone church with a bride and groom on the steps'])
+    expect(new File(wedding.images[0].uri).textSync()).toBe('jpeg-church')
+
+    const transcripts = await rows('SELECT noteId, audioUri, status, text, segments, language FROM transcripts')
+    expect(transcripts).toEqual([{
+      noteId: wedding.id,
+      audioUri: wedding.audioUri,
+      status: 'completed',
+      text: 'We said yes in the rain.',
+      segments: JSON.stringify([{ start: 0, end: 1500, text: 'We said yes' }, { start: 1500, end: 3000, text: 'in the rain.' }]),
+      language: 'en',
+    }])
+    // The imported transcript is searchable
+    expect(await rows("SELECT rowid FROM notes_fts WHERE notes_fts MATCH 'transcript:rain'")).toEqual([{ rowid: wedding.id }])
+
+    expect(await rows('SELECT sourceNoteId, targetNoteId, relation FROM note_links')).toEqual([
+      { sourceNoteId: wedding.id, targetNoteId: honeymoon.id, relation: 'the week after' },
+    ])
+
+    const collections = await rows('SELECT id, name, description, coverUri FROM collections')
+    expect(collections).toEqual([expect.objectContaining({ name: '1985', description: 'Our year' })])
+    expect(new File(collections[0].coverUri as string).textSync()).toBe('jpeg-cover')
+    expect(await rows('SELECT noteId FROM collection_notes ORDER BY position')).toEqual([{ noteId: honeymoon.id }, { noteId: wedding.id }])
+    expect(report.mappings).toContainEqual(expect.objectContaining({ kind: 'collection', label: '1985', status: 'created' }))
+  })
+
+  it('does not duplicate links or collection entries when imported twice', async () => {
+    await createMemories()
+    const folder = await exportAndReset()
+
+    await importArchive(await readArchive(folder), folder)
+    const report = await importArchive(await readArchive(folder), folder)
+
+    expect(report.notesImported).toBe(0)
+    expect(report.mappings).toContainEqual(expect.objectContaining({ kind: 'collection', label: '1985', status: 'matched' }))
+    expect(await rows('SELECT COUNT(*) AS count FROM note_links')).toEqual([{ count: 1 }])
+    expect(await rows('SELECT COUNT(*) AS count FROM collections')).toEqual([{ count: 1 }])
+    expect(await rows('SELECT COUNT(*) AS count FROM collection_notes')).toEqual([{ count: 2 }])
+  })
+
+  it('still imports version 1 archives', async () => {
+    await createMemories()
+    const folder = singleFileArchive(await exportAndReset(), (archive) => {
+      // Version 1 had none of the later additions
+      archive.version = 1
+      delete archive.links
+      delete archive.collections
+      for (const note of archive.notes) {
+        delete note.transcript
+        for (const image of note.images) delete image.aiDescription
+      }
+    })
+
+    const report = await importArchive(await readArchive(folder), folder)
+
+    expect(report.notesImported).toBe(2)
+    const [wedding] = (await getAllNotes()).filter((note) => note.title === 'Our wedding')
+    expect(new File(wedding.images[0].uri).textSync()).toBe('jpeg-church')
+    expect(await rows('SELECT aiDescription FROM images')).toEqual([{ aiDescription: null }])
+    expect(await rows('SELECT COUNT(*) AS count FROM transcripts')).toEqual([{ count: 0 }])
+  })
+
+  it('rejects archives from a newer version of the app', async () => {
+    const folder = await exportAndReset()
+    const file = new File(folder, 'archive.json')
+    file.write(JSON.stringify({ ...JSON.parse(file.textSync()), version: ARCHIVE_VERSION + 1 }), {})
+
+    await expect(readArchive(folder)).rejects.toThrow(/different version of the app/)
+  })
+
+  it('writes photos and recordings next to the archive instead of into it', async () => {
+    await createMemories()
+    const folder = await exportAndReset()
+
+    const archiveText = new File(folder, 'archive.json').textSync()
+    expect(archiveText).not.toContain(Buffer.from('jpeg-church').toString('base64'))
+    const media = new Directory(folder, 'media').list().map((file) => (file as File).textSync())
+    expect(media.sort()).toEqual(['RIFF-wedding', 'jpeg-church', 'jpeg-cover'])
+
+    await expect(readArchive(exports)).rejects.toThrow(/not a memory archive/)
+  })
+})
@@ -0,0 +1,65 @@
+import { initializeDatabase, closeDatabase, getDatabaseInstance } from '../../database'
+import { embedNote } from '../createNoteEmbeddings'
+import { reindexStaleEmbeddings, type ReindexProgress } from '../reindexEmbeddings'
+import { EMBEDDING_MODEL } from '../../model/modelStorage'
+import ModelManager from '../../model/ModelManager'
+
+// The models are out of scope here; the job queue runs a stand-in for the embedding pipeline
+jest.mock('expo-file-system/legacy', () => ({}))
+jest.mock('../../model/ModelManager', () => ({
+  __esModule: true,
+  default: { isEmbeddingReady: jest.fn(() => true), isRecallReady: () => false, isSpeechReady: () => false },
+}))
+jest.mock('../recallScriptGenerator', () => ({ generateRecallScript: jest.fn() }))
+jest.mock('../createNoteEmbeddings', () => ({ embedNote: jest.fn() }))
+
+/* A note whose embedding came from the given model */
+async function insertEmbeddedNote(modelId: string, modelVersion: number): Promise<number> {
+  const db = getDatabaseInstance()
+  const { insertId: noteId } = await db.execute("INSERT INTO notes (title, content, createdAt, updatedAt) VALUES ('Note', 'Text', 0, 0)")
+  await db.execute(
+    "INSERT INTO note_embeddings (noteId, embedding, embeddingDimensions, textHash, status, createdAt, embeddingModelId, embeddingModelVersion) VALUES (?, zeroblob(16), 4, 'hash', 'completed', 0, ?, ?)",
+    [noteId!, modelId, modelVersion]
+  )
+  return noteId!
+}
+
+describe('reindexStaleEmbeddings', () => {
+  beforeEach(async () => {
+    await initializeDatabase('test-key')
+    jest.clearAllMocks()
+    jest.mocked(ModelManager.isEmbeddingReady).mockReturnValue(true)
+  })
+
+  afterEach(async () => {
+    await closeDatabase()
+  })
+
+  it('re-embeds notes of older models through the job queue', async () => {
+    const stale = await insertEmbeddedNote(EMBEDDING_MODEL.id, EMBEDDING_MODEL.version - 1)
+    await insertEmbeddedNote(EMBEDDING_MODEL.id, EMBEDDING_MODEL.version)
+    const progress: ReindexProgress[] = []
+
+    const result = await reindexStaleEmbeddings((update) => progress.push(update))
+
+    expect(result).toEqual({ done: 1, undone: 0 })
+    expect(embedNote).toHaveBeenCalledTimes(1)
+    expect(embedNote).toHaveBeenCalledWith(stale)
+    expect(progress[progress.length - 1]).toEqual({ done: 1, total: 1 })
+    const jobs = await getDatabaseInstance().execute('SELECT id FROM jobs')
+    expect(jobs.rows).toEqual([])
+  })
+
+  it('stops waiting when the embedding model is unloaded, leaving the notes queued', async () => {
+    const stale = await insertEmbeddedNote(EMBEDDING_MODEL.id, EMBEDDING_MODEL.version - 1)
+    // Loaded when the run starts, gone before the worker gets to the note
+    jest.mocked(ModelManager.isEmbeddingReady).mockReturnValueOnce(true).mockReturnValue(false)
+
+    const result = await reindexStaleEmbeddings()
+
+    expect(result).toEqual({ done: 0, undone: 1 })
+    expect(embedNote).not.toHaveBeenCalled()
+    const jobs = await getDatabaseInstance().execute("SELECT noteId FROM jobs WHERE status = 'pending'")
+    expect(jobs.rows).toEqual([{ noteId: stale }])
+  })
+})
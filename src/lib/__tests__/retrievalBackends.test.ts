@@ -0,0 +1,169 @@
+import { initializeDatabase, closeDatabase, getDatabaseInstance } from '../../database'
+import { type RetrievalFilter } from '../../database/types'
+import { EMBEDDING_MODEL } from '../../model/modelStorage'
+import { memoryRetrievalBackend } from '../noteVectorIndex'
+import { sqliteVecRetrievalBackend } from '../sqliteVecBackend'
+import { type SimilarNote } from '../retrievalBackend'
+import { embeddingToBlob } from '../createNoteEmbeddings'
+
+// Model downloads are out of scope here
+jest.mock('expo-file-system/legacy', () => ({}))
+jest.mock('../createNoteEmbeddings', () => ({
+  embeddingToBlob: (embedding: number[]) => new Uint8Array(new Float32Array(embedding).buffer),
+}))
+
+const DIMENSIONS = 8
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/* Deterministic pseudo-random numbers (mulberry32), so every run compares the same vectors */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const next = random(42)
+const randomVector = () => Array.from({ length: DIMENSIONS }, () => next() * 2 - 1)
+
+/* Insert a note with the given embeddings of each kind; returns its ID */
+async function insertNote(
+  vectors: { note?: number[]; chunks?: number[][]; images?: number[][] },
+  options: { deleted?: boolean; eventDate?: number; tagId?: number } = {}
+): Promise<number> {
+  const db = getDatabaseInstance()
+  const model = [EMBEDDING_MODEL.id, EMBEDDING_MODEL.version]
+  const { insertId: noteId } = await db.execute(
+    'INSERT INTO notes (title, content, eventDateStart, deletedAt, createdAt, updatedAt) VALUES (?, ?, ?, ?, 0, 0)',
+    ['Note', 'Text', options.eventDate ?? null, options.deleted ? 1 : null]
+  )
+  if (options.tagId) {
+    await db.execute('INSERT INTO note_tags (noteId, tagId) VALUES (?, ?)', [noteId!, options.tagId])
+  }
+  if (vectors.note) {
+    await db.execute(
+      "INSERT INTO note_embeddings (noteId, embedding, embeddingDimensions, textHash, status, createdAt, embeddingModelId, embeddingModelVersion) VALUES (?, ?, ?, 'hash', 'completed', 0, ?, ?)",
+      [noteId!, embeddingToBlob(vectors.note), DIMENSIONS, ...model]
+    )
+  }
+  for (const [chunkIndex, chunk] of (vectors.chunks ?? []).entries()) {
+    await db.execute(
+      "INSERT INTO note_chunks (noteId, chunkIndex, text, embedding, embeddingDimensions, textHash, status, createdAt, embeddingModelId, embeddingModelVersion) VALUES (?, ?, ?, ?, ?, 'hash', 'completed', 0, ?, ?)",
+      [noteId!, chunkIndex, `Passage ${chunkIndex} of note ${noteId}`, embeddingToBlob(chunk), DIMENSIONS, ...model]
+    )
+  }
+  for (const image of vectors.images ?? []) {
+    const { insertId: imageId } = await db.execute("INSERT INTO images (noteId, uri, description) VALUES (?, 'file:///photo.jpg', 'A photo')", [noteId!])
+    await db.execute(
+      "INSERT INTO image_embeddings (imageId, description, embedding, embeddingDimensions, descriptionHash, status, createdAt, embeddingModelId, embeddingModelVersion) VALUES (?, 'A photo', ?, ?, 'hash', 'completed', 0, ?, ?)",
+      [imageId!, embeddingToBlob(image), DIMENSIONS, ...model]
+    )
+  }
+  return noteId!
+}
+
+/* Both backends' results for one search */
+async function searchBoth(query: number[], threshold: number, filter?: RetrievalFilter): Promise<[SimilarNote[], SimilarNote[]]> {
+  const embedding = Float32Array.from(query)
+  return [
+    await memoryRetrievalBackend.findSimilarNotes(embedding, threshold, filter),
+    await sqliteVecRetrievalBackend.findSimilarNotes(embedding, threshold, filter),
+  ]
+}
+
+/* Same notes with the same scores, match types and passages; float32 storage shifts scores slightly */
+function expectSameResults(actual: SimilarNote[], expected: SimilarNote[]): void {
+  const byNote = (results: SimilarNote[]) => new Map(results.map((result) => [result.noteId, result]))
+  expect(Array.from(byNote(actual).keys()).sort()).toEqual(Array.from(byNote(expected).keys()).sort())
+  const actualByNote = byNote(actual)
+  for (const match of expected) {
+    const other = actualByNote.get(match.noteId)!
+    expect(Math.abs(other.score - match.score)).toBeLessThan(1e-3)
+    expect(other.matchType).toBe(match.matchType)
+    expect(other.chunk).toBe(match.chunk)
+  }
+  const scores = actual.map((result) => result.score)
+  expect(scores).toEqual([...scores].sort((a, b) => b - a))
+}
+
+describe('retrieval backends', () => {
+  beforeEach(async () => {
+    await initializeDatabase('test-key')
+  })
+
+  afterEach(async () => {
+    await memoryRetrievalBackend.release()
+    await sqliteVecRetrievalBackend.release()
+    await closeDatabase()
+  })
+
+  it('return the same matches for the same searches', async () => {
+    const db = getDatabaseInstance()
+    const { insertId: tagId } = await db.execute("INSERT INTO tags (name) VALUES ('Seaside')")
+    for (let i = 0; i < 60; i++) {
+      await insertNote(
+        {
+          note: randomVector(),
+          chunks: i % 3 === 0 ? [] : [randomVector(), randomVector()],
+          images: i % 4 === 0 ? [randomVector()] : [],
+        },
+        { deleted: i % 10 === 0, eventDate: i * DAY_MS, tagId: i % 2 === 0 ? tagId : undefined }
+      )
+    }
+
+    const filters: RetrievalFilter[] = [
+      {},
+      { excludeNoteIds: [2, 3, 5, 8, 13] },
+      { tagIds: [tagId!] },
+      { from: 10 * DAY_MS, to: 40 * DAY_MS },
+    ]
+    for (const threshold of [0.2, 0.5]) {
+      for (const filter of filters) {
+        for (let i = 0; i < 5; i++) {
+          const [expected, actual] = await searchBoth(randomVector(), threshold, filter)
+          expect(expected.length).toBeGreaterThan(0)
+          expectSameResults(actual, expected)
+        }
+      }
+    }
+  })
+
+  it('finds notes that pass the filters behind many closer ones that do not', async () => {
+    const query = [1, 0, 0, 0, 0, 0, 0, 0]
+    // More vectors than one KNN round fetches, all closer to the query than any note that may be returned
+    for (let i = 0; i < 250; i++) {
+      await insertNote({ note: [1, 0.01, 0, 0, 0, 0, 0, 0] }, { deleted: true })
+    }
+    const kept = await insertNote({ note: [1, 0.5, 0, 0, 0, 0, 0, 0] })
+
+    const [expected, actual] = await searchBoth(query, 0.5)
+
+    expect(actual.map((result) => result.noteId)).toEqual([kept])
+    expectSameResults(actual, expected)
+  })
+
+  it('returns every note above the threshold, however many match', async () => {
+    for (let i = 0; i < 300; i++) {
+      await insertNote({ note: [1, i / 1000, 0, 0, 0, 0, 0, 0], chunks: [[1, 0, i / 1000, 0, 0, 0, 0, 0]] })
+    }
+
+    const [expected, actual] = await searchBoth([1, 0, 0, 0, 0, 0, 0, 0], 0.5)
+
+    expect(actual).toHaveLength(300)
+    expectSameResults(actual, expected)
+  })
+
+  it('returns every match when more vectors pass the threshold than one KNN query can return', async () => {
+    // A whole-note and a chunk vector per note: 4200 vectors above the threshold, past sqlite-vec's limit of 4096 on k
+    for (let i = 0; i < 2100; i++) {
+      await insertNote({ note: [1, i / 10000, 0, 0, 0, 0, 0, 0], chunks: [[1, 0, i / 10000, 0, 0, 0, 0, 0]] }, { deleted: i % 100 === 0 })
+    }
+
+    const [expected, actual] = await searchBoth([1, 0, 0, 0, 0, 0, 0, 0], 0.5)
+
+    expect(actual).toHaveLength(2079)
+    expectSameResults(actual, expected)
+  })
+})
@@ -0,0 +1,44 @@
+import { File, Directory, Paths } from 'expo-file-system'
+import { getDatabaseInstance } from '../../database'
+import { openMediaVault, closeMediaVault, hasMedia } from '../mediaVault'
+import { openSession, closeSession } from '../session'
+
+// Background jobs and model downloads are out of scope here
+jest.mock('expo-file-system/legacy', () => ({}))
+jest.mock('../jobQueue', () => ({ pauseJobs: jest.fn(), resumeJobs: jest.fn() }))
+
+describe('session', () => {
+  afterEach(async () => {
+    await closeSession()
+  })
+
+  it('opens the database and media vault together', async () => {
+    await openSession('data-key')
+
+    expect(getDatabaseInstance()).toBeDefined()
+    expect(hasMedia('images/missing.jpg')).toBe(false)
+  })
+
+  it('leaves nothing open when the media vault does not open', async () => {
+    // A vault encrypted with another key
+    openMediaVault('other-key')
+    closeMediaVault()
+
+    await expect(openSession('data-key')).rejects.toThrow('file is not a database')
+
+    expect(() => getDatabaseInstance()).toThrow('Database not initialized')
+    expect(() => hasMedia('images/missing.jpg')).toThrow('Media vault not opened')
+  })
+
+  it('closes everything and wipes decrypted media when locking', async () => {
+    await openSession('data-key')
+    const decrypted = new File(new Directory(Paths.cache, 'media-session'), 'photo.jpg')
+    decrypted.create()
+
+    await closeSession()
+
+    expect(decrypted.exists).toBe(false)
+    expect(() => getDatabaseInstance()).toThrow('Database not initialized')
+    expect(() => hasMedia('images/missing.jpg')).toThrow('Media vault not opened')
+  })
+})
@@ -1,35 +1,64 @@
-import { createContext, useContext, useEffect, useMemo, useReducer } from 'react'
-import { initializeDatabase } from '../database'
+import { createContext, useCallback, useContext, useEffect, useMemo, useReducer } from 'react'
+import { AppState as AppStatus } from 'react-native'
+import { isEncryptionSetUp } from '../database/encryption'
 import ModelManager from '../model/ModelManager'
+import { runMediaMaintenance, clearMediaSession } from './mediaStore'
+import { openSession, closeSession } from './session'
+import { runScheduledBackup } from './backups'
+import { purgeExpiredTrash } from '../database/notesOperations'
+import { reindexStaleEmbeddings, type ReindexProgress } from './reindexEmbeddings'
+import { recoverJobs } from './jobQueue'
+
+export type LockState = 'checking' | 'setup' | 'locked' | 'unlocked'
+
+// How long the app may stay in the background (e.g. in the photo picker) before it locks again
+const LOCK_GRACE_MS = 60 * 1000
 
 interface AppState {
+  lockState: LockState
   dbReady: boolean
   modelsReady: boolean
   downloadProgress: number
+  reindexProgress: ReindexProgress | null // Set while notes are re-embedded for a new embedding model
   error: string | null
 }
 
+interface AppContextValue extends AppState {
+  unlock: (dataKey: string) => Promise<void> // Rejects, leaving the app locked, when the database or media vault can't be opened
+}
+
 type AppAction =
+  | { type: 'LOCKED'; setUp: boolean }
+  | { type: 'UNLOCKED' }
   | { type: 'DB_READY' }
   | { type: 'MODEL_PROGRESS'; progress: number }
   | { type: 'MODEL_READY' }
+  | { type: 'REINDEX_PROGRESS'; progress: ReindexProgress | null }
   | { type: 'ERROR'; message: string }
 
 const initialState: AppState = {
+  lockState: 'checking',
   dbReady: false,
   modelsReady: false,
   downloadProgress: 0,
+  reindexProgress: null,
   error: null,
 }
 
 function appReducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
+    case 'LOCKED':
+      return { ...state, lockState: action.setUp ? 'locked' : 'setup', dbReady: false }
+    case 'UNLOCKED':
+      return { ...state, lockState: 'unlocked' }
     case 'DB_READY':
       return { ...state, dbReady: true }
     case 'MODEL_PROGRESS':
       return { ...state, downloadProgress: action.progress }
     case 'MODEL_READY':
       return { ...state, modelsReady: true }
+    case 'REINDEX_PROGRESS':
+      return { ...state, reindexProgress: action.progress }
     case 'ERROR':
       return { ...state, error: action.message }
     default:
@@ -37,51 +66,105 @@ function appReducer(state: AppState, action: AppAction): AppState {
   }
 }
 
-const AppContext = createContext<AppState>(initialState)
+const AppContext = createContext<AppContextValue>({ ...initialState, unlock: async () => {} })
 
 export function AppProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(appReducer, initialState)
 
+  // Models don't touch user data, so they load while the lock screen is up
   useEffect(() => {
     let mounted = true
-    async function setup() {
-      try {
-        await initializeDatabase()
-        if (!mounted) return
-        dispatch({ type: 'DB_READY' })
+    clearMediaSession()
+    dispatch({ type: 'LOCKED', setUp: isEncryptionSetUp() })
 
+    async function loadModels() {
+      try {
         const success = await ModelManager.initialize((progress) => {
           if (!mounted) return
           dispatch({ type: 'MODEL_PROGRESS', progress })
         })
 
         if (!mounted) return
-        if (success) {
-          dispatch({ type: 'MODEL_READY' })
-        } else {
+        if (!success) {
           dispatch({ type: 'ERROR', message: 'Failed to initialize AI models' })
-          dispatch({ type: 'MODEL_READY' })
         }
       } catch (err) {
         if (!mounted) return
-        const msg = err instanceof Error ? err.message : 'Unknown error'
-        dispatch({ type: 'ERROR', message: msg })
-        // still mark as ready to avoid blocking
-        dispatch({ type: 'DB_READY' })
-        dispatch({ type: 'MODEL_READY' })
+        dispatch({ type: 'ERROR', message: err instanceof Error ? err.message : 'Unknown error' })
       }
+      // still mark as ready to avoid blocking
+      if (mounted) dispatch({ type: 'MODEL_READY' })
     }
-    setup()
+    loadModels()
     return () => {
       mounted = false
     }
   }, [])
 
-  const value = useMemo(() => state, [state])
+  /* Open the database and media vault with the data key from the keyring (see encryption.ts). The app only unlocks once both are open */
+  const unlock = useCallback(async (dataKey: string) => {
+    await openSession(dataKey)
+    dispatch({ type: 'UNLOCKED' })
+    dispatch({ type: 'DB_READY' })
+    void purgeExpiredTrash().then(runMediaMaintenance).then(runScheduledBackup)
+  }, [])
+
+  // Lock again once the app has been in the background for a while. Timers may not fire while in the background,
+  // so the time away is also checked on return. Locking closes the database and wipes decrypted media copies
+  useEffect(() => {
+    if (state.lockState !== 'unlocked') return
+    let backgroundedAt: number | null = null
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const lock = () => {
+      dispatch({ type: 'LOCKED', setUp: isEncryptionSetUp() })
+      void closeSession().catch(() => {
+        // Nothing left to read the data with; the next unlock opens everything again
+      })
+    }
+    const subscription = AppStatus.addEventListener('change', (status) => {
+      if (status === 'background' && backgroundedAt === null) {
+        backgroundedAt = Date.now()
+        timer = setTimeout(lock, LOCK_GRACE_MS)
+      } else if (status === 'active' && backgroundedAt !== null) {
+        clearTimeout(timer)
+        if (Date.now() - backgroundedAt >= LOCK_GRACE_MS) {
+          lock()
+        }
+        backgroundedAt = null
+      }
+    })
+    return () => {
+      subscription.remove()
+      clearTimeout(timer)
+    }
+  }, [state.lockState])
+
+  // Once everything is loaded: start the job queue, which also catches up on work missed while models weren't available, then re-index embeddings from an older embedding model on it
+  useEffect(() => {
+    if (!state.modelsReady || !state.dbReady || state.lockState !== 'unlocked') return
+    void recoverJobs()
+      .then(() => reindexStaleEmbeddings((progress) => dispatch({ type: 'REINDEX_PROGRESS', progress })))
+      .finally(() => dispatch({ type: 'REINDEX_PROGRESS', progress: null }))
+      .catch(() => {
+        // Silent fail; background task
+      })
+  }, [state.modelsReady, state.dbReady, state.lockState])
+
+  // The app can stay open for days; check the backup schedule whenever it comes back to the foreground
+  useEffect(() => {
+    if (!state.dbReady || state.lockState !== 'unlocked') return
+    const subscription = AppStatus.addEventListener('change', (status) => {
+      if (status === 'active') {
+        void runScheduledBackup()
+      }
+    })
+    return () => subscription.remove()
+  }, [state.dbReady, state.lockState])
+
+  const value = useMemo(() => ({ ...state, unlock }), [state, unlock])
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>
 }
 
-export function useApp(): AppState {
+export function useApp(): AppContextValue {
   return useContext(AppContext)
 }
-
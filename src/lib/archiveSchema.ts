@@ -0,0 +1,166 @@
+/* This module defines the on-disk format of memory archives (see memoryArchive.ts). Everything read from an archive is validated against these schemas before it touches the database */
+
+import { z } from 'zod'
+
+export const ARCHIVE_FORMAT = 'memoriq-archive'
+// Bump when the format changes; importers reject versions they do not know
+export const ARCHIVE_VERSION = 3
+// Versions this app can import. Version 1 archives predate collections, note links, AI image descriptions and transcripts;
+// versions 1 and 2 are a single file with media embedded as base64, version 3 a folder with media as separate files
+export const SUPPORTED_ARCHIVE_VERSIONS: readonly number[] = [1, 2, ARCHIVE_VERSION]
+
+const embeddingSchema = z.object({
+  vector: z.array(z.number()).min(1),
+  hash: z.string(), // textHash / descriptionHash at export time, lets the app skip recomputing it
+  // Embedding model that made the vector; missing in older archives, whose vectors get re-indexed on import
+  modelId: z.string().optional(),
+  modelVersion: z.number().int().optional(),
+})
+
+const mediaSchema = z.object({
+  id: z.string().min(1), // Referenced by notes and people; unique within the archive, and the file name in version 3
+  kind: z.enum(['image', 'audio']),
+  extension: z.string(),
+  data: z.string().optional(), // base64, before version 3
+})
+
+const tagSchema = z.object({
+  id: z.number().int(),
+  name: z.string().min(1),
+  color: z.string().nullable(),
+})
+
+const personSchema = z.object({
+  id: z.number().int(),
+  name: z.string().min(1),
+  relationship: z.string().nullable(),
+  portraitMediaId: z.string().nullable(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+})
+
+const placeSchema = z.object({
+  id: z.number().int(),
+  name: z.string().min(1),
+  type: z.string().nullable(),
+  address: z.string().nullable(),
+  latitude: z.number().min(-90).max(90).nullable(),
+  longitude: z.number().min(-180).max(180).nullable(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+})
+
+const imageSchema = z.object({
+  mediaId: z.string(),
+  description: z.string(),
+  aiDescription: z.string().nullable().default(null),
+  embedding: embeddingSchema.nullable(),
+})
+
+const transcriptSchema = z.object({
+  status: z.enum(['completed', 'failed', 'unsupported']),
+  segments: z.array(z.object({ start: z.number(), end: z.number(), text: z.string() })), // ms from the start of the recording
+  language: z.string().nullable(),
+  createdAt: z.number(),
+})
+
+const noteSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  content: z.string(),
+  audioMediaId: z.string().nullable(),
+  recallScript: z.string().nullable(),
+  lastShownInReminisce: z.number().nullable(),
+  eventDateLabel: z.string().nullable(),
+  eventDatePrecision: z.string().nullable(),
+  eventDateStart: z.number().nullable(),
+  eventDateEnd: z.number().nullable(),
+  placeId: z.number().int().nullable(),
+  tagIds: z.array(z.number().int()),
+  personIds: z.array(z.number().int()),
+  images: z.array(imageSchema),
+  transcript: transcriptSchema.nullable().default(null), // Of the note's recording (audioMediaId)
+  embedding: embeddingSchema.nullable(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+})
+
+const linkSchema = z.object({
+  sourceNoteId: z.number().int(),
+  targetNoteId: z.number().int(),
+  relation: z.string().nullable(),
+  createdAt: z.number(),
+})
+
+const collectionSchema = z.object({
+  id: z.number().int(),
+  name: z.string().min(1),
+  description: z.string().nullable(),
+  coverMediaId: z.string().nullable(),
+  noteIds: z.array(z.number().int()), // In collection order
+  createdAt: z.number(),
+  updatedAt: z.number(),
+})
+
+export const archiveSchema = z
+  .object({
+    format: z.literal(ARCHIVE_FORMAT),
+    version: z.number().int().refine((version) => SUPPORTED_ARCHIVE_VERSIONS.includes(version), 'Unsupported archive version'),
+    exportedAt: z.number(),
+    includesEmbeddings: z.boolean(),
+    media: z.array(mediaSchema),
+    tags: z.array(tagSchema),
+    people: z.array(personSchema),
+    places: z.array(placeSchema),
+    notes: z.array(noteSchema),
+    links: z.array(linkSchema).default([]),
+    collections: z.array(collectionSchema).default([]),
+  })
+  .superRefine((archive, ctx) => {
+    // Every cross-reference must resolve inside the archive
+    const mediaIds = new Set(archive.media.map((media) => media.id))
+    const tagIds = new Set(archive.tags.map((tag) => tag.id))
+    const personIds = new Set(archive.people.map((person) => person.id))
+    const placeIds = new Set(archive.places.map((place) => place.id))
+    const noteIds = new Set(archive.notes.map((note) => note.id))
+    const missing = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message })
+
+    if (archive.version < 3) {
+      for (const media of archive.media) {
+        if (media.data === undefined) missing(`Media ${media.id} has no data`)
+      }
+    }
+    for (const person of archive.people) {
+      if (person.portraitMediaId && !mediaIds.has(person.portraitMediaId)) missing(`Person ${person.id} references missing media`)
+    }
+    for (const note of archive.notes) {
+      if (note.audioMediaId && !mediaIds.has(note.audioMediaId)) missing(`Note ${note.id} references missing audio`)
+      if (note.placeId !== null && !placeIds.has(note.placeId)) missing(`Note ${note.id} references missing place ${note.placeId}`)
+      for (const tagId of note.tagIds) {
+        if (!tagIds.has(tagId)) missing(`Note ${note.id} references missing tag ${tagId}`)
+      }
+      for (const personId of note.personIds) {
+        if (!personIds.has(personId)) missing(`Note ${note.id} references missing person ${personId}`)
+      }
+      for (const image of note.images) {
+        if (!mediaIds.has(image.mediaId)) missing(`Note ${note.id} references missing image`)
+      }
+      if (note.transcript && !note.audioMediaId) missing(`Note ${note.id} has a transcript but no recording`)
+    }
+    for (const link of archive.links) {
+      if (!noteIds.has(link.sourceNoteId)) missing(`Link references missing note ${link.sourceNoteId}`)
+      if (!noteIds.has(link.targetNoteId)) missing(`Link references missing note ${link.targetNoteId}`)
+    }
+    for (const collection of archive.collections) {
+      if (collection.coverMediaId && !mediaIds.has(collection.coverMediaId)) missing(`Collection ${collection.id} references missing media`)
+      for (const noteId of collection.noteIds) {
+        if (!noteIds.has(noteId)) missing(`Collection ${collection.id} references missing note ${noteId}`)
+      }
+    }
+  })
+
+export type MemoryArchive = z.infer<typeof archiveSchema>
+export type ArchiveMedia = z.infer<typeof mediaSchema>
+export type ArchiveNote = z.infer<typeof noteSchema>
+export type ArchiveTranscript = z.infer<typeof transcriptSchema>
+export type ArchiveEmbedding = z.infer<typeof embeddingSchema>
@@ -0,0 +1,51 @@
+/* This module describes where automatic backups live and what their manifest.json contains. It is kept apart from backups.ts so the media store can protect files that backups still reference without importing the backup machinery */
+
+import { z } from 'zod'
+import { File, Directory, Paths } from 'expo-file-system'
+
+export const autoBackupDir = new Directory(Paths.document, 'backups', 'auto')
+export const BACKUP_DATABASE_NAME = 'memoriq.db'
+export const BACKUP_MANIFEST_NAME = 'manifest.json'
+
+const manifestSchema = z.object({
+  version: z.literal(1),
+  reason: z.enum(['scheduled', 'manual', 'before-restore']),
+  createdAt: z.number(),
+  schemaVersion: z.number().int(),
+  noteCount: z.number().int(),
+  databaseSize: z.number().int(),
+  databaseMd5: z.string(),
+  // Media URIs the snapshot references; the media store keeps these while the backup exists
+  media: z.array(z.string()),
+})
+
+export type BackupManifest = z.infer<typeof manifestSchema>
+
+/* Read a backup folder's manifest, or null when it is missing or unreadable (e.g. an interrupted backup) */
+export function readManifest(dir: Directory): BackupManifest | null {
+  try {
+    const file = new File(dir, BACKUP_MANIFEST_NAME)
+    if (!file.exists) return null
+    const parsed = manifestSchema.safeParse(JSON.parse(file.textSync()))
+    return parsed.success ? parsed.data : null
+  } catch (error) {
+    return null
+  }
+}
+
+/* Every backup folder on disk, complete or not */
+export function listBackupDirs(): Directory[] {
+  if (!autoBackupDir.exists) return []
+  return autoBackupDir.list().filter((entry): entry is Directory => entry instanceof Directory)
+}
+
+/* Media URIs referenced by any complete backup */
+export function getBackupMediaUris(): Set<string> {
+  const uris = new Set<string>()
+  for (const dir of listBackupDirs()) {
+    for (const uri of readManifest(dir)?.media ?? []) {
+      uris.add(uri)
+    }
+  }
+  return uris
+}
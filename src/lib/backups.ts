@@ -0,0 +1,264 @@
+/* This module takes rolling automatic backups of the database and restores them.
+ * Each backup is a folder under backups/auto holding a VACUUM INTO snapshot (encrypted with the same key as the live database)
+ * and a manifest.json written last, so a folder without a manifest that isn't being written is an interrupted backup and gets cleaned up.
+ * Media is not copied: the manifest lists the media the snapshot references and the media store keeps those files
+ * for as long as the backup exists. */
+
+import { File, Directory } from 'expo-file-system'
+import { getDatabaseInstance, replaceDatabase } from '../database'
+import { snapshotDatabase, uriToPath } from '../database/snapshot'
+import { LATEST_DATABASE_VERSION } from '../database/schema'
+import { getSettings } from '../database/settingsOperations'
+import { markNotesChanged } from '../database/notesRevision'
+import { type BackupFrequency } from '../database/types'
+import { getReferencedMediaUris, findMissingMedia } from './mediaStore'
+import { pauseJobs, resumeJobs, recoverJobs } from './jobQueue'
+import { releaseRetrievalBackends } from './retrievalBackend'
+import {
+  autoBackupDir,
+  BACKUP_DATABASE_NAME,
+  BACKUP_MANIFEST_NAME,
+  readManifest,
+  listBackupDirs,
+  type BackupManifest,
+} from './backupManifest'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const BACKUP_INTERVALS: Record<Exclude<BackupFrequency, 'off'>, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+}
+
+// VACUUM INTO refuses to run while a transaction is open on the connection (e.g. the embedding pipeline saving
+// a note), and DETACH can report the database as locked, so both are retried until the connection is idle
+const BUSY_RETRIES = 10
+const BUSY_RETRY_DELAY_MS = 500
+
+// Backup folders being written right now; they have no manifest yet but must not be pruned
+const writing = new Set<string>()
+
+// The scheduled backup in progress, so launch and returning to the foreground don't start two at once
+let scheduledRun: Promise<void> | null = null
+
+export interface BackupSummary {
+  id: string
+  reason: BackupManifest['reason']
+  createdAt: number
+  noteCount: number
+  mediaCount: number
+  size: number
+}
+
+export interface BackupVerification {
+  ok: boolean
+  problems: string[]
+}
+
+/* Run a statement that needs an idle connection, waiting out transactions in progress */
+async function whenIdle<T>(task: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      if (attempt >= BUSY_RETRIES || !/within a transaction|locked|busy/i.test(message)) {
+        throw error
+      }
+      await new Promise((resolve) => setTimeout(resolve, BUSY_RETRY_DELAY_MS))
+    }
+  }
+}
+
+/* Attach a snapshot as schema "backup" while `task` runs; SQLCipher opens it with the live database's key */
+async function withAttachedSnapshot<T>(file: File, task: () => Promise<T>): Promise<T> {
+  const db = getDatabaseInstance()
+  await whenIdle(() => db.execute('ATTACH DATABASE ? AS backup', [uriToPath(file.uri)]))
+  try {
+    return await task()
+  } finally {
+    await whenIdle(() => db.execute('DETACH DATABASE backup'))
+  }
+}
+
+function toSummary(dir: Directory, manifest: BackupManifest): BackupSummary {
+  return {
+    id: dir.name,
+    reason: manifest.reason,
+    createdAt: manifest.createdAt,
+    noteCount: manifest.noteCount,
+    mediaCount: manifest.media.length,
+    size: manifest.databaseSize,
+  }
+}
+
+/**
+ * Snapshot the database into a new backup folder.
+ * The snapshot is a single read of committed data, so notes the background pipelines are still writing
+ * appear either fully or not at all.
+ * @param reason - Why the backup was taken, shown in the Backups screen
+ */
+export async function createBackup(reason: BackupManifest['reason']): Promise<BackupSummary> {
+  const db = getDatabaseInstance()
+  const createdAt = Date.now()
+  const dir = new Directory(autoBackupDir, String(createdAt))
+  dir.create({ intermediates: true })
+  writing.add(dir.name)
+
+  try {
+    const databaseFile = new File(dir, BACKUP_DATABASE_NAME)
+    await whenIdle(() => snapshotDatabase(db, databaseFile))
+
+    // Describe the snapshot itself rather than the live database, which may have changed since
+    const manifest = await withAttachedSnapshot(databaseFile, async () => {
+      const version = await db.execute('PRAGMA backup.user_version')
+      const notes = await db.execute('SELECT COUNT(*) AS count FROM backup.notes WHERE deletedAt IS NULL')
+      const media = await getReferencedMediaUris('backup')
+      const result: BackupManifest = {
+        version: 1,
+        reason,
+        createdAt,
+        schemaVersion: (version.rows?.[0]?.user_version as number) ?? 0,
+        noteCount: (notes.rows?.[0]?.count as number) ?? 0,
+        databaseSize: databaseFile.size ?? 0,
+        databaseMd5: databaseFile.md5 ?? '',
+        media: Array.from(media),
+      }
+      return result
+    })
+
+    new File(dir, BACKUP_MANIFEST_NAME).write(JSON.stringify(manifest), {})
+    return toSummary(dir, manifest)
+  } catch (error) {
+    try {
+      dir.delete()
+    } catch (cleanupError) {
+      // Folders without a manifest are removed by the next pruneBackups
+    }
+    throw error
+  } finally {
+    writing.delete(dir.name)
+  }
+}
+
+/* List complete backups, newest first */
+export function listBackups(): BackupSummary[] {
+  const backups: BackupSummary[] = []
+  for (const dir of listBackupDirs()) {
+    const manifest = readManifest(dir)
+    if (manifest) {
+      backups.push(toSummary(dir, manifest))
+    }
+  }
+  return backups.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/* Keep the newest `retention` backups and remove the rest, along with interrupted ones. Backups still being written are left alone */
+export function pruneBackups(retention: number): void {
+  const keep = new Set(listBackups().slice(0, retention).map((backup) => backup.id))
+  for (const dir of listBackupDirs()) {
+    if (keep.has(dir.name) || writing.has(dir.name)) continue
+    try {
+      dir.delete()
+    } catch (error) {
+      // Try again after the next backup
+    }
+  }
+}
+
+function getBackupDir(id: string): { dir: Directory; manifest: BackupManifest } {
+  const dir = new Directory(autoBackupDir, id)
+  const manifest = dir.exists ? readManifest(dir) : null
+  if (!manifest) {
+    throw new Error('Backup not found')
+  }
+  return { dir, manifest }
+}
+
+/**
+ * Check that a backup can be restored: the snapshot is unchanged and passes SQLite's integrity check,
+ * it is not from a newer app version, and the photos and recordings it references are still stored.
+ * @param id - Backup ID from listBackups()
+ */
+export async function verifyBackup(id: string): Promise<BackupVerification> {
+  const { dir, manifest } = getBackupDir(id)
+  const databaseFile = new File(dir, BACKUP_DATABASE_NAME)
+  const problems: string[] = []
+
+  if (!databaseFile.exists) {
+    return { ok: false, problems: ['The backup file is missing'] }
+  }
+  if (databaseFile.size !== manifest.databaseSize || databaseFile.md5 !== manifest.databaseMd5) {
+    problems.push('The backup file has changed since it was created')
+  }
+  if (manifest.schemaVersion > LATEST_DATABASE_VERSION) {
+    problems.push('The backup was made by a newer version of the app')
+  }
+
+  try {
+    const result = await withAttachedSnapshot(databaseFile, () => getDatabaseInstance().execute('PRAGMA backup.integrity_check'))
+    const messages = ((result.rows || []) as unknown as Array<{ integrity_check: string }>).map((row) => row.integrity_check)
+    if (messages.length !== 1 || messages[0] !== 'ok') {
+      problems.push('The backup database is damaged')
+    }
+  } catch (error) {
+    problems.push('The backup database could not be opened')
+  }
+
+  const missing = findMissingMedia(manifest.media)
+  if (missing.size > 0) {
+    problems.push(`${missing.size} photos or recordings are missing`)
+  }
+
+  return { ok: problems.length === 0, problems }
+}
+
+/**
+ * Replace all current data with a backup. The current state is backed up first, so a restore can be undone.
+ * @param id - Backup ID from listBackups()
+ */
+export async function restoreBackup(id: string): Promise<void> {
+  const verification = await verifyBackup(id)
+  if (!verification.ok) {
+    throw new Error(`This backup can't be restored: ${verification.problems.join(', ')}`)
+  }
+
+  const { dir } = getBackupDir(id)
+  await createBackup('before-restore')
+  // The job worker writes through the connection that is about to close; let its current job finish first
+  await pauseJobs()
+  try {
+    await replaceDatabase(new File(dir, BACKUP_DATABASE_NAME))
+  } finally {
+    resumeJobs()
+  }
+
+  // Screens, search indexes and queued work all refer to the data that was just replaced
+  markNotesChanged()
+  await releaseRetrievalBackends()
+  void recoverJobs().catch(() => {
+    // Silent fail; the next launch recovers the queue
+  })
+}
+
+/* Take a scheduled backup if the last one is older than the chosen frequency, then apply retention. Calls while one runs share it */
+export function runScheduledBackup(): Promise<void> {
+  scheduledRun = scheduledRun ?? scheduledBackup().finally(() => {
+    scheduledRun = null
+  })
+  return scheduledRun
+}
+
+async function scheduledBackup(): Promise<void> {
+  try {
+    const settings = await getSettings()
+    if (settings.backupFrequency === 'off') return
+
+    const latest = listBackups().find((backup) => backup.reason !== 'before-restore')
+    if (!latest || Date.now() - latest.createdAt >= BACKUP_INTERVALS[settings.backupFrequency]) {
+      await createBackup('scheduled')
+    }
+    pruneBackups(settings.backupRetention)
+  } catch (error) {
+    // Background task - fail silently, next launch tries again
+  }
+}
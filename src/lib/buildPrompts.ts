@@ -2,6 +2,8 @@
 
 import { RetrievedNote } from './retrieveRelevantNotes'
 import { NoteWithDetails } from '../database/types'
+import { describePerson } from '../database/peopleOperations'
+import { describePlace } from '../database/placesOperations'
 
 const BASE_SYSTEM_PROMPT = `
 You are an AI companion helping someone with memory loss. 
@@ -38,13 +40,28 @@ export function buildSystemPrompt(retrievedNotes: RetrievedNote[]): string {
   }
 
   const topNote = retrievedNotes[0]; // Highest similarity score
-  let noteText = `Title: ${topNote.title}\nContent: ${topNote.content}`;
+  // Long notes don't fit the context: send the passage that matched the question instead of the whole content
+  let noteText = `Title: ${topNote.title}\nContent: ${topNote.matchedChunk ?? topNote.content}`;
 
-  // Add tags, audio, image descriptions if present
+  // Add when and where it happened, people, tags, voice note, image descriptions if present
+  if (topNote.eventDate) {
+    noteText += `\nWhen: ${topNote.eventDate}`;
+  }
+  if (topNote.place) {
+    noteText += `\nWhere: ${topNote.place}`;
+  }
+  if (topNote.people.length > 0) {
+    noteText += `\nPeople: ${topNote.people.join(', ')}`;
+  }
   if (topNote.tags.length > 0) {
     noteText += `\nTags: ${topNote.tags.join(', ')}`;
   }
-  if (topNote.audioUri) {
+  if (topNote.transcript) {
+    // A matched passage already includes the part of the voice note it came from
+    if (!topNote.matchedChunk) {
+      noteText += `\nVoice note: "${topNote.transcript}"`;
+    }
+  } else if (topNote.audioUri) {
     noteText += `\n[Audio attached]`;
   }
   if (topNote.images.length > 0) {
@@ -57,7 +74,17 @@ export function buildSystemPrompt(retrievedNotes: RetrievedNote[]): string {
     }
   }
 
-  const fullPrompt = `${BASE_SYSTEM_PROMPT}\n\n===NOTES===\n${noteText}\n\nAnswer the user's question using the information from the note above. Include specific details and relevant information that will help them remember. Be conversational and natural in your response.`;
+  // Notes the user linked to the top note give it context, e.g. what happened "the day after"
+  const linkedNotes = retrievedNotes.filter(note => note.matchType === 'link');
+  if (linkedNotes.length > 0) {
+    noteText += `\n\nRelated memories:`;
+    linkedNotes.forEach((linked) => {
+      const details = [linked.linkRelation, linked.eventDate].filter(Boolean).join(', ');
+      noteText += `\n- ${linked.title}${details ? ` (${details})` : ''}: ${linked.content}`;
+    });
+  }
+
+  const fullPrompt = `${BASE_SYSTEM_PROMPT}\n\n===NOTES===\n${noteText}\n\nAnswer the user's question using the information from the note above (and its related memories, if any). Include specific details and relevant information that will help them remember. Be conversational and natural in your response.`;
   return fullPrompt
 }
 
@@ -69,11 +96,29 @@ export function buildSystemPrompt(retrievedNotes: RetrievedNote[]): string {
 export function buildQuizPrompt(note: NoteWithDetails): string {
   let noteContent = `Title: ${note.title}\nContent: ${note.content}`
 
+  // Add when it happened if present
+  if (note.eventDateLabel) {
+    noteContent += `\nWhen: ${note.eventDateLabel}`
+  }
+
+  // Add place and people if present
+  if (note.place) {
+    noteContent += `\nWhere: ${describePlace(note.place)}`
+  }
+  if (note.people.length > 0) {
+    noteContent += `\nPeople: ${note.people.map(describePerson).join(', ')}`
+  }
+
   // Add tags if present
   if (note.tags.length > 0) {
     noteContent += `\nTags: ${note.tags.map(t => t.name).join(', ')}`
   }
 
+  // Add what was said in the voice note if it has been transcribed
+  if (note.transcript) {
+    noteContent += `\nVoice note: "${note.transcript}"`
+  }
+
   // Add image descriptions if present
   if (note.images.length > 0) {
     const descriptionsWithContent = note.images.filter(img => img.description && img.description.trim().length > 0)
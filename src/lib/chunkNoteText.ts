@@ -0,0 +1,83 @@
+/* This module splits long note text into overlapping, sentence-aligned chunks. The embedding model only reads about 512 tokens, so a long life story embedded in one piece loses everything past that point; each chunk is embedded on its own instead */
+
+const CHUNK_CONFIG = {
+  MAX_CHUNK_CHARS: 1200,         // ~300 tokens, leaving room for the title prepended when embedding
+  OVERLAP_CHARS: 200,            // Trailing sentences repeated at the start of the next chunk
+}
+
+// A sentence runs up to and including its closing punctuation (and quote/bracket), or to a line break
+const SENTENCE_PATTERN = /[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)|[.!?\n]+/g
+
+/* Split text into trimmed sentences; paragraph breaks end a sentence too */
+function splitSentences(text: string): string[] {
+  return (text.match(SENTENCE_PATTERN) || [])
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0)
+}
+
+/* Break a sentence longer than a whole chunk on word boundaries */
+function splitLongSentence(sentence: string, maxChars: number): string[] {
+  const pieces: string[] = []
+  let current = ''
+  for (const word of sentence.split(/\s+/)) {
+    if (current && current.length + word.length + 1 > maxChars) {
+      pieces.push(current)
+      current = ''
+    }
+    // A single word longer than a chunk (e.g. a pasted URL) is cut as-is
+    current = current ? `${current} ${word}` : word.slice(0, maxChars)
+  }
+  if (current) {
+    pieces.push(current)
+  }
+  return pieces
+}
+
+/**
+ * Split text into chunks of whole sentences, each overlapping the previous one by a sentence or two
+ * so that a detail on a chunk boundary is still found with its context.
+ * Short text comes back as a single chunk; empty text as none.
+ * @param text - Note body (content and voice note transcript)
+ */
+export function chunkNoteText(text: string): string[] {
+  const sentences = splitSentences(text)
+    .flatMap((sentence) => sentence.length > CHUNK_CONFIG.MAX_CHUNK_CHARS
+      ? splitLongSentence(sentence, CHUNK_CONFIG.MAX_CHUNK_CHARS)
+      : [sentence])
+
+  const chunks: string[] = []
+  let current: string[] = []
+  let currentLength = 0
+  // Sentences added since the last chunk was emitted; an overlap-only remainder isn't worth its own chunk
+  let added = 0
+
+  for (const sentence of sentences) {
+    if (current.length > 0 && currentLength + sentence.length + 1 > CHUNK_CONFIG.MAX_CHUNK_CHARS) {
+      chunks.push(current.join(' '))
+
+      // Carry the last sentences over as overlap, as long as they leave room for the new one
+      const overlap: string[] = []
+      let overlapLength = 0
+      for (let i = current.length - 1; i >= 0; i--) {
+        const length = current[i].length + 1
+        if (overlapLength + length > CHUNK_CONFIG.OVERLAP_CHARS
+          || overlapLength + length + sentence.length > CHUNK_CONFIG.MAX_CHUNK_CHARS) {
+          break
+        }
+        overlap.unshift(current[i])
+        overlapLength += length
+      }
+      current = overlap
+      currentLength = overlapLength
+      added = 0
+    }
+    current.push(sentence)
+    currentLength += sentence.length + 1
+    added++
+  }
+
+  if (added > 0) {
+    chunks.push(current.join(' '))
+  }
+  return chunks
+}
@@ -1,17 +1,23 @@
-/* This module handles the automatic generation/storage of embeddings for notes/images. Embeddings are computed in the background when notes are created or updated.*/
+/* This module handles the automatic generation/storage of embeddings for notes/images. Embeddings are computed in the background by the job queue (see jobQueue.ts) when notes are created or updated. Besides one embedding for the whole note, its text is embedded in overlapping chunks so details deep in long notes can be retrieved. Photos the user hasn't described get an AI description first, when a vision model is available, and voice notes are transcribed first.*/
 
 import { getDatabaseInstance } from '../database'
 import { getNoteById } from '../database/notesOperations'
+import { describePlace } from '../database/placesOperations'
 import ModelManager from '../model/ModelManager'
+import { EMBEDDING_MODEL } from '../model/modelStorage'
+import { getVisionBackend } from '../model/visionBackend'
+import { displayUri } from './mediaStore'
+import { transcribeNoteAudio } from './transcribeAudio'
+import { chunkNoteText } from './chunkNoteText'
+import { refreshRetrievalNote } from './retrievalBackend'
+import { checkEmbeddingDimensions, otherModelSql } from './embeddingModel'
+import { runCatchUpJobs, type CatchUpResult } from './jobQueue'
 import { type NoteWithDetails, type Tag, type Image } from '../database/types'
 import * as Crypto from 'expo-crypto'
 
 const EMBEDDING_CONFIG = {
-  EMBEDDING_DIMENSIONS: 768,
   IMAGE_DESCRIPTION_MAX_TOKENS: 300,
   IMAGE_DESCRIPTION_TEMPERATURE: 0.1,
-  MAX_RETRIES: 2,
-  RETRY_DELAY_MS: 1000,
 }
 
 const IMAGE_DESCRIPTION_SYSTEM_PROMPT = `You are analyzing an image from a personal memory journal. Provide a detailed, comprehensive description that captures:
@@ -36,29 +42,32 @@ async function hashText(text: string): Promise<string> {
 }
 
 /* Convert Float32Array to Uint8Array for SQLite storage */
-function embeddingToBlob(embedding: number[]): Uint8Array {
+export function embeddingToBlob(embedding: number[]): Uint8Array {
   const float32Array = new Float32Array(embedding)
   return new Uint8Array(float32Array.buffer)
 }
 
 /* Combine note text fields into a single string for embedding */
-function combineNoteText(title: string, content: string, tags: string[]): string {
+function combineNoteText(title: string, content: string, tags: string[], place: string | null, transcript: string | null): string {
   const tagString = tags.length > 0 ? `Tags: ${tags.join(', ')}\n\n` : ''
-  return `${tagString}${title}\n\n${content}`
+  const placeString = place ? `Place: ${place}\n\n` : ''
+  return `${tagString}${placeString}${title}\n\n${noteBodyText(content, transcript)}`
 }
 
-/* Check if models are ready before processing */
-async function ensureModelsReady(): Promise<boolean> {
-  const embeddingReady = ModelManager.isEmbeddingReady()
+/* The part of a note that is chunked: its content, then what was said in the voice note */
+function noteBodyText(content: string, transcript: string | null): string {
+  return transcript ? `${content}\n\nVoice note: ${transcript}` : content
+}
 
-  if (!embeddingReady) {
-    return false
-  }
+// Which embedding model made a stored vector
+type EmbeddingStamp = { embeddingModelId: string | null; embeddingModelVersion: number | null }
 
-  return true
+/* An unchanged text only keeps its embedding if the current embedding model made it */
+function isCurrentModel(row: EmbeddingStamp): boolean {
+  return row.embeddingModelId === EMBEDDING_MODEL.id && row.embeddingModelVersion === EMBEDDING_MODEL.version
 }
 
-/* Generate and store embedding for note text (title + content + tags) */
+/* Generate and store embedding for note text (title + content + tags + place + voice note transcript) */
 async function generateNoteTextEmbedding(noteId: number): Promise<void> {
   const db = getDatabaseInstance()
 
@@ -71,21 +80,22 @@ async function generateNoteTextEmbedding(noteId: number): Promise<void> {
 
     // Combine text fields
     const tagNames = note.tags.map(tag => tag.name)
-    const combinedText = combineNoteText(note.title, note.content, tagNames)
+    const placeText = note.place ? [describePlace(note.place), note.place.address].filter(Boolean).join(', ') : null
+    const combinedText = combineNoteText(note.title, note.content, tagNames, placeText, note.transcript)
 
     // Compute hash
     const textHash = await hashText(combinedText)
 
     // Check if embedding already exists with same hash
     const existing = await db.execute(
-      'SELECT id, textHash FROM note_embeddings WHERE noteId = ?',
+      'SELECT id, textHash, embeddingModelId, embeddingModelVersion FROM note_embeddings WHERE noteId = ?',
       [noteId]
     )
 
     if (existing.rows && existing.rows.length > 0) {
-      const existingRow = existing.rows[0] as unknown as { textHash: string }
+      const existingRow = existing.rows[0] as unknown as EmbeddingStamp & { textHash: string }
       const existingHash = existingRow.textHash
-      if (existingHash === textHash) {
+      if (existingHash === textHash && isCurrentModel(existingRow)) {
         return
       }
     }
@@ -102,6 +112,7 @@ async function generateNoteTextEmbedding(noteId: number): Promise<void> {
     if (!result.embedding || result.embedding.length === 0) {
       throw new Error('Empty embedding returned')
     }
+    checkEmbeddingDimensions(result.embedding)
 
     // Convert to blob
     const embeddingBlob = embeddingToBlob(result.embedding)
@@ -111,14 +122,14 @@ async function generateNoteTextEmbedding(noteId: number): Promise<void> {
     if (existing.rows && existing.rows.length > 0) {
       // Update existing
       await db.execute(
-        'UPDATE note_embeddings SET embedding = ?, embeddingDimensions = ?, textHash = ?, status = ?, createdAt = ? WHERE noteId = ?',
-        [embeddingBlob, result.embedding.length, textHash, 'completed', now, noteId]
+        'UPDATE note_embeddings SET embedding = ?, embeddingDimensions = ?, textHash = ?, status = ?, createdAt = ?, embeddingModelId = ?, embeddingModelVersion = ? WHERE noteId = ?',
+        [embeddingBlob, result.embedding.length, textHash, 'completed', now, EMBEDDING_MODEL.id, EMBEDDING_MODEL.version, noteId]
       )
     } else {
       // Insert new
       await db.execute(
-        'INSERT INTO note_embeddings (noteId, embedding, embeddingDimensions, textHash, status, createdAt) VALUES (?, ?, ?, ?, ?, ?)',
-        [noteId, embeddingBlob, result.embedding.length, textHash, 'completed', now]
+        'INSERT INTO note_embeddings (noteId, embedding, embeddingDimensions, textHash, status, createdAt, embeddingModelId, embeddingModelVersion) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [noteId, embeddingBlob, result.embedding.length, textHash, 'completed', now, EMBEDDING_MODEL.id, EMBEDDING_MODEL.version]
       )
     }
 
@@ -132,10 +143,103 @@ async function generateNoteTextEmbedding(noteId: number): Promise<void> {
     } catch (updateError) {
       // Ignore update error
     }
+    throw error
+  }
+}
+
+/* Generate and store an embedding per chunk of the note body. Chunks whose text hasn't changed keep their embedding */
+async function generateNoteChunkEmbeddings(noteId: number): Promise<void> {
+  const db = getDatabaseInstance()
+
+  try {
+    const note = await getNoteById(noteId)
+    if (!note) {
+      return
+    }
+
+    const chunks = chunkNoteText(noteBodyText(note.content, note.transcript))
+    const existing = await db.execute(
+      "SELECT chunkIndex, textHash, embeddingModelId, embeddingModelVersion FROM note_chunks WHERE noteId = ? AND status = 'completed'",
+      [noteId]
+    )
+    const existingHashes = new Map(
+      ((existing.rows || []) as unknown as Array<EmbeddingStamp & { chunkIndex: number; textHash: string }>)
+        .filter(row => isCurrentModel(row))
+        .map(row => [row.chunkIndex, row.textHash])
+    )
+
+    const embeddingContext = ModelManager.getEmbeddingContext()
+    if (!embeddingContext) {
+      throw new Error('Embedding context not available')
+    }
+
+    for (const [chunkIndex, chunk] of chunks.entries()) {
+      // The title gives each passage its context, e.g. which holiday "we swam every morning" was about
+      const embeddedText = `${note.title}\n\n${chunk}`
+      const textHash = await hashText(embeddedText)
+      if (existingHashes.get(chunkIndex) === textHash) {
+        continue
+      }
+
+      const result = await embeddingContext.embedding(embeddedText)
+      if (!result.embedding || result.embedding.length === 0) {
+        throw new Error('Empty embedding returned')
+      }
+      checkEmbeddingDimensions(result.embedding)
+
+      await db.execute(
+        `INSERT INTO note_chunks (noteId, chunkIndex, text, embedding, embeddingDimensions, textHash, status, createdAt, embeddingModelId, embeddingModelVersion) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (noteId, chunkIndex) DO UPDATE SET
+           text = excluded.text, embedding = excluded.embedding, embeddingDimensions = excluded.embeddingDimensions,
+           textHash = excluded.textHash, status = excluded.status, createdAt = excluded.createdAt,
+           embeddingModelId = excluded.embeddingModelId, embeddingModelVersion = excluded.embeddingModelVersion`,
+        [noteId, chunkIndex, chunk, embeddingToBlob(result.embedding), result.embedding.length, textHash, 'completed', Date.now(), EMBEDDING_MODEL.id, EMBEDDING_MODEL.version]
+      )
+    }
+
+    // The note got shorter: drop chunks past its new end
+    await db.execute(
+      'DELETE FROM note_chunks WHERE noteId = ? AND chunkIndex >= ?',
+      [noteId, chunks.length]
+    )
+
+  } catch (error) {
+    try {
+      await db.execute(
+        'UPDATE note_chunks SET status = ? WHERE noteId = ?',
+        ['failed', noteId]
+      )
+    } catch (updateError) {
+      // Ignore update error
+    }
+    throw error
   }
 }
 
-/* Generate embedding for a single image using user-provided description */
+/* Describe an image with the vision backend and store the result as its AI description. Returns null when no vision model is loaded or it had nothing to say; throws when describing fails, so the job is retried */
+async function generateImageDescription(image: Image): Promise<string | null> {
+  const db = getDatabaseInstance()
+
+  const backend = getVisionBackend()
+  if (!backend.isReady()) {
+    return null
+  }
+
+  const description = await backend.describeImage(displayUri(image.uri), {
+    systemPrompt: IMAGE_DESCRIPTION_SYSTEM_PROMPT,
+    maxTokens: EMBEDDING_CONFIG.IMAGE_DESCRIPTION_MAX_TOKENS,
+    temperature: EMBEDDING_CONFIG.IMAGE_DESCRIPTION_TEMPERATURE,
+  })
+  if (!description) {
+    return null
+  }
+
+  // Kept apart from the user's own description until they accept or edit it
+  await db.execute('UPDATE images SET aiDescription = ? WHERE id = ?', [description, image.id])
+  return description
+}
+
+/* Generate embedding for a single image from its description (the user's, else the AI one) */
 async function generateImageEmbedding(imageId: number, userDescription: string): Promise<void> {
   const db = getDatabaseInstance()
 
@@ -156,14 +260,14 @@ async function generateImageEmbedding(imageId: number, userDescription: string):
 
     // Check if embedding already exists with same description
     const existing = await db.execute(
-      'SELECT id, descriptionHash FROM image_embeddings WHERE imageId = ?',
+      'SELECT id, descriptionHash, embeddingModelId, embeddingModelVersion FROM image_embeddings WHERE imageId = ?',
       [imageId]
     )
 
     if (existing.rows && existing.rows.length > 0) {
-      const existingRow = existing.rows[0] as unknown as { descriptionHash: string }
+      const existingRow = existing.rows[0] as unknown as EmbeddingStamp & { descriptionHash: string }
       const existingHash = existingRow.descriptionHash
-      if (existingHash === descriptionHash) {
+      if (existingHash === descriptionHash && isCurrentModel(existingRow)) {
         return
       }
     }
@@ -173,6 +277,7 @@ async function generateImageEmbedding(imageId: number, userDescription: string):
     if (!embeddingResult.embedding || embeddingResult.embedding.length === 0) {
       throw new Error('Empty embedding returned')
     }
+    checkEmbeddingDimensions(embeddingResult.embedding)
 
     // Convert to blob
     const embeddingBlob = embeddingToBlob(embeddingResult.embedding)
@@ -181,14 +286,14 @@ async function generateImageEmbedding(imageId: number, userDescription: string):
     // Store both description and embedding
     if (existing.rows && existing.rows.length > 0) {
       await db.execute(
-        'UPDATE image_embeddings SET description = ?, embedding = ?, embeddingDimensions = ?, descriptionHash = ?, status = ?, createdAt = ? WHERE imageId = ?',
-        [description, embeddingBlob, embeddingResult.embedding.length, descriptionHash, 'completed', now, imageId]
+        'UPDATE image_embeddings SET description = ?, embedding = ?, embeddingDimensions = ?, descriptionHash = ?, status = ?, createdAt = ?, embeddingModelId = ?, embeddingModelVersion = ? WHERE imageId = ?',
+        [description, embeddingBlob, embeddingResult.embedding.length, descriptionHash, 'completed', now, EMBEDDING_MODEL.id, EMBEDDING_MODEL.version, imageId]
       )
     } else {
       // Insert new
       await db.execute(
-        'INSERT INTO image_embeddings (imageId, description, embedding, embeddingDimensions, descriptionHash, status, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
-        [imageId, description, embeddingBlob, embeddingResult.embedding.length, descriptionHash, 'completed', now]
+        'INSERT INTO image_embeddings (imageId, description, embedding, embeddingDimensions, descriptionHash, status, createdAt, embeddingModelId, embeddingModelVersion) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [imageId, description, embeddingBlob, embeddingResult.embedding.length, descriptionHash, 'completed', now, EMBEDDING_MODEL.id, EMBEDDING_MODEL.version]
       )
     }
 
@@ -201,6 +306,23 @@ async function generateImageEmbedding(imageId: number, userDescription: string):
     } catch (updateError) {
       // Ignore update error
     }
+    throw error
+  }
+}
+
+/* Remove a note's embeddings from other embedding models that re-embedding didn't replace (e.g. a photo that no longer has a description); retrieval never compares them */
+async function deleteOtherModelEmbeddings(noteId: number): Promise<void> {
+  const db = getDatabaseInstance()
+  const { sql, params } = otherModelSql()
+  try {
+    await db.execute(`DELETE FROM note_embeddings WHERE noteId = ? AND ${sql}`, [noteId, ...params])
+    await db.execute(`DELETE FROM note_chunks WHERE noteId = ? AND ${sql}`, [noteId, ...params])
+    await db.execute(
+      `DELETE FROM image_embeddings WHERE imageId IN (SELECT id FROM images WHERE noteId = ?) AND ${sql}`,
+      [noteId, ...params]
+    )
+  } catch (error) {
+    throw error
   }
 }
 
@@ -208,62 +330,77 @@ async function generateImageEmbedding(imageId: number, userDescription: string):
 // MAIN PIPELINE ORCHESTRATOR
 // ============================================================================
 
-/* Process all embeddings for a note (text + images) in parallel. This is the main entry point called after note creation */
-export async function processNoteEmbeddings(noteId: number): Promise<void> {
+/**
+ * Compute all embeddings for a note (text, chunks, images) in parallel, then update the retrieval indexes.
+ * Run by the job queue (see jobQueue.ts), which retries the note when this throws.
+ * @param noteId - Note to embed; nothing happens if it no longer exists
+ */
+export async function embedNote(noteId: number): Promise<void> {
   try {
-    const modelsReady = await ensureModelsReady()
-    if (!modelsReady) {
-      return
-    }
-
     // Get note data
     const note = await getNoteById(noteId)
     if (!note) {
       return
     }
 
+    // Transcribe the voice note so what was said is part of the text embedding
+    if (note.audioUri) {
+      await transcribeNoteAudio(noteId)
+    }
+
+    // Describe photos that have no description of either kind, one at a time (the vision model runs one completion at once).
+    // A photo that couldn't be described doesn't hold up the rest of the note; the job is retried afterwards
+    const descriptions = new Map<number, string>()
+    let descriptionFailure: unknown = null
+    for (const image of note.images) {
+      try {
+        const description = image.description.trim() || image.aiDescription || await generateImageDescription(image)
+        if (description) {
+          descriptions.set(image.id, description)
+        }
+      } catch (error) {
+        descriptionFailure = descriptionFailure ?? error
+      }
+    }
+
     // Run text embedding and all image embeddings in parallel
-    const tasks = [
-      // Task 1: Generate text embedding
+    const results = await Promise.allSettled([
+      // Task 1: Generate text embedding, for the whole note and per chunk
       generateNoteTextEmbedding(noteId),
-      // Task 2+: Generate embedding for each image (only if description exists)
-      ...note.images.map(image => generateImageEmbedding(image.id, image.description))
-    ]
+      generateNoteChunkEmbeddings(noteId),
+      // Task 2+: Generate embedding for each image (only if a description exists)
+      ...note.images.map(image => generateImageEmbedding(image.id, descriptions.get(image.id) ?? ''))
+    ])
+
+    // Embeddings that did succeed are kept; a retry skips them by hash
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+    if (failure) {
+      throw failure.reason
+    }
+    if (descriptionFailure) {
+      throw descriptionFailure
+    }
 
-    await Promise.allSettled(tasks)
-  } catch (error) {
-    // Don't throw - fail silently in background
+    await deleteOtherModelEmbeddings(noteId)
+  } finally {
+    // Keep the retrieval indexes in step with what was just written
+    await refreshRetrievalNote(noteId)
   }
 }
 
-/* Update embeddings for an edited note. Only recomputes if content has changed (detected via hash) */
-// Debounced queue for embedding updates to avoid redundant recomputation during rapid edits
-const pendingNotes = new Set<number>()
-let updateTimer: ReturnType<typeof setTimeout> | null = null
-
-export async function updateNoteEmbeddings(noteId: number): Promise<void> {
-  pendingNotes.add(noteId)
-  if (updateTimer) {
-    return
+/* Describe and embed photos that have neither a user nor an AI description, e.g. ones saved before the vision model was downloaded. The work runs on the job queue; this waits for it. Returns how many notes were processed, and how many were left undone */
+export async function describeMissingImages(): Promise<CatchUpResult> {
+  const db = getDatabaseInstance()
+  if (!getVisionBackend().isReady()) {
+    return { done: 0, undone: 0 }
   }
-  updateTimer = setTimeout(async () => {
-    const ids = Array.from(pendingNotes)
-    pendingNotes.clear()
-    updateTimer = null
-    try {
-      const modelsReady = await ensureModelsReady()
-      if (!modelsReady) {
-        return
-      }
-      await Promise.all(
-        ids.map(async (id) => {
-          const note = await getNoteById(id)
-          if (!note) return
-          await processNoteEmbeddings(id)
-        })
-      )
-    } catch {
-      // Silent fail; background task
-    }
-  }, 300)
+
+  const result = await db.execute(
+    `SELECT DISTINCT i.noteId
+     FROM images i
+     JOIN notes n ON i.noteId = n.id
+     WHERE n.deletedAt IS NULL AND TRIM(i.description) = '' AND i.aiDescription IS NULL`
+  )
+  const noteIds = ((result.rows || []) as unknown as Array<{ noteId: number }>).map(row => row.noteId)
+  return runCatchUpJobs('embedNote', noteIds)
 }
@@ -1,4 +1,5 @@
 import ModelManager from '../model/ModelManager'
+import { checkEmbeddingDimensions } from './embeddingModel'
 
 /**
  * Generate embedding for user query (text-only)
@@ -21,6 +22,7 @@ export async function generateQueryEmbedding(
     if (!embeddingResult.embedding || embeddingResult.embedding.length === 0) {
       return null
     }
+    checkEmbeddingDimensions(embeddingResult.embedding) // A model of another size can't be compared with stored embeddings
 
     const embedding = new Float32Array(embeddingResult.embedding) // Convert to Float32Array
     return {
@@ -0,0 +1,30 @@
+/* This module ties stored embeddings to the embedding model that made them. Vectors from different models (or versions) live in different spaces, so only embeddings of the current model are ever compared; older ones are re-indexed (see reindexEmbeddings.ts) */
+
+import { EMBEDDING_MODEL } from '../model/modelStorage'
+
+/**
+ * SQL condition matching embeddings made by the current embedding model.
+ * @param alias - Alias of the embedding table in the query, if any
+ */
+export function currentModelSql(alias?: string): { sql: string; params: Array<string | number> } {
+  const column = (name: string) => (alias ? `${alias}.${name}` : name)
+  return {
+    sql: `${column('embeddingModelId')} = ? AND ${column('embeddingModelVersion')} = ?`,
+    params: [EMBEDDING_MODEL.id, EMBEDDING_MODEL.version],
+  }
+}
+
+/* SQL condition matching embeddings of any other model. Null-safe, so embeddings saved before model versioning (or imported without it) match */
+export function otherModelSql(): { sql: string; params: Array<string | number> } {
+  return {
+    sql: '(embeddingModelId IS NOT ? OR embeddingModelVersion IS NOT ?)',
+    params: [EMBEDDING_MODEL.id, EMBEDDING_MODEL.version],
+  }
+}
+
+/* Check a vector from the embedding model has the size the model is declared with; a different size means a different model file */
+export function checkEmbeddingDimensions(embedding: ArrayLike<number>): void {
+  if (embedding.length !== EMBEDDING_MODEL.dimensions) {
+    throw new Error(`Embedding model ${EMBEDDING_MODEL.id} returned ${embedding.length} dimensions, expected ${EMBEDDING_MODEL.dimensions}`)
+  }
+}
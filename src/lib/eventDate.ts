@@ -0,0 +1,172 @@
+/* This module models "when it happened" dates for notes. Memories are often only remembered approximately ("summer 1985", "early 1970s", "childhood"), so a date keeps the user's wording plus an optional timestamp range used for sorting and scoring. */
+
+export type EventDatePrecision = 'day' | 'month' | 'season' | 'year' | 'decade' | 'range' | 'period'
+
+export interface EventDate {
+  label: string // The user's own wording, shown back to them
+  precision: EventDatePrecision
+  start: number | null // Inclusive range start (ms since epoch), null when the wording has no date
+  end: number | null // Inclusive range end (ms since epoch)
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december']
+
+// Northern-hemisphere seasons as [first month, month count]; winter runs into the next year
+const SEASONS: Record<string, [number, number]> = {
+  spring: [2, 3],
+  summer: [5, 3],
+  autumn: [8, 3],
+  fall: [8, 3],
+  winter: [11, 3],
+}
+
+// Sub-ranges for "early/mid/late" as [first offset, span] in months (years) or years (decades)
+const YEAR_PARTS: Record<string, [number, number]> = { early: [0, 4], mid: [4, 4], late: [8, 4] }
+const DECADE_PARTS: Record<string, [number, number]> = { early: [0, 4], mid: [3, 4], late: [6, 4] }
+
+const APPROXIMATE_PREFIX = /^(?:circa|around|about|approximately|approx\.?|c\.|ca\.?)\s+/
+
+/* Resolve a month name or its three-letter abbreviation to a 0-based index */
+function monthIndex(name: string): number {
+  const lower = name.toLowerCase()
+  if (lower.length < 3) {
+    return -1
+  }
+  return MONTHS.findIndex((month) => month.startsWith(lower))
+}
+
+/* Start of the given month, and the last millisecond of the month `count` months later */
+function monthRange(year: number, month: number, count: number): { start: number; end: number } {
+  return {
+    start: new Date(year, month, 1).getTime(),
+    end: new Date(year, month + count, 1).getTime() - 1,
+  }
+}
+
+function dayRange(year: number, month: number, day: number): { start: number; end: number } | null {
+  const date = new Date(year, month, day)
+  if (date.getMonth() !== month || date.getDate() !== day) {
+    return null
+  }
+  return { start: date.getTime(), end: new Date(year, month, day + 1).getTime() - 1 }
+}
+
+/**
+ * Parse free-form "when" text into an EventDate.
+ * Understands exact dates ("1985-06-12", "12 June 1985", "June 12, 1985"), months ("June 1985"),
+ * seasons ("summer 1985"), years with optional early/mid/late, decades ("early 1970s"),
+ * year ranges ("1985-1987") and "circa" prefixes. Anything else ("childhood") is kept as a
+ * label-only period without a range.
+ * @param text - What the user typed
+ * @returns EventDate, or null for empty input
+ */
+export function parseEventDate(text: string): EventDate | null {
+  const label = text.trim().replace(/\s+/g, ' ')
+  if (!label) {
+    return null
+  }
+
+  const normalized = label.toLowerCase().replace(APPROXIMATE_PREFIX, '')
+  let match: RegExpMatchArray | null
+
+  // 1985-06-12
+  if ((match = normalized.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/))) {
+    const range = dayRange(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    if (range) return { label, precision: 'day', ...range }
+  }
+
+  // 12 june 1985
+  if ((match = normalized.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]+)\.?,?\s+(\d{4})$/))) {
+    const month = monthIndex(match[2])
+    const range = month >= 0 ? dayRange(Number(match[3]), month, Number(match[1])) : null
+    if (range) return { label, precision: 'day', ...range }
+  }
+
+  // june 12, 1985
+  if ((match = normalized.match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/))) {
+    const month = monthIndex(match[1])
+    const range = month >= 0 ? dayRange(Number(match[3]), month, Number(match[2])) : null
+    if (range) return { label, precision: 'day', ...range }
+  }
+
+  // summer 1985 / june 1985 / early 1985
+  if ((match = normalized.match(/^([a-z]+)\.?\s+(?:of\s+)?(\d{4})$/))) {
+    const year = Number(match[2])
+    const season = SEASONS[match[1]]
+    if (season) {
+      return { label, precision: 'season', ...monthRange(year, season[0], season[1]) }
+    }
+    const yearPart = YEAR_PARTS[match[1]]
+    if (yearPart) {
+      return { label, precision: 'year', ...monthRange(year, yearPart[0], yearPart[1]) }
+    }
+    const month = monthIndex(match[1])
+    if (month >= 0) {
+      return { label, precision: 'month', ...monthRange(year, month, 1) }
+    }
+  }
+
+  // 1985
+  if ((match = normalized.match(/^(\d{4})$/))) {
+    return { label, precision: 'year', ...monthRange(Number(match[1]), 0, 12) }
+  }
+
+  // 1985-1987, 1985 to 1987
+  if ((match = normalized.match(/^(\d{4})\s*(?:-|–|to|until)\s*(\d{4})$/))) {
+    const first = Math.min(Number(match[1]), Number(match[2]))
+    const last = Math.max(Number(match[1]), Number(match[2]))
+    return { label, precision: 'range', ...monthRange(first, 0, (last - first + 1) * 12) }
+  }
+
+  // 1970s / early 1970s (two-digit decades like "the 70s" are ambiguous and stay label-only)
+  if ((match = normalized.match(/^(?:the\s+)?(?:(early|mid|late)[\s-]+)?(\d{3}0)'?s$/))) {
+    const decade = Number(match[2])
+    const [offset, span] = match[1] ? DECADE_PARTS[match[1]] : [0, 10]
+    return { label, precision: 'decade', ...monthRange(decade + offset, 0, span * 12) }
+  }
+
+  return { label, precision: 'period', start: null, end: null }
+}
+
+/* Midpoint of the date range, used where a single point in time is needed */
+export function eventDateMidpoint(eventDate: Pick<EventDate, 'start' | 'end'>): number | null {
+  if (eventDate.start === null || eventDate.end === null) {
+    return null
+  }
+  return Math.round((eventDate.start + eventDate.end) / 2)
+}
+
+/* Human readable description of what a parsed date covers, e.g. "Jun 1985 – Aug 1985" */
+export function describeEventDateRange(eventDate: EventDate): string | null {
+  if (eventDate.start === null || eventDate.end === null) {
+    return null
+  }
+  const start = new Date(eventDate.start)
+  const end = new Date(eventDate.end)
+  if (eventDate.precision === 'day') {
+    return start.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+  }
+  const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+  return format(start) === format(end) ? format(start) : `${format(start)} – ${format(end)}`
+}
+
+/* Stored columns of a note that make up its event date */
+export interface EventDateColumns {
+  eventDateLabel: string | null
+  eventDatePrecision: string | null
+  eventDateStart: number | null
+  eventDateEnd: number | null
+}
+
+/* Rebuild an EventDate from a note's columns, or null when the note has none */
+export function eventDateFromColumns(columns: EventDateColumns): EventDate | null {
+  if (!columns.eventDateLabel) {
+    return null
+  }
+  return {
+    label: columns.eventDateLabel,
+    precision: (columns.eventDatePrecision as EventDatePrecision | null) ?? 'period',
+    start: columns.eventDateStart,
+    end: columns.eventDateEnd,
+  }
+}
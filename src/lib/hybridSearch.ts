@@ -0,0 +1,69 @@
+/* This module implements hybrid note search: keyword (FTS5) hits and embedding similarity are fused with reciprocal-rank fusion, so "beach trip" also finds a note titled "Day at Brighton" */
+
+import { searchNotes, getNotesByIds } from '../database/notesOperations'
+import { type NoteWithDetails } from '../database/types'
+import { generateQueryEmbedding } from './createQueryEmbedding'
+import { findSimilarNotes } from './retrieveRelevantNotes'
+
+const HYBRID_SEARCH_CONFIG = {
+  RRF_K: 60,                     // Reciprocal-rank fusion constant, dampens the weight of top ranks
+  SIMILARITY_THRESHOLD: 0.4,     // Looser than chat retrieval: the list shows many results, chat uses one
+  MAX_SEMANTIC_RESULTS: 50,
+  MAX_RESULTS: 50,
+}
+
+// Why a note matched: its words, its meaning (note embedding) or a photo description (image embedding)
+export type SearchMatchSource = 'text' | 'meaning' | 'image'
+
+export interface HybridSearchResult extends NoteWithDetails {
+  matchedBy: SearchMatchSource[]
+  score: number // Fused RRF score, higher is better
+  titleHighlight?: string // Present for keyword matches
+  snippet?: string
+}
+
+/**
+ * Search notes by keywords and by meaning, fusing both rankings.
+ * Falls back to keyword-only results while the embedding model is unavailable.
+ * @param query - Raw search box text
+ */
+export async function hybridSearchNotes(query: string): Promise<HybridSearchResult[]> {
+  const [lexical, queryEmbedding] = await Promise.all([
+    searchNotes(query),
+    generateQueryEmbedding(query),
+  ])
+  const semantic = queryEmbedding
+    ? (await findSimilarNotes(queryEmbedding.embedding, HYBRID_SEARCH_CONFIG.SIMILARITY_THRESHOLD))
+        .slice(0, HYBRID_SEARCH_CONFIG.MAX_SEMANTIC_RESULTS)
+    : []
+
+  const results = new Map<number, HybridSearchResult>()
+  const rrf = (rank: number) => 1 / (HYBRID_SEARCH_CONFIG.RRF_K + rank + 1)
+
+  lexical.forEach((hit, rank) => {
+    const { rank: _bm25, ...note } = hit
+    results.set(hit.id, { ...note, matchedBy: ['text'], score: rrf(rank) })
+  })
+
+  // Notes only found by meaning are loaded in one batch
+  const semanticOnly = await getNotesByIds(semantic.map(match => match.noteId).filter(noteId => !results.has(noteId)))
+  const semanticNotes = new Map(semanticOnly.map(note => [note.id, note]))
+
+  for (const [rank, match] of semantic.entries()) {
+    const source: SearchMatchSource = match.matchType === 'image' ? 'image' : 'meaning'
+    const existing = results.get(match.noteId)
+    if (existing) {
+      existing.matchedBy.push(source)
+      existing.score += rrf(rank)
+      continue
+    }
+    const note = semanticNotes.get(match.noteId)
+    if (note) {
+      results.set(match.noteId, { ...note, matchedBy: [source], score: rrf(rank) })
+    }
+  }
+
+  return Array.from(results.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, HYBRID_SEARCH_CONFIG.MAX_RESULTS)
+}
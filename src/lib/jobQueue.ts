@@ -0,0 +1,207 @@
+/* This module runs background work on notes (embeddings, recall scripts) from the durable jobs table. A single worker runs one job at a time, so the models never compete for memory; it waits for the model a job needs, retries failures with exponential backoff, and picks up where it left off after the app is killed. At launch, a recovery pass queues work for notes still missing embeddings, transcripts or recall scripts */
+
+import { getDatabaseInstance } from '../database'
+import { enqueueJob, enqueueJobs, claimNextJob, completeJob, failJob, getNextJobRunAfter, requeueInterruptedJobs, countJobs } from '../database/jobsOperations'
+import { type Job, type JobType } from '../database/types'
+import ModelManager from '../model/ModelManager'
+import { embedNote } from './createNoteEmbeddings'
+import { generateRecallScript } from './recallScriptGenerator'
+
+const JOB_CONFIG = {
+  MAX_RETRIES: 2,                // After the first attempt fails
+  RETRY_DELAY_MS: 1000,          // Doubles after each failed attempt
+  MAX_RETRY_DELAY_MS: 5 * 60 * 1000,
+  EDIT_DELAY_MS: 300,            // Lets a burst of edits to one note run as a single job
+  RECOVERY_PRIORITY: 0,          // Catch-up work found at launch runs after work on notes the user just saved
+  PROGRESS_POLL_MS: 1000,        // How often runCatchUpJobs() checks how far the worker got
+}
+
+// What each kind of job runs, the model it needs, and its priority when queued for a saved note
+const JOB_HANDLERS: Record<JobType, { isReady: () => boolean; run: (noteId: number) => Promise<void>; priority: number }> = {
+  // Embeddings first: a new note should become searchable before it gets a recall script
+  embedNote: { isReady: () => ModelManager.isEmbeddingReady(), run: embedNote, priority: 2 },
+  recallScript: { isReady: () => ModelManager.isRecallReady(), run: generateRecallScript, priority: 1 },
+}
+
+let draining: Promise<void> | null = null
+let drainAgain = false
+let wakeTimer: ReturnType<typeof setTimeout> | null = null
+let paused = false
+
+/* Delay before retrying a job that failed its nth attempt */
+const retryDelay = (attempts: number) =>
+  Math.min(JOB_CONFIG.RETRY_DELAY_MS * 2 ** (attempts - 1), JOB_CONFIG.MAX_RETRY_DELAY_MS)
+
+/* Job types whose model is loaded */
+const readyJobTypes = () => (Object.keys(JOB_HANDLERS) as JobType[]).filter(type => JOB_HANDLERS[type].isReady())
+
+/* Run one job, recording the failure (and when to retry) if it throws */
+async function runJob(job: Job): Promise<void> {
+  try {
+    await JOB_HANDLERS[job.type].run(job.noteId)
+    await completeJob(job.id)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const retryAt = job.attempts <= JOB_CONFIG.MAX_RETRIES ? Date.now() + retryDelay(job.attempts) : null
+    await failJob(job.id, message, retryAt)
+  }
+}
+
+/* Run due jobs until none are left, then wake up when the next retry is due */
+async function drain(): Promise<void> {
+  if (wakeTimer) {
+    clearTimeout(wakeTimer)
+    wakeTimer = null
+  }
+  for (;;) {
+    if (paused) {
+      return
+    }
+    const types = readyJobTypes()
+    if (types.length === 0) {
+      return // Jobs wait in the table until their model is loaded
+    }
+    const job = await claimNextJob(types, Date.now())
+    if (!job) {
+      const nextRunAfter = await getNextJobRunAfter(types)
+      if (nextRunAfter !== null) {
+        wakeTimer = setTimeout(() => void runJobs(), Math.max(0, nextRunAfter - Date.now()))
+      }
+      return
+    }
+    await runJob(job)
+  }
+}
+
+/**
+ * Start the worker if it isn't running. Calling it while it runs makes it check the queue again when done,
+ * so jobs queued at any moment are picked up.
+ */
+export function runJobs(): Promise<void> {
+  if (paused) {
+    return Promise.resolve()
+  }
+  if (draining) {
+    drainAgain = true
+    return draining
+  }
+  draining = drain()
+    .catch(() => {
+      // Silent fail; jobs stay queued for the next run
+    })
+    .finally(() => {
+      draining = null
+      if (drainAgain) {
+        drainAgain = false
+        void runJobs()
+      }
+    })
+  return draining
+}
+
+/**
+ * Stop the worker from starting new jobs and wait for the running one to finish, e.g. before the database
+ * connection is closed. Queued jobs wait in the table until resumeJobs().
+ */
+export async function pauseJobs(): Promise<void> {
+  paused = true
+  if (wakeTimer) {
+    clearTimeout(wakeTimer)
+    wakeTimer = null
+  }
+  await draining
+}
+
+/* Let the worker run again after pauseJobs() */
+export function resumeJobs(): void {
+  paused = false
+  void runJobs()
+}
+
+/**
+ * Queue work on a note and wake the worker. Never throws: work that couldn't be queued
+ * is found again by the recovery pass at the next launch.
+ * @param noteId - Note that was saved or changed
+ * @param types - Kinds of work to queue
+ * @param options - `edited` delays the jobs briefly so rapid edits merge into one run
+ */
+export async function queueNoteJobs(noteId: number, types: JobType[], options: { edited?: boolean } = {}): Promise<void> {
+  try {
+    const runAfter = Date.now() + (options.edited ? JOB_CONFIG.EDIT_DELAY_MS : 0)
+    for (const type of types) {
+      await enqueueJob(type, noteId, JOB_HANDLERS[type].priority, runAfter)
+    }
+    void runJobs()
+  } catch (error) {
+    // Silent fail; background task
+  }
+}
+
+export interface CatchUpResult {
+  done: number
+  undone: number // Failed for good, or still queued when the worker stopped (model unloaded, worker paused); the queue keeps the latter
+}
+
+/**
+ * Queue catch-up work on many notes (e.g. re-embedding for a new model) and wait until the worker has run it,
+ * given up on it, or can't run it any more. The work runs one job at a time like any other, after work on notes the user just saved.
+ * @param type - Kind of work
+ * @param noteIds - Notes to work on
+ * @param onProgress - Called with how many of the notes are done so far
+ * @returns How many notes were done, and how many were left undone
+ */
+export async function runCatchUpJobs(type: JobType, noteIds: number[], onProgress: (done: number) => void = () => {}): Promise<CatchUpResult> {
+  if (noteIds.length === 0) {
+    return { done: 0, undone: 0 }
+  }
+  await enqueueJobs(type, noteIds, JOB_CONFIG.RECOVERY_PRIORITY, Date.now())
+  void runJobs()
+  for (;;) {
+    const open = await countJobs(type, noteIds, ['pending', 'running'])
+    // Without the model (or while paused) the worker runs nothing, so waiting longer wouldn't help
+    const stalled = paused || !JOB_HANDLERS[type].isReady()
+    if (open === 0 || stalled) {
+      const undone = open + await countJobs(type, noteIds, ['failed'])
+      onProgress(noteIds.length - undone)
+      return { done: noteIds.length - undone, undone }
+    }
+    onProgress(noteIds.length - open)
+    await new Promise(resolve => setTimeout(resolve, JOB_CONFIG.PROGRESS_POLL_MS))
+  }
+}
+
+/* Notes missing work of the given kind: whole-note or chunk embeddings (and transcripts, once the speech model is loaded), or a recall script */
+async function findNotesMissing(type: JobType): Promise<number[]> {
+  const db = getDatabaseInstance()
+  const query = type === 'embedNote'
+    ? `SELECT n.id
+       FROM notes n
+       WHERE n.deletedAt IS NULL AND (
+         NOT EXISTS (SELECT 1 FROM note_embeddings e WHERE e.noteId = n.id AND e.status = 'completed')
+         OR (NOT EXISTS (SELECT 1 FROM note_chunks c WHERE c.noteId = n.id)
+             AND (TRIM(n.content) <> '' OR EXISTS (SELECT 1 FROM transcripts tr WHERE tr.noteId = n.id AND tr.text <> '')))
+         ${ModelManager.isSpeechReady()
+           ? 'OR (n.audioUri IS NOT NULL AND NOT EXISTS (SELECT 1 FROM transcripts tr WHERE tr.noteId = n.id AND tr.audioUri = n.audioUri))'
+           : ''}
+       )`
+    : 'SELECT id FROM notes WHERE deletedAt IS NULL AND recallScript IS NULL'
+  const result = await db.execute(query)
+  return ((result.rows || []) as unknown as Array<{ id: number }>).map(row => row.id)
+}
+
+/**
+ * Launch recovery: requeue jobs interrupted when the app was killed, and queue work for notes
+ * saved while their model wasn't available (or before the queue existed). Then start the worker.
+ * @returns Number of jobs queued by the recovery pass
+ */
+export async function recoverJobs(): Promise<number> {
+  await requeueInterruptedJobs()
+  let queued = 0
+  for (const type of Object.keys(JOB_HANDLERS) as JobType[]) {
+    const noteIds = await findNotesMissing(type)
+    await enqueueJobs(type, noteIds, JOB_CONFIG.RECOVERY_PRIORITY, Date.now())
+    queued += noteIds.length
+  }
+  void runJobs()
+  return queued
+}
@@ -0,0 +1,254 @@
+/* This module keeps note photos and voice recordings in app-owned storage. Picker and recorder URIs usually point into OS caches that can be wiped at any time, so media is imported into the encrypted media vault, named by content hash (which also dedupes identical files) and removed once no note references it. Managed URIs under Paths.document/media are logical names for vault entries; screens show them through displayUri(), which decrypts a copy into a session cache that is wiped at launch and whenever the app locks. */
+
+import { File, Directory, Paths } from 'expo-file-system'
+import { getDatabaseInstance } from '../database'
+import { hasMedia, putMedia, readMedia, deleteMedia, listMediaPaths } from './mediaVault'
+import { getBackupMediaUris } from './backupManifest'
+
+export type MediaKind = 'image' | 'audio'
+
+const mediaDir = new Directory(Paths.document, 'media')
+const mediaKindDirs: Record<MediaKind, Directory> = {
+  image: new Directory(mediaDir, 'images'),
+  audio: new Directory(mediaDir, 'audio'),
+}
+// Plaintext copies of vault entries for the current session (images and audio players need a file URI)
+const sessionDir = new Directory(Paths.cache, 'media-session')
+const DEFAULT_EXTENSIONS: Record<MediaKind, string> = {
+  image: '.jpg',
+  audio: '.m4a',
+}
+
+/* Check whether a URI already points into the media store */
+export function isManagedMediaUri(uri: string): boolean {
+  return uri.startsWith(mediaDir.uri)
+}
+
+/* Vault path of a managed URI, e.g. "images/<hash>.jpg" */
+function vaultPath(uri: string): string {
+  return uri.slice(mediaDir.uri.length).replace(/^\/+/, '')
+}
+
+/* Name of a managed file's session copy; kind is kept in the name so images and audio with equal hashes don't collide */
+function sessionFile(uri: string): File {
+  return new File(sessionDir, vaultPath(uri).replace(/\//g, '-'))
+}
+
+/**
+ * Return a URI that components can load directly.
+ * Managed media is decrypted from the vault into the session cache on first use; anything else is returned unchanged.
+ * Files from before encryption that have not been moved into the vault yet are served from their old location.
+ * @param uri - URI as stored in the database
+ */
+export function displayUri(uri: string): string {
+  if (!isManagedMediaUri(uri)) {
+    return uri
+  }
+
+  try {
+    const copy = sessionFile(uri)
+    if (copy.exists) {
+      return copy.uri
+    }
+    const data = readMedia(vaultPath(uri))
+    if (!data) {
+      return uri
+    }
+    if (!sessionDir.exists) {
+      sessionDir.create({ intermediates: true })
+    }
+    copy.create()
+    copy.write(data, {})
+    return copy.uri
+  } catch (error) {
+    return uri
+  }
+}
+
+/* Remove decrypted session copies; called before unlock and when the app locks, so nothing readable outlives a session */
+export function clearMediaSession(): void {
+  try {
+    if (sessionDir.exists) {
+      sessionDir.delete()
+    }
+  } catch (error) {
+    // Cache directory, the OS may also clear it
+  }
+}
+
+/**
+ * Encrypt a file into the media store and return its permanent URI.
+ * Already-managed URIs are returned unchanged, and so are sources that no longer exist
+ * (the note keeps its broken reference so the UI can flag it instead of losing it silently).
+ * @param uri - Source file URI (camera, picker or recorder output)
+ * @param kind - Media category, decides the target folder
+ */
+export function importMedia(uri: string, kind: MediaKind): string {
+  if (isManagedMediaUri(uri)) {
+    return uri
+  }
+
+  const source = new File(uri)
+  if (!source.exists) {
+    return uri
+  }
+
+  const hash = source.md5
+  if (!hash) {
+    throw new Error(`Unable to hash media file: ${uri}`)
+  }
+
+  const target = new File(mediaKindDirs[kind], `${hash}${source.extension || DEFAULT_EXTENSIONS[kind]}`)
+  if (!hasMedia(vaultPath(target.uri))) {
+    putMedia(vaultPath(target.uri), source.bytesSync())
+  }
+  return target.uri
+}
+
+/* Delete a managed file from the vault, plus any leftover plaintext or session copy */
+function deleteManagedMedia(uri: string): void {
+  deleteMedia(vaultPath(uri))
+  for (const file of [new File(uri), sessionFile(uri)]) {
+    if (file.exists) {
+      file.delete()
+    }
+  }
+}
+
+/**
+ * Collect every media URI a database points at.
+ * @param schema - Attached database to read, e.g. a backup snapshot; defaults to the live database
+ */
+export async function getReferencedMediaUris(schema = 'main'): Promise<Set<string>> {
+  const db = getDatabaseInstance()
+  const result = await db.execute(
+    `SELECT uri FROM ${schema}.images
+     UNION
+     SELECT audioUri AS uri FROM ${schema}.notes WHERE audioUri IS NOT NULL
+     UNION
+     SELECT portraitUri AS uri FROM ${schema}.people WHERE portraitUri IS NOT NULL
+     UNION
+     SELECT coverUri AS uri FROM ${schema}.collections WHERE coverUri IS NOT NULL
+     UNION
+     SELECT audioUri AS uri FROM ${schema}.note_revisions WHERE audioUri IS NOT NULL
+     UNION
+     SELECT json_extract(image.value, '$.uri') AS uri FROM ${schema}.note_revisions, json_each(note_revisions.images) AS image`
+  )
+  const rows = (result.rows || []) as unknown as Array<{ uri: string }>
+  return new Set(rows.map((row) => row.uri))
+}
+
+/* Media that must be kept: referenced by the live database or by a backup that may be restored */
+async function getProtectedMediaUris(): Promise<Set<string>> {
+  const protectedUris = await getReferencedMediaUris()
+  for (const uri of getBackupMediaUris()) {
+    protectedUris.add(uri)
+  }
+  return protectedUris
+}
+
+/**
+ * Delete managed files that are no longer referenced by any note or backup.
+ * Call after the rows pointing at them have been removed or replaced.
+ * @param uris - Candidate URIs; unmanaged or still-referenced ones are left alone
+ */
+export async function releaseMedia(uris: Array<string | null | undefined>): Promise<void> {
+  const candidates = uris.filter((uri): uri is string => !!uri && isManagedMediaUri(uri))
+  if (candidates.length === 0) {
+    return
+  }
+
+  const referenced = await getProtectedMediaUris()
+  for (const uri of candidates) {
+    if (referenced.has(uri)) continue
+    try {
+      deleteManagedMedia(uri)
+    } catch (error) {
+      // Orphan will be picked up by the next garbage collection
+    }
+  }
+}
+
+/* Return the subset of URIs whose files are missing from the vault or disk */
+export function findMissingMedia(uris: Array<string | null | undefined>): Set<string> {
+  const missing = new Set<string>()
+  for (const uri of uris) {
+    if (!uri) continue
+    try {
+      const stored = isManagedMediaUri(uri) ? hasMedia(vaultPath(uri)) || new File(uri).exists : new File(uri).exists
+      if (!stored) {
+        missing.add(uri)
+      }
+    } catch (error) {
+      missing.add(uri)
+    }
+  }
+  return missing
+}
+
+/* Move media that older notes still reference from cache locations into the store */
+async function adoptExternalMedia(): Promise<void> {
+  const db = getDatabaseInstance()
+
+  const images = await db.execute('SELECT id, uri FROM images')
+  for (const row of (images.rows || []) as unknown as Array<{ id: number; uri: string }>) {
+    if (isManagedMediaUri(row.uri)) continue
+    const managedUri = importMedia(row.uri, 'image')
+    if (managedUri !== row.uri) {
+      await db.execute('UPDATE images SET uri = ? WHERE id = ?', [managedUri, row.id])
+    }
+  }
+
+  const audio = await db.execute('SELECT id, audioUri FROM notes WHERE audioUri IS NOT NULL')
+  for (const row of (audio.rows || []) as unknown as Array<{ id: number; audioUri: string }>) {
+    if (isManagedMediaUri(row.audioUri)) continue
+    const managedUri = importMedia(row.audioUri, 'audio')
+    if (managedUri !== row.audioUri) {
+      await db.execute('UPDATE notes SET audioUri = ? WHERE id = ?', [managedUri, row.id])
+    }
+  }
+}
+
+/* Move plaintext files written before encryption existed into the vault. URIs stay the same, so no rows change */
+function encryptLegacyMedia(): void {
+  for (const dir of Object.values(mediaKindDirs)) {
+    if (!dir.exists) continue
+    for (const entry of dir.list()) {
+      if (!(entry instanceof File)) continue
+      try {
+        if (!hasMedia(vaultPath(entry.uri))) {
+          putMedia(vaultPath(entry.uri), entry.bytesSync())
+        }
+        entry.delete()
+      } catch (error) {
+        // Try again on next launch
+      }
+    }
+  }
+}
+
+/* Delete vault entries that no note or backup references */
+async function collectOrphanedMedia(): Promise<void> {
+  const referenced = await getProtectedMediaUris()
+  const referencedPaths = new Set(Array.from(referenced).filter(isManagedMediaUri).map(vaultPath))
+
+  for (const path of listMediaPaths()) {
+    if (referencedPaths.has(path)) continue
+    try {
+      deleteMedia(path)
+    } catch (error) {
+      // Try again on next launch
+    }
+  }
+}
+
+/* Post-unlock maintenance: encrypt legacy files, adopt cache media, then garbage-collect orphaned entries */
+export async function runMediaMaintenance(): Promise<void> {
+  try {
+    encryptLegacyMedia()
+    await adoptExternalMedia()
+    await collectOrphanedMedia()
+  } catch (error) {
+    // Background task - fail silently
+  }
+}
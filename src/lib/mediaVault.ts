@@ -0,0 +1,74 @@
+/* This module stores the bytes of note photos, recordings and portraits in a SQLCipher database encrypted with the same data key as the main database. mediaStore.ts decides what goes in and out; paths here are relative to the media store (e.g. "images/<hash>.jpg") */
+
+import { open, type DB } from '@op-engineering/op-sqlite'
+
+const VAULT_NAME = 'memoriq-media.db'
+
+let vault: DB | null = null
+
+function getVault(): DB {
+  if (!vault) {
+    throw new Error('Media vault not opened. Unlock the app first.')
+  }
+  return vault
+}
+
+/* Open (or create) the vault with the data key. Called once after a successful unlock */
+export function openMediaVault(encryptionKey: string): void {
+  if (vault) {
+    return
+  }
+
+  const db = open({ name: VAULT_NAME, encryptionKey })
+  try {
+    db.executeSync(
+      `CREATE TABLE IF NOT EXISTS media (
+        path TEXT PRIMARY KEY NOT NULL,
+        data BLOB NOT NULL,
+        size INTEGER NOT NULL,
+        createdAt INTEGER NOT NULL
+      )`
+    )
+  } catch (error) {
+    db.close()
+    throw error
+  }
+  vault = db
+}
+
+export function closeMediaVault(): void {
+  if (vault) {
+    vault.close()
+    vault = null
+  }
+}
+
+export function hasMedia(path: string): boolean {
+  const result = getVault().executeSync('SELECT 1 FROM media WHERE path = ?', [path])
+  return (result.rows || []).length > 0
+}
+
+/* Store a file's bytes; existing entries are kept since paths are content hashes */
+export function putMedia(path: string, data: Uint8Array): void {
+  getVault().executeSync('INSERT OR IGNORE INTO media (path, data, size, createdAt) VALUES (?, ?, ?, ?)', [
+    path,
+    data,
+    data.byteLength,
+    Date.now(),
+  ])
+}
+
+export function readMedia(path: string): Uint8Array | null {
+  const result = getVault().executeSync('SELECT data FROM media WHERE path = ?', [path])
+  const row = (result.rows || [])[0] as unknown as { data: ArrayBuffer } | undefined
+  return row ? new Uint8Array(row.data) : null
+}
+
+export function deleteMedia(path: string): void {
+  getVault().executeSync('DELETE FROM media WHERE path = ?', [path])
+}
+
+export function listMediaPaths(): string[] {
+  const result = getVault().executeSync('SELECT path FROM media')
+  return ((result.rows || []) as unknown as Array<{ path: string }>).map((row) => row.path)
+}
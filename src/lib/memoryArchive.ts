@@ -0,0 +1,487 @@
+/* This module exports all memories (notes, tags, people, places, collections, note links, photos, recordings, transcripts, recall scripts and optionally embeddings) into an archive folder, and merges such an archive back into the database. The folder holds the records as JSON and every photo and recording as its own file, so neither side ever holds all media in memory. Notes in the trash and revision history are not exported */
+
+import { type Transaction } from '@op-engineering/op-sqlite'
+import { File, Directory, Paths } from 'expo-file-system'
+import { getDatabaseInstance } from '../database'
+import { getAllNotes } from '../database/notesOperations'
+import { getAllTags } from '../database/tagsOperations'
+import { getAllPeople } from '../database/peopleOperations'
+import { getAllPlaces } from '../database/placesOperations'
+import { markNotesChanged } from '../database/notesRevision'
+import { type Collection } from '../database/types'
+import {
+  archiveSchema, ARCHIVE_FORMAT, ARCHIVE_VERSION, SUPPORTED_ARCHIVE_VERSIONS,
+  type MemoryArchive, type ArchiveMedia, type ArchiveEmbedding, type ArchiveTranscript,
+} from './archiveSchema'
+import { importMedia, displayUri, type MediaKind } from './mediaStore'
+import { embeddingToBlob } from './createNoteEmbeddings'
+import { queueNoteJobs } from './jobQueue'
+import { blobToEmbedding } from './vectorIndex'
+
+export interface ExportOptions {
+  includeEmbeddings: boolean // Larger file, but the importing device skips recomputing them
+}
+
+// Layout of an archive folder
+const ARCHIVE_FILE = 'archive.json'
+const MEDIA_FOLDER = 'media'
+// Archives before version 3 were a single JSON file with this name, media embedded as base64
+const SINGLE_FILE_ARCHIVE = /^memoriq-archive-.*\.json$/
+
+export interface ExportResult {
+  folder: Directory
+  noteCount: number
+  mediaCount: number
+  missingMediaCount: number // Attachments whose files were already gone; exported without them
+}
+
+export type ArchiveEntityKind = 'note' | 'tag' | 'person' | 'place' | 'collection'
+
+// How an archive record ended up in this database
+export interface ArchiveIdMapping {
+  kind: ArchiveEntityKind
+  archiveId: number
+  localId: number
+  label: string
+  status: 'created' | 'matched' | 'duplicate' // matched: merged into an existing record; duplicate: note already present, skipped
+}
+
+export interface ImportReport {
+  notesImported: number
+  notesSkipped: number
+  mappings: ArchiveIdMapping[]
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/* Load stored embeddings as plain arrays, keyed by note or image ID */
+async function loadEmbeddings(table: 'note_embeddings' | 'image_embeddings'): Promise<Map<number, ArchiveEmbedding>> {
+  const db = getDatabaseInstance()
+  const query = table === 'note_embeddings'
+    ? "SELECT noteId AS ownerId, embedding, textHash AS hash, embeddingModelId, embeddingModelVersion FROM note_embeddings WHERE status = 'completed'"
+    : "SELECT imageId AS ownerId, embedding, descriptionHash AS hash, embeddingModelId, embeddingModelVersion FROM image_embeddings WHERE status = 'completed'"
+  const result = await db.execute(query)
+  const rows = (result.rows || []) as unknown as Array<{
+    ownerId: number
+    embedding: unknown
+    hash: string
+    embeddingModelId: string | null
+    embeddingModelVersion: number | null
+  }>
+  return new Map(rows.map((row) => [row.ownerId, {
+    vector: Array.from(blobToEmbedding(row.embedding)),
+    hash: row.hash,
+    modelId: row.embeddingModelId ?? undefined,
+    modelVersion: row.embeddingModelVersion ?? undefined,
+  }]))
+}
+
+/* Load stored transcripts, keyed by note ID, with the recording each one belongs to */
+async function loadTranscripts(): Promise<Map<number, ArchiveTranscript & { audioUri: string }>> {
+  const db = getDatabaseInstance()
+  const result = await db.execute('SELECT noteId, audioUri, status, segments, language, createdAt FROM transcripts')
+  const rows = (result.rows || []) as unknown as Array<Omit<ArchiveTranscript, 'segments'> & { noteId: number; audioUri: string; segments: string }>
+  return new Map(rows.map(({ noteId, segments, ...transcript }) => [noteId, { ...transcript, segments: JSON.parse(segments) }]))
+}
+
+/* Load collections with their note IDs in collection order */
+async function loadCollections(): Promise<Array<Collection & { noteIds: number[] }>> {
+  const db = getDatabaseInstance()
+  const collections = await db.execute('SELECT id, name, description, coverUri, createdAt, updatedAt FROM collections ORDER BY id')
+  const members = await db.execute('SELECT collectionId, noteId FROM collection_notes ORDER BY collectionId, position')
+  const noteIds = new Map<number, number[]>()
+  for (const row of (members.rows || []) as unknown as Array<{ collectionId: number; noteId: number }>) {
+    noteIds.set(row.collectionId, [...(noteIds.get(row.collectionId) ?? []), row.noteId])
+  }
+  return ((collections.rows || []) as unknown as Collection[]).map((collection) => ({ ...collection, noteIds: noteIds.get(collection.id) ?? [] }))
+}
+
+/**
+ * Collect every memory into an archive object, writing media files into the given folder as they are reached.
+ * Each file is written once and shared between notes that use it.
+ * @param options - Export options
+ * @param mediaFolder - Folder that receives the media files, named by their archive ID
+ */
+async function buildArchive(options: ExportOptions, mediaFolder: Directory): Promise<{ archive: MemoryArchive; missingMediaCount: number }> {
+  const [notes, tags, people, places] = await Promise.all([getAllNotes(), getAllTags(), getAllPeople(), getAllPlaces()])
+  const noteEmbeddings = options.includeEmbeddings ? await loadEmbeddings('note_embeddings') : new Map<number, ArchiveEmbedding>()
+  const imageEmbeddings = options.includeEmbeddings ? await loadEmbeddings('image_embeddings') : new Map<number, ArchiveEmbedding>()
+  const transcripts = await loadTranscripts()
+  const linksResult = await getDatabaseInstance().execute('SELECT sourceNoteId, targetNoteId, relation, createdAt FROM note_links ORDER BY id')
+  const links = (linksResult.rows || []) as unknown as MemoryArchive['links']
+  const collections = await loadCollections()
+  // Links and collection entries pointing at notes in the trash are left out with them
+  const exportedNoteIds = new Set(notes.map((note) => note.id))
+
+  const media = new Map<string, ArchiveMedia>()
+  let missingMediaCount = 0
+
+  // Write a file once and return its archive ID, or null when the file is gone
+  const addMedia = (uri: string | null, kind: MediaKind): string | null => {
+    if (!uri) return null
+    const file = new File(uri)
+    if (media.has(file.name)) return file.name
+    let bytes: Uint8Array
+    try {
+      // Managed media lives in the encrypted vault; read it through a decrypted session copy
+      const readable = new File(displayUri(uri))
+      if (!readable.exists) {
+        missingMediaCount++
+        return null
+      }
+      bytes = readable.bytesSync()
+    } catch (error) {
+      missingMediaCount++
+      return null
+    }
+    // One file at a time, so memory use stays at the size of the largest one
+    mediaFolder.createFile(file.name, null).write(bytes, {})
+    media.set(file.name, { id: file.name, kind, extension: file.extension })
+    return file.name
+  }
+
+  // A transcript is exported with the recording it was made from
+  const transcriptFor = (noteId: number, audioUri: string | null, audioMediaId: string | null): ArchiveTranscript | null => {
+    const transcript = transcripts.get(noteId)
+    if (!transcript || !audioMediaId || transcript.audioUri !== audioUri) return null
+    const { audioUri: _, ...rest } = transcript
+    return rest
+  }
+
+  const archive: MemoryArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    includesEmbeddings: options.includeEmbeddings,
+    media: [],
+    tags: tags.map(({ id, name, color }) => ({ id, name, color })),
+    people: people.map((person) => ({
+      id: person.id,
+      name: person.name,
+      relationship: person.relationship,
+      portraitMediaId: addMedia(person.portraitUri, 'image'),
+      createdAt: person.createdAt,
+      updatedAt: person.updatedAt,
+    })),
+    places: places.map(({ noteCount: _, ...place }) => place),
+    notes: notes.map((note) => {
+      const audioMediaId = addMedia(note.audioUri, 'audio')
+      return {
+        id: note.id,
+        title: note.title,
+        content: note.content,
+        audioMediaId,
+        recallScript: note.recallScript,
+        lastShownInReminisce: note.lastShownInReminisce,
+        eventDateLabel: note.eventDateLabel,
+        eventDatePrecision: note.eventDatePrecision,
+        eventDateStart: note.eventDateStart,
+        eventDateEnd: note.eventDateEnd,
+        placeId: note.placeId,
+        tagIds: note.tags.map((tag) => tag.id),
+        personIds: note.people.map((person) => person.id),
+        images: note.images.flatMap((image) => {
+          const mediaId = addMedia(image.uri, 'image')
+          return mediaId
+            ? [{ mediaId, description: image.description, aiDescription: image.aiDescription, embedding: imageEmbeddings.get(image.id) ?? null }]
+            : []
+        }),
+        transcript: transcriptFor(note.id, note.audioUri, audioMediaId),
+        embedding: noteEmbeddings.get(note.id) ?? null,
+        createdAt: note.createdAt,
+        updatedAt: note.updatedAt,
+      }
+    }),
+    links: links.filter((link) => exportedNoteIds.has(link.sourceNoteId) && exportedNoteIds.has(link.targetNoteId)),
+    collections: collections.map((collection) => ({
+      id: collection.id,
+      name: collection.name,
+      description: collection.description,
+      coverMediaId: addMedia(collection.coverUri, 'image'),
+      noteIds: collection.noteIds.filter((noteId) => exportedNoteIds.has(noteId)),
+      createdAt: collection.createdAt,
+      updatedAt: collection.updatedAt,
+    })),
+  }
+  archive.media = Array.from(media.values())
+  return { archive, missingMediaCount }
+}
+
+/**
+ * Write a full archive as a new folder inside the given one. A failed export removes the partial folder.
+ * @param destination - Folder picked by the user (may be a storage-access-framework folder on Android)
+ * @param options - Export options
+ */
+export async function exportArchive(destination: Directory, options: ExportOptions): Promise<ExportResult> {
+  const now = Date.now()
+  const folder = destination.createDirectory(`memoriq-archive-${new Date(now).toISOString().slice(0, 10)}-${now}`)
+  try {
+    const { archive, missingMediaCount } = await buildArchive(options, folder.createDirectory(MEDIA_FOLDER))
+    folder.createFile(ARCHIVE_FILE, 'application/json').write(JSON.stringify(archive), {})
+    return { folder, noteCount: archive.notes.length, mediaCount: archive.media.length, missingMediaCount }
+  } catch (error) {
+    folder.delete()
+    throw error
+  }
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/* Parse and validate archive text. Throws with a readable reason when the file is not a usable archive */
+export function parseArchive(text: string): MemoryArchive {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch (error) {
+    throw new Error('This file is not a memory archive (invalid JSON)')
+  }
+  if (typeof json === 'object' && json !== null && 'version' in json && !SUPPORTED_ARCHIVE_VERSIONS.includes(json.version as number)) {
+    throw new Error(`This archive was made by a different version of the app (format version ${String(json.version)})`)
+  }
+  const parsed = archiveSchema.safeParse(json)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new Error(`This file is not a valid memory archive: ${issue.path.join('.') || 'archive'} - ${issue.message}`)
+  }
+  return parsed.data
+}
+
+/* Files directly inside a folder, by name; storage-access-framework folders can be listed but not joined with paths */
+function filesByName(folder: Directory): Map<string, File> {
+  return new Map(folder.list().flatMap((entry) => (entry instanceof File ? [[entry.name, entry] as const] : [])))
+}
+
+/**
+ * Read and validate the archive in a folder picked by the user: either a folder written by exportArchive, or a folder
+ * holding single-file archives from before version 3 (the newest one is read).
+ * @param folder - Picked folder
+ */
+export async function readArchive(folder: Directory): Promise<MemoryArchive> {
+  const files = filesByName(folder)
+  const singleFile = Array.from(files.keys()).filter((name) => SINGLE_FILE_ARCHIVE.test(name)).sort().pop()
+  const file = files.get(ARCHIVE_FILE) ?? (singleFile ? files.get(singleFile) : undefined)
+  if (!file) {
+    throw new Error('This folder is not a memory archive. Pick a memoriq-archive folder made by Export')
+  }
+  return parseArchive(await file.text())
+}
+
+/* First row of a lookup query, or undefined */
+async function findId(tx: Transaction, query: string, params: Array<string | number | null>): Promise<number | undefined> {
+  const result = await tx.execute(query, params)
+  return (result.rows?.[0] as { id: number } | undefined)?.id
+}
+
+/**
+ * Merge an archive into the database.
+ * Tags, people, places and collections are matched to existing ones by name (people also by relationship,
+ * places also by address); notes already present (same title, text and creation time) are skipped, but
+ * links and collection entries still reach them. A matched collection gets the archive's notes appended.
+ * Everything is written in one transaction, so a failing import leaves the database untouched.
+ * @param archive - Validated archive, see readArchive
+ * @param folder - Folder the archive was read from, holding its media files
+ */
+export async function importArchive(archive: MemoryArchive, folder: Directory): Promise<ImportReport> {
+  const db = getDatabaseInstance()
+  const mediaById = new Map(archive.media.map((media) => [media.id, media]))
+  // Single-file archives from before version 3 have no media folder
+  const mediaFolder = folder.list().find((entry) => entry instanceof Directory && entry.name === MEDIA_FOLDER)
+  const mediaFiles = mediaFolder instanceof Directory ? filesByName(mediaFolder) : new Map<string, File>()
+  const importedMedia = new Map<string, string>()
+
+  // Copy an archived file into the media store on first use; returns its local URI
+  const resolveMedia = (mediaId: string | null): string | null => {
+    if (!mediaId) return null
+    const cached = importedMedia.get(mediaId)
+    if (cached) return cached
+    const media = mediaById.get(mediaId)!
+    let uri: string
+    if (media.data === undefined) {
+      const file = mediaFiles.get(media.id)
+      if (!file) {
+        throw new Error(`This archive is missing the file ${MEDIA_FOLDER}/${media.id}`)
+      }
+      uri = importMedia(file.uri, media.kind)
+    } else {
+      const temp = new File(Paths.cache, `archive-import-${media.id}${media.extension}`)
+      temp.write(media.data, { encoding: 'base64' })
+      uri = importMedia(temp.uri, media.kind)
+      try {
+        temp.delete()
+      } catch (error) {
+        // Cache files are cleaned up by the OS eventually
+      }
+    }
+    importedMedia.set(mediaId, uri)
+    return uri
+  }
+
+  const mappings: ArchiveIdMapping[] = []
+  const tagIds = new Map<number, number>()
+  const personIds = new Map<number, number>()
+  const placeIds = new Map<number, number>()
+  const noteIds = new Map<number, number>() // Imported and duplicate notes
+  const importedNoteIds: number[] = []
+
+  await db.transaction(async (tx) => {
+    for (const tag of archive.tags) {
+      const existing = await findId(tx, 'SELECT id FROM tags WHERE name = ? COLLATE NOCASE', [tag.name])
+      const localId = existing ?? (await tx.execute('INSERT INTO tags (name, color) VALUES (?, ?)', [tag.name, tag.color])).insertId!
+      tagIds.set(tag.id, localId)
+      mappings.push({ kind: 'tag', archiveId: tag.id, localId, label: tag.name, status: existing ? 'matched' : 'created' })
+    }
+
+    for (const person of archive.people) {
+      const existing = await findId(
+        tx,
+        'SELECT id FROM people WHERE name = ? COLLATE NOCASE AND IFNULL(relationship, \'\') = ? COLLATE NOCASE',
+        [person.name, person.relationship ?? '']
+      )
+      const localId = existing ?? (await tx.execute(
+        'INSERT INTO people (name, relationship, portraitUri, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+        [person.name, person.relationship, resolveMedia(person.portraitMediaId), person.createdAt, person.updatedAt]
+      )).insertId!
+      personIds.set(person.id, localId)
+      mappings.push({ kind: 'person', archiveId: person.id, localId, label: person.name, status: existing ? 'matched' : 'created' })
+    }
+
+    for (const place of archive.places) {
+      const existing = await findId(
+        tx,
+        'SELECT id FROM places WHERE name = ? COLLATE NOCASE AND IFNULL(address, \'\') = ? COLLATE NOCASE',
+        [place.name, place.address ?? '']
+      )
+      const localId = existing ?? (await tx.execute(
+        'INSERT INTO places (name, type, address, latitude, longitude, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [place.name, place.type, place.address, place.latitude, place.longitude, place.createdAt, place.updatedAt]
+      )).insertId!
+      placeIds.set(place.id, localId)
+      mappings.push({ kind: 'place', archiveId: place.id, localId, label: place.name, status: existing ? 'matched' : 'created' })
+    }
+
+    for (const note of archive.notes) {
+      const duplicate = await findId(
+        tx,
+        'SELECT id FROM notes WHERE title = ? AND content = ? AND createdAt = ?',
+        [note.title, note.content, note.createdAt]
+      )
+      if (duplicate) {
+        noteIds.set(note.id, duplicate)
+        mappings.push({ kind: 'note', archiveId: note.id, localId: duplicate, label: note.title, status: 'duplicate' })
+        continue
+      }
+
+      const audioUri = resolveMedia(note.audioMediaId)
+      const result = await tx.execute(
+        `INSERT INTO notes (title, content, audioUri, recallScript, lastShownInReminisce, eventDateLabel, eventDatePrecision, eventDateStart, eventDateEnd, placeId, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          note.title,
+          note.content,
+          audioUri,
+          note.recallScript,
+          note.lastShownInReminisce,
+          note.eventDateLabel,
+          note.eventDatePrecision,
+          note.eventDateStart,
+          note.eventDateEnd,
+          note.placeId !== null ? placeIds.get(note.placeId)! : null,
+          note.createdAt,
+          note.updatedAt,
+        ]
+      )
+      const noteId = result.insertId!
+      noteIds.set(note.id, noteId)
+      importedNoteIds.push(noteId)
+      mappings.push({ kind: 'note', archiveId: note.id, localId: noteId, label: note.title, status: 'created' })
+
+      for (const tagId of note.tagIds) {
+        await tx.execute('INSERT OR IGNORE INTO note_tags (noteId, tagId) VALUES (?, ?)', [noteId, tagIds.get(tagId)!])
+      }
+      for (const personId of note.personIds) {
+        await tx.execute('INSERT OR IGNORE INTO note_people (noteId, personId) VALUES (?, ?)', [noteId, personIds.get(personId)!])
+      }
+
+      for (const image of note.images) {
+        const imageResult = await tx.execute(
+          'INSERT INTO images (noteId, uri, description, aiDescription) VALUES (?, ?, ?, ?)',
+          [noteId, resolveMedia(image.mediaId), image.description, image.aiDescription]
+        )
+        if (image.embedding) {
+          await tx.execute(
+            "INSERT INTO image_embeddings (imageId, description, embedding, embeddingDimensions, descriptionHash, status, createdAt, embeddingModelId, embeddingModelVersion) VALUES (?, ?, ?, ?, ?, 'completed', ?, ?, ?)",
+            [
+              imageResult.insertId!, image.description.trim(), embeddingToBlob(image.embedding.vector), image.embedding.vector.length,
+              image.embedding.hash, Date.now(), image.embedding.modelId ?? null, image.embedding.modelVersion ?? null,
+            ]
+          )
+        }
+      }
+      if (note.transcript && audioUri) {
+        await tx.execute(
+          'INSERT INTO transcripts (noteId, audioUri, status, text, segments, language, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          [
+            noteId, audioUri, note.transcript.status, note.transcript.segments.map((segment) => segment.text).join(' '),
+            JSON.stringify(note.transcript.segments), note.transcript.language, note.transcript.createdAt,
+          ]
+        )
+      }
+      if (note.embedding) {
+        await tx.execute(
+          "INSERT INTO note_embeddings (noteId, embedding, embeddingDimensions, textHash, status, createdAt, embeddingModelId, embeddingModelVersion) VALUES (?, ?, ?, ?, 'completed', ?, ?, ?)",
+          [
+            noteId, embeddingToBlob(note.embedding.vector), note.embedding.vector.length, note.embedding.hash, Date.now(),
+            note.embedding.modelId ?? null, note.embedding.modelVersion ?? null,
+          ]
+        )
+      }
+    }
+
+    for (const link of archive.links) {
+      const sourceNoteId = noteIds.get(link.sourceNoteId)!
+      const targetNoteId = noteIds.get(link.targetNoteId)!
+      if (sourceNoteId === targetNoteId) continue // Both ends were duplicates of the same note
+      await tx.execute(
+        'INSERT OR IGNORE INTO note_links (sourceNoteId, targetNoteId, relation, createdAt) VALUES (?, ?, ?, ?)',
+        [sourceNoteId, targetNoteId, link.relation, link.createdAt]
+      )
+    }
+
+    for (const collection of archive.collections) {
+      const existing = await findId(tx, 'SELECT id FROM collections WHERE name = ? COLLATE NOCASE', [collection.name])
+      const localId = existing ?? (await tx.execute(
+        'INSERT INTO collections (name, description, coverUri, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+        [collection.name, collection.description, resolveMedia(collection.coverMediaId), collection.createdAt, collection.updatedAt]
+      )).insertId!
+      mappings.push({ kind: 'collection', archiveId: collection.id, localId, label: collection.name, status: existing ? 'matched' : 'created' })
+
+      // Append after the notes already in it, keeping the archive's order
+      const last = await tx.execute('SELECT COALESCE(MAX(position), -1) AS last FROM collection_notes WHERE collectionId = ?', [localId])
+      let position = last.rows?.[0]?.last as number
+      for (const noteId of collection.noteIds) {
+        const inserted = await tx.execute(
+          'INSERT OR IGNORE INTO collection_notes (collectionId, noteId, position, addedAt) VALUES (?, ?, ?, ?)',
+          [localId, noteIds.get(noteId)!, position + 1, Date.now()]
+        )
+        if (inserted.rowsAffected > 0) position++
+      }
+    }
+  })
+
+  markNotesChanged()
+
+  // Embeddings missing from the archive, or whose text changed when tags were merged, are recomputed in the background
+  for (const noteId of importedNoteIds) {
+    await queueNoteJobs(noteId, ['embedNote'])
+  }
+
+  return {
+    notesImported: importedNoteIds.length,
+    notesSkipped: archive.notes.length - importedNoteIds.length,
+    mappings,
+  }
+}
@@ -0,0 +1,269 @@
+/* This module turns a selection of notes into a printable "memory book": a PDF with a cover, contents and one chapter per year or tag. The book is laid out as a self-contained HTML document (photos embedded) whose page breaks and print margins are set in CSS, then printed to PDF on the device */
+
+import { File, Directory } from 'expo-file-system'
+import * as Print from 'expo-print'
+import { getAllNotes } from '../database/notesOperations'
+import { type NoteWithDetails } from '../database/types'
+import { displayUri } from './mediaStore'
+
+export type MemoryBookLayout = 'standard' | 'large-print'
+export type MemoryBookGrouping = 'year' | 'tag'
+
+export interface MemoryBookFilters {
+  tagIds?: number[] // Notes with any of these tags
+  personIds?: number[] // Notes with any of these people
+  from?: number // Inclusive timeline range (ms since epoch), as in NoteFilters
+  to?: number
+}
+
+export interface MemoryBookOptions {
+  title: string
+  layout: MemoryBookLayout
+  groupBy: MemoryBookGrouping
+  noteIds: number[] // Notes to include, usually the result of selectMemoryBookNotes minus any the user unticked
+}
+
+export interface MemoryBookResult {
+  file: File
+  noteCount: number
+  chapterCount: number
+  pageCount: number
+  missingPhotoCount: number
+}
+
+interface Chapter {
+  title: string
+  notes: NoteWithDetails[]
+}
+
+const UNTAGGED_CHAPTER = 'Other Memories'
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.heic': 'image/heic',
+}
+
+// Same position the notes list sorts by: when it happened if known, else when it was written
+const timelineAt = (note: NoteWithDetails) => note.eventDateStart ?? note.createdAt
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/* Paragraphs separated by blank lines; single line breaks are kept */
+function paragraphs(text: string, className?: string): string {
+  const attribute = className ? ` class="${className}"` : ''
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => `<p${attribute}>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n')
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+
+/**
+ * Find the notes a memory book would contain, oldest first. Notes in the trash are never included.
+ * @param filters - Tag, people and date filters; omitted filters match everything
+ */
+export async function selectMemoryBookNotes(filters: MemoryBookFilters): Promise<NoteWithDetails[]> {
+  const notes = await getAllNotes()
+  return notes
+    .filter((note) => !filters.tagIds?.length || note.tags.some((tag) => filters.tagIds!.includes(tag.id)))
+    .filter((note) => !filters.personIds?.length || note.people.some((person) => filters.personIds!.includes(person.id)))
+    .filter((note) => filters.from === undefined || timelineAt(note) >= filters.from)
+    .filter((note) => filters.to === undefined || timelineAt(note) <= filters.to)
+    .sort((a, b) => timelineAt(a) - timelineAt(b) || a.id - b.id)
+}
+
+/* Split notes (already oldest first) into chapters. With tag grouping a note goes into its first tag alphabetically */
+function groupIntoChapters(notes: NoteWithDetails[], groupBy: MemoryBookGrouping): Chapter[] {
+  const chapters = new Map<string, NoteWithDetails[]>()
+  for (const note of notes) {
+    const key =
+      groupBy === 'year'
+        ? String(new Date(timelineAt(note)).getFullYear())
+        : [...note.tags].sort((a, b) => a.name.localeCompare(b.name))[0]?.name ?? UNTAGGED_CHAPTER
+    chapters.set(key, [...(chapters.get(key) ?? []), note])
+  }
+
+  const titles = Array.from(chapters.keys())
+  if (groupBy === 'year') {
+    titles.sort((a, b) => Number(a) - Number(b))
+  } else {
+    titles.sort((a, b) => (a === UNTAGGED_CHAPTER ? 1 : b === UNTAGGED_CHAPTER ? -1 : a.localeCompare(b)))
+  }
+  return titles.map((title) => ({ title, notes: chapters.get(title)! }))
+}
+
+/* Inline a photo as a data URI so the book is one portable file; null when the photo can't be read */
+function photoDataUri(uri: string): string | null {
+  try {
+    const file = new File(displayUri(uri))
+    if (!file.exists) return null
+    const mime = IMAGE_MIME_TYPES[file.extension.toLowerCase()] ?? 'image/jpeg'
+    return `data:${mime};base64,${file.base64Sync()}`
+  } catch (error) {
+    return null
+  }
+}
+
+function renderNote(note: NoteWithDetails, onMissingPhoto: () => void): string {
+  const details = [
+    note.eventDateLabel ?? formatDate(note.createdAt),
+    note.place?.name,
+    note.people.length > 0 ? `With ${note.people.map((person) => person.name).join(', ')}` : null,
+  ].filter((detail): detail is string => !!detail)
+
+  const photos = note.images
+    .map((image) => {
+      const src = photoDataUri(image.uri)
+      if (!src) {
+        onMissingPhoto()
+        return ''
+      }
+      const caption = image.description.trim() ? `<figcaption>${escapeHtml(image.description.trim())}</figcaption>` : ''
+      return `<figure><img src="${src}" alt="${escapeHtml(image.description.trim() || note.title)}">${caption}</figure>`
+    })
+    .join('\n')
+
+  return `<article class="memory">
+<h3>${escapeHtml(note.title)}</h3>
+<p class="details">${details.map(escapeHtml).join(' &middot; ')}</p>
+${paragraphs(note.content)}
+${photos ? `<div class="photos">${photos}</div>` : ''}
+${note.recallScript ? `<div class="narrative">${paragraphs(note.recallScript)}</div>` : ''}
+</article>`
+}
+
+const STYLES: Record<MemoryBookLayout, string> = {
+  standard: `
+    body { font-size: 11.5pt; line-height: 1.5; }
+    h1 { font-size: 30pt; } h2 { font-size: 22pt; } h3 { font-size: 15pt; }
+    .photos { grid-template-columns: 1fr 1fr; }
+    figure img { max-height: 80mm; }`,
+  'large-print': `
+    body { font-size: 20pt; line-height: 1.6; color: #000; }
+    h1 { font-size: 44pt; } h2 { font-size: 34pt; } h3 { font-size: 26pt; }
+    .details { font-size: 17pt; color: #222; }
+    .photos { grid-template-columns: 1fr; }
+    figure img { max-height: 140mm; }
+    figcaption { font-size: 17pt; color: #111; }`,
+}
+
+const BASE_STYLES = `
+  @page { margin: 18mm; }
+  * { box-sizing: border-box; }
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1f2937; margin: 0 auto; max-width: 190mm; padding: 12mm; }
+  h1, h2, h3 { font-family: Helvetica, Arial, sans-serif; margin: 0 0 0.4em; }
+  .cover, .contents, .chapter { break-after: page; page-break-after: always; }
+  .chapter:last-of-type { break-after: auto; page-break-after: auto; }
+  .cover { min-height: 240mm; display: flex; flex-direction: column; justify-content: center; text-align: center; }
+  .cover p { color: #4b5563; }
+  .contents ol { padding-left: 1.2em; }
+  .contents li { margin-bottom: 0.4em; }
+  .chapter h2 { border-bottom: 2px solid #10B981; padding-bottom: 0.2em; margin-bottom: 1em; }
+  .memory { break-inside: avoid; page-break-inside: avoid; margin-bottom: 2em; }
+  .details { color: #6b7280; font-style: italic; margin-top: 0; }
+  .photos { display: grid; gap: 6mm; margin: 1em 0; }
+  figure { margin: 0; break-inside: avoid; page-break-inside: avoid; }
+  figure img { width: 100%; object-fit: contain; border-radius: 3mm; }
+  figcaption { color: #4b5563; font-style: italic; margin-top: 0.3em; }
+  .narrative { border-left: 3px solid #10B981; padding-left: 1em; font-style: italic; }`
+
+/**
+ * Render the book as an HTML document.
+ * @param notes - Notes to include, oldest first
+ * @param options - Title, layout and chapter grouping
+ */
+export function buildMemoryBookHtml(
+  notes: NoteWithDetails[],
+  options: Omit<MemoryBookOptions, 'noteIds'>
+): { html: string; chapterCount: number; missingPhotoCount: number } {
+  const chapters = groupIntoChapters(notes, options.groupBy)
+  let missingPhotoCount = 0
+  const countMissing = () => {
+    missingPhotoCount++
+  }
+
+  const span =
+    notes.length > 0
+      ? [new Date(timelineAt(notes[0])).getFullYear(), new Date(timelineAt(notes[notes.length - 1])).getFullYear()]
+      : null
+  const spanText = span ? (span[0] === span[1] ? `${span[0]}` : `${span[0]} – ${span[1]}`) : ''
+
+  const body = chapters
+    .map(
+      (chapter, index) => `<section class="chapter" id="chapter-${index + 1}">
+<h2>${escapeHtml(chapter.title)}</h2>
+${chapter.notes.map((note) => renderNote(note, countMissing)).join('\n')}
+</section>`
+    )
+    .join('\n')
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(options.title)}</title>
+<style>${BASE_STYLES}${STYLES[options.layout]}</style>
+</head>
+<body>
+<section class="cover">
+<h1>${escapeHtml(options.title)}</h1>
+<p>${notes.length} ${notes.length === 1 ? 'memory' : 'memories'}${spanText ? ` &middot; ${spanText}` : ''}</p>
+<p>Made with MemoriQ on ${escapeHtml(formatDate(Date.now()))}</p>
+</section>
+<section class="contents">
+<h2>Contents</h2>
+<ol>
+${chapters.map((chapter, index) => `<li><a href="#chapter-${index + 1}">${escapeHtml(chapter.title)}</a> (${chapter.notes.length})</li>`).join('\n')}
+</ol>
+</section>
+${body}
+</body>
+</html>`
+
+  return { html, chapterCount: chapters.length, missingPhotoCount }
+}
+
+/**
+ * Save a memory book for the given notes as a PDF in a user-chosen folder.
+ * @param destination - Folder to save into (from the directory picker)
+ * @param options - Title, layout, grouping and the notes to include
+ */
+export async function exportMemoryBook(destination: Directory, options: MemoryBookOptions): Promise<MemoryBookResult> {
+  const included = new Set(options.noteIds)
+  const notes = (await selectMemoryBookNotes({})).filter((note) => included.has(note.id))
+  if (notes.length === 0) {
+    throw new Error('Choose at least one memory for the book')
+  }
+
+  const { html, chapterCount, missingPhotoCount } = buildMemoryBookHtml(notes, options)
+  const printed = await Print.printToFileAsync({ html })
+  const pdf = new File(printed.uri)
+  try {
+    const stamp = new Date().toISOString().slice(0, 10)
+    const slug = options.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'memory-book'
+    const file = destination.createFile(`${slug}-${stamp}.pdf`, 'application/pdf')
+    file.write(pdf.bytesSync(), {})
+    return { file, noteCount: notes.length, chapterCount, pageCount: printed.numberOfPages, missingPhotoCount }
+  } finally {
+    // The printed copy in the cache is readable by anything with file access; only the user's chosen copy is kept
+    if (pdf.exists) {
+      pdf.delete()
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/* This module keeps every stored embedding (whole notes, note chunks and photos) in an in-memory VectorIndex, so chat and search don't reload and decode every blob per query. The index is built on first use and updated per note whenever the embedding pipeline writes. It is the default retrieval backend */
+
+import { type DB } from '@op-engineering/op-sqlite'
+import { getDatabaseInstance } from '../database'
+import { filterRetrievableNotes, getChunkTexts } from '../database/retrievalOperations'
+import { VectorIndex, blobToEmbedding } from './vectorIndex'
+import { type RetrievalBackend, type SimilarNote } from './retrievalBackend'
+import { currentModelSql } from './embeddingModel'
+
+export type IndexedVectorKind = 'note' | 'chunk' | 'image'
+
+export interface IndexedVector {
+  noteId: number
+  kind: IndexedVectorKind
+  rowId: number // note_embeddings.noteId, note_chunks.id or image_embeddings.imageId
+}
+
+type EmbeddingRow = { rowId: number; noteId: number; embedding: unknown }
+
+const currentModel = currentModelSql()
+
+// Trashed notes stay indexed (they can be restored); callers filter them out of results. Only the current embedding model's vectors are comparable
+const EMBEDDING_QUERIES: Record<IndexedVectorKind, string> = {
+  note: `SELECT noteId AS rowId, noteId, embedding FROM note_embeddings WHERE status = 'completed' AND ${currentModel.sql}`,
+  chunk: `SELECT id AS rowId, noteId, embedding FROM note_chunks WHERE status = 'completed' AND ${currentModel.sql}`,
+  image: `SELECT ie.imageId AS rowId, i.noteId, ie.embedding
+          FROM image_embeddings ie
+          JOIN images i ON ie.imageId = i.id
+          WHERE ie.status = 'completed' AND ${currentModelSql('ie').sql}`,
+}
+
+const NOTE_FILTERS: Record<IndexedVectorKind, string> = {
+  note: 'noteId = ?',
+  chunk: 'noteId = ?',
+  image: 'i.noteId = ?',
+}
+
+// The index belongs to the database it was read from; a restored or reopened database gets a fresh one
+let loaded: { db: DB; index: VectorIndex<IndexedVector> | null } | null = null
+let loading: Promise<VectorIndex<IndexedVector> | null> | null = null
+
+const vectorKey = (vector: IndexedVector) => `${vector.kind}:${vector.rowId}`
+
+/* Read stored embeddings: all of them, or one note's */
+async function readVectors(db: DB, noteId?: number): Promise<Array<{ vector: IndexedVector; embedding: Float32Array }>> {
+  const vectors: Array<{ vector: IndexedVector; embedding: Float32Array }> = []
+  for (const kind of Object.keys(EMBEDDING_QUERIES) as IndexedVectorKind[]) {
+    const result = noteId === undefined
+      ? await db.execute(EMBEDDING_QUERIES[kind], currentModel.params)
+      : await db.execute(`${EMBEDDING_QUERIES[kind]} AND ${NOTE_FILTERS[kind]}`, [...currentModel.params, noteId])
+
+    for (const row of (result.rows || []) as unknown as EmbeddingRow[]) {
+      try {
+        vectors.push({ vector: { noteId: row.noteId, kind, rowId: row.rowId }, embedding: blobToEmbedding(row.embedding) })
+      } catch (error) {
+        // Skip unreadable embeddings
+      }
+    }
+  }
+  return vectors
+}
+
+/* Add vectors to the index, creating it from the first vector's size */
+function addVectors(
+  index: VectorIndex<IndexedVector> | null,
+  vectors: Array<{ vector: IndexedVector; embedding: Float32Array }>
+): VectorIndex<IndexedVector> | null {
+  for (const { vector, embedding } of vectors) {
+    try {
+      index = index ?? new VectorIndex<IndexedVector>(embedding.length, vectors.length)
+      index.upsert(vectorKey(vector), embedding, vector)
+    } catch (error) {
+      // Skip embeddings of a different size
+    }
+  }
+  return index
+}
+
+/**
+ * Get the index of all stored embeddings, building it from the database on first use.
+ * Returns null while nothing has been embedded yet.
+ */
+export async function getNoteVectorIndex(): Promise<VectorIndex<IndexedVector> | null> {
+  const db = getDatabaseInstance()
+  if (loaded?.db === db) {
+    return loaded.index
+  }
+
+  if (!loading) {
+    loading = readVectors(db)
+      .then((vectors) => {
+        const index = addVectors(null, vectors)
+        loaded = { db, index }
+        return index
+      })
+      .finally(() => {
+        loading = null
+      })
+  }
+  return loading
+}
+
+/* Re-read one note's embeddings after the pipeline wrote them. Does nothing until the index has been built */
+export async function refreshNoteVectors(noteId: number): Promise<void> {
+  if (loading) {
+    await loading.catch(() => null)
+  }
+  const db = getDatabaseInstance()
+  if (loaded?.db !== db) {
+    return
+  }
+
+  const vectors = await readVectors(db, noteId)
+  // Swap the note's vectors in one go, so a search running meanwhile sees either the old or the new ones
+  if (loaded?.db === db) {
+    loaded.index?.removeWhere((vector) => vector.noteId === noteId)
+    loaded.index = addVectors(loaded.index, vectors)
+  }
+}
+
+/* Retrieval backend searching the in-memory index; exact, and what the sqlite-vec backend is checked against */
+export const memoryRetrievalBackend: RetrievalBackend = {
+  name: 'memory',
+
+  isAvailable: async () => true,
+
+  async findSimilarNotes(queryEmbedding, threshold, filter = {}) {
+    const index = await getNoteVectorIndex()
+    if (!index || index.dimensions !== queryEmbedding.length) {
+      return []
+    }
+
+    // Best match per note; hits come sorted, so the first one seen for a note is its best
+    const hits = index.search(queryEmbedding, { threshold })
+    const noteMatches = new Map<number, SimilarNote>()
+    // Best passage per note, kept even when the whole note or a photo scored higher
+    const bestChunkIds = new Map<number, number>()
+    for (const { entry, score } of hits) {
+      if (!noteMatches.has(entry.noteId)) {
+        noteMatches.set(entry.noteId, { noteId: entry.noteId, score, matchType: entry.kind === 'image' ? 'image' : 'text' })
+      }
+      if (entry.kind === 'chunk' && !bestChunkIds.has(entry.noteId)) {
+        bestChunkIds.set(entry.noteId, entry.rowId)
+      }
+    }
+
+    // The index still holds trashed notes; tags and dates live in the database
+    const retrievable = await filterRetrievableNotes(Array.from(noteMatches.keys()), filter)
+    if (retrievable.size === 0) {
+      return []
+    }
+
+    // Notes matched on the whole note or a photo still get their closest passage, even below the threshold
+    const withoutChunk = new Set(Array.from(retrievable).filter(noteId => !bestChunkIds.has(noteId)))
+    if (withoutChunk.size > 0) {
+      const chunkHits = index.search(queryEmbedding, {
+        filter: (entry) => entry.kind === 'chunk' && withoutChunk.has(entry.noteId),
+      })
+      for (const { entry } of chunkHits) {
+        if (!bestChunkIds.has(entry.noteId)) {
+          bestChunkIds.set(entry.noteId, entry.rowId)
+        }
+      }
+    }
+
+    const chunks = await getChunkTexts(
+      Array.from(bestChunkIds.entries()).filter(([noteId]) => retrievable.has(noteId)).map(([, chunkId]) => chunkId)
+    )
+    return Array.from(noteMatches.values())
+      .filter(match => retrievable.has(match.noteId))
+      .map(match => ({ ...match, chunk: chunks.get(match.noteId) }))
+  },
+
+  refreshNote: refreshNoteVectors,
+
+  async release() {
+    loaded = null
+  },
+}
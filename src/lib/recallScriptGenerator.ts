@@ -1,22 +1,13 @@
-/* This module handles automatic generation of recall scripts for notes. Scripts are computed in the background when notes are created or updated. */
+/* This module handles automatic generation of recall scripts for notes. Scripts are computed in the background by the job queue (see jobQueue.ts) when notes are created or updated. */
 
 import { getDatabaseInstance } from '../database'
 import { getNoteById } from '../database/notesOperations'
+import { describePerson } from '../database/peopleOperations'
+import { describePlace } from '../database/placesOperations'
 import ModelManager from '../model/ModelManager'
 
-/* Check if recall model is ready before processing */
-async function ensureRecallModelReady(): Promise<boolean> {
-  const recallReady = ModelManager.isRecallReady()
-
-  if (!recallReady) {
-    return false
-  }
-
-  return true
-}
-
-/* Generate recall script for a note using LLM */
-async function generateRecallScript(noteId: number): Promise<void> {
+/* Generate recall script for a note using LLM. Run by the job queue, which retries the note when this throws */
+export async function generateRecallScript(noteId: number): Promise<void> {
   const db = getDatabaseInstance()
 
   try {
@@ -32,6 +23,14 @@ async function generateRecallScript(noteId: number): Promise<void> {
       throw new Error('Recall model context not available')
     }
 
+    // Optional context lines (when, where, who) appended after the note details
+    const contextLines = [
+      note.eventDateLabel ? `When: ${note.eventDateLabel}` : null,
+      note.place ? `Where: ${describePlace(note.place)}` : null,
+      note.people.length > 0 ? `People: ${note.people.map(describePerson).join(', ')}` : null,
+    ].filter((line): line is string => line !== null)
+    const contextText = contextLines.map((line) => `\n    ${line}`).join('')
+
     const userPrompt = `
     Write a recall script based entirely on the note below. Follow these rules:
     1. Output only the script — no intro/outro or extra commentary. Avoid any questions or framing text, the output must be just the script itself.
@@ -41,7 +40,7 @@ async function generateRecallScript(noteId: number): Promise<void> {
     5. Speak gently and warmly, but do NOT ask questions or add intros/outros.
     6. Do not invent anything that is not present in the note.
     Memory: "${note.title}"
-    Details: ${note.content}
+    Details: ${note.content}${contextText}
     Write the recall script now: `;
 
     // Generate script using recall model
@@ -81,55 +80,6 @@ async function generateRecallScript(noteId: number): Promise<void> {
     )
 
   } catch (error) {
-    // Error in script generation - fail silently
+    throw error
   }
 }
-
-/* Process recall script for a note. This is the main entry point called after note creation/update */
-export async function processRecallScript(noteId: number): Promise<void> {
-  try {
-    const recallReady = await ensureRecallModelReady()
-    if (!recallReady) {
-      return
-    }
-
-    await generateRecallScript(noteId)
-  } catch (error) {
-    // Don't throw - fail silently in background
-  }
-}
-
-/* Update recall script for an edited note */
-const pendingScriptNotes = new Set<number>()
-let scriptUpdateTimer: ReturnType<typeof setTimeout> | null = null
-
-export async function updateRecallScript(noteId: number): Promise<void> {
-  pendingScriptNotes.add(noteId)
-
-  if (scriptUpdateTimer) {
-    return
-  }
-
-  scriptUpdateTimer = setTimeout(async () => {
-    const ids = Array.from(pendingScriptNotes)
-    pendingScriptNotes.clear()
-    scriptUpdateTimer = null
-
-    try {
-      const recallReady = await ensureRecallModelReady()
-      if (!recallReady) {
-        return
-      }
-
-      await Promise.all(
-        ids.map(async (id) => {
-          const note = await getNoteById(id)
-          if (!note) return
-          await processRecallScript(id)
-        })
-      )
-    } catch {
-      // Silent fail; background task
-    }
-  }, 300)
-}
@@ -0,0 +1,57 @@
+/* This module re-embeds notes whose stored embeddings came from an older embedding model (see embeddingModel.ts). Retrieval already ignores those vectors, so until a note is re-embedded it is only found by keyword search. The work runs as embedNote jobs on the job queue, and progress lives in the embedding tables themselves: an interrupted run simply picks up the notes that are still stale on the next start */
+
+import { getDatabaseInstance } from '../database'
+import ModelManager from '../model/ModelManager'
+import { releaseRetrievalBackends } from './retrievalBackend'
+import { otherModelSql } from './embeddingModel'
+import { runCatchUpJobs, type CatchUpResult } from './jobQueue'
+
+export interface ReindexProgress {
+  done: number
+  total: number
+}
+
+let running: Promise<CatchUpResult> | null = null
+
+/* Notes with at least one embedding from another model */
+async function getStaleNoteIds(): Promise<number[]> {
+  const { sql, params } = otherModelSql()
+  const result = await getDatabaseInstance().execute(
+    `SELECT noteId FROM note_embeddings WHERE status = 'completed' AND ${sql}
+     UNION
+     SELECT noteId FROM note_chunks WHERE status = 'completed' AND ${sql}
+     UNION
+     SELECT i.noteId FROM image_embeddings JOIN images i ON imageId = i.id WHERE status = 'completed' AND ${sql}`,
+    [...params, ...params, ...params]
+  )
+  return ((result.rows || []) as unknown as Array<{ noteId: number }>).map(row => row.noteId)
+}
+
+async function reindex(onProgress: (progress: ReindexProgress) => void): Promise<CatchUpResult> {
+  const noteIds = await getStaleNoteIds()
+  if (noteIds.length === 0) {
+    return { done: 0, undone: 0 }
+  }
+
+  // Retrieval indexes may hold vectors of the old model; they rebuild from current embeddings only
+  await releaseRetrievalBackends()
+
+  onProgress({ done: 0, total: noteIds.length })
+  return runCatchUpJobs('embedNote', noteIds, done => onProgress({ done, total: noteIds.length }))
+}
+
+/**
+ * Re-embed every note that has embeddings from an older embedding model, through the job queue.
+ * Only one run happens at once; calling again while it runs returns the same run.
+ * @param onProgress - Called with the number of notes done so far
+ * @returns Number of notes re-embedded, and of notes left stale (e.g. the model was unloaded); those are picked up on the next start
+ */
+export function reindexStaleEmbeddings(onProgress: (progress: ReindexProgress) => void = () => {}): Promise<CatchUpResult> {
+  if (!ModelManager.isEmbeddingReady()) {
+    return Promise.resolve({ done: 0, undone: 0 }) // Stale embeddings stay ignored until the model can replace them
+  }
+  running = running ?? reindex(onProgress).finally(() => {
+    running = null
+  })
+  return running
+}
@@ -0,0 +1,141 @@
+import { getDatabaseInstance } from '../database'
+import { getSettings, updateSettings } from '../database/settingsOperations'
+import { type RetrievalBackendName, type RetrievalFilter } from '../database/types'
+import { memoryRetrievalBackend } from './noteVectorIndex'
+import { sqliteVecRetrievalBackend } from './sqliteVecBackend'
+import { blobToEmbedding } from './vectorIndex'
+import { currentModelSql } from './embeddingModel'
+
+export interface SimilarNote {
+  noteId: number
+  score: number // Best cosine similarity across the note's text, chunk and image embeddings
+  matchType: 'text' | 'image'
+  chunk?: string // The note's passage closest to the query, once the note has been chunked
+}
+
+/**
+ * Somewhere embedding similarity search can run.
+ * The app uses the in-memory index by default, or sqlite-vec tables when chosen in settings;
+ * tests and development builds can swap in another backend with setRetrievalBackend.
+ */
+export interface RetrievalBackend {
+  name: RetrievalBackendName
+  isAvailable(): Promise<boolean>
+  // Best match per note at or above the threshold, best first; trashed notes are always left out
+  findSimilarNotes(queryEmbedding: Float32Array, threshold: number, filter?: RetrievalFilter): Promise<SimilarNote[]>
+  // Called after the embedding pipeline wrote a note's embeddings
+  refreshNote(noteId: number): Promise<void>
+  // Drop whatever the backend built, e.g. when another backend is chosen
+  release(): Promise<void>
+}
+
+const PARITY_CONFIG = {
+  SAMPLE_SIZE: 20,               // Stored note embeddings used as queries
+  THRESHOLD: 0.3,                // Low, so each query compares a good number of notes
+  TOP_N: 10,                     // Ranks compared per query
+  SCORE_TOLERANCE: 1e-3,         // float32 storage and different summation orders shift scores slightly
+}
+
+const BACKENDS: Record<RetrievalBackendName, RetrievalBackend> = {
+  memory: memoryRetrievalBackend,
+  sqliteVec: sqliteVecRetrievalBackend,
+}
+
+let overrideBackend: RetrievalBackend | null = null
+
+/* The backend chosen in settings, falling back to the in-memory index when sqlite-vec isn't available */
+export async function getRetrievalBackend(): Promise<RetrievalBackend> {
+  if (overrideBackend) {
+    return overrideBackend
+  }
+  const { retrievalBackend } = await getSettings()
+  const backend = BACKENDS[retrievalBackend] ?? memoryRetrievalBackend
+  return (await backend.isAvailable()) ? backend : memoryRetrievalBackend
+}
+
+/* Replace the retrieval backend, e.g. with a fake that returns canned matches. Pass null to restore the one in settings */
+export const setRetrievalBackend = (backend: RetrievalBackend | null): void => {
+  overrideBackend = backend
+}
+
+/* Save the backend choice and free what the other backends built */
+export async function chooseRetrievalBackend(name: RetrievalBackendName): Promise<void> {
+  await updateSettings({ retrievalBackend: name })
+  await Promise.all(
+    Object.values(BACKENDS)
+      .filter(backend => backend.name !== name)
+      .map(backend => backend.release())
+  )
+}
+
+/* Drop what every backend built, so the next search rebuilds from the embedding tables */
+export async function releaseRetrievalBackends(): Promise<void> {
+  await Promise.all(Object.values(BACKENDS).map(backend => backend.release()))
+}
+
+/* Let every backend pick up a note's new embeddings. Backends that haven't built anything yet skip it */
+export async function refreshRetrievalNote(noteId: number): Promise<void> {
+  const backends = overrideBackend ? [...Object.values(BACKENDS), overrideBackend] : Object.values(BACKENDS)
+  await Promise.all(backends.map(backend => backend.refreshNote(noteId).catch(() => {
+    // Silent fail; the backend rebuilds from the database
+  })))
+}
+
+export interface RetrievalParityReport {
+  queries: number
+  // Queries (by the note whose embedding was used) where the ranking or scores differ
+  mismatches: Array<{ queryNoteId: number; expected: SimilarNote[]; actual: SimilarNote[] }>
+}
+
+/* Same notes in the same order, allowing notes with (near) equal scores to swap places */
+function sameRanking(expected: SimilarNote[], actual: SimilarNote[]): boolean {
+  if (expected.length !== actual.length) {
+    return false
+  }
+  const expectedIds = new Set(expected.map(match => match.noteId))
+  return expected.every((match, rank) => {
+    const other = actual[rank]
+    const scoresAgree = Math.abs(match.score - other.score) <= PARITY_CONFIG.SCORE_TOLERANCE
+    return scoresAgree && (match.noteId === other.noteId || expectedIds.has(other.noteId))
+  })
+}
+
+/**
+ * Check a backend against the exact in-memory search, using stored note embeddings as queries.
+ * Both must return the same top notes with the same scores.
+ * @param backend - Backend to check (default: sqlite-vec)
+ */
+export async function checkRetrievalParity(backend: RetrievalBackend = sqliteVecRetrievalBackend): Promise<RetrievalParityReport> {
+  if (!(await backend.isAvailable())) {
+    throw new Error(`The ${backend.name} retrieval backend is not available in this build`)
+  }
+
+  const db = getDatabaseInstance()
+  const currentModel = currentModelSql('ne')
+  const result = await db.execute(
+    `SELECT ne.noteId, ne.embedding
+     FROM note_embeddings ne
+     JOIN notes n ON ne.noteId = n.id
+     WHERE ne.status = 'completed' AND n.deletedAt IS NULL AND ${currentModel.sql}
+     ORDER BY RANDOM() LIMIT ?`,
+    [...currentModel.params, PARITY_CONFIG.SAMPLE_SIZE]
+  )
+
+  const report: RetrievalParityReport = { queries: 0, mismatches: [] }
+  for (const row of (result.rows || []) as unknown as Array<{ noteId: number; embedding: unknown }>) {
+    const query = blobToEmbedding(row.embedding)
+    // Leaving out the query's own note (a certain top match) also exercises the filters
+    const filter: RetrievalFilter = { excludeNoteIds: [row.noteId] }
+    const [expected, actual] = await Promise.all([
+      memoryRetrievalBackend.findSimilarNotes(query, PARITY_CONFIG.THRESHOLD, filter),
+      backend.findSimilarNotes(query, PARITY_CONFIG.THRESHOLD, filter),
+    ])
+    report.queries++
+    const expectedTop = expected.slice(0, PARITY_CONFIG.TOP_N)
+    const actualTop = actual.slice(0, PARITY_CONFIG.TOP_N)
+    if (!sameRanking(expectedTop, actualTop)) {
+      report.mismatches.push({ queryNoteId: row.noteId, expected: expectedTop, actual: actualTop })
+    }
+  }
+  return report
+}
@@ -1,11 +1,16 @@
-import { getDatabaseInstance } from '../database'
 import { getNoteById } from '../database/notesOperations'
+import { describePerson } from '../database/peopleOperations'
+import { describePlace } from '../database/placesOperations'
+import { getLinkedNotes } from '../database/noteLinksOperations'
+import { NoteWithDetails, RetrievalFilter } from '../database/types'
+import { getRetrievalBackend, type SimilarNote } from './retrievalBackend'
 
 const RETRIEVAL_CONFIG = {
   TOP_K: 2,                      // Max notes to retrieve
   MIN_K: 1,                      // Min notes to retrieve if any match
   SIMILARITY_THRESHOLD: 0.5,     // Minimum cosine similarity score (raised from 0.3)
   RELATIVE_THRESHOLD: 0.75,      // Secondary notes must be within 75% of top score
+  MAX_LINKED_NOTES: 2,           // Notes linked to the top match added as extra context
   TIMEOUT_MS: 5000               // Max time for retrieval
 }
 
@@ -13,129 +18,102 @@ export interface RetrievedNote {
   noteId: number
   title: string
   content: string
+  matchedChunk?: string // Passage of the note closest to the question; sent to the model instead of the whole content
   tags: string[]
+  eventDate?: string // "when it happened" label
+  people: string[] // People in the memory, described with their relationship, e.g. "Anna (daughter)"
+  place?: string // Where it happened, e.g. "Lake house (holiday spot)"
   images: Array<{ uri: string; description: string }>
   audioUri?: string
+  transcript?: string // What was said in the voice note
   similarityScore: number
-  matchType: 'text' | 'image'
+  matchType: 'text' | 'image' | 'link' // 'link': not matched itself, but linked to the top match
+  linkRelation?: string // How a 'link' note relates to the top match, e.g. "the day after"
 }
 
-/* Calculate cosine similarity between two vectors */
-function cosineSimilarity(a: Float32Array, b: Float32Array): number {
-  let dotProduct = 0
-  let normA = 0
-  let normB = 0
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i]
-    normA += a[i] * a[i]
-    normB += b[i] * b[i]
+/* Shape a note for the chat prompt */
+function toRetrievedNote(
+  note: NoteWithDetails,
+  similarityScore: number,
+  matchType: RetrievedNote['matchType'],
+  linkRelation?: string,
+  matchedChunk?: string
+): RetrievedNote {
+  return {
+    noteId: note.id,
+    title: note.title,
+    content: note.content,
+    matchedChunk,
+    tags: note.tags.map(t => t.name),
+    eventDate: note.eventDateLabel || undefined,
+    people: note.people.map(describePerson),
+    place: note.place ? describePlace(note.place) : undefined,
+    // Images with their descriptions (already loaded from database via getNoteById)
+    images: note.images.map(img => ({
+      uri: img.uri,
+      description: img.description || ''
+    })),
+    audioUri: note.audioUri || undefined,
+    transcript: note.transcript || undefined,
+    similarityScore,
+    matchType,
+    linkRelation
   }
+}
 
-  const similarity = dotProduct / (Math.sqrt(normA) * Math.sqrt(normB))
-  return similarity
+/* Notes linked to or from the top match that weren't retrieved on their own */
+async function retrieveLinkedNotes(top: RetrievedNote, retrievedIds: Set<number>): Promise<RetrievedNote[]> {
+  const links = (await getLinkedNotes(top.noteId))
+    .filter(link => !retrievedIds.has(link.noteId))
+    .slice(0, RETRIEVAL_CONFIG.MAX_LINKED_NOTES)
+
+  const linkedNotes = await Promise.all(links.map(async (link) => {
+    try {
+      const note = await getNoteById(link.noteId)
+      return note ? toRetrievedNote(note, 0, 'link', link.relation || undefined) : null
+    } catch (error) {
+      return null
+    }
+  }))
+  return linkedNotes.filter((note): note is RetrievedNote => note !== null)
 }
 
-/* Convert Uint8Array blob back to Float32Array */
-function blobToEmbedding(blob: unknown): Float32Array {
-  if (blob instanceof Uint8Array) {
-    return new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4)
-  }
-  if (blob instanceof ArrayBuffer) {
-    return new Float32Array(blob)
-  }
-  if (
-    typeof blob === 'object' &&
-    blob !== null &&
-    'buffer' in blob &&
-    'byteOffset' in blob &&
-    'byteLength' in blob
-  ) {
-    const b = blob as { buffer: ArrayBuffer; byteOffset: number; byteLength: number }
-    return new Float32Array(b.buffer, b.byteOffset, b.byteLength / 4)
-  }
-  throw new Error('Unsupported blob type')
+/**
+ * Score every note against a query embedding, with the retrieval backend chosen in settings
+ * @param queryEmbedding - The query embedding vector
+ * @param threshold - Minimum cosine similarity for a note to be returned
+ * @param filter - Notes to leave out, and tags or a timeline range to stay within
+ * @returns Matching notes sorted by descending similarity
+ */
+export async function findSimilarNotes(
+  queryEmbedding: Float32Array,
+  threshold: number = RETRIEVAL_CONFIG.SIMILARITY_THRESHOLD,
+  filter: RetrievalFilter = {}
+): Promise<SimilarNote[]> {
+  const backend = await getRetrievalBackend()
+  return backend.findSimilarNotes(queryEmbedding, threshold, filter)
 }
 
 /**
  * @param queryEmbedding - The query embedding vector
  * @param topK - Maximum number of notes to retrieve (default: 3)
+ * @param filter - Optional restriction to tags, a timeline range, or away from some notes
  * @returns Array of retrieved notes with similarity scores
  */
 export async function retrieveRelevantNotes(
   queryEmbedding: Float32Array,
-  topK: number = RETRIEVAL_CONFIG.TOP_K
+  topK: number = RETRIEVAL_CONFIG.TOP_K,
+  filter: RetrievalFilter = {}
 ): Promise<RetrievedNote[]> {
   try {
-    const db = getDatabaseInstance()
-
-    // Map to store best match per note (noteId -> {score, matchType})
-    const noteMatches = new Map<number, { score: number; matchType: 'text' | 'image' }>()
-
-    // 1 & 2. Search note text embeddings AND image embeddings in parallel
-    const [noteEmbeddingsResult, imageEmbeddingsResult] = await Promise.all([
-      db.execute('SELECT noteId, embedding FROM note_embeddings WHERE status = \'completed\''),
-      db.execute(
-        `SELECT ie.imageId, ie.embedding, ie.description, i.noteId, i.uri
-         FROM image_embeddings ie
-         JOIN images i ON ie.imageId = i.id
-         WHERE ie.status = 'completed'`
-      )
-    ])
+    // 1 & 2. Score note text, chunk AND image embeddings
+    const sortedMatches = await findSimilarNotes(queryEmbedding, RETRIEVAL_CONFIG.SIMILARITY_THRESHOLD, filter)
 
-    // Process note text embeddings
-    if (noteEmbeddingsResult.rows) {
-      for (const row of noteEmbeddingsResult.rows as Array<{ noteId: number; embedding: unknown }>) {
-        const noteId = row.noteId
-        const embeddingBlob = row.embedding
-
-        try {
-          const noteEmbedding = blobToEmbedding(embeddingBlob)
-          const similarity = cosineSimilarity(queryEmbedding, noteEmbedding)
-
-          // Only consider if above threshold
-          if (similarity >= RETRIEVAL_CONFIG.SIMILARITY_THRESHOLD) {
-            const existing = noteMatches.get(noteId)
-            if (!existing || similarity > existing.score) {
-              noteMatches.set(noteId, { score: similarity, matchType: 'text' })
-            }
-          }
-        } catch (error) {
-          // Skip this note
-        }
-      }
-    }
-
-    // Process image embeddings
-    if (imageEmbeddingsResult.rows) {
-      for (const row of imageEmbeddingsResult.rows as Array<{ noteId: number; embedding: unknown }>) {
-        const noteId = row.noteId
-        const embeddingBlob = row.embedding
-
-        try {
-          const imageEmbedding = blobToEmbedding(embeddingBlob)
-          const similarity = cosineSimilarity(queryEmbedding, imageEmbedding)
-          if (similarity >= RETRIEVAL_CONFIG.SIMILARITY_THRESHOLD) {
-            const existing = noteMatches.get(noteId)
-            if (!existing || similarity > existing.score) {
-              noteMatches.set(noteId, { score: similarity, matchType: 'image' })
-            }
-          }
-        } catch (error) {
-          // Skip this image
-        }
-      }
-    }
-
-    // 3. Sort by similarity and apply relative threshold
-    const sortedMatches = Array.from(noteMatches.entries())
-      .sort(([, a], [, b]) => b.score - a.score)
-
-    // Apply relative filtering: only include notes within X% of top score
+    // 3. Apply relative filtering: only include notes within X% of top score
     const filteredMatches = sortedMatches.length > 0
-      ? sortedMatches.filter(([, match], index) => {
+      ? sortedMatches.filter((match, index) => {
           if (index === 0) return true // Always include top match
-          const topScore = sortedMatches[0][1].score
+          const topScore = sortedMatches[0].score
           const relativeThreshold = topScore * RETRIEVAL_CONFIG.RELATIVE_THRESHOLD
           return match.score >= relativeThreshold
         })
@@ -145,31 +123,14 @@ export async function retrieveRelevantNotes(
     const finalMatches = filteredMatches.slice(0, topK)
 
     // 4. Fetch full note data in parallel
-    const notePromises = finalMatches.map(async ([noteId, { score, matchType }]) => {
+    const notePromises = finalMatches.map(async ({ noteId, score, matchType, chunk }) => {
       try {
         const note = await getNoteById(noteId)
         if (!note) {
           return null
         }
 
-        // Map images with their descriptions (already loaded from database via getNoteById)
-        const imageDescriptions: Array<{ uri: string; description: string }> = note.images.map(img => ({
-          uri: img.uri,
-          description: img.description || ''
-        }))
-
-        const retrievedNote: RetrievedNote = {
-          noteId: note.id,
-          title: note.title,
-          content: note.content,
-          tags: note.tags.map(t => t.name),
-          images: imageDescriptions,
-          audioUri: note.audioUri || undefined,
-          similarityScore: score,
-          matchType
-        }
-
-        return retrievedNote
+        return toRetrievedNote(note, score, matchType, undefined, chunk)
       } catch (error) {
         return null
       }
@@ -178,6 +139,12 @@ export async function retrieveRelevantNotes(
     // Wait for all notes to be fetched in parallel, then filter out nulls
     const retrievedNotesWithNulls = await Promise.all(notePromises)
     const retrievedNotes = retrievedNotesWithNulls.filter((note): note is RetrievedNote => note !== null)
+
+    // 5. Add notes linked to the top match as extra context
+    if (retrievedNotes.length > 0) {
+      const retrievedIds = new Set(retrievedNotes.map(note => note.noteId))
+      retrievedNotes.push(...await retrieveLinkedNotes(retrievedNotes[0], retrievedIds))
+    }
     return retrievedNotes
 
   } catch (error) {
@@ -1,14 +1,18 @@
 /* This module handles note selection for reminisce sessions */
 
-import { getAllNotes } from '../database/notesOperations'
+import { getAllNotes, getNotesInCollection } from '../database/notesOperations'
 import { type NoteWithDetails } from '../database/types'
 import { getDatabaseInstance } from '../database'
+import { eventDateMidpoint } from './eventDate'
 
-/* Calculate age of note in days */
+// Memories from decades ago would otherwise outweigh every other scoring factor
+const MAX_SCORED_AGE_DAYS = 365
+
+/* Calculate age of the memory in days, preferring when it happened over when it was written */
 function ageInDays(note: NoteWithDetails): number {
   const now = Date.now()
-  const created = note.createdAt
-  const ageMs = now - created
+  const happened = eventDateMidpoint({ start: note.eventDateStart, end: note.eventDateEnd }) ?? note.createdAt
+  const ageMs = Math.max(0, now - happened)
   return Math.floor(ageMs / (1000 * 60 * 60 * 24))
 }
 
@@ -33,8 +37,17 @@ function shuffle<T>(array: T[]): T[] {
   return shuffled
 }
 
-/* Select notes for reminisce session based on value scoring */
-export async function selectReminisceNotes(count: number): Promise<NoteWithDetails[]> {
+/**
+ * Select notes for a reminisce session based on value scoring.
+ * A session scoped to a collection plays the whole collection in its curated order instead.
+ * @param count - Session length when choosing from all notes
+ * @param collectionId - Optional collection to reminisce through
+ */
+export async function selectReminisceNotes(count: number, collectionId?: number): Promise<NoteWithDetails[]> {
+  if (collectionId !== undefined) {
+    return await getNotesInCollection(collectionId)
+  }
+
   const allNotes = await getAllNotes()
 
   if (allNotes.length === 0) {
@@ -49,7 +62,7 @@ export async function selectReminisceNotes(count: number): Promise<NoteWithDetai
     note,
     score:
       (note.images.length > 0 ? 50 : 0) +
-      (ageInDays(note) * 0.5) +
+      (Math.min(ageInDays(note), MAX_SCORED_AGE_DAYS) * 0.5) +
       (note.content.length * 0.01) +
       (daysSinceLastShown(note) * 2) +
       (note.recallScript ? 10 : -100)
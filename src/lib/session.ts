@@ -0,0 +1,39 @@
+/* This module opens and closes everything the data key unlocks: the database and the media vault. The app context opens them when the PIN is entered and closes them when the app locks again, so the key and decrypted media only stay around while the app is in use */
+
+import { initializeDatabase, closeDatabase } from '../database'
+import { openMediaVault, closeMediaVault } from './mediaVault'
+import { clearMediaSession } from './mediaStore'
+import { pauseJobs, resumeJobs } from './jobQueue'
+
+// A lock in progress; unlocking again waits for it, so it can't close what was just opened
+let closing: Promise<void> | null = null
+
+/**
+ * Open the database and media vault with the data key (see encryption.ts). All or nothing: when either
+ * fails to open, neither stays open and the error is thrown.
+ * @param dataKey - Data key from the keyring
+ */
+export async function openSession(dataKey: string): Promise<void> {
+  await closing
+  await initializeDatabase(dataKey)
+  try {
+    openMediaVault(dataKey)
+  } catch (error) {
+    await closeDatabase()
+    throw error
+  }
+  resumeJobs()
+}
+
+/* Lock: let the running background job finish, wipe decrypted media copies and close the database and vault */
+export function closeSession(): Promise<void> {
+  closing = closing ?? (async () => {
+    await pauseJobs()
+    clearMediaSession()
+    closeMediaVault()
+    await closeDatabase()
+  })().finally(() => {
+    closing = null
+  })
+  return closing
+}
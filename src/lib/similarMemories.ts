@@ -0,0 +1,49 @@
+/* This module suggests "similar memories" for a note by comparing its stored text embedding with every other note's text and image embeddings */
+
+import { getDatabaseInstance } from '../database'
+import { getNoteById } from '../database/notesOperations'
+import { type NoteWithDetails } from '../database/types'
+import { findSimilarNotes } from './retrieveRelevantNotes'
+import { blobToEmbedding } from './vectorIndex'
+import { currentModelSql } from './embeddingModel'
+
+const SIMILAR_MEMORIES_CONFIG = {
+  SIMILARITY_THRESHOLD: 0.55,    // Stricter than search: these are unprompted suggestions
+  MAX_SUGGESTIONS: 3,
+}
+
+export interface SimilarMemory {
+  note: NoteWithDetails
+  score: number
+}
+
+/**
+ * Suggest notes similar to the given one.
+ * Returns nothing until the note's embedding has been computed.
+ * @param noteId - Note to find neighbours for
+ * @param excludeIds - Notes not to suggest, e.g. ones already linked
+ */
+export async function getSimilarMemories(noteId: number, excludeIds: number[] = []): Promise<SimilarMemory[]> {
+  const db = getDatabaseInstance()
+  const currentModel = currentModelSql()
+  const result = await db.execute(
+    `SELECT embedding FROM note_embeddings WHERE noteId = ? AND status = 'completed' AND ${currentModel.sql}`,
+    [noteId, ...currentModel.params]
+  )
+  const row = result.rows?.[0]
+  if (!row) {
+    return []
+  }
+
+  const matches = (await findSimilarNotes(blobToEmbedding(row.embedding), SIMILAR_MEMORIES_CONFIG.SIMILARITY_THRESHOLD, {
+    excludeNoteIds: [noteId, ...excludeIds],
+  })).slice(0, SIMILAR_MEMORIES_CONFIG.MAX_SUGGESTIONS)
+
+  const suggestions = await Promise.all(
+    matches.map(async (match) => {
+      const note = await getNoteById(match.noteId)
+      return note ? { note, score: match.score } : null
+    })
+  )
+  return suggestions.filter((suggestion): suggestion is SimilarMemory => suggestion !== null)
+}
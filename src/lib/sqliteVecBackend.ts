@@ -0,0 +1,195 @@
+/* This module is the sqlite-vec retrieval backend: embeddings are copied into a vec0 virtual table inside the database, and nearest-neighbour search (with the trash/tag/date filters applied inside it) and passage selection all run in SQL. The table is a derived index, rebuilt from the embedding tables whenever it is missing or its vector size no longer matches, so it is created here rather than in a migration */
+
+import { type DB } from '@op-engineering/op-sqlite'
+import { getDatabaseInstance } from '../database'
+import { retrievalFilterSql } from '../database/retrievalOperations'
+import { type RetrievalBackend, type SimilarNote } from './retrievalBackend'
+import { currentModelSql } from './embeddingModel'
+
+const VEC_CONFIG = {
+  TABLE: 'vec_note_vectors',
+  CANDIDATES: 200,               // Nearest vectors fetched first; widened while they all pass the threshold
+  MAX_CANDIDATES: 4096,          // sqlite-vec's limit on k; past it the search scans every vector
+}
+
+const currentModel = currentModelSql()
+const currentImageModel = currentModelSql('ie')
+
+// Rows copied into the vec0 table, per kind of embedding; the parameters are the vector size then the current model's
+const SOURCE_QUERIES = {
+  note: `SELECT embedding, noteId, 'note' AS kind, noteId AS sourceId FROM note_embeddings WHERE status = 'completed' AND embeddingDimensions = ? AND ${currentModel.sql}`,
+  chunk: `SELECT embedding, noteId, 'chunk' AS kind, id AS sourceId FROM note_chunks WHERE status = 'completed' AND embeddingDimensions = ? AND ${currentModel.sql}`,
+  image: `SELECT ie.embedding, i.noteId, 'image' AS kind, ie.imageId AS sourceId
+          FROM image_embeddings ie
+          JOIN images i ON ie.imageId = i.id
+          WHERE ie.status = 'completed' AND ie.embeddingDimensions = ? AND ${currentImageModel.sql}`,
+}
+
+const NOTE_FILTERS = {
+  note: 'noteId = ?',
+  chunk: 'noteId = ?',
+  image: 'i.noteId = ?',
+}
+
+const placeholders = (values: unknown[]) => values.map(() => '?').join(', ')
+
+// Whether the sqlite-vec extension was compiled in, per database connection
+let checked: { db: DB; available: boolean } | null = null
+
+/* The query vector as the little-endian float32 blob sqlite-vec reads */
+const toBlob = (vector: Float32Array) => new Uint8Array(Float32Array.from(vector).buffer)
+
+/* Vector size of the vec0 table, or null when it doesn't exist */
+async function getTableDimensions(db: DB): Promise<number | null> {
+  const result = await db.execute('SELECT sql FROM sqlite_master WHERE name = ?', [VEC_CONFIG.TABLE])
+  const sql = result.rows?.[0]?.sql
+  const match = typeof sql === 'string' ? /float\[(\d+)\]/.exec(sql) : null
+  return match ? Number(match[1]) : null
+}
+
+/* (Re)create the vec0 table for vectors of the given size and fill it from the embedding tables */
+async function buildTable(db: DB, dimensions: number): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx.execute(`DROP TABLE IF EXISTS ${VEC_CONFIG.TABLE}`)
+    // noteId and kind are metadata columns (filterable in KNN queries); sourceId is only carried along
+    await tx.execute(
+      `CREATE VIRTUAL TABLE ${VEC_CONFIG.TABLE} USING vec0(
+        embedding float[${dimensions}] distance_metric=cosine,
+        noteId integer,
+        kind text,
+        +sourceId integer
+      )`
+    )
+    for (const query of Object.values(SOURCE_QUERIES)) {
+      await tx.execute(`INSERT INTO ${VEC_CONFIG.TABLE} (embedding, noteId, kind, sourceId) ${query}`, [dimensions, ...currentModel.params])
+    }
+  })
+}
+
+/* Make sure the vec0 table holds vectors of the query's size */
+async function ensureTable(db: DB, dimensions: number): Promise<void> {
+  if ((await getTableDimensions(db)) !== dimensions) {
+    // A query of another size comes from a different embedding model than the one the table was built for
+    await buildTable(db, dimensions)
+  }
+}
+
+/* Retrieval backend searching vec0 tables with op-sqlite's sqlite-vec extension */
+export const sqliteVecRetrievalBackend: RetrievalBackend = {
+  name: 'sqliteVec',
+
+  async isAvailable() {
+    const db = getDatabaseInstance()
+    if (checked?.db !== db) {
+      let available = false
+      try {
+        await db.execute('SELECT vec_version()')
+        available = true
+      } catch (error) {
+        // Built without "sqliteVec" in the op-sqlite config
+      }
+      checked = { db, available }
+    }
+    return checked.available
+  },
+
+  async findSimilarNotes(queryEmbedding, threshold, filter = {}) {
+    const db = getDatabaseInstance()
+    await ensureTable(db, queryEmbedding.length)
+
+    const query = toBlob(queryEmbedding)
+    const { sql, params } = retrievalFilterSql(filter)
+    // Cosine distance is 1 - similarity
+    const maxDistance = 1 - threshold
+
+    // The note filters run inside the KNN search (noteId is a metadata column), so the k nearest vectors all belong
+    // to notes that may be returned. k grows until the farthest of them falls below the threshold, like the exact search
+    const notesSql = `noteId IN (SELECT n.id FROM notes n WHERE ${sql})`
+    let rows: Array<{ noteId: number; kind: string; distance: number }> = []
+    for (let k = VEC_CONFIG.CANDIDATES; ; k = Math.min(k * 4, VEC_CONFIG.MAX_CANDIDATES)) {
+      const result = await db.execute(
+        `SELECT noteId, kind, distance
+         FROM ${VEC_CONFIG.TABLE}
+         WHERE embedding MATCH ? AND k = ? AND ${notesSql}
+         ORDER BY distance`,
+        [query, k, ...params]
+      )
+      rows = (result.rows || []) as unknown as typeof rows
+      if (rows.length < k || rows[rows.length - 1].distance > maxDistance) {
+        break
+      }
+      if (k === VEC_CONFIG.MAX_CANDIDATES) {
+        // More vectors pass the threshold than one KNN query can return: compare against every vector instead
+        const exact = await db.execute(
+          `SELECT noteId, kind, distance FROM (
+             SELECT noteId, kind, vec_distance_cosine(embedding, ?) AS distance
+             FROM ${VEC_CONFIG.TABLE}
+             WHERE ${notesSql}
+           )
+           WHERE distance <= ?
+           ORDER BY distance`,
+          [query, ...params, maxDistance]
+        )
+        rows = (exact.rows || []) as unknown as typeof rows
+        break
+      }
+    }
+
+    // Best match per note; rows come sorted, so the first one seen for a note is its best
+    const noteMatches = new Map<number, SimilarNote>()
+    for (const row of rows) {
+      if (row.distance > maxDistance) {
+        break
+      }
+      if (!noteMatches.has(row.noteId)) {
+        noteMatches.set(row.noteId, { noteId: row.noteId, score: 1 - row.distance, matchType: row.kind === 'image' ? 'image' : 'text' })
+      }
+    }
+    if (noteMatches.size === 0) {
+      return []
+    }
+
+    // Each matched note's closest passage, whatever matched it
+    const noteIds = Array.from(noteMatches.keys())
+    const chunkResult = await db.execute(
+      `SELECT noteId, text FROM (
+         SELECT noteId, text, ROW_NUMBER() OVER (PARTITION BY noteId ORDER BY vec_distance_cosine(embedding, ?)) AS position
+         FROM note_chunks
+         WHERE status = 'completed' AND embeddingDimensions = ? AND ${currentModel.sql} AND noteId IN (${placeholders(noteIds)})
+       )
+       WHERE position = 1`,
+      [query, queryEmbedding.length, ...currentModel.params, ...noteIds]
+    )
+    const chunks = new Map(((chunkResult.rows || []) as unknown as Array<{ noteId: number; text: string }>).map(row => [row.noteId, row.text]))
+
+    return Array.from(noteMatches.values()).map(match => ({ ...match, chunk: chunks.get(match.noteId) }))
+  },
+
+  async refreshNote(noteId) {
+    if (!(await sqliteVecRetrievalBackend.isAvailable())) {
+      return
+    }
+    const db = getDatabaseInstance()
+    const dimensions = await getTableDimensions(db)
+    if (dimensions === null) {
+      return // Built on first search
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.execute(`DELETE FROM ${VEC_CONFIG.TABLE} WHERE noteId = ?`, [noteId])
+      for (const [kind, query] of Object.entries(SOURCE_QUERIES)) {
+        await tx.execute(
+          `INSERT INTO ${VEC_CONFIG.TABLE} (embedding, noteId, kind, sourceId) ${query} AND ${NOTE_FILTERS[kind as keyof typeof NOTE_FILTERS]}`,
+          [dimensions, ...currentModel.params, noteId]
+        )
+      }
+    })
+  },
+
+  async release() {
+    if (!(await sqliteVecRetrievalBackend.isAvailable())) {
+      return
+    }
+    await getDatabaseInstance().execute(`DROP TABLE IF EXISTS ${VEC_CONFIG.TABLE}`)
+  },
+}
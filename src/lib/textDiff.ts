@@ -0,0 +1,96 @@
+/* This module computes word-level differences between two versions of a note, for the revision history view */
+
+export type DiffPartType = 'same' | 'added' | 'removed'
+
+export interface DiffPart {
+  type: DiffPartType
+  text: string
+}
+
+// Above this many word pairs the LCS table gets too large for a phone; fall back to a whole-text replacement
+const MAX_DIFF_CELLS = 4_000_000
+
+/* Split text into words and the whitespace between them, so joining the tokens gives the text back */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token.length > 0)
+}
+
+/* Append a token, merging it into the previous part when the type matches */
+function pushPart(parts: DiffPart[], type: DiffPartType, text: string): void {
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    parts.push({ type, text })
+  }
+}
+
+/**
+ * Diff two texts word by word using the longest common subsequence.
+ * Returns parts in reading order; "removed" text is only in `before`, "added" only in `after`.
+ * @param before - Older text
+ * @param after - Newer text
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  if (before === after) {
+    return before ? [{ type: 'same', text: before }] : []
+  }
+
+  const a = tokenize(before)
+  const b = tokenize(after)
+  const parts: DiffPart[] = []
+
+  // Common prefix and suffix need no table
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    pushPart(parts, 'same', a[start])
+    start++
+  }
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const rows = endA - start
+  const cols = endB - start
+  if (rows * cols > MAX_DIFF_CELLS) {
+    if (rows > 0) pushPart(parts, 'removed', a.slice(start, endA).join(''))
+    if (cols > 0) pushPart(parts, 'added', b.slice(start, endB).join(''))
+  } else {
+    // lcs[i * (cols + 1) + j] = LCS length of a[start + i..endA) and b[start + j..endB)
+    const width = cols + 1
+    const lcs = new Uint32Array((rows + 1) * width)
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[start + i] === b[start + j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < rows && j < cols) {
+      if (a[start + i] === b[start + j]) {
+        pushPart(parts, 'same', a[start + i])
+        i++
+        j++
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        pushPart(parts, 'removed', a[start + i])
+        i++
+      } else {
+        pushPart(parts, 'added', b[start + j])
+        j++
+      }
+    }
+    for (; i < rows; i++) pushPart(parts, 'removed', a[start + i])
+    for (; j < cols; j++) pushPart(parts, 'added', b[start + j])
+  }
+
+  for (let k = endA; k < a.length; k++) {
+    pushPart(parts, 'same', a[k])
+  }
+  return parts
+}
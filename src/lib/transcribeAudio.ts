@@ -0,0 +1,82 @@
+/* This module transcribes voice notes on-device with the speech (whisper) model. Transcripts are made in the background pipeline, before embeddings, so chat, search and quizzes can use what was said */
+
+import { getNoteById } from '../database/notesOperations'
+import { getTranscript, saveTranscript } from '../database/transcriptsOperations'
+import { type TranscriptSegment } from '../database/types'
+import ModelManager from '../model/ModelManager'
+import { displayUri } from './mediaStore'
+
+const TRANSCRIPTION_CONFIG = {
+  LANGUAGE: 'auto',              // Detect the spoken language
+  MAX_THREADS: 2,
+  TIME_UNIT_MS: 10,              // whisper.cpp reports segment times in 10 ms steps
+}
+
+// Markers whisper emits for non-speech, e.g. "[BLANK_AUDIO]" or "(music)"
+const NON_SPEECH_PATTERN = /^[[(][^\])]*[\])]$/
+
+/* The speech model only reads WAV files; other recordings (e.g. AAC voice notes made on Android before it recorded WAV) can't be transcribed */
+function isTranscribable(uri: string): boolean {
+  return /\.wav$/i.test(uri)
+}
+
+// The speech context runs one transcription at a time, so jobs are chained
+let queue: Promise<void> = Promise.resolve()
+
+/* Transcribe a note's recording unless the current recording already has a transcript */
+async function transcribe(noteId: number): Promise<void> {
+  const note = await getNoteById(noteId)
+  if (!note?.audioUri) {
+    return
+  }
+  const audioUri = note.audioUri
+
+  try {
+    const existing = await getTranscript(noteId)
+    if (existing && existing.audioUri === audioUri && existing.status !== 'failed') {
+      return
+    }
+    if (!isTranscribable(audioUri)) {
+      await saveTranscript(noteId, audioUri, 'unsupported')
+      return
+    }
+
+    const context = ModelManager.getSpeechContext()
+    if (!context) {
+      return
+    }
+
+    const { promise } = context.transcribe(displayUri(audioUri), {
+      language: TRANSCRIPTION_CONFIG.LANGUAGE,
+      maxThreads: TRANSCRIPTION_CONFIG.MAX_THREADS,
+    })
+    const result = await promise
+    if (result.isAborted) {
+      return
+    }
+
+    const segments: TranscriptSegment[] = result.segments
+      .map((segment) => ({
+        start: segment.t0 * TRANSCRIPTION_CONFIG.TIME_UNIT_MS,
+        end: segment.t1 * TRANSCRIPTION_CONFIG.TIME_UNIT_MS,
+        text: segment.text.trim(),
+      }))
+      .filter((segment) => segment.text.length > 0 && !NON_SPEECH_PATTERN.test(segment.text))
+    await saveTranscript(noteId, audioUri, 'completed', segments, result.language || null)
+  } catch (error) {
+    try {
+      await saveTranscript(noteId, audioUri, 'failed')
+    } catch (saveError) {
+      // Ignore save error
+    }
+  }
+}
+
+/* Queue transcription of a note's voice recording. Resolves once it is done; never throws */
+export function transcribeNoteAudio(noteId: number): Promise<void> {
+  const job = queue.then(() => transcribe(noteId)).catch(() => {
+    // Silent fail; background task
+  })
+  queue = job
+  return job
+}
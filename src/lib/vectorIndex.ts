@@ -0,0 +1,218 @@
+/* This module is an in-memory vector index: unit-length vectors packed into one contiguous Float32Array, so scoring a query is a dot product per row instead of decoding a blob and computing a cosine. It has no app or database imports so it can be benchmarked in Node (scripts/benchmarkVectorIndex.mjs) */
+
+export interface VectorSearchOptions<T> {
+  topK?: number                  // Keep only the best K hits (default: all above threshold)
+  threshold?: number             // Minimum cosine similarity (default: no minimum)
+  filter?: (entry: T) => boolean // Skip rows whose entry doesn't pass
+}
+
+export interface VectorHit<T> {
+  key: string
+  entry: T
+  score: number // Cosine similarity with the query
+}
+
+/* Convert Uint8Array blob back to Float32Array */
+export function blobToEmbedding(blob: unknown): Float32Array {
+  if (blob instanceof Uint8Array) {
+    return new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4)
+  }
+  if (blob instanceof ArrayBuffer) {
+    return new Float32Array(blob)
+  }
+  if (
+    typeof blob === 'object' &&
+    blob !== null &&
+    'buffer' in blob &&
+    'byteOffset' in blob &&
+    'byteLength' in blob
+  ) {
+    const b = blob as { buffer: ArrayBuffer; byteOffset: number; byteLength: number }
+    return new Float32Array(b.buffer, b.byteOffset, b.byteLength / 4)
+  }
+  throw new Error('Unsupported blob type')
+}
+
+/* Copy a vector into target at offset, scaled to unit length (a zero vector stays zero) */
+function writeNormalized(vector: ArrayLike<number>, target: Float32Array, offset: number): void {
+  let norm = 0
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i]
+  }
+  const scale = norm > 0 ? 1 / Math.sqrt(norm) : 0
+  for (let i = 0; i < vector.length; i++) {
+    target[offset + i] = vector[i] * scale
+  }
+}
+
+/* Dot product of a query with the row at offset, unrolled by four to split the running sum */
+function dot(query: Float32Array, data: Float32Array, offset: number): number {
+  const length = query.length
+  let s0 = 0
+  let s1 = 0
+  let s2 = 0
+  let s3 = 0
+  let i = 0
+  for (; i + 3 < length; i += 4) {
+    s0 += query[i] * data[offset + i]
+    s1 += query[i + 1] * data[offset + i + 1]
+    s2 += query[i + 2] * data[offset + i + 2]
+    s3 += query[i + 3] * data[offset + i + 3]
+  }
+  for (; i < length; i++) {
+    s0 += query[i] * data[offset + i]
+  }
+  return s0 + s1 + s2 + s3
+}
+
+/* Sift the heap's smallest score to the top after it was replaced (min-heap over slots, ordered by scores) */
+function siftDown(heap: number[], scores: Float32Array, start: number): void {
+  let parent = start
+  for (;;) {
+    const left = parent * 2 + 1
+    const right = left + 1
+    let smallest = parent
+    if (left < heap.length && scores[heap[left]] < scores[heap[smallest]]) smallest = left
+    if (right < heap.length && scores[heap[right]] < scores[heap[smallest]]) smallest = right
+    if (smallest === parent) return
+    ;[heap[parent], heap[smallest]] = [heap[smallest], heap[parent]]
+    parent = smallest
+  }
+}
+
+function siftUp(heap: number[], scores: Float32Array, start: number): void {
+  let child = start
+  while (child > 0) {
+    const parent = (child - 1) >> 1
+    if (scores[heap[parent]] <= scores[heap[child]]) return
+    ;[heap[parent], heap[child]] = [heap[child], heap[parent]]
+    child = parent
+  }
+}
+
+/**
+ * Vectors of one dimensionality, each stored under a string key with an entry describing what it belongs to.
+ * Rows stay packed: removing one moves the last row into its place.
+ */
+export class VectorIndex<T> {
+  readonly dimensions: number
+  private data: Float32Array
+  private keys: string[] = []
+  private entries: T[] = []
+  private slots = new Map<string, number>()
+  private scores: Float32Array
+
+  constructor(dimensions: number, initialCapacity: number = 256) {
+    const capacity = Math.max(1, initialCapacity)
+    this.dimensions = dimensions
+    this.data = new Float32Array(dimensions * capacity)
+    this.scores = new Float32Array(capacity)
+  }
+
+  get size(): number {
+    return this.keys.length
+  }
+
+  has(key: string): boolean {
+    return this.slots.has(key)
+  }
+
+  /* Add a vector, or replace the one already stored under the key */
+  upsert(key: string, vector: ArrayLike<number>, entry: T): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Expected a vector of ${this.dimensions} dimensions, got ${vector.length}`)
+    }
+
+    let slot = this.slots.get(key)
+    if (slot === undefined) {
+      slot = this.keys.length
+      if (slot === this.scores.length) {
+        this.grow()
+      }
+      this.keys.push(key)
+      this.entries.push(entry)
+      this.slots.set(key, slot)
+    } else {
+      this.entries[slot] = entry
+    }
+    writeNormalized(vector, this.data, slot * this.dimensions)
+  }
+
+  remove(key: string): void {
+    const slot = this.slots.get(key)
+    if (slot === undefined) {
+      return
+    }
+
+    const last = this.keys.length - 1
+    if (slot !== last) {
+      this.data.copyWithin(slot * this.dimensions, last * this.dimensions, (last + 1) * this.dimensions)
+      this.keys[slot] = this.keys[last]
+      this.entries[slot] = this.entries[last]
+      this.slots.set(this.keys[slot], slot)
+    }
+    this.keys.pop()
+    this.entries.pop()
+    this.slots.delete(key)
+  }
+
+  /* Remove every vector whose entry matches, e.g. all vectors of one note. Returns how many were removed */
+  removeWhere(predicate: (entry: T) => boolean): number {
+    const keys = this.keys.filter((_, slot) => predicate(this.entries[slot]))
+    for (const key of keys) {
+      this.remove(key)
+    }
+    return keys.length
+  }
+
+  /**
+   * Score every stored vector against the query and return the best hits, highest first.
+   * @param query - Query vector; it doesn't need to be normalised
+   */
+  search(query: ArrayLike<number>, options: VectorSearchOptions<T> = {}): VectorHit<T>[] {
+    if (query.length !== this.dimensions) {
+      throw new Error(`Expected a vector of ${this.dimensions} dimensions, got ${query.length}`)
+    }
+    const { topK = Infinity, threshold = -Infinity, filter } = options
+    if (topK <= 0) {
+      return []
+    }
+
+    const normalized = new Float32Array(this.dimensions)
+    writeNormalized(query, normalized, 0)
+
+    const { data, dimensions, scores } = this
+    const heap: number[] = [] // Slots of the best hits so far, weakest on top
+    for (let slot = 0; slot < this.keys.length; slot++) {
+      if (filter && !filter(this.entries[slot])) {
+        continue
+      }
+
+      const score = dot(normalized, data, slot * dimensions)
+      if (score < threshold) {
+        continue
+      }
+
+      scores[slot] = score
+      if (heap.length < topK) {
+        heap.push(slot)
+        siftUp(heap, scores, heap.length - 1)
+      } else if (score > scores[heap[0]]) {
+        heap[0] = slot
+        siftDown(heap, scores, 0)
+      }
+    }
+
+    return heap
+      .sort((a, b) => scores[b] - scores[a])
+      .map((slot) => ({ key: this.keys[slot], entry: this.entries[slot], score: scores[slot] }))
+  }
+
+  private grow(): void {
+    const capacity = this.scores.length * 2
+    const data = new Float32Array(this.dimensions * capacity)
+    data.set(this.data)
+    this.data = data
+    this.scores = new Float32Array(capacity)
+  }
+}
@@ -0,0 +1,122 @@
+/* This module records voice notes as 16 kHz mono 16-bit PCM WAV, the format the speech model reads, on platforms whose recorder can't write WAV (Android's MediaRecorder only writes compressed formats). Samples stream from the microphone and are appended to the file as they arrive; the header is written last, once the length is known */
+
+import LiveAudioStream from '@fugood/react-native-audio-pcm-stream'
+import { File, Paths, type FileHandle } from 'expo-file-system'
+
+const WAV_CONFIG = {
+  SAMPLE_RATE: 16000,            // What whisper.cpp expects
+  CHANNELS: 1,
+  BITS_PER_SAMPLE: 16,
+  AUDIO_SOURCE: 6,               // Android MediaRecorder.AudioSource.VOICE_RECOGNITION
+  BUFFER_SIZE: 4096,
+  HEADER_BYTES: 44,
+}
+
+const BYTES_PER_SECOND = WAV_CONFIG.SAMPLE_RATE * WAV_CONFIG.CHANNELS * (WAV_CONFIG.BITS_PER_SAMPLE / 8)
+
+let recording: { file: File; handle: FileHandle; dataBytes: number } | null = null
+
+/* Canonical 44-byte RIFF header for PCM data of the given length */
+function wavHeader(dataBytes: number): Uint8Array {
+  const header = new DataView(new ArrayBuffer(WAV_CONFIG.HEADER_BYTES))
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i))
+  }
+  writeText(0, 'RIFF')
+  header.setUint32(4, 36 + dataBytes, true)
+  writeText(8, 'WAVE')
+  writeText(12, 'fmt ')
+  header.setUint32(16, 16, true) // Size of the fmt chunk
+  header.setUint16(20, 1, true) // PCM
+  header.setUint16(22, WAV_CONFIG.CHANNELS, true)
+  header.setUint32(24, WAV_CONFIG.SAMPLE_RATE, true)
+  header.setUint32(28, BYTES_PER_SECOND, true)
+  header.setUint16(32, WAV_CONFIG.CHANNELS * (WAV_CONFIG.BITS_PER_SAMPLE / 8), true)
+  header.setUint16(34, WAV_CONFIG.BITS_PER_SAMPLE, true)
+  writeText(36, 'data')
+  header.setUint32(40, dataBytes, true)
+  return new Uint8Array(header.buffer)
+}
+
+/* Decode a base64 chunk from the audio stream */
+function decodeChunk(data: string): Uint8Array {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+/* Start a new recording in the cache folder; the note's save imports it into the media store */
+export function startWavRecording(): void {
+  if (recording) {
+    throw new Error('A recording is already running')
+  }
+  const file = new File(Paths.cache, `voice-note-${Date.now()}.wav`)
+  file.create()
+  const handle = file.open()
+  handle.writeBytes(wavHeader(0))
+  recording = { file, handle, dataBytes: 0 }
+
+  LiveAudioStream.init({
+    sampleRate: WAV_CONFIG.SAMPLE_RATE,
+    channels: WAV_CONFIG.CHANNELS,
+    bitsPerSample: WAV_CONFIG.BITS_PER_SAMPLE,
+    audioSource: WAV_CONFIG.AUDIO_SOURCE,
+    bufferSize: WAV_CONFIG.BUFFER_SIZE,
+  })
+  LiveAudioStream.on('data', (data: string) => {
+    if (!recording) return
+    const chunk = decodeChunk(data)
+    recording.handle.writeBytes(chunk)
+    recording.dataBytes += chunk.length
+  })
+  LiveAudioStream.start()
+}
+
+/* Stop listening to the microphone; resumeWavRecording() continues the same file */
+export function pauseWavRecording(): void {
+  void LiveAudioStream.stop()
+}
+
+export function resumeWavRecording(): void {
+  LiveAudioStream.start()
+}
+
+/* Length of the current recording so far */
+export function getWavRecordingMillis(): number {
+  return recording ? Math.floor((recording.dataBytes / BYTES_PER_SECOND) * 1000) : 0
+}
+
+/**
+ * Finish the current recording.
+ * @returns URI of the WAV file
+ */
+export async function stopWavRecording(): Promise<string> {
+  if (!recording) {
+    throw new Error('No recording is running')
+  }
+  await LiveAudioStream.stop()
+  const { file, handle, dataBytes } = recording
+  recording = null
+  try {
+    handle.offset = 0
+    handle.writeBytes(wavHeader(dataBytes))
+  } finally {
+    handle.close()
+  }
+  return file.uri
+}
+
+/* Stop and delete the current recording, if any (e.g. when the recording screen is closed) */
+export function discardWavRecording(): void {
+  if (!recording) return
+  const { file, handle } = recording
+  recording = null
+  void LiveAudioStream.stop()
+  try {
+    handle.close()
+    file.delete()
+  } catch (error) {
+    // Cache file, the OS clears it eventually
+  }
+}
@@ -1,14 +1,20 @@
 import { initLlama, LlamaContext } from "llama.rn"
-import { getRagModelPath, getEmbeddingModelPath, getRecallModelPath, checkModelsExist, downloadModels, type ProgressCallback} from "./modelStorage"
+// whisper.rn only exports subpaths, so the index is imported explicitly
+import { initWhisper, WhisperContext } from "whisper.rn/index"
+import { getRagModelPath, getEmbeddingModelPath, getRecallModelPath, getSpeechModelPath, getVisionModelPath, getVisionProjectorPath, checkModelsExist, checkVisionModelExists, downloadModels, downloadSpeechModel, type ProgressCallback} from "./modelStorage"
 
 class ModelManager {
   private static instance: ModelManager
   private ragContext: LlamaContext | null = null
   private embeddingContext: LlamaContext | null = null
   private recallContext: LlamaContext | null = null
+  private visionContext: LlamaContext | null = null
+  private speechContext: WhisperContext | null = null
   private ragLoaded: boolean = false
   private embeddingLoaded: boolean = false
   private recallLoaded: boolean = false
+  private visionLoaded: boolean = false
+  private speechLoaded: boolean = false
 
   private constructor() {}
 
@@ -67,6 +73,15 @@ class ModelManager {
       })
 
       instance.recallLoaded = true
+
+      // The speech and vision models are optional; the app works without them
+      if (progressCallback) progressCallback(85, "Loading speech model...")
+      await ModelManager.loadSpeechModel(progressCallback)
+
+      if (checkVisionModelExists()) {
+        if (progressCallback) progressCallback(90, "Loading vision model...")
+        await ModelManager.loadVisionModel()
+      }
       if (progressCallback) progressCallback(100, "Models ready!")
 
       return true
@@ -75,6 +90,68 @@ class ModelManager {
     }
   }
 
+  /* Load the optional speech model, downloading it first if needed (e.g. after an update that added it). Returns false if it can't be downloaded or fails to load */
+  static async loadSpeechModel(progressCallback?: ProgressCallback): Promise<boolean> {
+    const instance = ModelManager.getInstance()
+    if (instance.speechLoaded) {
+      return true
+    }
+
+    try {
+      if (!checkModelsExist().speech) {
+        await downloadSpeechModel(progressCallback)
+      }
+      instance.speechContext = await initWhisper({
+        filePath: getSpeechModelPath(),
+      })
+      instance.speechLoaded = true
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  /* Load the optional vision model and its multimodal projector. Returns false if it is not downloaded or fails to load */
+  static async loadVisionModel(): Promise<boolean> {
+    const instance = ModelManager.getInstance()
+    if (instance.visionLoaded) {
+      return true
+    }
+    if (!checkVisionModelExists()) {
+      return false
+    }
+
+    try {
+      const context = await initLlama({
+        model: getVisionModelPath(),
+        use_mlock: true,
+        n_ctx: 4096, // Image tokens take up a large part of the context
+        n_gpu_layers: 0,
+        ctx_shift: false,
+      })
+      const multimodal = await context.initMultimodal({ path: getVisionProjectorPath(), use_gpu: false })
+      if (!multimodal) {
+        await context.release()
+        return false
+      }
+      instance.visionContext = context
+      instance.visionLoaded = true
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  static async unloadVisionModel(): Promise<void> {
+    const instance = ModelManager.getInstance()
+    if (instance.visionContext) {
+      await instance.visionContext.releaseMultimodal()
+      await instance.visionContext.release()
+      instance.visionContext = null
+      instance.visionLoaded = false
+    }
+  }
+
   static getRagContext(): LlamaContext | null {
     return ModelManager.getInstance().ragContext
   }
@@ -91,6 +168,14 @@ class ModelManager {
     return ModelManager.getInstance().recallContext
   }
 
+  static getVisionContext(): LlamaContext | null {
+    return ModelManager.getInstance().visionContext
+  }
+
+  static getSpeechContext(): WhisperContext | null {
+    return ModelManager.getInstance().speechContext
+  }
+
   static isRagReady(): boolean {
     return ModelManager.getInstance().ragLoaded
   }
@@ -107,6 +192,14 @@ class ModelManager {
     return ModelManager.getInstance().recallLoaded
   }
 
+  static isSpeechReady(): boolean {
+    return ModelManager.getInstance().speechLoaded
+  }
+
+  static isVisionReady(): boolean {
+    return ModelManager.getInstance().visionLoaded
+  }
+
   static async unloadAll(): Promise<void> {
     const instance = ModelManager.getInstance()
 
@@ -127,6 +220,14 @@ class ModelManager {
       instance.recallContext = null
       instance.recallLoaded = false
     }
+
+    if (instance.speechContext) {
+      await instance.speechContext.release()
+      instance.speechContext = null
+      instance.speechLoaded = false
+    }
+
+    await ModelManager.unloadVisionModel()
   }
 }
 
@@ -4,33 +4,89 @@ import * as FileSystem from "expo-file-system/legacy"
 const RAG_MODEL_URL = "https://huggingface.co/anaumghori/MemoriQ-1-rag-model/resolve/main/LFM2-350M.Q5_1.gguf"
 const EMBEDDING_MODEL_URL = "https://huggingface.co/unsloth/embeddinggemma-300m-GGUF/resolve/main/embeddinggemma-300m-Q4_0.gguf"
 const RECALL_MODEL_URL = "https://huggingface.co/Qwen/Qwen3-0.6B-GGUF/resolve/main/Qwen3-0.6B-Q8_0.gguf"
+const SPEECH_MODEL_URL = "https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-base-q5_1.bin"
+// Optional vision model (language model + multimodal projector) for describing photos
+const VISION_MODEL_URL = "https://huggingface.co/ggml-org/SmolVLM-256M-Instruct-GGUF/resolve/main/SmolVLM-256M-Instruct-Q8_0.gguf"
+const VISION_PROJECTOR_URL = "https://huggingface.co/ggml-org/SmolVLM-256M-Instruct-GGUF/resolve/main/mmproj-SmolVLM-256M-Instruct-Q8_0.gguf"
 
 const RAG_MODEL_NAME = "LFM2-350M.Q5_1.gguf"
 const EMBEDDING_MODEL_NAME = "embeddinggemma-300m-Q4_0.gguf"
 const RECALL_MODEL_NAME = "Qwen3-0.6B-Q8_0.gguf"
+const SPEECH_MODEL_NAME = "ggml-base-q5_1.bin"
+const VISION_MODEL_NAME = "SmolVLM-256M-Instruct-Q8_0.gguf"
+const VISION_PROJECTOR_NAME = "mmproj-SmolVLM-256M-Instruct-Q8_0.gguf"
+
+/**
+ * Identifies the vectors the embedding model produces; every stored embedding records it.
+ * Bump the version when the model file, or how text is prepared for it, changes: existing embeddings are then re-indexed.
+ */
+export const EMBEDDING_MODEL = {
+  id: EMBEDDING_MODEL_NAME,
+  version: 1,
+  dimensions: 768,
+}
 
 const RAG_MODEL_SIZE_MB = 273
 const EMBEDDING_MODEL_SIZE_MB = 278
 const RECALL_MODEL_SIZE_MB = 639
+const SPEECH_MODEL_SIZE_MB = 57
+const VISION_MODEL_SIZE_MB = 175
+const VISION_PROJECTOR_SIZE_MB = 104
 
 const modelDir = new Directory(Paths.document, "models")
 const ragModelFile = new File(modelDir, RAG_MODEL_NAME)
 const embeddingModelFile = new File(modelDir, EMBEDDING_MODEL_NAME)
 const recallModelFile = new File(modelDir, RECALL_MODEL_NAME)
+const speechModelFile = new File(modelDir, SPEECH_MODEL_NAME)
+const visionModelFile = new File(modelDir, VISION_MODEL_NAME)
+const visionProjectorFile = new File(modelDir, VISION_PROJECTOR_NAME)
+
+interface ModelDownload {
+  url: string
+  file: File
+  name: string
+  sizeMB: number
+}
 
 export type ProgressCallback = (progress: number, status: string) => void
 export const getRagModelPath = (): string => ragModelFile.uri
 export const getEmbeddingModelPath = (): string => embeddingModelFile.uri
 export const getRecallModelPath = (): string => recallModelFile.uri
-export const checkModelsExist = (): { rag: boolean; embedding: boolean; recall: boolean } => {
+export const getSpeechModelPath = (): string => speechModelFile.uri
+export const getVisionModelPath = (): string => visionModelFile.uri
+export const getVisionProjectorPath = (): string => visionProjectorFile.uri
+export const checkModelsExist = (): { rag: boolean; embedding: boolean; recall: boolean; speech: boolean } => {
   try {
     return {
       rag: ragModelFile.exists,
       embedding: embeddingModelFile.exists,
       recall: recallModelFile.exists,
+      speech: speechModelFile.exists,
+    }
+  } catch (error) {
+    return { rag: false, embedding: false, recall: false, speech: false }
+  }
+}
+
+/* The vision model is optional: it is only used when both of its files are present */
+export const checkVisionModelExists = (): boolean => {
+  try {
+    return visionModelFile.exists && visionProjectorFile.exists
+  } catch (error) {
+    return false
+  }
+}
+
+export const deleteVisionModel = (): void => {
+  try {
+    if (visionModelFile.exists) {
+      visionModelFile.delete()
+    }
+    if (visionProjectorFile.exists) {
+      visionProjectorFile.delete()
     }
   } catch (error) {
-    return { rag: false, embedding: false, recall: false }
+    // Silently handle errors in production
   }
 }
 
@@ -45,92 +101,159 @@ export const deleteAllModels = (): void => {
     if (recallModelFile.exists) {
       recallModelFile.delete()
     }
+    if (speechModelFile.exists) {
+      speechModelFile.delete()
+    }
   } catch (error) {
     // Silently handle errors in production
   }
+  deleteVisionModel()
 }
 
-export const downloadModels = async (onProgress?: ProgressCallback): Promise<void> => {
-  try {
-    if (!modelDir.exists) {
-      modelDir.create({ intermediates: true })
-    }
+/* Download the given files one after another, skipping ones already on disk and reporting overall progress */
+const downloadFiles = async (filesToDownload: ModelDownload[], onProgress?: ProgressCallback): Promise<void> => {
+  if (!modelDir.exists) {
+    modelDir.create({ intermediates: true })
+  }
 
-    const filesToDownload = [
-      {
-        url: RAG_MODEL_URL,
-        file: ragModelFile,
-        name: "RAG Model",
-        sizeMB: RAG_MODEL_SIZE_MB,
-      },
-      {
-        url: EMBEDDING_MODEL_URL,
-        file: embeddingModelFile,
-        name: "Embedding Model",
-        sizeMB: EMBEDDING_MODEL_SIZE_MB,
-      },
-      {
-        url: RECALL_MODEL_URL,
-        file: recallModelFile,
-        name: "Recall Model",
-        sizeMB: RECALL_MODEL_SIZE_MB,
-      },
-    ]
-
-    let totalSize = 0
-    let downloadedSize = 0
-
-    for (const fileInfo of filesToDownload) {
-      totalSize += fileInfo.sizeMB * 1024 * 1024
-    }
+  let totalSize = 0
+  let downloadedSize = 0
 
-    for (const fileInfo of filesToDownload) {
-      if (fileInfo.file.exists) {
-        downloadedSize += fileInfo.sizeMB * 1024 * 1024
+  for (const fileInfo of filesToDownload) {
+    totalSize += fileInfo.sizeMB * 1024 * 1024
+  }
 
-        if (onProgress) {
-          const overallProgress = Math.round((downloadedSize / totalSize) * 100)
-          onProgress(overallProgress, `${fileInfo.name} already downloaded`)
-        }
-        continue
-      }
+  for (const fileInfo of filesToDownload) {
+    if (fileInfo.file.exists) {
+      downloadedSize += fileInfo.sizeMB * 1024 * 1024
 
       if (onProgress) {
         const overallProgress = Math.round((downloadedSize / totalSize) * 100)
-        onProgress(overallProgress, `Downloading ${fileInfo.name}...`)
+        onProgress(overallProgress, `${fileInfo.name} already downloaded`)
       }
+      continue
+    }
 
-      const downloadResumable = FileSystem.createDownloadResumable(
-        fileInfo.url,
-        fileInfo.file.uri,
-        {},
-        (downloadProgress) => {
-          const { totalBytesWritten, totalBytesExpectedToWrite } = downloadProgress
-          const currentFileProgress = totalBytesWritten
-          const overallProgress = ((downloadedSize + currentFileProgress) / totalSize) * 100
-
-          if (onProgress) {
-            onProgress(
-              Math.round(overallProgress),
-              `Downloading ${fileInfo.name}... ${Math.round((currentFileProgress / totalBytesExpectedToWrite) * 100)}%`
-            )
-          }
-        }
-      )
+    if (onProgress) {
+      const overallProgress = Math.round((downloadedSize / totalSize) * 100)
+      onProgress(overallProgress, `Downloading ${fileInfo.name}...`)
+    }
 
-      const result = await downloadResumable.downloadAsync()
+    const downloadResumable = FileSystem.createDownloadResumable(
+      fileInfo.url,
+      fileInfo.file.uri,
+      {},
+      (downloadProgress) => {
+        const { totalBytesWritten, totalBytesExpectedToWrite } = downloadProgress
+        const currentFileProgress = totalBytesWritten
+        const overallProgress = ((downloadedSize + currentFileProgress) / totalSize) * 100
 
-      if (!result) {
-        throw new Error(`Download failed for ${fileInfo.name}`)
+        if (onProgress) {
+          onProgress(
+            Math.round(overallProgress),
+            `Downloading ${fileInfo.name}... ${Math.round((currentFileProgress / totalBytesExpectedToWrite) * 100)}%`
+          )
+        }
       }
+    )
 
-      downloadedSize += fileInfo.sizeMB * 1024 * 1024
+    const result = await downloadResumable.downloadAsync()
+
+    if (!result) {
+      throw new Error(`Download failed for ${fileInfo.name}`)
     }
 
+    downloadedSize += fileInfo.sizeMB * 1024 * 1024
+  }
+}
+
+export const downloadModels = async (onProgress?: ProgressCallback): Promise<void> => {
+  try {
+    await downloadFiles(
+      [
+        {
+          url: RAG_MODEL_URL,
+          file: ragModelFile,
+          name: "RAG Model",
+          sizeMB: RAG_MODEL_SIZE_MB,
+        },
+        {
+          url: EMBEDDING_MODEL_URL,
+          file: embeddingModelFile,
+          name: "Embedding Model",
+          sizeMB: EMBEDDING_MODEL_SIZE_MB,
+        },
+        {
+          url: RECALL_MODEL_URL,
+          file: recallModelFile,
+          name: "Recall Model",
+          sizeMB: RECALL_MODEL_SIZE_MB,
+        },
+      ],
+      onProgress
+    )
+
     if (onProgress) {
       onProgress(100, "All models downloaded")
     }
   } catch (error) {
     throw error
   }
-}
\ No newline at end of file
+}
+
+/* The speech model is optional like the vision model: without it, voice notes are kept but not transcribed */
+export const downloadSpeechModel = async (onProgress?: ProgressCallback): Promise<void> => {
+  try {
+    await downloadFiles(
+      [
+        {
+          url: SPEECH_MODEL_URL,
+          file: speechModelFile,
+          name: "Speech Model",
+          sizeMB: SPEECH_MODEL_SIZE_MB,
+        },
+      ],
+      onProgress
+    )
+  } catch (error) {
+    // A partial file would never load; the next launch downloads it again
+    try {
+      if (speechModelFile.exists) {
+        speechModelFile.delete()
+      }
+    } catch (deleteError) {
+      // Silently handle errors in production
+    }
+    throw error
+  }
+}
+
+export const downloadVisionModel = async (onProgress?: ProgressCallback): Promise<void> => {
+  try {
+    await downloadFiles(
+      [
+        {
+          url: VISION_MODEL_URL,
+          file: visionModelFile,
+          name: "Vision Model",
+          sizeMB: VISION_MODEL_SIZE_MB,
+        },
+        {
+          url: VISION_PROJECTOR_URL,
+          file: visionProjectorFile,
+          name: "Vision Projector",
+          sizeMB: VISION_PROJECTOR_SIZE_MB,
+        },
+      ],
+      onProgress
+    )
+
+    if (onProgress) {
+      onProgress(100, "Vision model downloaded")
+    }
+  } catch (error) {
+    // Don't leave a half-downloaded pair behind, it would never load
+    deleteVisionModel()
+    throw error
+  }
+}
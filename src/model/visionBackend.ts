@@ -0,0 +1,55 @@
+import ModelManager from "./ModelManager"
+
+export interface DescribeImageOptions {
+  systemPrompt: string
+  maxTokens: number
+  temperature: number
+}
+
+/**
+ * Something that can describe a photo in words.
+ * The app uses the local vision model; tests and development builds can swap in a fake with setVisionBackend.
+ */
+export interface VisionBackend {
+  isReady(): boolean
+  // imageUri is a file:// URI readable by the backend
+  describeImage(imageUri: string, options: DescribeImageOptions): Promise<string>
+}
+
+/* Vision backend running the optional multimodal GGUF model loaded by ModelManager */
+const llamaVisionBackend: VisionBackend = {
+  isReady: () => ModelManager.isVisionReady(),
+
+  async describeImage(imageUri, options) {
+    const context = ModelManager.getVisionContext()
+    if (!context) {
+      throw new Error("Vision model not loaded")
+    }
+
+    const result = await context.completion({
+      messages: [
+        { role: "system", content: options.systemPrompt },
+        {
+          role: "user",
+          content: [
+            { type: "image_url", image_url: { url: imageUri } },
+            { type: "text", text: "Describe this photo." },
+          ],
+        },
+      ],
+      n_predict: options.maxTokens,
+      temperature: options.temperature,
+      stop: ["</s>", "<end_of_utterance>", "<|im_end|>", "<|eot_id|>"],
+    })
+    return result.text.trim()
+  },
+}
+
+let activeBackend: VisionBackend = llamaVisionBackend
+
+export const getVisionBackend = (): VisionBackend => activeBackend
+
+/* Replace the vision backend, e.g. with a fake that returns canned descriptions. Pass null to restore the local model */
+export const setVisionBackend = (backend: VisionBackend | null): void => {
+  activeBackend = backend ?? llamaVisionBackend
+}